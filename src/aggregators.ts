@@ -5,6 +5,7 @@
  * http://oss.oracle.com/licenses/upl.
  */
 
+import { comparator } from './comparators'
 import { extractor, Extractors } from './extractors'
 import { filter } from './filters'
 import { MapEntry } from './named-cache-client'
@@ -68,6 +69,38 @@ export namespace aggregator {
     andThen(aggregator: EntryAggregator<K, V, R>): EntryAggregator<K, V, R> {
       return new CompositeAggregator([this, aggregator])
     }
+
+    /**
+     * Aggregate the passed entries locally, without a round trip to the server.
+     * The result takes the same form as the result of aggregating the entries
+     * of a {@link NamedMap}.
+     *
+     * @param entries  the entries to aggregate
+     *
+     * @return the result of the aggregation
+     * @throws Error if this aggregator does not support local evaluation
+     */
+    aggregate (entries: Iterable<MapEntry<K, V>>): any {
+      return util.unsupportedLocally(this)
+    }
+
+    /**
+     * Return the non-`null` values extracted from the passed entries.
+     *
+     * @param entries  the entries to extract values from
+     *
+     * @return the extracted values
+     */
+    protected extractAll (entries: Iterable<MapEntry<K, V>>): any[] {
+      const values = []
+      for (const entry of entries) {
+        const value = this.extractor ? this.extractor.extract(entry.value) : entry.value
+        if (value != null) {
+          values.push(value)
+        }
+      }
+      return values
+    }
   }
 
   /**
@@ -150,6 +183,14 @@ export namespace aggregator {
     constructor (extractorOrProperty: extractor.ValueExtractor | string) {
       super(aggregatorName('BigDecimalAverage'), extractorOrProperty)
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<any, any>>): number | null {
+      const values = this.extractAll(entries)
+      return values.length == 0 ? null : values.reduce((sum, v) => sum + Number(v), 0) / values.length
+    }
   }
 
   /**
@@ -178,6 +219,14 @@ export namespace aggregator {
         throw new Error('no aggregators provided')
       }
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<K, V>>): Array<any> {
+      const list = Array.from(entries)
+      return this.aggregators.map(a => a.aggregate(list))
+    }
   }
 
   /**
@@ -192,6 +241,17 @@ export namespace aggregator {
     constructor () {
       super(aggregatorName('Count'))
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<K, V>>): number {
+      let count = 0
+      for (const _ of entries) {
+        count++
+      }
+      return count
+    }
   }
 
   /**
@@ -223,6 +283,17 @@ export namespace aggregator {
     constructor (extractorOrProperty: extractor.ValueExtractor | string) {
       super(aggregatorName('DistinctValues'), extractorOrProperty)
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<any, any>>): Array<any> {
+      const distinct = new Map<string, any>()
+      for (const value of this.extractAll(entries)) {
+        distinct.set(JSON.stringify(value), value)
+      }
+      return Array.from(distinct.values())
+    }
   }
 
   /**
@@ -293,6 +364,32 @@ export namespace aggregator {
       }
       this.filter = filter
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<K, V>>): Array<MapEntry<E, R>> {
+      const groups = new Map<string, { key: E, entries: MapEntry<K, V>[] }>()
+      for (const entry of entries) {
+        const key = this.extractor!.extract(entry.value)
+        const id = JSON.stringify(key)
+        let group = groups.get(id)
+        if (!group) {
+          group = { key, entries: [] }
+          groups.set(id, group)
+        }
+        group.entries.push(entry)
+      }
+
+      const results = new Array<MapEntry<E, R>>()
+      for (const group of groups.values()) {
+        const result = { key: group.key, value: this.aggregator.aggregate(group.entries) }
+        if (!this.filter || this.filter.evaluateEntry(result)) {
+          results.push(result)
+        }
+      }
+      return results
+    }
   }
 
   /**
@@ -317,6 +414,14 @@ export namespace aggregator {
     constructor (extractorOrProperty: extractor.ValueExtractor | string) {
       super(aggregatorName('ComparableMax'), extractorOrProperty)
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<any, any>>): any {
+      const values = this.extractAll(entries)
+      return values.length == 0 ? null : values.reduce((max, v) => util.compare(v, max) > 0 ? v : max)
+    }
   }
 
   /**
@@ -341,6 +446,14 @@ export namespace aggregator {
     constructor (extractorOrProperty: extractor.ValueExtractor | string) {
       super(aggregatorName('ComparableMin'), extractorOrProperty)
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<any, any>>): any {
+      const values = this.extractAll(entries)
+      return values.length == 0 ? null : values.reduce((min, v) => util.compare(v, min) < 0 ? v : min)
+    }
   }
 
   /**
@@ -452,6 +565,13 @@ export namespace aggregator {
     set requestTimeoutInMillis (timeout: number) {
       this._requestTimeout = timeout
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<K, V>>): any {
+      return this.aggregator.aggregate(entries)
+    }
   }
 
   /**
@@ -546,6 +666,17 @@ export namespace aggregator {
     constructor (extractorOrProperty: extractor.ValueExtractor | string) {
       super(aggregatorName('ReducerAggregator'), extractorOrProperty)
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<K, V>>): Array<MapEntry<K, any>> {
+      const results = new Array<MapEntry<K, any>>()
+      for (const entry of entries) {
+        results.push({ key: entry.key, value: this.extractor!.extract(entry.value) })
+      }
+      return results
+    }
   }
 
   /**
@@ -623,6 +754,14 @@ export namespace aggregator {
     constructor (extractorOrProperty: extractor.ValueExtractor | string) {
       super(aggregatorName('BigDecimalSum'), extractorOrProperty)
     }
+
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<any, any>>): number | null {
+      const values = this.extractAll(entries)
+      return values.length == 0 ? null : values.reduce((sum, v) => sum + Number(v), 0)
+    }
   }
 
   /**
@@ -655,7 +794,7 @@ export namespace aggregator {
     /**
      * The {@link Comparator} to apply against the extracted values.
      */
-    protected comparator?: AggregatorComparator
+    protected comparator?: comparator.Comparator
     protected property?: string
 
     /**
@@ -675,7 +814,7 @@ export namespace aggregator {
      */
     orderBy (property: string): TopAggregator<K, V> {
       this.property = property
-      this.comparator = new AggregatorComparator(this.property, this.inverse)
+      this.comparator = TopAggregator.comparatorOf(this.property, this.inverse)
       return this
     }
 
@@ -685,7 +824,7 @@ export namespace aggregator {
     ascending (): TopAggregator<K, V> {
       if (this.property) {
         this.inverse = true
-        this.comparator = new AggregatorComparator(this.property, this.inverse)
+        this.comparator = TopAggregator.comparatorOf(this.property, this.inverse)
       }
       return this
     }
@@ -696,7 +835,7 @@ export namespace aggregator {
     descending (): TopAggregator<K, V> {
       if (this.property) {
         this.inverse = false
-        this.comparator = new AggregatorComparator(this.property, this.inverse)
+        this.comparator = TopAggregator.comparatorOf(this.property, this.inverse)
       }
       return this
     }
@@ -711,28 +850,34 @@ export namespace aggregator {
       this.extractor = Extractors.extract(property)
       return this
     }
-  }
-
-  class AggregatorComparator implements util.Comparator {
-    '@class': string
-    protected comparator: object
 
-    constructor (property: string, isAsc: boolean) {
-      let sortTypeName = 'comparator.InverseComparator'
-      if (!isAsc) {
-        sortTypeName = 'comparator.SafeComparator'
-      }
-      let propertyName = property
-      this['@class'] = sortTypeName
+    /**
+     * Return the comparator ordering the results by the values of the specified property.
+     *
+     * @param property  the property name
+     * @param inverse   `true` to order the results in ascending order
+     *
+     * @return the comparator ordering the results
+     */
+    private static comparatorOf (property: string, inverse: boolean): comparator.Comparator {
+      const ordering = new comparator.ExtractorComparator(Extractors.extract(property))
+      return inverse ? new comparator.InverseComparator(ordering) : new comparator.SafeComparator(ordering)
+    }
 
-      this.comparator = {
-        '@class': 'comparator.ExtractorComparator',
-        'extractor': Extractors.extract(propertyName)
-      }
+    /**
+     * @inheritDoc
+     */
+    aggregate (entries: Iterable<MapEntry<K, V>>): Array<E> {
+      const sortKey = this.property
+        ? new extractor.UniversalExtractor(this.property)
+        : extractor.IdentityExtractor.INSTANCE
+      const order = this.inverse ? 1 : -1
+      return (this.extractAll(entries) as E[])
+        .sort((a, b) => order * util.compare(sortKey.extract(a), sortKey.extract(b)))
+        .slice(0, this.results)
     }
   }
 
-
   /**
    * RecordType enum specifies whether the {@link QueryRecorder} should be
    * used to produce an object that contains an estimated or an actual cost of the query execution.
@@ -0,0 +1,431 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import { extractor, Extractors } from './extractors'
+import { MapEntry } from './named-cache-client'
+import { util } from './util'
+
+export namespace comparator {
+
+  /**
+   * A Comparator imposes an ordering on the values, or entries, of a cache.  Comparators
+   * are serialized to the server when sorting the results of {@link NamedMap.entries},
+   * {@link NamedMap.values} and {@link NamedMap.query}, or ordering an index created
+   * by {@link NamedMap.addIndex}, and are evaluated locally by caches that hold their
+   * entries on the client.
+   */
+  export abstract class Comparator
+    implements util.Comparator {
+    /**
+     * Server-side `Comparator` implementation type identifier.
+     */
+    '@class': string
+
+    /**
+     * Constructs a new `Comparator`.
+     *
+     * @param clz  server-side `Comparator` implementation type identifier
+     */
+    protected constructor (clz: string) {
+      this['@class'] = clz
+    }
+
+    /**
+     * Return a comparator that imposes the reverse of the ordering of this comparator.
+     *
+     * @return a comparator that imposes the reverse ordering
+     */
+    reversed (): Comparator {
+      return new InverseComparator(this)
+    }
+
+    /**
+     * Return a composed comparator that orders by this comparator and then, for values
+     * this comparator considers equal, by the *other* comparator.
+     *
+     * @param other  the comparator to apply to values this comparator considers equal
+     *
+     * @return a composed comparator
+     */
+    thenComparing (other: Comparator): Comparator {
+      return (this instanceof ChainedComparator)
+        ? new ChainedComparator(this.comparators.concat(other))
+        : new ChainedComparator([this, other])
+    }
+
+    /**
+     * Compare two values locally, without a round trip to the server.
+     *
+     * @param a  the first value
+     * @param b  the second value
+     *
+     * @return a negative number, zero, or a positive number as the first value is
+     *         ordered before, with, or after the second
+     * @throws Error if this comparator does not support local evaluation
+     */
+    compare (a: any, b: any): number {
+      return util.unsupportedLocally(this)
+    }
+
+    /**
+     * Compare two map entries locally, without a round trip to the server.  Unless
+     * this is an {@link EntryComparator}, the entries are compared by their values.
+     *
+     * @param a  the first entry
+     * @param b  the second entry
+     *
+     * @return a negative number, zero, or a positive number as the first entry is
+     *         ordered before, with, or after the second
+     * @throws Error if this comparator does not support local evaluation
+     */
+    compareEntries (a: MapEntry<any, any>, b: MapEntry<any, any>): number {
+      return this.compare(a.value, b.value)
+    }
+  }
+
+  /**
+   * Comparator that orders values, or the values returned by another comparator, such that
+   * `null` and `undefined` are ordered before any other value.  Without a comparator,
+   * values are ordered by their natural ordering.
+   */
+  export class SafeComparator
+    extends Comparator {
+    /**
+     * The comparator ordering non-null values, if any.
+     */
+    protected comparator?: Comparator
+
+    /**
+     * Constructs a new `SafeComparator`.
+     *
+     * @param comparator  the comparator ordering non-null values; the natural ordering
+     *                    of the values is used if not specified
+     */
+    constructor (comparator?: Comparator) {
+      super(comparatorName('SafeComparator'))
+      if (comparator) {
+        this.comparator = comparator
+      }
+    }
+
+    /**
+     * @inheritDoc
+     */
+    compare (a: any, b: any): number {
+      return compareSafe(this.comparator, a, b)
+    }
+  }
+
+  /**
+   * Comparator that reverses the ordering of another comparator, or of the natural ordering
+   * of the values if no comparator is specified.
+   */
+  export class InverseComparator
+    extends Comparator {
+    /**
+     * The comparator whose ordering is reversed, if any.
+     */
+    protected comparator?: Comparator
+
+    /**
+     * Constructs a new `InverseComparator`.
+     *
+     * @param comparator  the comparator whose ordering is reversed; the natural ordering
+     *                    of the values is reversed if not specified
+     */
+    constructor (comparator?: Comparator) {
+      super(comparatorName('InverseComparator'))
+      if (comparator) {
+        this.comparator = comparator
+      }
+    }
+
+    /**
+     * @inheritDoc
+     */
+    compare (a: any, b: any): number {
+      return -compareSafe(this.comparator, a, b)
+    }
+  }
+
+  /**
+   * Comparator that orders values by the natural ordering of the values extracted from
+   * them by a {@link extractor.ValueExtractor}.
+   */
+  export class ExtractorComparator
+    extends Comparator {
+    /**
+     * The extractor of the values to compare.
+     */
+    protected extractor: extractor.ValueExtractor
+
+    /**
+     * Constructs a new `ExtractorComparator`.
+     *
+     * @param extractorOrProperty  the extractor of the values to compare, or the name of
+     *                             the property to extract
+     */
+    constructor (extractorOrProperty: extractor.ValueExtractor | string) {
+      super(comparatorName('ExtractorComparator'))
+      this.extractor = extractorOrProperty instanceof extractor.ValueExtractor
+        ? extractorOrProperty
+        : Extractors.extract(extractorOrProperty)
+    }
+
+    /**
+     * @inheritDoc
+     */
+    compare (a: any, b: any): number {
+      return util.compare(this.extractor.extract(a), this.extractor.extract(b))
+    }
+  }
+
+  /**
+   * Comparator that orders values by a sequence of comparators; values the first comparator
+   * considers equal are ordered by the second, and so on.
+   */
+  export class ChainedComparator
+    extends Comparator {
+    /**
+     * The comparators, most significant first.
+     */
+    readonly comparators: Comparator[]
+
+    /**
+     * Constructs a new `ChainedComparator`.
+     *
+     * @param comparators  the comparators, most significant first
+     */
+    constructor (comparators: Comparator[]) {
+      super(comparatorName('ChainedComparator'))
+      this.comparators = comparators
+    }
+
+    /**
+     * @inheritDoc
+     */
+    compare (a: any, b: any): number {
+      for (const comparator of this.comparators) {
+        const result = comparator.compare(a, b)
+        if (result != 0) {
+          return result
+        }
+      }
+      return 0
+    }
+
+    /**
+     * @inheritDoc
+     */
+    compareEntries (a: MapEntry<any, any>, b: MapEntry<any, any>): number {
+      for (const comparator of this.comparators) {
+        const result = comparator.compareEntries(a, b)
+        if (result != 0) {
+          return result
+        }
+      }
+      return 0
+    }
+  }
+
+  /**
+   * The part of a map entry compared by an {@link EntryComparator}.
+   */
+  export enum ComparisonStyle {
+    /**
+     * The values of the entries are compared, unless the server determines that the
+     * comparator targets the keys.  Locally, the values are compared.
+     */
+    AUTO = 0,
+
+    /**
+     * The values of the entries are compared.
+     */
+    VALUE = 1,
+
+    /**
+     * The keys of the entries are compared.
+     */
+    KEY = 2,
+
+    /**
+     * The entries themselves are passed to the comparator.
+     */
+    ENTRY = 3
+  }
+
+  /**
+   * Comparator that orders map entries by their keys, their values or the entries
+   * themselves, using another comparator or the natural ordering of the keys or values.
+   */
+  export class EntryComparator
+    extends Comparator {
+    /**
+     * The comparator ordering the compared part of the entries, if any.
+     */
+    protected comparator?: Comparator
+
+    /**
+     * The part of the entries compared.
+     */
+    protected style: ComparisonStyle
+
+    /**
+     * Constructs a new `EntryComparator`.
+     *
+     * @param comparator  the comparator ordering the compared part of the entries; their
+     *                    natural ordering is used if not specified
+     * @param style       the part of the entries compared
+     */
+    constructor (comparator?: Comparator, style: ComparisonStyle = ComparisonStyle.AUTO) {
+      super(comparatorName('EntryComparator'))
+      if (comparator) {
+        this.comparator = comparator
+      }
+      this.style = style
+    }
+
+    /**
+     * Compare two map entries; see {@link compareEntries}.
+     *
+     * @param a  the first entry
+     * @param b  the second entry
+     *
+     * @return a negative number, zero, or a positive number as the first entry is
+     *         ordered before, with, or after the second
+     */
+    compare (a: any, b: any): number {
+      return this.compareEntries(a, b)
+    }
+
+    /**
+     * @inheritDoc
+     */
+    compareEntries (a: MapEntry<any, any>, b: MapEntry<any, any>): number {
+      switch (this.style) {
+        case ComparisonStyle.KEY:
+          return compareSafe(this.comparator, a.key, b.key)
+        case ComparisonStyle.ENTRY:
+          return this.comparator ? this.comparator.compare(a, b) : util.unsupportedLocally(this)
+        default:
+          return compareSafe(this.comparator, a.value, b.value)
+      }
+    }
+  }
+
+  /**
+   * Compare two values such that `null` and `undefined` are ordered before any other
+   * value, using the specified comparator or the natural ordering of the values.
+   *
+   * @param comparator  the comparator, if any
+   * @param a           the first value
+   * @param b           the second value
+   *
+   * @return a negative number, zero, or a positive number as the first value is
+   *         ordered before, with, or after the second
+   */
+  function compareSafe (comparator: Comparator | undefined, a: any, b: any): number {
+    if (a == null || b == null) {
+      return a == null ? (b == null ? 0 : -1) : 1
+    }
+    return comparator ? comparator.compare(a, b) : util.compare(a, b)
+  }
+
+  /**
+   * Return the server-side type identifier of the named comparator.
+   *
+   * @param name  the simple name of the comparator
+   *
+   * @return the type identifier
+   */
+  function comparatorName (name: string): string {
+    return 'comparator.' + name
+  }
+}
+
+/**
+ * Simple Comparator DSL.
+ *
+ * @remarks
+ * The methods in this class are simple factory methods for the various
+ * {@link comparator.Comparator} classes.  They tend to make the code more readable,
+ * especially if imported statically, so their use is strongly encouraged in lieu
+ * of direct construction of {@link comparator.Comparator} classes.
+ */
+export class Comparators {
+  /**
+   * Return a comparator that orders values by their natural ordering, with `null`
+   * ordered first.
+   *
+   * @return a comparator that orders values by their natural ordering
+   */
+  static natural (): comparator.Comparator {
+    return new comparator.SafeComparator()
+  }
+
+  /**
+   * Return a comparator that orders values by the values extracted from them.
+   *
+   * @param extractorOrProperty  the extractor of the values to compare, or the name
+   *                             of the property to extract
+   *
+   * @return a comparator that orders values by the values extracted from them
+   */
+  static comparing (extractorOrProperty: extractor.ValueExtractor | string): comparator.Comparator {
+    return new comparator.ExtractorComparator(extractorOrProperty)
+  }
+
+  /**
+   * Return a comparator that reverses the ordering of the specified comparator, or the
+   * natural ordering of the values if no comparator is specified.
+   *
+   * @param comparatorToReverse  the comparator whose ordering is reversed, if any
+   *
+   * @return a comparator imposing the reverse ordering
+   */
+  static reverse (comparatorToReverse?: comparator.Comparator): comparator.Comparator {
+    return new comparator.InverseComparator(comparatorToReverse)
+  }
+
+  /**
+   * Return a comparator that orders values by each of the specified comparators in turn.
+   *
+   * @param comparators  the comparators, most significant first
+   *
+   * @return a comparator that orders values by each of the comparators in turn
+   */
+  static chain (...comparators: comparator.Comparator[]): comparator.Comparator {
+    return new comparator.ChainedComparator(comparators)
+  }
+
+  /**
+   * Return a comparator that orders `null` and `undefined` before any other value, and
+   * other values using the specified comparator.
+   *
+   * @param comparatorToWrap  the comparator ordering non-null values
+   *
+   * @return a `null`-safe comparator
+   */
+  static safe (comparatorToWrap: comparator.Comparator): comparator.Comparator {
+    return new comparator.SafeComparator(comparatorToWrap)
+  }
+
+  /**
+   * Return a comparator that orders map entries by their keys, values, or the entries
+   * themselves.
+   *
+   * @param comparatorOfEntries  the comparator ordering the compared part of the entries; the
+   *                             natural ordering is used if not specified
+   * @param style                the part of the entries compared
+   *
+   * @return a comparator that orders map entries
+   */
+  static entry (comparatorOfEntries?: comparator.Comparator,
+                style: comparator.ComparisonStyle = comparator.ComparisonStyle.AUTO): comparator.Comparator {
+    return new comparator.EntryComparator(comparatorOfEntries, style)
+  }
+}
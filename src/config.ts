@@ -0,0 +1,447 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import { readFileSync } from 'fs'
+import { load } from 'js-yaml'
+import { extname } from 'path'
+import {
+  AuthOptions,
+  LoadBalancingOptions,
+  LoadBalancingPolicy,
+  Options,
+  ReconnectOptions,
+  RetryOptions,
+  TlsOptions,
+  TracingOptions
+} from './session'
+
+export namespace config {
+
+  /**
+   * The environment variables read by {@link fromEnvironment} and {@link tlsFromEnvironment}.
+   */
+  export enum EnvironmentVariable {
+    /**
+     * The proxy address, or comma-separated addresses, in the format of `[host]:[port]`.
+     */
+    SERVER_ADDRESS = 'COHERENCE_SERVER_ADDRESS',
+
+    /**
+     * The request timeout in `milliseconds`.
+     */
+    REQUEST_TIMEOUT = 'COHERENCE_CLIENT_REQUEST_TIMEOUT',
+
+    /**
+     * The scope name used to link the session with the `ConfigurableCacheFactory` on the server.
+     */
+    SCOPE = 'COHERENCE_SCOPE',
+
+    /**
+     * The default serialization format of caches.
+     */
+    FORMAT = 'COHERENCE_FORMAT',
+
+    /**
+     * `true` or `false` to enable or disable TLS.  If not set, TLS is enabled if any
+     * other `COHERENCE_TLS_` variable is set.
+     */
+    TLS_ENABLED = 'COHERENCE_TLS_ENABLED',
+
+    /**
+     * The path to the CA certificates.
+     */
+    TLS_CERTS_PATH = 'COHERENCE_TLS_CERTS_PATH',
+
+    /**
+     * The path to the client certificate.
+     */
+    TLS_CLIENT_CERT = 'COHERENCE_TLS_CLIENT_CERT',
+
+    /**
+     * The path to the client certificate key.
+     */
+    TLS_CLIENT_KEY = 'COHERENCE_TLS_CLIENT_KEY',
+
+    /**
+     * The name the proxy certificate is verified against.
+     */
+    TLS_SERVER_NAME_OVERRIDE = 'COHERENCE_TLS_SERVER_NAME_OVERRIDE',
+
+    /**
+     * The colon-delimited cipher suites.
+     */
+    TLS_CIPHERS = 'COHERENCE_TLS_CIPHERS',
+
+    /**
+     * The interval, in `milliseconds`, at which the certificate files are checked for changes.
+     */
+    TLS_REFRESH_INTERVAL = 'COHERENCE_TLS_REFRESH_INTERVAL',
+
+    /**
+     * The profile {@link fromFile} selects if none is specified.
+     */
+    PROFILE = 'COHERENCE_PROFILE'
+  }
+
+  /**
+   * The expected type of a setting: a primitive type, an array of numbers, an object of
+   * `gRPC` channel options, one of a fixed set of values, or a nested group of settings.
+   */
+  type Schema = { [key: string]: 'string' | 'number' | 'boolean' | 'number[]' | 'object' | string[] | Schema }
+
+  /**
+   * The settings that may be configured, matching the properties of {@link Options}.
+   */
+  const SCHEMA: Schema = {
+    address: 'string',
+    requestTimeoutInMillis: 'number',
+    scope: 'string',
+    format: 'string',
+    tls: {
+      enabled: 'boolean',
+      caCertPath: 'string',
+      clientCertPath: 'string',
+      clientKeyPath: 'string',
+      caCert: 'string',
+      clientCert: 'string',
+      clientKey: 'string',
+      serverNameOverride: 'string',
+      ciphers: 'string',
+      refreshIntervalInMillis: 'number',
+      channelOptions: 'object'
+    },
+    reconnect: {
+      enabled: 'boolean',
+      initialDelayInMillis: 'number',
+      maxDelayInMillis: 'number',
+      multiplier: 'number',
+      maxAttempts: 'number'
+    },
+    retry: {
+      enabled: 'boolean',
+      maxAttempts: 'number',
+      initialDelayInMillis: 'number',
+      maxDelayInMillis: 'number',
+      multiplier: 'number',
+      jitter: 'number',
+      retryableStatusCodes: 'number[]',
+      retryMutations: 'boolean'
+    },
+    loadBalancing: {
+      policy: [LoadBalancingPolicy.PICK_FIRST, LoadBalancingPolicy.ROUND_ROBIN],
+      ejectionTimeInMillis: 'number'
+    },
+    tracing: {
+      enabled: 'boolean'
+    },
+    auth: {
+      token: 'string',
+      username: 'string',
+      password: 'string',
+      tokenTtlInMillis: 'number',
+      refreshAheadInMillis: 'number'
+    }
+  }
+
+  /**
+   * The factories of the option groups of {@link Options}.
+   */
+  const GROUPS: { [key: string]: () => any } = {
+    tls: () => new TlsOptions(),
+    reconnect: () => new ReconnectOptions(),
+    retry: () => new RetryOptions(),
+    loadBalancing: () => new LoadBalancingOptions(),
+    tracing: () => new TracingOptions(),
+    auth: () => new AuthOptions()
+  }
+
+  /**
+   * The setting each environment variable configures.
+   */
+  const ENVIRONMENT: Array<[EnvironmentVariable, string]> = [
+    [EnvironmentVariable.SERVER_ADDRESS, 'address'],
+    [EnvironmentVariable.REQUEST_TIMEOUT, 'requestTimeoutInMillis'],
+    [EnvironmentVariable.SCOPE, 'scope'],
+    [EnvironmentVariable.FORMAT, 'format'],
+    [EnvironmentVariable.TLS_ENABLED, 'tls.enabled'],
+    [EnvironmentVariable.TLS_CERTS_PATH, 'tls.caCertPath'],
+    [EnvironmentVariable.TLS_CLIENT_CERT, 'tls.clientCertPath'],
+    [EnvironmentVariable.TLS_CLIENT_KEY, 'tls.clientKeyPath'],
+    [EnvironmentVariable.TLS_SERVER_NAME_OVERRIDE, 'tls.serverNameOverride'],
+    [EnvironmentVariable.TLS_CIPHERS, 'tls.ciphers'],
+    [EnvironmentVariable.TLS_REFRESH_INTERVAL, 'tls.refreshIntervalInMillis']
+  ]
+
+  /**
+   * Create {@link Options} from the `COHERENCE_` environment variables described by
+   * {@link EnvironmentVariable}.  Settings without a corresponding variable keep their defaults.
+   *
+   * @param env  the environment; defaults to `process.env`
+   *
+   * @return the {@link Options}
+   * @throws Error naming the variable if the value of a variable is invalid
+   */
+  export function fromEnvironment (env: { [key: string]: string | undefined } = process.env): Options {
+    const settings: { [key: string]: any } = {}
+    const names = new Map<string, string>()
+    for (const [variable, path] of ENVIRONMENT) {
+      const value = env[variable]
+      if (value === undefined || value === '') {
+        continue
+      }
+      const [group, key] = path.indexOf('.') < 0 ? [undefined, path] : path.split('.')
+      const target = group ? (settings[group] = settings[group] || {}) : settings
+      target[key] = parse(variable, value, group ? (SCHEMA[group] as Schema)[key] : SCHEMA[key])
+      names.set(path, variable)
+    }
+    if (settings.tls && settings.tls.enabled === undefined) {
+      settings.tls.enabled = true
+    }
+    return build(settings, path => names.get(path) || path)
+  }
+
+  /**
+   * Create {@link TlsOptions} from the `COHERENCE_TLS_` environment variables described by
+   * {@link EnvironmentVariable}.
+   *
+   * @param env  the environment; defaults to `process.env`
+   *
+   * @return the {@link TlsOptions}
+   * @throws Error naming the variable if the value of a variable is invalid
+   */
+  export function tlsFromEnvironment (env: { [key: string]: string | undefined } = process.env): TlsOptions {
+    const tls: { [key: string]: string | undefined } = {}
+    for (const [variable, path] of ENVIRONMENT) {
+      if (path.indexOf('tls.') == 0) {
+        tls[variable] = env[variable]
+      }
+    }
+    return fromEnvironment(tls).tls
+  }
+
+  /**
+   * Create {@link Options} from a profile of a JSON (`.json`) or YAML (`.yaml` or `.yml`)
+   * configuration file.  Each profile under the `profiles` key holds the settings of a session,
+   * named as the properties of {@link Options}:
+   *
+   * ```yaml
+   * defaultProfile: dev
+   * profiles:
+   *   dev:
+   *     address: localhost:1408
+   *   prod:
+   *     address: coherence.example.com:1408
+   *     requestTimeoutInMillis: 5000
+   *     tls:
+   *       enabled: true
+   *       caCertPath: /etc/coherence/tls/ca.pem
+   * ```
+   *
+   * @param path     the path to the configuration file
+   * @param profile  the name of the profile; defaults to the `COHERENCE_PROFILE` environment
+   *                 variable, then the file's `defaultProfile`, or the only profile in the file
+   *
+   * @return the {@link Options}
+   * @throws Error naming the key if the file contains an unknown key or an invalid value
+   */
+  export function fromFile (path: string, profile: string | undefined = process.env[EnvironmentVariable.PROFILE]): Options {
+    const extension = extname(path).toLowerCase()
+    if (extension !== '.json' && extension !== '.yaml' && extension !== '.yml') {
+      throw new Error('Unsupported configuration file ' + path + '; expected a .json, .yaml or .yml file')
+    }
+
+    const text = readFileSync(path, 'utf8')
+    let document: any
+    try {
+      document = extension === '.json' ? JSON.parse(text) : load(text)
+    } catch (err) {
+      throw new Error('Unable to parse ' + path + ': ' + err.message)
+    }
+
+    if (!isObject(document) || !isObject(document.profiles)) {
+      throw new Error('Expected \'profiles\' in ' + path)
+    }
+    for (const key of Object.keys(document)) {
+      if (key !== 'profiles' && key !== 'defaultProfile') {
+        throw new Error('Unknown key \'' + key + '\' in ' + path)
+      }
+    }
+
+    const names = Object.keys(document.profiles)
+    const name = profile || document.defaultProfile || (names.length == 1 ? names[0] : undefined)
+    if (name === undefined) {
+      throw new Error('No profile specified, and \'defaultProfile\' is not set in ' + path)
+    }
+    if (!Object.prototype.hasOwnProperty.call(document.profiles, name)) {
+      throw new Error('Profile \'' + name + '\' not found in ' + path + '; available profiles: ' + names.join(', '))
+    }
+    return fromObject(document.profiles[name], 'profiles.' + name, path)
+  }
+
+  /**
+   * Create {@link Options} from an object holding the settings of a session, named as the
+   * properties of {@link Options}, such as a profile obtained from a configuration service.
+   *
+   * @param settings  the settings
+   * @param prefix    the key of the settings within their source, used in error messages
+   * @param source    the source of the settings, used in error messages
+   *
+   * @return the {@link Options}
+   * @throws Error naming the key if the settings contain an unknown key or an invalid value
+   */
+  export function fromObject (settings: object, prefix?: string, source?: string): Options {
+    const nameOf = (path: string) => '\'' + (prefix ? prefix + '.' + path : path) + '\'' + (source ? ' in ' + source : '')
+    if (!isObject(settings)) {
+      throw new Error('Expected an object' + (prefix ? ' for \'' + prefix + '\'' : '') + (source ? ' in ' + source : ''))
+    }
+    validate(settings, SCHEMA, '', nameOf)
+    return build(settings, nameOf)
+  }
+
+  /**
+   * Verify that each setting is known and of the expected type.
+   *
+   * @param settings  the settings
+   * @param schema    the schema of the settings
+   * @param parent    the path of the settings, or `''` for the top-level settings
+   * @param nameOf    returns the name of a setting for use in error messages
+   */
+  function validate (settings: { [key: string]: any }, schema: Schema, parent: string, nameOf: (path: string) => string): void {
+    for (const key of Object.keys(settings)) {
+      const path = parent ? parent + '.' + key : key
+      const type = schema[key]
+      const value = settings[key]
+      if (type === undefined) {
+        throw new Error('Unknown key ' + nameOf(path))
+      }
+      if (value === null || value === undefined) {
+        continue
+      }
+      if (typeof type === 'object' && !Array.isArray(type)) {
+        if (!isObject(value)) {
+          throw new Error('Invalid value for ' + nameOf(path) + ': expected an object')
+        }
+        validate(value, type, path, nameOf)
+        continue
+      }
+      const expected = check(value, type)
+      if (expected) {
+        throw new Error('Invalid value for ' + nameOf(path) + ': expected ' + expected)
+      }
+    }
+  }
+
+  /**
+   * Return a description of the expected value if the value does not match the type.
+   *
+   * @param value  the value
+   * @param type   the expected type
+   *
+   * @return a description of the expected value, or `undefined` if the value matches the type
+   */
+  function check (value: any, type: string | string[]): string | undefined {
+    if (Array.isArray(type)) {
+      return type.indexOf(value) < 0 ? 'one of ' + type.join(', ') : undefined
+    }
+    switch (type) {
+      case 'number':
+        return typeof value === 'number' && !isNaN(value) ? undefined : 'a number'
+      case 'number[]':
+        return Array.isArray(value) && value.every(v => typeof v === 'number') ? undefined : 'an array of numbers'
+      case 'object':
+        return isObject(value) && Object.keys(value).every(k => typeof value[k] === 'string' || typeof value[k] === 'number')
+          ? undefined : 'an object of string or number values'
+      default:
+        return typeof value === type ? undefined : 'a ' + type
+    }
+  }
+
+  /**
+   * Convert the value of an environment variable to the type of its setting.
+   *
+   * @param variable  the environment variable
+   * @param value     the value of the variable
+   * @param type      the type of the setting
+   *
+   * @return the converted value
+   */
+  function parse (variable: string, value: string, type: any): any {
+    const trimmed = value.trim()
+    if (type === 'number') {
+      if (trimmed === '' || isNaN(Number(trimmed))) {
+        throw new Error('Invalid value for ' + variable + ': expected a number')
+      }
+      return Number(trimmed)
+    }
+    if (type === 'boolean') {
+      if (trimmed.toLowerCase() !== 'true' && trimmed.toLowerCase() !== 'false') {
+        throw new Error('Invalid value for ' + variable + ': expected true or false')
+      }
+      return trimmed.toLowerCase() === 'true'
+    }
+    return value
+  }
+
+  /**
+   * Create {@link Options} from validated settings.  Values rejected by the options
+   * themselves, such as a malformed address, are reported naming the setting.
+   *
+   * @param settings  the settings
+   * @param nameOf    returns the name of a setting for use in error messages
+   *
+   * @return the {@link Options}
+   */
+  function build (settings: { [key: string]: any }, nameOf: (path: string) => string): Options {
+    const options: { [key: string]: any } = new Options()
+    for (const key of Object.keys(settings)) {
+      const value = settings[key]
+      if (value === null || value === undefined) {
+        continue
+      }
+      if (GROUPS[key]) {
+        const group = GROUPS[key]()
+        for (const name of Object.keys(value)) {
+          if (value[name] !== null && value[name] !== undefined) {
+            assign(group, name, value[name], key + '.' + name, nameOf)
+          }
+        }
+        options[key] = group
+      } else {
+        assign(options, key, value, key, nameOf)
+      }
+    }
+    return options as Options
+  }
+
+  /**
+   * Set the property of the target, naming the setting if the value is rejected.
+   *
+   * @param target  the target
+   * @param key     the property
+   * @param value   the value
+   * @param path    the path of the setting
+   * @param nameOf  returns the name of a setting for use in error messages
+   */
+  function assign (target: { [key: string]: any }, key: string, value: any, path: string, nameOf: (path: string) => string): void {
+    try {
+      target[key] = value
+    } catch (err) {
+      throw new Error('Invalid value for ' + nameOf(path) + ': ' + err.message)
+    }
+  }
+
+  /**
+   * Returns `true` if the value is a plain object.
+   *
+   * @param value  the value
+   *
+   * @return `true` if the value is a plain object
+   */
+  function isObject (value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value)
+  }
+}
@@ -0,0 +1,1017 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import { EventEmitter } from 'events'
+import { Readable } from 'stream'
+import { aggregator } from './aggregators'
+import { event } from './events'
+import { extractor } from './extractors'
+import { filter, Filters } from './filters'
+import { CacheEntry, IterationOptions, MapEntry, NamedCache, NamedMap, Query, QueryResult, RequestOptions } from './named-cache-client'
+import { processor } from './processors'
+import { util } from './util'
+import EntryAggregator = aggregator.EntryAggregator
+import MapEvent = event.MapEvent
+import MapEventType = event.MapEventType
+import MapLifecycleEvent = event.MapLifecycleEvent
+import MapListener = event.MapListener
+import ValueExtractor = extractor.ValueExtractor
+import Filter = filter.Filter
+import MapEventFilter = filter.MapEventFilter
+import EntryProcessor = processor.EntryProcessor
+import Comparator = util.Comparator
+import LocalSet = util.LocalSet
+import PagedQuery = util.PagedQuery
+import RemoteSet = util.RemoteSet
+import Serializer = util.Serializer
+
+/**
+ * A local view entry.
+ * @internal
+ */
+interface ViewEntry<K, V> {
+  key: K
+  value: V
+}
+
+/**
+ * A materialized view of the entries of a {@link NamedCache} that match a {@link Filter}.
+ *
+ * The view is loaded when constructed and is then kept in sync with the cache by listening
+ * to events for entries entering, updating within and leaving the filtered set.  Once
+ * {@link ready} has resolved, the contents of the view may be read locally, either through
+ * the `Promise`-based {@link NamedMap} API or synchronously via {@link peek}.
+ *
+ * If a transformer is provided, the view holds the extracted values rather than the cache
+ * values, and the view is read-only.  Otherwise, mutations are passed through to the cache.
+ *
+ * Listeners registered with {@link addMapListener} receive `insert` events as entries enter the
+ * view, `update` events as entries change within the view, and `delete` events as entries leave it.
+ *
+ * @typeParam K  the type of the map entry keys
+ * @typeParam V  the type of the view values
+ */
+export class ContinuousQueryCache<K = any, V = any>
+  extends EventEmitter
+  implements NamedCache<K, V> {
+
+  /**
+   * The serializer used to derive local keys and to construct local events.
+   */
+  private static readonly SERIALIZER: Serializer = util.SerializerRegistry.instance().serializer('json')
+
+  /**
+   * A singleton for a resolved Promise.
+   */
+  private static readonly RESOLVED = Promise.resolve()
+
+  /**
+   * The underlying cache.
+   */
+  protected readonly cache: NamedCache<K, any>
+
+  /**
+   * The filter defining the view.
+   */
+  protected readonly filter: Filter
+
+  /**
+   * The optional transformer applied to the cache values.
+   */
+  protected readonly transformer?: ValueExtractor
+
+  /**
+   * The view contents, keyed by the serialized form of the key.
+   */
+  private readonly local: Map<string, ViewEntry<K, V>> = new Map()
+
+  /**
+   * Keys changed by events while the view is synchronizing.
+   */
+  private readonly touched: Set<string> = new Set()
+
+  /**
+   * Per-key chains of outstanding transformations, used to apply events in order.
+   */
+  private readonly pending: Map<string, Promise<void>> = new Map()
+
+  /**
+   * Listeners for all entries of the view.
+   */
+  private readonly mapListeners: Set<MapListener<K, V>> = new Set()
+
+  /**
+   * Listeners for specific keys of the view.
+   */
+  private readonly keyListeners: Map<string, Set<MapListener<K, V>>> = new Map()
+
+  /**
+   * The listener for entries entering or changing within the view.
+   */
+  private readonly inListener: MapListener<K, any>
+
+  /**
+   * The listener for entries leaving the view.
+   */
+  private readonly outListener: MapListener<K, any>
+
+  /**
+   * The filter selecting entries entering or changing within the view.
+   */
+  private readonly inFilter: MapEventFilter<K, any>
+
+  /**
+   * The filter selecting entries leaving the view.
+   */
+  private readonly outFilter: MapEventFilter<K, any>
+
+  /**
+   * Flag indicating the view is being (re)loaded from the cache.
+   */
+  private synchronizing: boolean = true
+
+  /**
+   * Flag indicating the view has been released.
+   */
+  private _released: boolean = false
+
+  /**
+   * Resolves once the initial load of the view has completed.
+   */
+  private readonly readyPromise: Promise<void>
+
+  /**
+   * Constructs a new `ContinuousQueryCache`.
+   *
+   * @param cache        the {@link NamedCache} to create a view of
+   * @param filter       the {@link Filter} defining the view
+   * @param transformer  the optional {@link ValueExtractor} to apply to the cache values
+   */
+  constructor (cache: NamedCache<K, any>, filter: Filter, transformer?: ValueExtractor) {
+    super()
+    util.ensureNotNull(cache, 'cache cannot be null')
+    util.ensureNotNull(filter, 'filter cannot be null')
+
+    this.cache = cache
+    this.filter = filter
+    this.transformer = transformer
+
+    const self = this
+    this.inFilter = new MapEventFilter(MapEventFilter.INSERTED | MapEventFilter.UPDATED_ENTERED | MapEventFilter.UPDATED_WITHIN, filter)
+    this.outFilter = new MapEventFilter(MapEventFilter.UPDATED_LEFT | MapEventFilter.DELETED, filter)
+    this.inListener = new MapListener<K, any>()
+      .on(MapEventType.INSERT, (e: MapEvent<K, any>) => self.onEntered(e))
+      .on(MapEventType.UPDATE, (e: MapEvent<K, any>) => self.onEntered(e))
+    this.outListener = new MapListener<K, any>()
+      .on(MapEventType.UPDATE, (e: MapEvent<K, any>) => self.onLeft(e))
+      .on(MapEventType.DELETE, (e: MapEvent<K, any>) => self.onLeft(e))
+
+    this.setupEventHandlers()
+    this.readyPromise = this.initialize()
+    this.readyPromise.catch(() => {
+      // surfaced to callers awaiting ready
+    })
+  }
+
+  /**
+   * Returns a `Promise` that will resolve once the initial contents of the view have been loaded.
+   *
+   * @return a `Promise` that will resolve once the initial contents of the view have been loaded
+   */
+  get ready (): Promise<void> {
+    return this.readyPromise
+  }
+
+  /**
+   * Returns the {@link Filter} defining this view.
+   *
+   * @return the {@link Filter} defining this view
+   */
+  get viewFilter (): Filter {
+    return this.filter
+  }
+
+  /**
+   * Returns `true` if the view is read-only (i.e., a transformer has been provided).
+   *
+   * @return `true` if the view is read-only
+   */
+  get readOnly (): boolean {
+    return this.transformer !== undefined
+  }
+
+  /**
+   * Returns the number of entries in the view.
+   *
+   * @return the number of entries in the view
+   */
+  get localSize (): number {
+    return this.local.size
+  }
+
+  /**
+   * Returns the value associated with the specified key in the view.
+   *
+   * @param key  the key
+   *
+   * @return the value associated with the specified key, or `null` if the key is not in the view
+   */
+  peek (key: K): V | null {
+    const entry = this.local.get(ContinuousQueryCache.localKey(key))
+    return entry ? entry.value : null
+  }
+
+  /**
+   * Returns an iterator over the entries of the view.
+   *
+   * @return an iterator over the entries of the view
+   */
+  * [Symbol.iterator] (): IterableIterator<MapEntry<K, V>> {
+    for (const entry of this.local.values()) {
+      yield { key: entry.key, value: entry.value }
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get size (): Promise<number> {
+    return Promise.resolve(this.local.size)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get empty (): Promise<boolean> {
+    return Promise.resolve(this.local.size == 0)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get name (): string {
+    return this.cache.name
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get active (): boolean {
+    return !this._released && this.cache.active
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get released (): boolean {
+    return this._released || this.cache.released
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get destroyed (): boolean {
+    return this.cache.destroyed
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get (key: K): Promise<V | null> {
+    return Promise.resolve(this.peek(key))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getOrDefault (key: K, defaultValue: V): Promise<V | null> {
+    const entry = this.local.get(ContinuousQueryCache.localKey(key))
+    return Promise.resolve(entry ? entry.value : defaultValue)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getAll (keys: Iterable<K>): Promise<Map<K, V>> {
+    const result = new Map<K, V>()
+    for (const key of keys) {
+      const entry = this.local.get(ContinuousQueryCache.localKey(key))
+      if (entry) {
+        result.set(entry.key, entry.value)
+      }
+    }
+    return Promise.resolve(result)
+  }
+
+  /**
+   * Returns the entry for the specified key, if in this view.  The value is that held
+   * by this view; the metadata is read from the underlying cache.
+   *
+   * @param key      the key of the entry
+   * @param options  the options of the request, if any
+   *
+   * @return a `Promise` resolving to the entry, or `null` if the key is not in this view
+   */
+  async getEntry (key: K, options?: RequestOptions): Promise<CacheEntry<K, V> | null> {
+    const entries = await this.getAllEntries([key], options)
+    return entries.values().next().value || null
+  }
+
+  /**
+   * Returns the entries for the specified keys that are in this view.  The values are
+   * those held by this view; the metadata is read from the underlying cache.
+   *
+   * @param keys     an Iterable of keys that may be in this view
+   * @param options  the options of the request, if any
+   *
+   * @return a `Promise` resolving to a Map of keys to entries for the keys in this view
+   */
+  async getAllEntries (keys: Iterable<K>, options?: RequestOptions): Promise<Map<K, CacheEntry<K, V>>> {
+    const inView = Array.from(keys).filter(key => this.local.has(ContinuousQueryCache.localKey(key)))
+    const result = new Map<K, CacheEntry<K, V>>()
+    if (inView.length === 0) {
+      return result
+    }
+    for (const entry of (await this.cache.getAllEntries(inView, options)).values()) {
+      const local = this.local.get(ContinuousQueryCache.localKey(entry.key))
+      if (local) {
+        result.set(local.key, { ...entry, key: local.key, value: local.value })
+      }
+    }
+    return result
+  }
+
+  /**
+   * @inheritDoc
+   */
+  has (key: K): Promise<boolean> {
+    return Promise.resolve(this.local.has(ContinuousQueryCache.localKey(key)))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  hasEntry (key: K, value: V): Promise<boolean> {
+    const entry = this.local.get(ContinuousQueryCache.localKey(key))
+    return Promise.resolve(entry !== undefined && ContinuousQueryCache.equal(entry.value, value))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  hasValue (value: V): Promise<boolean> {
+    for (const entry of this.local.values()) {
+      if (ContinuousQueryCache.equal(entry.value, value)) {
+        return Promise.resolve(true)
+      }
+    }
+    return Promise.resolve(false)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async keys (filter?: Filter | null, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<K>> {
+    const set = new LocalSet<K>()
+    if (!filter) {
+      for (const entry of this.local.values()) {
+        set.add(entry.key)
+      }
+      return set
+    }
+
+    for (const key of await this.cache.keys(this.filter.and(filter), comparator, options)) {
+      if (this.local.has(ContinuousQueryCache.localKey(key))) {
+        set.add(key)
+      }
+    }
+    return set
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async entries (filter?: Filter | null, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<MapEntry<K, V>>> {
+    const keys = filter ? await this.cache.keys(this.filter.and(filter), comparator, options) : null
+    const entries = this.select(keys).map(entry => ({ key: entry.key, value: entry.value }))
+    return new LocalSet<MapEntry<K, V>>(32, util.sort(entries, comparator))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async values (filter?: Filter | null, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<V>> {
+    const keys = filter ? await this.cache.keys(this.filter.and(filter), comparator, options) : null
+    const entries = this.select(keys).map(entry => ({ key: entry.key, value: entry.value }))
+    return new LocalSet<V>(32, util.sort(entries, comparator).map(entry => entry.value))
+  }
+
+  /**
+   * Return a page of the entries of the view that satisfy the filter of the query.  The
+   * matching keys are selected by the underlying cache, while the entries are ordered
+   * and paged locally.
+   *
+   * @param query    the query
+   * @param options  the options of the request, if any
+   *
+   * @return a `Promise` resolving to the page of entries and the cursor of the next page
+   */
+  async query (query: Query, options?: RequestOptions): Promise<QueryResult<K, V>> {
+    const paged = new PagedQuery(query)
+    const keys = query.filter ? await this.cache.keys(this.filter.and(query.filter), null, options) : null
+    return paged.select(this.select(keys).map(entry => ({ key: entry.key, value: entry.value })))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async * iterateEntries (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<MapEntry<K, V>> {
+    for await (const entry of this.iterateView(filter, options)) {
+      yield { key: entry.key, value: entry.value }
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async * iterateKeys (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<K> {
+    for await (const entry of this.iterateView(filter, options)) {
+      yield entry.key
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async * iterateValues (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<V> {
+    for await (const entry of this.iterateView(filter, options)) {
+      yield entry.value
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamEntries (filter?: Filter | null, options?: IterationOptions): Readable {
+    return Readable.from(this.iterateEntries(filter, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamKeys (filter?: Filter | null, options?: IterationOptions): Readable {
+    return Readable.from(this.iterateKeys(filter, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamValues (filter?: Filter | null, options?: IterationOptions): Readable {
+    return Readable.from(this.iterateValues(filter, options))
+  }
+
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, thisArg?: any): Promise<void>
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, keys: Iterable<K>, thisArg?: any): Promise<void>
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, filter: Filter, thisArg?: any): Promise<void>
+  async forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, keysOrFilter?: Iterable<K> | Filter, thisArg?: any): Promise<void> {
+    if (thisArg) {
+      action = action.bind(thisArg)
+    }
+
+    let keys: Iterable<K> | null = null
+    if (keysOrFilter instanceof Filter) {
+      keys = await this.cache.keys(this.filter.and(keysOrFilter))
+    } else if (keysOrFilter) {
+      keys = keysOrFilter
+    }
+
+    for (const entry of this.select(keys)) {
+      action(entry.value, entry.key, this)
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  aggregate<R = any> (kfa: Iterable<K> | Filter | EntryAggregator<K, V, R>, aggOrOptions?: EntryAggregator<K, V, R> | RequestOptions,
+                      options?: RequestOptions): Promise<any> {
+    if (aggOrOptions instanceof EntryAggregator) {
+      return kfa instanceof Filter
+        ? this.cache.aggregate(this.filter.and(kfa), aggOrOptions, options)
+        : this.cache.aggregate(kfa as Iterable<K>, aggOrOptions, options)
+    }
+    return this.cache.aggregate(this.filter, kfa as EntryAggregator<K, V, R>, aggOrOptions)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  invoke<R = any> (key: K, processor: EntryProcessor<K, V, R>, options?: RequestOptions): Promise<R | null> {
+    return this.whenWritable(() => this.cache.invoke(key, processor, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  invokeAll<R = any> (keysOrFilterOrProcessor: Iterable<K> | Filter | EntryProcessor<K, V, R>,
+                      processorOrOptions?: EntryProcessor<K, V, R> | RequestOptions, options?: RequestOptions): Promise<Map<K, R>> {
+    return this.whenWritable(() => {
+      if (processorOrOptions instanceof EntryProcessor) {
+        return keysOrFilterOrProcessor instanceof Filter
+          ? this.cache.invokeAll(this.filter.and(keysOrFilterOrProcessor), processorOrOptions, options)
+          : this.cache.invokeAll(keysOrFilterOrProcessor as Iterable<K>, processorOrOptions, options)
+      }
+      return this.cache.invokeAll(this.filter, keysOrFilterOrProcessor as EntryProcessor<K, V, R>, processorOrOptions)
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  set (key: K, value: V, ttl?: number | RequestOptions, options?: RequestOptions): Promise<V | null> {
+    return this.whenWritable(() => this.cache.set(key, value, ttl, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  setAll (map: Map<K, V>, options?: RequestOptions): Promise<void> {
+    return this.whenWritable(() => this.cache.setAll(map, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  setIfAbsent (key: K, value: V, ttl?: number | RequestOptions, options?: RequestOptions): Promise<V | null> {
+    return this.whenWritable(() => this.cache.setIfAbsent(key, value, ttl, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  setExpiry (key: K, ttl: number, options?: RequestOptions): Promise<boolean> {
+    return this.whenWritable(() => this.cache.setExpiry(key, ttl, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  touch (key: K, options?: RequestOptions): Promise<void> {
+    return this.cache.touch(key, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  delete (key: K, options?: RequestOptions): Promise<V | null> {
+    return this.whenWritable(() => this.cache.delete(key, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  removeMapping (key: K, value: V, options?: RequestOptions): Promise<boolean> {
+    return this.whenWritable(() => this.cache.removeMapping(key, value, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  replace (key: K, value: V, options?: RequestOptions): Promise<V | null> {
+    return this.whenWritable(() => this.cache.replace(key, value, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  replaceMapping (key: K, oldValue: V, newValue: V, options?: RequestOptions): Promise<boolean> {
+    return this.whenWritable(() => this.cache.replaceMapping(key, oldValue, newValue, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  compute (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V | null) => V | null | Promise<V | null>),
+           options?: RequestOptions): Promise<V | null> {
+    return this.whenWritable(() => this.cache.compute(key, remapping, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  computeIfAbsent (key: K, mapping: EntryProcessor<K, V, V> | ((key: K) => V | null | Promise<V | null>),
+                   options?: RequestOptions): Promise<V | null> {
+    return this.whenWritable(() => this.cache.computeIfAbsent(key, mapping, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  computeIfPresent (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V) => V | null | Promise<V | null>),
+                    options?: RequestOptions): Promise<V | null> {
+    return this.whenWritable(() => this.cache.computeIfPresent(key, remapping, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  merge (key: K, value: V, remapping: (value: V, newValue: V) => V | null | Promise<V | null>,
+         options?: RequestOptions): Promise<V | null> {
+    return this.whenWritable(() => this.cache.merge(key, value, remapping, options))
+  }
+
+  /**
+   * Removes the entries of this view from the underlying cache.
+   */
+  clear (options?: RequestOptions): Promise<void> {
+    return this.whenWritable(async () => {
+      await this.cache.invokeAll(this.filter, new processor.ConditionalRemove(Filters.always()), options)
+    })
+  }
+
+  /**
+   * Not supported by a `ContinuousQueryCache`; use {@link clear} to remove the entries of the view.
+   */
+  truncate (): Promise<void> {
+    return Promise.reject(new Error('truncate() is not supported by ContinuousQueryCache'))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  addIndex (extractor: ValueExtractor, ordered?: boolean, comparator?: Comparator, options?: RequestOptions): Promise<void> {
+    return this.cache.addIndex(extractor, ordered, comparator, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  removeIndex (extractor: ValueExtractor, options?: RequestOptions): Promise<void> {
+    return this.cache.removeIndex(extractor, options)
+  }
+
+  /**
+   * Add a {@link MapListener} that will receive events for entries entering, changing
+   * within, and leaving this view.  Filter-based registrations are not supported.
+   *
+   * @param listener     the {@link MapListener} to add
+   * @param keyOrFilter  the optional key to restrict the events to
+   * @param isLite       ignored; events always carry the values held by the view
+   */
+  addMapListener (listener: event.MapListener<K, V>, keyOrFilter?: K | Filter, isLite?: boolean): Promise<void> {
+    if (keyOrFilter instanceof Filter) {
+      return Promise.reject(new Error('filter-based listeners are not supported by ContinuousQueryCache'))
+    }
+
+    if (keyOrFilter === undefined || keyOrFilter === null || typeof keyOrFilter === 'boolean') {
+      this.mapListeners.add(listener)
+    } else {
+      const localKey = ContinuousQueryCache.localKey(keyOrFilter)
+      let listeners = this.keyListeners.get(localKey)
+      if (!listeners) {
+        listeners = new Set()
+        this.keyListeners.set(localKey, listeners)
+      }
+      listeners.add(listener)
+    }
+    return ContinuousQueryCache.RESOLVED
+  }
+
+  /**
+   * @inheritDoc
+   */
+  removeMapListener (listener: event.MapListener<K, V>, keyOrFilter?: K | MapEventFilter<K, V>): Promise<void> {
+    if (keyOrFilter === undefined || keyOrFilter === null || keyOrFilter instanceof Filter) {
+      this.mapListeners.delete(listener)
+    } else {
+      const localKey = ContinuousQueryCache.localKey(keyOrFilter)
+      const listeners = this.keyListeners.get(localKey)
+      if (listeners) {
+        listeners.delete(listener)
+        if (listeners.size == 0) {
+          this.keyListeners.delete(localKey)
+        }
+      }
+    }
+    return ContinuousQueryCache.RESOLVED
+  }
+
+  /**
+   * Releases this view.  The underlying cache is not destroyed.
+   */
+  destroy (): Promise<void> {
+    return this.release()
+  }
+
+  /**
+   * Releases this view, deregistering its listeners from the underlying cache.  The
+   * underlying cache is not released.
+   */
+  async release (): Promise<void> {
+    if (this._released) {
+      return
+    }
+    this._released = true
+    this.local.clear()
+    if (this.cache.active) {
+      await this.cache.removeMapListener(this.inListener, this.inFilter)
+      await this.cache.removeMapListener(this.outListener, this.outFilter)
+    }
+    this.emit(MapLifecycleEvent.RELEASED, this.name)
+  }
+
+  /**
+   * Register the listeners with the cache and perform the initial load.
+   */
+  protected async initialize (): Promise<void> {
+    const lite = this.transformer !== undefined
+    await this.cache.addMapListener(this.inListener, this.inFilter, lite)
+    await this.cache.addMapListener(this.outListener, this.outFilter, true)
+    await this.synchronize()
+  }
+
+  /**
+   * Load the contents of the view from the cache.  Keys changed by events while loading
+   * are left as set by those events, as any later change will raise a further event.
+   */
+  protected async synchronize (): Promise<void> {
+    this.synchronizing = true
+    this.touched.clear()
+    try {
+      const snapshot = new Map<string, ViewEntry<K, V>>()
+      if (this.transformer) {
+        const results = await this.cache.invokeAll(this.filter, new processor.ExtractorProcessor(this.transformer))
+        for (const [key, value] of results) {
+          snapshot.set(ContinuousQueryCache.localKey(key), { key, value })
+        }
+      } else {
+        for (const entry of await this.cache.entries(this.filter)) {
+          snapshot.set(ContinuousQueryCache.localKey(entry.key), { key: entry.key, value: entry.value })
+        }
+      }
+
+      for (const [localKey, entry] of snapshot) {
+        if (!this.touched.has(localKey)) {
+          this.put(localKey, entry.key, entry.value)
+        }
+      }
+      for (const [localKey, entry] of Array.from(this.local.entries())) {
+        if (!snapshot.has(localKey) && !this.touched.has(localKey)) {
+          this.remove(localKey, entry.key)
+        }
+      }
+    } finally {
+      this.synchronizing = false
+      this.touched.clear()
+    }
+  }
+
+  /**
+   * Handle an entry entering, or changing within, the view.
+   *
+   * @param e  the cache event
+   */
+  protected onEntered (e: MapEvent<K, any>): void {
+    const key = e.key
+    const localKey = ContinuousQueryCache.localKey(key)
+    if (this.synchronizing) {
+      this.touched.add(localKey)
+    }
+
+    const transformer = this.transformer
+    if (transformer) {
+      this.enqueue(localKey, async () => {
+        const value = await this.cache.invoke(key, new processor.ExtractorProcessor(transformer))
+        if (value !== null && value !== undefined) {
+          this.put(localKey, key, value)
+        }
+      })
+    } else {
+      this.put(localKey, key, e.newValue as V)
+    }
+  }
+
+  /**
+   * Handle an entry leaving the view.
+   *
+   * @param e  the cache event
+   */
+  protected onLeft (e: MapEvent<K, any>): void {
+    const key = e.key
+    const localKey = ContinuousQueryCache.localKey(key)
+    if (this.synchronizing) {
+      this.touched.add(localKey)
+    }
+
+    if (this.transformer) {
+      this.enqueue(localKey, async () => this.remove(localKey, key))
+    } else {
+      this.remove(localKey, key)
+    }
+  }
+
+  /**
+   * Run the task once all earlier tasks for the same key have completed.
+   *
+   * @param localKey  the local key
+   * @param task      the task
+   */
+  private enqueue (localKey: string, task: () => Promise<void>): void {
+    const prev = this.pending.get(localKey) || ContinuousQueryCache.RESOLVED
+    const next = prev.then(task).catch(() => {
+      // the next event for this key will bring the view back in sync
+    })
+    this.pending.set(localKey, next)
+    next.then(() => {
+      if (this.pending.get(localKey) === next) {
+        this.pending.delete(localKey)
+      }
+    })
+  }
+
+  /**
+   * Insert or update an entry in the view, notifying listeners.
+   *
+   * @param localKey  the local key
+   * @param key       the key
+   * @param value     the value
+   */
+  private put (localKey: string, key: K, value: V): void {
+    if (this._released) {
+      return
+    }
+    const prev = this.local.get(localKey)
+    this.local.set(localKey, { key, value })
+    if (!prev) {
+      this.notify(localKey, MapEvent.ENTRY_INSERTED, key, undefined, value)
+    } else if (!ContinuousQueryCache.equal(prev.value, value)) {
+      this.notify(localKey, MapEvent.ENTRY_UPDATED, key, prev.value, value)
+    }
+  }
+
+  /**
+   * Remove an entry from the view, notifying listeners.
+   *
+   * @param localKey  the local key
+   * @param key       the key
+   */
+  private remove (localKey: string, key: K): void {
+    const prev = this.local.get(localKey)
+    if (prev) {
+      this.local.delete(localKey)
+      this.notify(localKey, MapEvent.ENTRY_DELETED, key, prev.value, undefined)
+    }
+  }
+
+  /**
+   * Notify the registered listeners of a change to the view.
+   *
+   * @param localKey  the local key
+   * @param id        the event ID
+   * @param key       the key
+   * @param oldValue  the old value, if any
+   * @param newValue  the new value, if any
+   */
+  private notify (localKey: string, id: number, key: K, oldValue?: V, newValue?: V): void {
+    const keyListeners = this.keyListeners.get(localKey)
+    if (this.mapListeners.size == 0 && !keyListeners) {
+      return
+    }
+
+    const mapEvent = MapEvent.create<K, V>(this, id, key, oldValue, newValue, ContinuousQueryCache.SERIALIZER)
+
+    const type = id == MapEvent.ENTRY_INSERTED
+      ? MapEventType.INSERT
+      : id == MapEvent.ENTRY_UPDATED ? MapEventType.UPDATE : MapEventType.DELETE
+    for (const listener of this.mapListeners) {
+      listener.emit(type, mapEvent)
+    }
+    if (keyListeners) {
+      for (const listener of keyListeners) {
+        listener.emit(type, mapEvent)
+      }
+    }
+  }
+
+  /**
+   * Return the view entries for the specified keys, or all view entries if no keys are specified.
+   *
+   * @param keys  the keys, or `null` for all entries
+   *
+   * @return the matching view entries
+   */
+  private select (keys: Iterable<K> | null): ViewEntry<K, V>[] {
+    if (keys == null) {
+      return Array.from(this.local.values())
+    }
+
+    const result: ViewEntry<K, V>[] = []
+    for (const key of keys) {
+      const entry = this.local.get(ContinuousQueryCache.localKey(key))
+      if (entry) {
+        result.push(entry)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Iterate over the view entries, or over the view entries whose keys are streamed by the
+   * underlying cache for the specified filter.
+   *
+   * @param filter   the filter, if any
+   * @param options  the options of the iteration, if any
+   *
+   * @return an async iterator over the matching view entries
+   */
+  private async * iterateView (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<ViewEntry<K, V>> {
+    if (!filter) {
+      yield * this.select(null)
+      return
+    }
+
+    for await (const key of this.cache.iterateKeys(this.filter.and(filter), options)) {
+      const entry = this.local.get(ContinuousQueryCache.localKey(key))
+      if (entry) {
+        yield entry
+      }
+    }
+  }
+
+  /**
+   * Run the provided mutation, unless this view is read-only.
+   *
+   * @param fn  the mutation
+   *
+   * @return the result of the mutation
+   */
+  private whenWritable<T> (fn: () => Promise<T>): Promise<T> {
+    if (this.readOnly) {
+      return Promise.reject(new Error('ContinuousQueryCache with a transformer is read-only'))
+    }
+    return fn()
+  }
+
+  /**
+   * Clear or reload the view in response to lifecycle events of the cache and forward
+   * those events to listeners of this view.
+   */
+  protected setupEventHandlers () {
+    const self = this
+    self.cache.on(MapLifecycleEvent.TRUNCATED, (cacheName: string) => {
+      for (const [localKey, entry] of Array.from(self.local.entries())) {
+        self.remove(localKey, entry.key)
+      }
+      self.emit(MapLifecycleEvent.TRUNCATED, cacheName)
+    })
+
+    self.cache.on(MapLifecycleEvent.DESTROYED, (cacheName: string) => {
+      self._released = true
+      self.local.clear()
+      self.emit(MapLifecycleEvent.DESTROYED, cacheName)
+    })
+
+    self.cache.on(MapLifecycleEvent.RELEASED, (cacheName: string) => {
+      self._released = true
+      self.local.clear()
+      self.emit(MapLifecycleEvent.RELEASED, cacheName)
+    })
+
+    // events may have been missed while disconnected, so reload the view
+    self.cache.on(MapLifecycleEvent.RECONNECTED, (cacheName: string) => {
+      if (!self._released) {
+        self.synchronize().catch(() => {
+          // the view will be reloaded upon the next reconnect
+        })
+      }
+    })
+  }
+
+  /**
+   * Returns the local key for the specified key.  The serialized form is used
+   * so that structurally equal keys resolve to the same view entry.
+   *
+   * @param key  the key
+   *
+   * @return the local key
+   */
+  private static localKey (key: any): string {
+    return ContinuousQueryCache.SERIALIZER.serialize(key).toString('base64')
+  }
+
+  /**
+   * Returns `true` if the two values have the same serialized form.
+   *
+   * @param a  the first value
+   * @param b  the second value
+   *
+   * @return `true` if the two values have the same serialized form
+   */
+  private static equal (a: any, b: any): boolean {
+    return ContinuousQueryCache.SERIALIZER.serialize(a).equals(ContinuousQueryCache.SERIALIZER.serialize(b))
+  }
+}
@@ -5,18 +5,38 @@
  * http://oss.oracle.com/licenses/upl.
  */
 
-import { ClientDuplexStream } from 'grpc'
+import { SpanContext } from '@opentelemetry/api'
+import { Message } from 'google-protobuf'
+import { ClientDuplexStream, Metadata, ServiceError, status } from 'grpc'
 import { EventEmitter } from 'events'
 import { filter } from './filters'
 import { MapEventResponse, MapListenerRequest, MapListenerResponse } from './grpc/messages_pb'
 import { NamedCacheServiceClient } from './grpc/services_grpc_pb'
 import { NamedCache, NamedMap } from './named-cache-client'
+import { ReconnectOptions } from './session'
+import { metrics } from './metrics'
+import { tracing } from './tracing'
 import { util } from './util'
 
 export namespace event {
 
   import Filter = filter.Filter
 
+  /**
+   * Passes a request made over the event stream of a map through the session's
+   * {@link interceptor.InterceptorChain}.
+   *
+   * @param operation  the name of the operation
+   * @param request    the `gRPC` request message
+   * @param keys       the keys the request targets, if any
+   * @param call       a function sending the request with the provided metadata
+   *
+   * @return a `Promise` resolving to the result of the request
+   * @internal
+   */
+  export type RequestInterceptor = (operation: string, request: Message, keys: Array<any> | undefined,
+                                    call: (metadata: Metadata) => Promise<any>) => Promise<any>
+
   /**
    * EventEmitter implementation to receive {@link MapEvent}s.
    */
@@ -74,6 +94,32 @@ export namespace event {
       this.oldValueBytes = mapEventResponse.getOldvalue_asU8()
     }
 
+    /**
+     * Create a `MapEvent` for a change made to a map maintained by the client.
+     *
+     * @param source      the event source
+     * @param id          the event ID
+     * @param key         the key of the changed entry
+     * @param oldValue    the old value, if any
+     * @param newValue    the new value, if any
+     * @param serializer  the {@link Serializer} used to capture the key and values
+     *
+     * @return a new `MapEvent`
+     */
+    static create<K, V> (source: NamedCache<K, V>, id: number, key: K, oldValue: V | undefined, newValue: V | undefined,
+                         serializer: util.Serializer): MapEvent<K, V> {
+      const response = new MapEventResponse()
+      response.setId(id)
+      response.setKey(serializer.serialize(key))
+      if (oldValue !== undefined) {
+        response.setOldvalue(serializer.serialize(oldValue))
+      }
+      if (newValue !== undefined) {
+        response.setNewvalue(serializer.serialize(newValue))
+      }
+      return new MapEvent<K, V>(source, response, serializer)
+    }
+
     /**
      * The name of cache from which the event originated.
      */
@@ -222,9 +268,9 @@ export namespace event {
    *
    * There are two maps that are maintained:
    *
-   * 1. A Map of stringified key => ListenerGroup, which is used to identify the
-   * group of callbacks for a single key. We stringify the key since Javascript
-   * is not the same as Java's equals().
+   * 1. A Map of key => ListenerGroup, which is used to identify the
+   * group of callbacks for a single key. Keys are compared using their
+   * serialized form since Javascript equality is not the same as Java's equals().
    *
    * 2. A Map of filter => ListenerGroup that is used to identify the group of
    * callbacks for a MapEventFilter.
@@ -258,14 +304,35 @@ export namespace event {
     protected mapName: string
 
     /**
-     * The gRPC service client.
+     * Supplies the gRPC service client to open the event stream with.  The client may change
+     * between calls, allowing a re-established stream to fail over to another proxy.
+     */
+    protected client: () => NamedCacheServiceClient
+
+    /**
+     * Called with the gRPC service client of an event stream lost because its proxy is unavailable.
+     */
+    protected onUnavailable: (client: NamedCacheServiceClient) => void
+
+    /**
+     * Passes the requests made over the event stream through the session's interceptors.
+     */
+    protected intercept: RequestInterceptor
+
+    /**
+     * The {@link tracing.RequestTracer} emitting a span for each listener notified of an event.
      */
-    protected client: NamedCacheServiceClient
+    readonly tracer: tracing.RequestTracer
 
     /**
-     * The `NamedMap` that will used as the *source* of the events.
+     * The {@link metrics.CacheMetrics} recording the events dispatched to listeners.
      */
-    protected namedMap: NamedMap<K, V>
+    readonly cacheMetrics: metrics.CacheMetrics
+
+    /**
+     * The `NamedCache` that will used as the *source* of the events.
+     */
+    protected namedMap: NamedCache<K, V>
 
     /**
      * Request factory.
@@ -308,7 +375,7 @@ export namespace event {
     private filterId2ListenerGroup: Map<number, ListenerGroup<K, V>>
 
     /**
-     * The serializer to apply when ser/deser map events.
+     * The serializer used to hash the keys with registered listeners.
      */
     private readonly serializer: util.Serializer
 
@@ -317,64 +384,192 @@ export namespace event {
      */
     private emitter: EventEmitter
 
+    /**
+     * The options controlling re-establishment of a lost event stream.
+     */
+    private readonly reconnectOptions: ReconnectOptions
+
+    /**
+     * The duplex stream currently in use; used to ignore notifications
+     * from streams that have already been abandoned.
+     */
+    private currentStream: ClientDuplexStream<MapListenerRequest, MapListenerResponse> | null = null
+
+    /**
+     * The gRPC service client the current event stream was opened with.
+     */
+    private streamClient: NamedCacheServiceClient | null = null
+
+    /**
+     * Flag indicating the current stream has been successfully initialized.
+     */
+    private connected = false
+
+    /**
+     * Flag indicating the event stream is being re-established.
+     */
+    private reconnecting = false
+
+    /**
+     * The number of consecutive reconnection attempts made.
+     */
+    private reconnectAttempts = 0
+
+    /**
+     * The listener groups to re-subscribe once the event stream is re-created, after
+     * reconnection gave up, or `null` if there are none.
+     */
+    private lostGroups: Array<ListenerGroup<K, V>> | null = null
+
+    /**
+     * The timer for the next scheduled reconnection attempt, if any.
+     */
+    private reconnectTimer: NodeJS.Timeout | null = null
+
     /**
      * Constructs a new `MapEventsManager`
      *
-     * @param namedMap    the {@link NamedMap} to manage events for
-     * @param client      the `gRPC` interface for making requests
-     * @param scope       the {@link NamedMap} scope
-     * @param serializer  the {@link Serializer} used by this map
-     * @param emitter     the {@link EventEmitter} to use
-     */
-    constructor (namedMap: NamedMap<K, V>, scope: string, client: NamedCacheServiceClient, serializer: util.Serializer, emitter: EventEmitter) {
+     * @param namedMap          the {@link NamedCache} to manage events for
+     * @param client            supplies the `gRPC` interface for making requests
+     * @param scope             the {@link NamedMap} scope
+     * @param serializer        the {@link Serializer} used by this map
+     * @param emitter           the {@link EventEmitter} to use
+     * @param reconnectOptions  the {@link ReconnectOptions} to apply if the event stream is lost
+     * @param onUnavailable     called with the client of an event stream lost because its proxy is unavailable
+     * @param tracer            the {@link tracing.RequestTracer} emitting a span for each listener notified of an event
+     * @param cacheMetrics      the {@link metrics.CacheMetrics} recording the events dispatched to listeners
+     * @param intercept         passes the requests made over the event stream through the session's interceptors
+     */
+    constructor (namedMap: NamedCache<K, V>, scope: string, client: () => NamedCacheServiceClient, serializer: util.Serializer,
+                 emitter: EventEmitter, reconnectOptions: ReconnectOptions,
+                 onUnavailable: (client: NamedCacheServiceClient) => void, tracer: tracing.RequestTracer,
+                 cacheMetrics: metrics.CacheMetrics, intercept: RequestInterceptor) {
       this.mapName = namedMap.name
       this.client = client
+      this.onUnavailable = onUnavailable
+      this.intercept = intercept
+      this.tracer = tracer
+      this.cacheMetrics = cacheMetrics
       this.namedMap = namedMap
       this.serializer = serializer
       this.emitter = emitter
+      this.reconnectOptions = reconnectOptions
 
       // Initialize internal data structures.
-      this.keyMap = new Map()
+      this.keyMap = new util.HashMap(32, undefined, new util.SerializedHashingStrategy(serializer))
       this.filterMap = new Map()
       this.filterId2ListenerGroup = new Map()
-      this.reqFactory = new util.RequestFactory(this.mapName, scope, serializer)
-      this.streamPromise = this.ensureStream()
+      this.reqFactory = new util.RequestFactory(this.mapName, scope, new metrics.MeteredSerializer(serializer, cacheMetrics))
+
+      // a failure here will be surfaced to the first subscription made on the stream
+      this.ensureStream().catch(() => {})
+    }
+
+    /**
+     * Returns `true` if the event stream is open.
+     *
+     * @return `true` if the event stream is open
+     */
+    get streamOpen (): boolean {
+      return this.connected
     }
 
     /**
-     * Create a BiDi stream lazily.
+     * Returns the serialization format of the events.
+     *
+     * @return the serialization format of the events
+     */
+    get format (): string {
+      return this.serializer.format
+    }
+
+    /**
+     * Returns the number of keys and filters with registered listeners.
+     *
+     * @return the number of keys and filters with registered listeners
+     */
+    get listenerGroupCount (): number {
+      return this.keyMap.size + this.filterMap.size
+    }
+
+    /**
+     * Create a BiDi stream lazily.  If reconnection gave up, the listener groups registered
+     * when the stream was lost are re-subscribed once the stream has been re-created, and a
+     * {@link MapLifecycleEvent.RECONNECTED} event is then raised.
      */
     ensureStream (): Promise<ClientDuplexStream<MapListenerRequest, MapListenerResponse>> {
+      const lost = this.streamPromise == null ? this.lostGroups : null
+      const stream = this.openStream()
+      if (lost) {
+        this.lostGroups = null
+        stream.then(() => this.replay(lost))
+          .then(() => this.emitter.emit(MapLifecycleEvent.RECONNECTED, this.mapName))
+          .catch(() => {
+            // a stream lost once open is re-established in the background; otherwise
+            // the groups are re-subscribed when the stream is next re-created
+            if (this.streamPromise == null && !this.reconnecting && this.lostGroups == null) {
+              this.lostGroups = lost
+            }
+          })
+      }
+      return stream
+    }
+
+    /**
+     * Open the BiDi stream, unless it is already open or being opened.
+     */
+    private openStream (): Promise<ClientDuplexStream<MapListenerRequest, MapListenerResponse>> {
       const self = this
       if (self.streamPromise == null) {
-        const bidiStream = self.client.events()
-
-        bidiStream.on('data', (resp) => self.handleResponse(resp))
-        bidiStream.on('end', () => self.onEnd())
-        bidiStream.on('error', (err) => self.onError(err))
-        bidiStream.on('cancelled', () => self.onCancel())
-
         // Create a SubscribeRequest (with RequestType.INIT)
         const request = self.reqFactory.mapEventSubscribe()
         const initUid = request.getUid()
-        self.streamPromise = new Promise((resolve, reject) => {
-          // Setup pending subscriptions map so that when the
-          // subscribe response comes back, or an error occurs
-          // we can resolve or reject the connection.
-          self.pendingSubscriptions.set(initUid, (uid, resp, err) => {
-            self.pendingSubscriptions.delete(uid)
-            if (err) {
-              reject(err)
-            } else {
-              // If we received a successful subscribed response,
-              // the connection is initialized. So resolve it.
-              resolve(bidiStream)
-            }
-          })
+        let opened: ClientDuplexStream<MapListenerRequest, MapListenerResponse> | null = null
+
+        self.streamPromise = self.intercept('events', request, undefined, (metadata) => {
+          const client = self.client()
+          const bidiStream = client.events(metadata)
+          opened = bidiStream
+          self.currentStream = bidiStream
+          self.streamClient = client
+
+          bidiStream.on('data', (resp) => self.handleResponse(resp))
+          bidiStream.on('end', () => self.onEnd(bidiStream))
+          bidiStream.on('error', (err) => self.onError(bidiStream, err))
+          bidiStream.on('cancelled', () => self.onCancel(bidiStream))
+
+          return new Promise((resolve, reject) => {
+            // Setup pending subscriptions map so that when the
+            // subscribe response comes back, or an error occurs
+            // we can resolve or reject the connection.
+            self.pendingSubscriptions.set(initUid, (uid, resp, err) => {
+              self.pendingSubscriptions.delete(uid)
+              if (err) {
+                reject(err)
+              } else {
+                // If we received a successful subscribed response,
+                // the connection is initialized. So resolve it.
+                self.connected = true
+                resolve(bidiStream)
+              }
+            })
 
-          // Now that we have set up the pending subscriptions map,
-          // write the init request.
-          bidiStream.write(request)
+            // Now that we have set up the pending subscriptions map,
+            // write the init request.
+            bidiStream.write(request)
+          })
+        }).then(() => {
+          if (opened == null) {
+            throw new Error('the event stream cannot be short-circuited by an interceptor')
+          }
+          return opened
+        }).catch((err) => {
+          // the stream is re-created by the next subscription unless it was opened,
+          // in which case its failure has been handled by onStreamFailure()
+          if (opened == null) {
+            self.streamPromise = null
+          }
+          throw err
         })
       }
 
@@ -419,7 +614,7 @@ export namespace event {
           if (resp.hasEvent()) {
             const event = resp.getEvent()
             if (event) {
-              const mapEvent = new MapEvent(this.namedMap, event, this.serializer)
+              const mapEvent = new MapEvent(this.namedMap, event, this.reqFactory.serializer)
 
               for (const id of event.getFilteridsList()) {
                 const group = this.filterId2ListenerGroup.get(id)
@@ -512,24 +707,27 @@ export namespace event {
     /**
      * Write the provided `gRPC` {@link MapListenerRequest}.
      *
-     * @param request the {@link MapListenerRequest}
+     * @param request  the {@link MapListenerRequest}
+     * @param keys     the keys the request targets, if any
      *
      */
-    writeRequest (request: MapListenerRequest): Promise<void> {
+    writeRequest (request: MapListenerRequest, keys?: Array<K>): Promise<void> {
       const self = this
       return this.ensureStream()
         .then((stream: ClientDuplexStream<MapListenerRequest, MapListenerResponse>) => {
-          return new Promise<void>((resolve, reject) => {
-            self.pendingSubscriptions.set(request.getUid(), (uid, resp, err) => {
-              self.pendingSubscriptions.delete(uid)
-              if (err) {
-                reject(err)
-              } else {
-                resolve()
-              }
-            })
-            stream.write(request)
-          })
+          // the metadata of the event stream was sent when it was opened
+          return self.intercept(request.getSubscribe() ? 'subscribe' : 'unsubscribe', request, keys,
+            () => new Promise<void>((resolve, reject) => {
+              self.pendingSubscriptions.set(request.getUid(), (uid, resp, err) => {
+                self.pendingSubscriptions.delete(uid)
+                if (err) {
+                  reject(err)
+                } else {
+                  resolve()
+                }
+              })
+              stream.write(request)
+            }))
         })
     }
 
@@ -538,6 +736,10 @@ export namespace event {
      */
     async closeEventStream (): Promise<void> {
       const self = this
+      if (self.reconnectTimer != null) {
+        clearTimeout(self.reconnectTimer)
+        self.reconnectTimer = null
+      }
       if (!self.markedForClose && self.streamPromise != null) {
         self.markedForClose = true
         const bidiStream = await self.streamPromise
@@ -547,6 +749,7 @@ export namespace event {
           bidiStream.on('error', (err) => {
             if (err.toString().indexOf('CANCELLED')) {
               self.streamPromise = null
+              self.connected = false
               resolve()
             }
           })
@@ -589,29 +792,146 @@ export namespace event {
     /**
      * Handles stream errors.
      *
-     * @param err  the stream error
+     * @param stream  the stream raising the error
+     * @param err     the stream error
      */
-    private onError (err: Error) {
-      if (!this.markedForClose) {
-        this.emitter.emit('error', this.mapName + ': Received onError', err)
-      }
+    private onError (stream: ClientDuplexStream<MapListenerRequest, MapListenerResponse>, err: Error) {
+      this.onStreamFailure(stream, this.mapName + ': Received onError', err)
     }
 
     /**
      * Handles the end of an event stream.
+     *
+     * @param stream  the stream that has ended
      */
-    private onEnd () {
-      if (!this.markedForClose) {
-        this.emitter.emit('error', this.mapName + ': Received onEnd')
-      }
+    private onEnd (stream: ClientDuplexStream<MapListenerRequest, MapListenerResponse>) {
+      this.onStreamFailure(stream, this.mapName + ': Received onEnd')
     }
 
     /**
      * Handles a stream being cancelled.
+     *
+     * @param stream  the stream that has been cancelled
+     */
+    private onCancel (stream: ClientDuplexStream<MapListenerRequest, MapListenerResponse>) {
+      this.onStreamFailure(stream, '** Received onCancel')
+    }
+
+    /**
+     * Handles the loss of an event stream.  Any outstanding subscriptions are failed
+     * and, if reconnection is enabled and the stream had been initialized, a
+     * {@link MapLifecycleEvent.DISCONNECTED} event is raised and the stream will be
+     * re-established in the background.
+     *
+     * @param stream   the stream that has been lost
+     * @param message  a description of the failure
+     * @param err      the stream error, if any
+     */
+    private onStreamFailure (stream: ClientDuplexStream<MapListenerRequest, MapListenerResponse>, message: string, err?: Error) {
+      if (this.markedForClose || stream !== this.currentStream) {
+        return
+      }
+
+      // ensure the stream is re-established using another proxy
+      if (err && (err as ServiceError).code === status.UNAVAILABLE && this.streamClient) {
+        this.onUnavailable(this.streamClient)
+      }
+
+      const wasConnected = this.connected
+      this.currentStream = null
+      this.streamClient = null
+      this.streamPromise = null
+      this.connected = false
+
+      const cause = err ? err : new Error(message)
+      const pending = Array.from(this.pendingSubscriptions.entries())
+      this.pendingSubscriptions.clear()
+      for (const [uid, callback] of pending) {
+        callback(uid, undefined, cause)
+      }
+
+      if (!this.reconnectOptions.enabled) {
+        this.emitter.emit('error', message, err)
+        return
+      }
+
+      // an in-flight reconnection attempt will have been failed above and will re-schedule itself
+      if (wasConnected && !this.reconnecting) {
+        this.reconnecting = true
+        this.emitter.emit(MapLifecycleEvent.DISCONNECTED, this.mapName, cause)
+        this.scheduleReconnect()
+      }
+    }
+
+    /**
+     * Schedules the next reconnection attempt based on the configured backoff.  Once the maximum
+     * number of attempts has been reached, a {@link MapLifecycleEvent.RECONNECT_FAILED} event is
+     * raised and the stream is left to be lazily re-created, and the listener groups re-subscribed,
+     * by the next subscription.
+     *
+     * @param err  the failure of the previous attempt, if any
+     */
+    private scheduleReconnect (err?: Error): void {
+      const self = this
+      if (self.markedForClose) {
+        return
+      }
+      if (self.reconnectAttempts >= self.reconnectOptions.maxAttempts) {
+        self.reconnecting = false
+        self.reconnectAttempts = 0
+        self.filterId2ListenerGroup.clear()
+        self.lostGroups = self.listenerGroups()
+        self.emitter.emit(MapLifecycleEvent.RECONNECT_FAILED, self.mapName,
+          err || new Error('the event stream could not be re-established'))
+        return
+      }
+
+      self.reconnectAttempts++
+      self.reconnectTimer = setTimeout(() => {
+        self.reconnectTimer = null
+        self.resubscribe()
+          .then(() => {
+            self.reconnecting = false
+            self.reconnectAttempts = 0
+            self.emitter.emit(MapLifecycleEvent.RECONNECTED, self.mapName)
+          })
+          .catch((err) => self.scheduleReconnect(err))
+      }, self.reconnectOptions.delayFor(self.reconnectAttempts))
+    }
+
+    /**
+     * Re-create the event stream and replay the subscriptions of all key and filter
+     * listener groups with the *lite* mode they were registered with.
      */
-    private onCancel () {
-      if (!this.markedForClose) {
-        this.emitter.emit('error', '** Received onCancel')
+    private async resubscribe (): Promise<void> {
+      await this.ensureStream()
+
+      // filter IDs are allocated anew as each group re-subscribes
+      this.filterId2ListenerGroup.clear()
+      await this.replay(this.listenerGroups())
+    }
+
+    /**
+     * Returns the key and filter listener groups.
+     *
+     * @return the key and filter listener groups
+     */
+    private listenerGroups (): Array<ListenerGroup<K, V>> {
+      const groups: Array<ListenerGroup<K, V>> = Array.from(this.keyMap.values())
+      return groups.concat(Array.from(this.filterMap.values()))
+    }
+
+    /**
+     * Re-subscribe the listener groups that still have listeners with the *lite* mode
+     * they were registered with.
+     *
+     * @param groups  the listener groups
+     */
+    private async replay (groups: Array<ListenerGroup<K, V>>): Promise<void> {
+      for (const group of groups) {
+        if (group.listeners.size > 0) {
+          await group.doSubscribe(group.registeredIsLite)
+        }
       }
     }
   }
@@ -652,9 +972,9 @@ export namespace event {
 
     /**
      * A map of all callbacks in this group. Each callback has a isLite
-     * flag.
+     * flag, and the context of the span it was registered in, if any.
      */
-    listeners: Map<event.MapListener<K, V>, { isLite: boolean }> = new Map()
+    listeners: Map<event.MapListener<K, V>, { isLite: boolean, spanContext?: SpanContext }> = new Map()
 
     /**
      * Number of callbacks who are registered with isLite == false.
@@ -679,6 +999,15 @@ export namespace event {
       this.keyOrFilter = keyOrFilter
     }
 
+    /**
+     * Returns the keys targeted by the requests of this group.
+     *
+     * @return the key of this group, or `undefined` if this group is for a filter
+     */
+    protected get keys (): Array<K> | undefined {
+      return this.keyOrFilter instanceof Filter ? undefined : [this.keyOrFilter as K]
+    }
+
     /**
      * Add a callback to this group. This causes a subscription message
      * to be sent through the stream if (a) either this is the first
@@ -699,7 +1028,7 @@ export namespace event {
         return ListenerGroup.RESOLVED
       }
 
-      this.listeners.set(listener, { isLite })
+      this.listeners.set(listener, { isLite, spanContext: this.helper.tracer.activeSpanContext() })
       if (!isLite) {
         this.isLiteFalseCount++
       }
@@ -768,7 +1097,7 @@ export namespace event {
     async doSubscribe (isLite: boolean): Promise<void> {
       // @ts-ignore
       const request = this.helper.reqFactory.mapListenerRequest(true, this.keyOrFilter, isLite)
-      await this.helper.writeRequest(request)
+      await this.helper.writeRequest(request, this.keys)
       this.postSubscribe(request)
     }
 
@@ -778,7 +1107,7 @@ export namespace event {
     async doUnsubscribe (): Promise<void> {
       // @ts-ignore
       const request = this.helper.reqFactory.mapListenerRequest(false, this.keyOrFilter)
-      await this.helper.writeRequest(request)
+      await this.helper.writeRequest(request, this.keys)
 
       this.postUnsubscribe(request)
     }
@@ -789,18 +1118,23 @@ export namespace event {
      * @param mapEvent the {@link MapEvent}
      */
     notifyListeners (mapEvent: MapEvent): void {
-      for (const listener of this.listeners.keys()) {
-        switch (mapEvent.id) {
-          case MapEvent.ENTRY_DELETED:
-            listener.emit(MapEventType.DELETE, mapEvent)
-            break
-          case MapEvent.ENTRY_INSERTED:
-            listener.emit(MapEventType.INSERT, mapEvent)
-            break
-          case MapEvent.ENTRY_UPDATED:
-            listener.emit(MapEventType.UPDATE, mapEvent)
-            break
-        }
+      let type: MapEventType
+      switch (mapEvent.id) {
+        case MapEvent.ENTRY_DELETED:
+          type = MapEventType.DELETE
+          break
+        case MapEvent.ENTRY_INSERTED:
+          type = MapEventType.INSERT
+          break
+        case MapEvent.ENTRY_UPDATED:
+          type = MapEventType.UPDATE
+          break
+        default:
+          return
+      }
+      for (const [listener, registration] of this.listeners) {
+        this.helper.cacheMetrics.recordEventDispatched()
+        this.helper.tracer.traceEvent(mapEvent, this.helper.format, registration.spanContext, () => listener.emit(type, mapEvent))
       }
     }
 
@@ -900,7 +1234,27 @@ export namespace event {
     /**
      * Raised when a cache is released.
      */
-    RELEASED = 'map_released'
+    RELEASED = 'map_released',
+
+    /**
+     * Raised when the event stream for a cache has been lost.  Events raised
+     * while disconnected will not be received.
+     */
+    DISCONNECTED = 'map_disconnected',
+
+    /**
+     * Raised when the event stream for a cache has been re-established and
+     * all listener registrations have been restored.
+     */
+    RECONNECTED = 'map_reconnected',
+
+    /**
+     * Raised when the event stream for a cache could not be re-established within the
+     * maximum number of reconnection attempts.  Listeners receive no events until the
+     * stream is re-created by the next listener registration, after which the listener
+     * registrations are restored and {@link RECONNECTED} is raised.
+     */
+    RECONNECT_FAILED = 'map_reconnect_failed'
   }
 
   export enum MapEventType {
@@ -935,6 +1289,46 @@ export namespace event {
    * @internal
    */
   export enum SessionLifecycleEvent {
-    CLOSED = 'session_closed'
+    /**
+     * Raised when the session has been closed.
+     */
+    CLOSED = 'session_closed',
+
+    /**
+     * Raised, with the proxy address, when a channel starts connecting to its proxy.
+     */
+    CONNECTING = 'session_connecting',
+
+    /**
+     * Raised, with the proxy address, when a channel has connected to its proxy for the first time.
+     */
+    CONNECTED = 'session_connected',
+
+    /**
+     * Raised, with the proxy address, when a channel has failed to connect to its proxy; gRPC
+     * will continue to attempt to connect.
+     */
+    TRANSIENT_FAILURE = 'session_transient_failure',
+
+    /**
+     * Raised, with the proxy address, when a channel that was connected loses its connection.
+     */
+    DISCONNECTED = 'session_disconnected',
+
+    /**
+     * Raised, with the proxy address, when a channel that had lost its connection has connected again.
+     */
+    RECONNECTED = 'session_reconnected',
+
+    /**
+     * Raised when the session's channels have been replaced following a change to its certificate files.
+     */
+    CERTIFICATES_ROTATED = 'session_certificates_rotated',
+
+    /**
+     * Raised, with the error, when the changed certificate files could not be loaded; the session
+     * continues to use its existing channels and loads the files again when they next change.
+     */
+    CERTIFICATE_ROTATION_FAILED = 'session_certificate_rotation_failed'
   }
 }
\ No newline at end of file
@@ -65,6 +65,19 @@ export namespace extractor {
         ? after.compose(this)
         : new ChainedExtractor([this, after])
     }
+
+    /**
+     * Extract the value from the passed object locally, without a round trip
+     * to the server.
+     *
+     * @param target  the object to extract the value from
+     *
+     * @return the extracted value
+     * @throws Error if this extractor does not support local evaluation
+     */
+    extract (target: any): any {
+      return util.unsupportedLocally(this)
+    }
   }
 
   /**
@@ -130,6 +143,18 @@ export namespace extractor {
         this.params = params
       }
     }
+
+    /**
+     * @inheritDoc
+     */
+    extract (target: any): any {
+      if (target == null) {
+        return null
+      }
+      return this.name.endsWith('()')
+        ? invokeMethod(target, this.name.substring(0, this.name.length - 2), this.params || [])
+        : getProperty(target, this.name)
+    }
   }
 
   /**
@@ -170,6 +195,20 @@ export namespace extractor {
 
       return arr
     }
+
+    /**
+     * @inheritDoc
+     */
+    extract (target: any): any {
+      let value = target
+      for (const ve of this.extractors) {
+        if (value == null) {
+          return null
+        }
+        value = ve.extract(value)
+      }
+      return value
+    }
   }
 
   /**
@@ -186,6 +225,13 @@ export namespace extractor {
     protected constructor () {
       super(extractorName('IdentityExtractor'))
     }
+
+    /**
+     * @inheritDoc
+     */
+    extract (target: any): any {
+      return target
+    }
   }
 
 
@@ -232,6 +278,13 @@ export namespace extractor {
 
       return arr
     }
+
+    /**
+     * @inheritDoc
+     */
+    extract (target: any): any {
+      return this.extractors.map(ve => ve.extract(target))
+    }
   }
 
 
@@ -252,6 +305,19 @@ export namespace extractor {
     protected constructor (clz: string) {
       this['@class'] = clz
     }
+
+    /**
+     * Update the state of the passed object locally, without a round trip
+     * to the server.
+     *
+     * @param target  the object to update
+     * @param value   the new value to set
+     *
+     * @throws Error if this updater does not support local evaluation
+     */
+    update (target: any, value: any): void {
+      util.unsupportedLocally(this)
+    }
   }
 
   /**
@@ -331,6 +397,17 @@ export namespace extractor {
     getUpdater (): ValueUpdater {
       return this.updater
     }
+
+    /**
+     * @inheritDoc
+     */
+    update (target: any, value: any): void {
+      const extracted = this.extractor.extract(target)
+      if (extracted == null) {
+        throw new Error('cannot update a property of a null value')
+      }
+      this.updater.update(extracted, value)
+    }
   }
 
   /**
@@ -362,11 +439,101 @@ export namespace extractor {
       super(extractorName('UniversalUpdater'))
       this.name = method
     }
+
+    /**
+     * @inheritDoc
+     */
+    update (target: any, value: any): void {
+      if (target == null) {
+        throw new Error('cannot update a property of a null value')
+      }
+      if (this.name.endsWith('()')) {
+        invokeMethod(target, this.name.substring(0, this.name.length - 2), [value])
+      } else {
+        setProperty(target, this.name, value)
+      }
+    }
   }
 
   function extractorName (name: string): string {
     return 'extractor.' + name
   }
+
+  /**
+   * Return the named property of the target, using a JavaBean-style accessor
+   * method if the target has one; missing properties are returned as `null`.
+   */
+  function getProperty (target: any, name: string): any {
+    const suffix = name.charAt(0).toUpperCase() + name.substring(1)
+    let value
+    if (target instanceof Map) {
+      value = target.get(name)
+    } else if (name in Object(target)) {
+      value = target[name]
+    } else if (typeof target['get' + suffix] === 'function') {
+      value = target['get' + suffix]()
+    } else if (typeof target['is' + suffix] === 'function') {
+      value = target['is' + suffix]()
+    }
+    return value === undefined ? null : value
+  }
+
+  /**
+   * Set the named property of the target, using a JavaBean-style mutator
+   * method if the target has one.
+   */
+  function setProperty (target: any, name: string, value: any): void {
+    const setter = 'set' + name.charAt(0).toUpperCase() + name.substring(1)
+    if (typeof target[setter] === 'function') {
+      target[setter](value)
+    } else if (target instanceof Map) {
+      target.set(name, value)
+    } else {
+      target[name] = value
+    }
+  }
+
+  /**
+   * Invoke the named method on the target.  Plain objects are treated the way
+   * the server treats JSON objects, that is as maps, so `get`, `put`, `remove`
+   * and `containsKey` work against their properties, and JavaBean-style accessors
+   * and mutators fall back to the corresponding property.
+   */
+  function invokeMethod (target: any, method: string, args: any[]): any {
+    if (typeof target[method] === 'function') {
+      const result = target[method](...args)
+      return result === undefined ? null : result
+    }
+
+    const accessor = /^(get|is|set)([A-Z].*)$/.exec(method)
+    if (accessor) {
+      const name = accessor[2].charAt(0).toLowerCase() + accessor[2].substring(1)
+      if (accessor[1] != 'set' && args.length == 0) {
+        return getProperty(target, name)
+      }
+      if (accessor[1] == 'set' && args.length == 1) {
+        setProperty(target, name, args[0])
+        return null
+      }
+    } else if (typeof target === 'object' && args.length > 0) {
+      const name = args[0]
+      const old = name in target ? target[name] : null
+      switch (method) {
+        case 'get':
+          return old
+        case 'containsKey':
+          return name in target
+        case 'put':
+          target[name] = args[1]
+          return old
+        case 'remove':
+          delete target[name]
+          return old
+      }
+    }
+
+    throw new Error('method ' + method + '() cannot be invoked locally on ' + JSON.stringify(target))
+  }
 }
 
 /**
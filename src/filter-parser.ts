@@ -0,0 +1,534 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import { extractor, Extractors } from './extractors'
+import { filter, Filters } from './filters'
+import { util } from './util'
+import Filter = filter.Filter
+import ValueExtractor = extractor.ValueExtractor
+
+/**
+ * The kinds of token produced when scanning a query.
+ * @internal
+ */
+enum TokenType {
+  IDENTIFIER,
+  STRING,
+  NUMBER,
+  PARAMETER,
+  SYMBOL,
+  END
+}
+
+/**
+ * A token scanned from a query, along with its position.
+ * @internal
+ */
+interface Token {
+  type: TokenType
+  text: string
+  value?: any
+  line: number
+  column: number
+}
+
+/**
+ * Error raised when a query cannot be parsed, identifying where in the
+ * query the problem was found.
+ */
+export class FilterParseError
+  extends Error {
+  /**
+   * The line, starting at `1`, at which the error was found.
+   */
+  readonly line: number
+
+  /**
+   * The column, starting at `1`, at which the error was found.
+   */
+  readonly column: number
+
+  /**
+   * Constructs a new `FilterParseError`.
+   *
+   * @param message  the description of the error
+   * @param line     the line at which the error was found
+   * @param column   the column at which the error was found
+   */
+  constructor (message: string, line: number, column: number) {
+    super(message + ' at line ' + line + ', column ' + column)
+    this.name = 'FilterParseError'
+    this.line = line
+    this.column = column
+  }
+}
+
+/**
+ * Parses CohQL-style `WHERE` clauses into the equivalent {@link Filter}.
+ *
+ * @remarks
+ * The following conditions are supported, where *path* is a property name or a
+ * dot-delimited sequence of property names (resulting in a {@link extractor.ChainedExtractor}),
+ * optionally ending in `()` to invoke a method, or `value()` for the entry value itself:
+ *
+ * ```
+ *   path = value, path == value, path != value, path <> value
+ *   path < value, path <= value, path > value, path >= value
+ *   path [not] between value and value
+ *   path [not] in (value, ...)
+ *   path [not] like value [escape value]
+ *   path [not] ilike value [escape value]
+ *   path is [not] null
+ *   path contains value
+ *   path contains all (value, ...)
+ *   path contains any (value, ...)
+ * ```
+ *
+ * Conditions may be combined using `and` (`&&`), `or` (`||`), `not` (`!`) and
+ * parentheses.  Keywords are case-insensitive.
+ *
+ * Values may be single or double quoted strings, numbers, `true`, `false`, `null`,
+ * or bind parameters.  Bind parameters are either positional, `?` taking the next
+ * positional value and `?1` the first, or named, such as `:name`.  A bind parameter
+ * used with `in` or `contains all`/`contains any` may be bound to an array or a `Set`.
+ *
+ * Example:
+ * ```ts
+ * const f = FilterParser.parse("age between 20 and 30 and address.city in ('Boston', 'NYC') " +
+ *                              "and not name like :prefix", { prefix: 'A%' })
+ * const adults = await map.values(f)
+ * ```
+ */
+export class FilterParser {
+  /**
+   * The scanned tokens.
+   */
+  protected readonly tokens: Token[]
+
+  /**
+   * The bind parameter values.
+   */
+  protected readonly params: any[] | { [name: string]: any }
+
+  /**
+   * The index of the current token.
+   */
+  protected position: number = 0
+
+  /**
+   * The index of the next positional parameter.
+   */
+  protected nextPositional: number = 0
+
+  /**
+   * Constructs a new `FilterParser`.
+   *
+   * @param query   the query text
+   * @param params  the bind parameter values
+   */
+  protected constructor (query: string, params?: any[] | { [name: string]: any }) {
+    this.tokens = FilterParser.scan(query)
+    this.params = params || []
+  }
+
+  /**
+   * Parse the query into a {@link Filter}.
+   *
+   * @param query   the query text, for example `age > 20 and name like 'A%'`
+   * @param params  the optional values of the bind parameters in the query; an array
+   *                for positional parameters or an object for named parameters
+   *
+   * @return the {@link Filter} equivalent to the query
+   * @throws FilterParseError if the query is not valid
+   */
+  static parse (query: string, params?: any[] | { [name: string]: any }): Filter {
+    util.ensureNonEmptyString(query, 'query cannot be null or empty')
+
+    const parser = new FilterParser(query, params)
+    const result = parser.parseOr()
+    parser.expectEnd()
+    return result
+  }
+
+  /**
+   * Parse a disjunction of conditions.
+   */
+  protected parseOr (): Filter {
+    let result = this.parseAnd()
+    while (this.acceptKeyword('or') || this.acceptSymbol('||')) {
+      result = result.or(this.parseAnd())
+    }
+    return result
+  }
+
+  /**
+   * Parse a conjunction of conditions.
+   */
+  protected parseAnd (): Filter {
+    let result = this.parseNot()
+    while (this.acceptKeyword('and') || this.acceptSymbol('&&')) {
+      result = result.and(this.parseNot())
+    }
+    return result
+  }
+
+  /**
+   * Parse an optionally negated condition.
+   */
+  protected parseNot (): Filter {
+    if (this.acceptKeyword('not') || this.acceptSymbol('!')) {
+      return Filters.not(this.parseNot())
+    }
+    return this.parsePrimary()
+  }
+
+  /**
+   * Parse a parenthesized expression or a single condition.
+   */
+  protected parsePrimary (): Filter {
+    if (this.acceptSymbol('(')) {
+      const result = this.parseOr()
+      this.expectSymbol(')')
+      return result
+    }
+    return this.parseCondition()
+  }
+
+  /**
+   * Parse a condition testing the value extracted by a path.
+   */
+  protected parseCondition (): Filter {
+    const path = this.parsePath()
+    const token = this.peek()
+
+    if (token.type == TokenType.SYMBOL) {
+      switch (token.text) {
+        case '=':
+        case '==':
+          this.next()
+          return Filters.equal(path, this.parseValue())
+        case '!=':
+        case '<>':
+          this.next()
+          return Filters.notEqual(path, this.parseValue())
+        case '<':
+          this.next()
+          return Filters.less(path, this.parseValue())
+        case '<=':
+          this.next()
+          return Filters.lessEqual(path, this.parseValue())
+        case '>':
+          this.next()
+          return Filters.greater(path, this.parseValue())
+        case '>=':
+          this.next()
+          return Filters.greaterEqual(path, this.parseValue())
+      }
+    }
+
+    if (this.acceptKeyword('is')) {
+      const negated = this.acceptKeyword('not')
+      this.expectKeyword('null')
+      return negated ? Filters.isNotNull(path) : Filters.isNull(path)
+    }
+
+    if (this.acceptKeyword('contains')) {
+      if (this.acceptKeyword('all')) {
+        return Filters.arrayContainsAll(path, new Set(this.parseList()))
+      }
+      if (this.acceptKeyword('any')) {
+        return Filters.arrayContainsAny(path, new Set(this.parseList()))
+      }
+      return Filters.arrayContains(path, this.parseValue())
+    }
+
+    const negated = this.acceptKeyword('not')
+    let result: Filter
+    if (this.acceptKeyword('between')) {
+      const from = this.parseValue()
+      this.expectKeyword('and')
+      result = Filters.between(path, from, this.parseValue(), true, true)
+    } else if (this.acceptKeyword('in')) {
+      result = Filters.in(path, new Set(this.parseList()))
+    } else if (this.isKeyword(this.peek(), 'like') || this.isKeyword(this.peek(), 'ilike')) {
+      const ignoreCase = this.next().text.toLowerCase() == 'ilike'
+      const pattern = this.parseValue()
+      const escape = this.acceptKeyword('escape') ? this.parseValue() : undefined
+      result = Filters.like(path, pattern, escape, ignoreCase)
+    } else {
+      throw this.error(this.peek(), negated
+        ? 'expected between, in, like or ilike'
+        : 'expected a comparison operator')
+    }
+
+    return negated ? Filters.not(result) : result
+  }
+
+  /**
+   * Parse the path identifying the value to test.
+   *
+   * @return the name of the property or method, the dot-delimited sequence of
+   *         names, or the {@link ValueExtractor} for the entry value itself
+   */
+  protected parsePath (): string | ValueExtractor {
+    const first = this.peek()
+    let path = this.parseName()
+    if (path == 'value()') {
+      return Extractors.identity()
+    }
+    if (path == 'key()') {
+      throw this.error(first, 'key() is not supported')
+    }
+    while (this.acceptSymbol('.')) {
+      path += '.' + this.parseName()
+    }
+    return path
+  }
+
+  /**
+   * Parse a property name, or a method name followed by `()`.
+   */
+  protected parseName (): string {
+    const token = this.next()
+    if (token.type != TokenType.IDENTIFIER) {
+      throw this.error(token, 'expected a property name but found ' + this.describe(token))
+    }
+    if (this.acceptSymbol('(')) {
+      this.expectSymbol(')')
+      return token.text + '()'
+    }
+    return token.text
+  }
+
+  /**
+   * Parse a parenthesized list of values, or a bind parameter bound to an array or `Set`.
+   */
+  protected parseList (): any[] {
+    const token = this.peek()
+    if (token.type == TokenType.PARAMETER) {
+      const value = this.bind(this.next())
+      if (!Array.isArray(value) && !(value instanceof Set)) {
+        throw this.error(token, 'parameter ' + token.text + ' must be bound to an array or a Set')
+      }
+      return Array.from(value)
+    }
+
+    this.expectSymbol('(')
+    const values = [this.parseValue()]
+    while (this.acceptSymbol(',')) {
+      values.push(this.parseValue())
+    }
+    this.expectSymbol(')')
+    return values
+  }
+
+  /**
+   * Parse a literal value or a bind parameter.
+   */
+  protected parseValue (): any {
+    const token = this.next()
+    switch (token.type) {
+      case TokenType.STRING:
+      case TokenType.NUMBER:
+        return token.value
+      case TokenType.PARAMETER:
+        return this.bind(token)
+      case TokenType.IDENTIFIER:
+        switch (token.text.toLowerCase()) {
+          case 'true':
+            return true
+          case 'false':
+            return false
+          case 'null':
+            return null
+        }
+    }
+    throw this.error(token, 'expected a value but found ' + this.describe(token))
+  }
+
+  /**
+   * Return the value bound to the parameter.
+   *
+   * @param token  the parameter token
+   */
+  protected bind (token: Token): any {
+    let value
+    let bound: boolean
+    if (typeof token.value === 'string') {
+      bound = !Array.isArray(this.params) && token.value in this.params
+      value = bound ? (this.params as { [name: string]: any })[token.value] : undefined
+    } else {
+      const index = token.value === undefined ? this.nextPositional++ : token.value - 1
+      bound = Array.isArray(this.params) && index >= 0 && index < this.params.length
+      value = bound ? (this.params as any[])[index] : undefined
+    }
+    if (!bound) {
+      throw this.error(token, 'no value bound for parameter ' + token.text)
+    }
+    return value
+  }
+
+  /**
+   * Return the current token without consuming it.
+   */
+  protected peek (): Token {
+    return this.tokens[this.position]
+  }
+
+  /**
+   * Consume and return the current token.
+   */
+  protected next (): Token {
+    const token = this.tokens[this.position]
+    if (token.type != TokenType.END) {
+      this.position++
+    }
+    return token
+  }
+
+  /**
+   * Consume the current token if it is the specified keyword.
+   */
+  protected acceptKeyword (keyword: string): boolean {
+    if (this.isKeyword(this.peek(), keyword)) {
+      this.next()
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Consume the current token if it is the specified symbol.
+   */
+  protected acceptSymbol (symbol: string): boolean {
+    const token = this.peek()
+    if (token.type == TokenType.SYMBOL && token.text == symbol) {
+      this.next()
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Consume the specified keyword, failing if the current token is anything else.
+   */
+  protected expectKeyword (keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw this.error(this.peek(), 'expected ' + keyword + ' but found ' + this.describe(this.peek()))
+    }
+  }
+
+  /**
+   * Consume the specified symbol, failing if the current token is anything else.
+   */
+  protected expectSymbol (symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      throw this.error(this.peek(), 'expected \'' + symbol + '\' but found ' + this.describe(this.peek()))
+    }
+  }
+
+  /**
+   * Fail if there are tokens remaining.
+   */
+  protected expectEnd (): void {
+    const token = this.peek()
+    if (token.type != TokenType.END) {
+      throw this.error(token, 'unexpected ' + this.describe(token))
+    }
+  }
+
+  /**
+   * Returns `true` if the token is the specified keyword.
+   */
+  protected isKeyword (token: Token, keyword: string): boolean {
+    return token.type == TokenType.IDENTIFIER && token.text.toLowerCase() == keyword
+  }
+
+  /**
+   * Returns a description of the token for use in error messages.
+   */
+  protected describe (token: Token): string {
+    return token.type == TokenType.END ? 'end of query' : '\'' + token.text + '\''
+  }
+
+  /**
+   * Create an error reported at the position of the token.
+   */
+  protected error (token: Token, message: string): FilterParseError {
+    return new FilterParseError(message, token.line, token.column)
+  }
+
+  /**
+   * Split the query into tokens.
+   *
+   * @param query  the query text
+   *
+   * @return the tokens, ending with a token of type {@link TokenType.END}
+   */
+  protected static scan (query: string): Token[] {
+    const tokens: Token[] = []
+    let line = 1
+    let lineStart = 0
+    let i = 0
+
+    while (i < query.length) {
+      const ch = query.charAt(i)
+      const column = i - lineStart + 1
+
+      if (ch == '\n') {
+        line++
+        lineStart = ++i
+        continue
+      }
+      if (/\s/.test(ch)) {
+        i++
+        continue
+      }
+
+      const rest = query.substring(i)
+      let match: RegExpExecArray | null
+      let text: string
+      if ((match = /^[A-Za-z_$][\w$]*/.exec(rest)) !== null) {
+        text = match[0]
+        tokens.push({ type: TokenType.IDENTIFIER, text, line, column })
+      } else if ((match = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest)) !== null) {
+        text = match[0]
+        tokens.push({ type: TokenType.NUMBER, text, value: Number(text), line, column })
+      } else if ((match = /^(\?\d*|:[A-Za-z_$][\w$]*)/.exec(rest)) !== null) {
+        text = match[0]
+        const value = text.charAt(0) == ':'
+          ? text.substring(1)
+          : text.length > 1 ? Number(text.substring(1)) : undefined
+        tokens.push({ type: TokenType.PARAMETER, text, value, line, column })
+      } else if (ch == '\'' || ch == '"') {
+        // quotes within a literal are escaped by doubling them, as in SQL
+        let value = ''
+        let end = i + 1
+        while (query.charAt(end) != ch || query.charAt(end + 1) == ch) {
+          if (end >= query.length || query.charAt(end) == '\n') {
+            throw new FilterParseError('unterminated string literal', line, column)
+          }
+          if (query.charAt(end) == ch) {
+            end++
+          }
+          value += query.charAt(end++)
+        }
+        text = query.substring(i, end + 1)
+        tokens.push({ type: TokenType.STRING, text, value, line, column })
+      } else if ((match = /^(==|!=|<>|<=|>=|&&|\|\||[=<>!(),.])/.exec(rest)) !== null) {
+        text = match[0]
+        tokens.push({ type: TokenType.SYMBOL, text, line, column })
+      } else {
+        throw new FilterParseError('unexpected character \'' + ch + '\'', line, column)
+      }
+      i += text.length
+    }
+
+    tokens.push({ type: TokenType.END, text: '', line, column: query.length - lineStart + 1 })
+    return tokens
+  }
+}
@@ -6,6 +6,8 @@
  */
 
 import { extractor, Extractors } from './extractors'
+import { MapEntry } from './named-cache-client'
+import { util } from './util'
 
 export namespace filter {
   export abstract class Filter {
@@ -99,6 +101,34 @@ export namespace filter {
     forKeys<K = any> (keys: Set<K>): InKeySetFilter<K> {
       return new InKeySetFilter<K>(this, keys)
     }
+
+    /**
+     * Apply the test to the passed value locally, without a round trip to
+     * the server.
+     *
+     * @param target  the value to test
+     *
+     * @return `true` if the value passes the test
+     * @throws Error if this filter does not support local evaluation
+     */
+    evaluate (target: any): boolean {
+      return util.unsupportedLocally(this)
+    }
+
+    /**
+     * Apply the test to a map entry locally, without a round trip to the
+     * server.  Unless the filter depends on the entry key, or on whether the
+     * entry is present, this is the same as evaluating the entry value.
+     *
+     * @param entry  the entry to test; an entry with a `present` property of
+     *               `false` is treated as not present in the map
+     *
+     * @return `true` if the entry passes the test
+     * @throws Error if this filter does not support local evaluation
+     */
+    evaluateEntry (entry: MapEntry<any, any>): boolean {
+      return this.evaluate(entry.value)
+    }
   }
 
   /**
@@ -130,6 +160,24 @@ export namespace filter {
           ? new extractor.UniversalExtractor(extractorOrMethod)
           : new extractor.ChainedExtractor(extractorOrMethod)
     }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      return this.evaluateExtracted(this.extractor.extract(target))
+    }
+
+    /**
+     * Evaluate the value extracted from the tested object.
+     *
+     * @param extracted  the extracted value
+     *
+     * @return `true` if the extracted value passes the test
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      return util.unsupportedLocally(this)
+    }
   }
 
   /**
@@ -204,6 +252,20 @@ export namespace filter {
     constructor (filters: Filter[]) {
       super(filterName('AnyFilter'), filters)
     }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      return this.filters.some(f => f.evaluate(target))
+    }
+
+    /**
+     * @inheritDoc
+     */
+    evaluateEntry (entry: MapEntry<any, any>): boolean {
+      return this.filters.some(f => f.evaluateEntry(entry))
+    }
   }
 
   /**
@@ -223,6 +285,20 @@ export namespace filter {
     constructor (filters: Filter[]) {
       super(filterName('AllFilter'), filters)
     }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      return this.filters.every(f => f.evaluate(target))
+    }
+
+    /**
+     * @inheritDoc
+     */
+    evaluateEntry (entry: MapEntry<any, any>): boolean {
+      return this.filters.every(f => f.evaluateEntry(entry))
+    }
   }
 
   /**
@@ -282,6 +358,20 @@ export namespace filter {
     constructor (left: Filter, right: Filter) {
       super(filterName('XorFilter'), [left, right])
     }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      return this.filters[0].evaluate(target) != this.filters[1].evaluate(target)
+    }
+
+    /**
+     * @inheritDoc
+     */
+    evaluateEntry (entry: MapEntry<any, any>): boolean {
+      return this.filters[0].evaluateEntry(entry) != this.filters[1].evaluateEntry(entry)
+    }
   }
 
   /**
@@ -328,6 +418,25 @@ export namespace filter {
       this.filter = filter
       this.keys = keys
     }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      throw new Error(this['@class'] + ' can only be evaluated against a map entry')
+    }
+
+    /**
+     * @inheritDoc
+     */
+    evaluateEntry (entry: MapEntry<any, any>): boolean {
+      for (const k of this.keys) {
+        if (util.equals(k, entry.key)) {
+          return this.filter.evaluateEntry(entry)
+        }
+      }
+      return false
+    }
   }
 
   /**
@@ -346,6 +455,13 @@ export namespace filter {
     protected constructor () {
       super(filterName('AlwaysFilter'))
     }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      return true
+    }
   }
 
   /**
@@ -414,6 +530,14 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, setValues: Set<any>) {
       super(filterName('ContainsAllFilter'), extractorOrMethod, setValues)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      const values = toArray(extracted)
+      return values != null && toArray(this.value)!.every(v => values.some(e => util.equals(e, v)))
+    }
   }
 
   /**
@@ -434,6 +558,14 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, setValues: Set<any>) {
       super(filterName('ContainsAnyFilter'), extractorOrMethod, setValues)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      const values = toArray(extracted)
+      return values != null && toArray(this.value)!.some(v => values.some(e => util.equals(e, v)))
+    }
   }
 
   /**
@@ -457,6 +589,14 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, value: E) {
       super(filterName('ContainsFilter'), extractorOrMethod, value)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      const values = toArray(extracted)
+      return values != null && values.some(e => util.equals(e, this.value))
+    }
   }
 
   /**
@@ -478,6 +618,13 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, value: E) {
       super(filterName('EqualsFilter'), extractorOrMethod, value)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      return util.equals(extracted, this.value)
+    }
   }
 
   /**
@@ -503,6 +650,13 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, value: E) {
       super(filterName('GreaterEqualsFilter'), extractorOrMethod, value)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      return extracted != null && this.value != null && util.compare(extracted, this.value) >= 0
+    }
   }
 
   /**
@@ -527,6 +681,13 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, value: E) {
       super(filterName('GreaterFilter'), extractorOrMethod, value)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      return extracted != null && this.value != null && util.compare(extracted, this.value) > 0
+    }
   }
 
   /**
@@ -546,6 +707,13 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, setValues: Set<E>) {
       super(filterName('InFilter'), extractorOrMethod, setValues)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      return toArray(this.value)!.some(v => util.equals(extracted, v))
+    }
   }
 
   /**
@@ -565,6 +733,13 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, value: E) {
       super(filterName('NotEqualsFilter'), extractorOrMethod, value)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      return !util.equals(extracted, this.value)
+    }
   }
 
   /**
@@ -671,6 +846,13 @@ export namespace filter {
     constructor (extractor: extractor.ValueExtractor | string, value: E) {
       super(filterName('LessEqualsFilter'), extractor, value)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      return extracted != null && this.value != null && util.compare(extracted, this.value) <= 0
+    }
   }
 
   /**
@@ -694,6 +876,13 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, value: E) {
       super(filterName('LessFilter'), extractorOrMethod, value)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      return extracted != null && this.value != null && util.compare(extracted, this.value) < 0
+    }
   }
 
   /**
@@ -711,6 +900,11 @@ export namespace filter {
     escapeChar: string
     ignoreCase: boolean
 
+    /**
+     * The pattern compiled to a regular expression on first local evaluation.
+     */
+    private readonly regex?: RegExp
+
     /**
      * Construct a `LikeFilter` for pattern match.
      *
@@ -726,6 +920,94 @@ export namespace filter {
       this.escapeChar = escapeChar.length === 1 ? escapeChar : '0'
       this.ignoreCase = ignoreCase || false
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      if (extracted == null || this.value == null) {
+        return false
+      }
+      if (!this.regex) {
+        let source = ''
+        for (let i = 0; i < this.value.length; i++) {
+          const ch = this.value.charAt(i)
+          if (ch == this.escapeChar && this.escapeChar != '0' && i + 1 < this.value.length) {
+            source += escapeRegex(this.value.charAt(++i))
+          } else if (ch == '%') {
+            source += '[\\s\\S]*'
+          } else if (ch == '_') {
+            source += '[\\s\\S]'
+          } else {
+            source += escapeRegex(ch)
+          }
+        }
+        // non-enumerable so that the compiled pattern is not serialized with the filter
+        Object.defineProperty(this, 'regex', { value: new RegExp('^' + source + '$', this.ignoreCase ? 'i' : '') })
+      }
+      return this.regex!.test(String(extracted))
+    }
+  }
+
+  /**
+   * Filter which truncates the results of another filter to a single page.  The
+   * page is selected from the results ordered by the filter's comparator, if any.
+   * This filter is intended to be used by {@link NamedMap.query}, which manages
+   * the page and comparator of the filter on behalf of the caller.
+   */
+  export class LimitFilter
+    extends Filter {
+    /**
+     * The filter whose results are truncated.
+     */
+    protected filter: Filter
+
+    /**
+     * The number of results per page.
+     */
+    protected pageSize: number
+
+    /**
+     * The zero-based index of the page.
+     */
+    protected page: number
+
+    /**
+     * The comparator ordering the results, if any.
+     */
+    protected comparator?: util.Comparator
+
+    /**
+     * Construct a limit filter.
+     *
+     * @param filter      the filter whose results are truncated
+     * @param pageSize    the number of results per page
+     * @param page        the zero-based index of the page
+     * @param comparator  the comparator ordering the results, if any
+     */
+    constructor (filter: Filter, pageSize: number, page: number = 0, comparator?: util.Comparator) {
+      super(filterName('LimitFilter'))
+      this.filter = filter
+      this.pageSize = pageSize
+      this.page = page
+      if (comparator) {
+        this.comparator = comparator
+      }
+    }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      return this.filter.evaluate(target)
+    }
+
+    /**
+     * @inheritDoc
+     */
+    evaluateEntry (entry: MapEntry<any, any>): boolean {
+      return this.filter.evaluateEntry(entry)
+    }
   }
 
   /**
@@ -847,6 +1129,13 @@ export namespace filter {
     protected constructor () {
       super(filterName('NeverFilter'))
     }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      return false
+    }
   }
 
   /**
@@ -869,6 +1158,20 @@ export namespace filter {
       super(filterName('NotFilter'))
       this.filter = filter
     }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      return !this.filter.evaluate(target)
+    }
+
+    /**
+     * @inheritDoc
+     */
+    evaluateEntry (entry: MapEntry<any, any>): boolean {
+      return !this.filter.evaluateEntry(entry)
+    }
   }
 
   /**
@@ -915,6 +1218,20 @@ export namespace filter {
     protected constructor () {
       super(filterName('PresentFilter'))
     }
+
+    /**
+     * @inheritDoc
+     */
+    evaluate (target: any): boolean {
+      return true
+    }
+
+    /**
+     * @inheritDoc
+     */
+    evaluateEntry (entry: MapEntry<any, any>): boolean {
+      return (entry as { present?: boolean }).present !== false
+    }
   }
 
   /**
@@ -924,6 +1241,11 @@ export namespace filter {
    */
   export class RegexFilter
     extends ComparisonFilter<string> {
+    /**
+     * The compiled regular expression, created on first local evaluation.
+     */
+    private readonly regex?: RegExp
+
     /**
      *
      * @param extractorOrMethod  the {@link extractor.ValueExtractor} used by this filter or the name of the method to invoke
@@ -933,11 +1255,42 @@ export namespace filter {
     constructor (extractorOrMethod: extractor.ValueExtractor | string, regex: string) {
       super(filterName('RegexFilter'), extractorOrMethod, regex)
     }
+
+    /**
+     * @inheritDoc
+     */
+    protected evaluateExtracted (extracted: any): boolean {
+      if (extracted == null || this.value == null) {
+        return false
+      }
+      if (!this.regex) {
+        // non-enumerable so that the compiled pattern is not serialized with the filter
+        Object.defineProperty(this, 'regex', { value: new RegExp('^(?:' + this.value + ')$') })
+      }
+      return this.regex!.test(String(extracted))
+    }
   }
 
   function filterName (name: string): string {
     return 'filter.' + name
   }
+
+  /**
+   * Return the passed array, `Set` or other iterable as an array, or `null`
+   * if the value is not iterable.
+   */
+  function toArray (value: any): any[] | null {
+    return Array.isArray(value)
+      ? value
+      : value != null && typeof value !== 'string' && util.isIterableType(value) ? Array.from(value) : null
+  }
+
+  /**
+   * Escape the regular expression special characters in the passed string.
+   */
+  function escapeRegex (s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
 }
 
 /**
@@ -1146,7 +1499,7 @@ export class Filters {
    * @return  a filter that tests if the extracted value is greater than or
    *          equal to the specified value.
    */
-  static greaterEqual<E = any> (extractorOrMethod: extractor.ValueExtractor | string, value: E): filter.GreaterFilter {
+  static greaterEqual<E = any> (extractorOrMethod: extractor.ValueExtractor | string, value: E): filter.GreaterEqualsFilter<E> {
     return new filter.GreaterEqualsFilter(extractorOrMethod, value)
   }
 
@@ -1187,7 +1540,7 @@ export class Filters {
    *
    * @return a filter that evaluates to true for null values.
    */
-  static isNull (extractorOrMethod: extractor.ValueExtractor | string): filter.IsNotNullFilter {
+  static isNull (extractorOrMethod: extractor.ValueExtractor | string): filter.IsNullFilter {
     return new filter.IsNullFilter(extractorOrMethod)
   }
 
@@ -9,7 +9,17 @@ export * from './extractors'
 export * from './session'
 export * from './events'
 export * from './aggregators'
+export * from './comparators'
+export * from './config'
 export * from './filters'
+export * from './filter-parser'
+export * from './interceptors'
+export * from './metrics'
 export * from './processors'
+export * from './tracing'
+export * from './pof'
 export * from './util'
-export { NamedMap, NamedCache } from './named-cache-client'
+export * from './near-cache'
+export * from './continuous-query-cache'
+export * from './local-named-cache'
+export { AbortSignalLike, CacheEntry, IterationOptions, NamedMap, NamedCache, Query, QueryResult, RequestOptions, SortKey } from './named-cache-client'
@@ -0,0 +1,193 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import { Message } from 'google-protobuf'
+import { Metadata } from 'grpc'
+
+export namespace interceptor {
+
+  /**
+   * An `Interceptor` is invoked for every request made by a {@link NamedMap} obtained
+   * from the {@link Session} the interceptor has been added to.
+   *
+   * An interceptor may inspect the {@link RequestContext}, add to or modify the
+   * {@link RequestContext.metadata} sent with the request, and must either call `next`
+   * to pass the request to the next interceptor in the chain (the last interceptor
+   * sends the request to the server), or short-circuit the request by resolving or
+   * rejecting without calling `next`.  The `Promise` returned by `next` resolves to
+   * the result of the request or rejects with the error that caused the request to fail.
+   *
+   * @param context  the context of the request
+   * @param next     a function passing the request to the next interceptor in the chain
+   *
+   * @return a `Promise` resolving to the result of the request
+   */
+  export type Interceptor = (context: RequestContext, next: () => Promise<any>) => Promise<any>
+
+  /**
+   * The context of a single attempt of a request, passed to each {@link Interceptor}.
+   */
+  export class RequestContext {
+    /**
+     * The name of the cache the request is made against.
+     */
+    readonly cacheName: string
+
+    /**
+     * The serialization format of the cache.
+     */
+    readonly format: string
+
+    /**
+     * The name of the operation, matching the name of the {@link NamedMap} method
+     * making the request (for example `get`, `setAll`, or `invokeAll`).
+     */
+    readonly operation: string
+
+    /**
+     * The `gRPC` request message.
+     */
+    readonly request: Message
+
+    /**
+     * The keys the request targets, or `undefined` if the request is not key based.
+     */
+    readonly keys?: Array<any>
+
+    /**
+     * The attempt number, starting at `1`, if the request is being retried.
+     */
+    readonly attempt: number
+
+    /**
+     * The `gRPC` metadata sent with the request.
+     */
+    readonly metadata: Metadata = new Metadata()
+
+    /**
+     * The time, in `milliseconds` since the epoch, the attempt was started.
+     */
+    readonly startTime: number = Date.now()
+
+    /**
+     * Attributes interceptors may use to share state for the duration of the attempt.
+     */
+    readonly attributes: Map<string, any> = new Map()
+
+    /**
+     * Constructs a new `RequestContext`.
+     *
+     * @param cacheName  the name of the cache the request is made against
+     * @param format     the serialization format of the cache
+     * @param operation  the name of the operation
+     * @param request    the `gRPC` request message
+     * @param keys       the keys the request targets, if any
+     * @param attempt    the attempt number
+     */
+    constructor (cacheName: string, format: string, operation: string, request: Message, keys?: Array<any>,
+                 attempt: number = 1) {
+      this.cacheName = cacheName
+      this.format = format
+      this.operation = operation
+      this.request = request
+      this.keys = keys
+      this.attempt = attempt
+    }
+
+    /**
+     * Return the time, in `milliseconds`, elapsed since the attempt was started.
+     *
+     * @return the time, in `milliseconds`, elapsed since the attempt was started
+     */
+    get elapsedInMillis (): number {
+      return Date.now() - this.startTime
+    }
+  }
+
+  /**
+   * An ordered chain of {@link Interceptor}s.  Interceptors are invoked in the order
+   * they were added; the first interceptor added is the first to see the request and
+   * the last to see its result.
+   */
+  export class InterceptorChain {
+    /**
+     * The interceptors in this chain.
+     */
+    protected interceptors: Array<Interceptor> = []
+
+    /**
+     * Return the number of interceptors in this chain.
+     *
+     * @return the number of interceptors in this chain
+     */
+    get size (): number {
+      return this.interceptors.length
+    }
+
+    /**
+     * Adds the specified {@link Interceptor} to the end of this chain.
+     *
+     * @param interceptor  the interceptor to add
+     *
+     * @return this chain
+     */
+    add (interceptor: Interceptor): InterceptorChain {
+      if (typeof interceptor !== 'function') {
+        throw new Error('interceptor must be a function')
+      }
+      this.interceptors.push(interceptor)
+      return this
+    }
+
+    /**
+     * Removes the specified {@link Interceptor} from this chain.
+     *
+     * @param interceptor  the interceptor to remove
+     *
+     * @return `true` if the interceptor was removed
+     */
+    remove (interceptor: Interceptor): boolean {
+      const index = this.interceptors.indexOf(interceptor)
+      if (index < 0) {
+        return false
+      }
+      this.interceptors.splice(index, 1)
+      return true
+    }
+
+    /**
+     * Passes the request described by the context through the interceptors of this
+     * chain, invoking `terminal` to send the request once the last interceptor calls `next`.
+     *
+     * @param context   the context of the request
+     * @param terminal  a function sending the request
+     *
+     * @return a `Promise` resolving to the result of the request
+     */
+    execute<T> (context: RequestContext, terminal: () => Promise<T>): Promise<T> {
+      const interceptors = this.interceptors.slice()
+      const dispatch = (index: number): Promise<any> => {
+        if (index >= interceptors.length) {
+          return terminal()
+        }
+        let called = false
+        try {
+          return Promise.resolve(interceptors[index](context, () => {
+            if (called) {
+              return Promise.reject(new Error('next() called multiple times by interceptor'))
+            }
+            called = true
+            return dispatch(index + 1)
+          }))
+        } catch (err) {
+          return Promise.reject(err)
+        }
+      }
+      return dispatch(0)
+    }
+  }
+}
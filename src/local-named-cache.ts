@@ -0,0 +1,976 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import { EventEmitter } from 'events'
+import { Readable } from 'stream'
+import { aggregator } from './aggregators'
+import { event } from './events'
+import { extractor } from './extractors'
+import { filter } from './filters'
+import { CacheEntry, IterationOptions, MapEntry, NamedCache, NamedMap, Query, QueryResult, RequestOptions } from './named-cache-client'
+import { processor } from './processors'
+import { util } from './util'
+import EntryAggregator = aggregator.EntryAggregator
+import MapEvent = event.MapEvent
+import MapEventType = event.MapEventType
+import MapLifecycleEvent = event.MapLifecycleEvent
+import MapListener = event.MapListener
+import ValueExtractor = extractor.ValueExtractor
+import AlwaysFilter = filter.AlwaysFilter
+import Filter = filter.Filter
+import MapEventFilter = filter.MapEventFilter
+import EntryProcessor = processor.EntryProcessor
+import InvocableMapEntry = processor.InvocableMapEntry
+import Comparator = util.Comparator
+import LocalSet = util.LocalSet
+import PagedQuery = util.PagedQuery
+import RemoteSet = util.RemoteSet
+import Serializer = util.Serializer
+
+/**
+ * An entry stored by a {@link LocalNamedCache}.  Values are held in serialized form
+ * so that, as with a remote cache, callers never share instances with the cache.
+ * @internal
+ */
+interface StoredEntry<K> {
+  key: K
+  value: Buffer
+  expiry: number
+  modified: number
+}
+
+/**
+ * A listener registration.
+ * @internal
+ */
+interface Registration<K, V> {
+  listener: MapListener<K, V>
+  isLite: boolean
+}
+
+/**
+ * A {@link NamedCache} implementation that holds its entries entirely in process.
+ *
+ * A `LocalNamedCache` is intended to allow code written against {@link NamedMap} or
+ * {@link NamedCache} to be tested without a Coherence cluster.  It honours entry
+ * expiry, raises {@link MapListener} events for key and {@link MapEventFilter}
+ * registrations, and raises lifecycle events when truncated, destroyed or released.
+ *
+ * Keys are compared using their serialized form, so structurally equal keys refer
+ * to the same entry.  Expired entries are removed, raising `delete` events, when
+ * they are next accessed.
+ *
+ * As all operations complete immediately, any {@link RequestOptions} passed to them are ignored.
+ *
+ * @typeParam K  the type of the map entry keys
+ * @typeParam V  the type of the map entry values
+ */
+export class LocalNamedCache<K = any, V = any>
+  extends EventEmitter
+  implements NamedCache<K, V> {
+
+  /**
+   * A singleton for a resolved Promise.
+   */
+  private static readonly RESOLVED = Promise.resolve()
+
+  /**
+   * The default filter applied to listeners registered without a key or filter.
+   */
+  private static readonly DEFAULT_FILTER = new MapEventFilter(MapEventFilter.ALL, AlwaysFilter.INSTANCE)
+
+  /**
+   * The cache name.
+   */
+  protected readonly cacheName: string
+
+  /**
+   * The serializer used to store keys and values.
+   */
+  protected readonly serializer: Serializer
+
+  /**
+   * The cache entries, keyed by the serialized form of the key.
+   */
+  private readonly store: Map<string, StoredEntry<K>> = new Map()
+
+  /**
+   * The key listener registrations, keyed by the serialized form of the key.
+   */
+  private readonly keyListeners: Map<string, Map<MapListener<K, V>, Registration<K, V>>> = new Map()
+
+  /**
+   * The filter listener registrations.
+   */
+  private readonly filterListeners: Map<Filter, Map<MapListener<K, V>, Registration<K, V>>> = new Map()
+
+  /**
+   * Flag to track released state.
+   */
+  private _released: boolean = false
+
+  /**
+   * Flag to track destroyed state.
+   */
+  private _destroyed: boolean = false
+
+  /**
+   * Constructs a new `LocalNamedCache`.
+   *
+   * @param cacheName   the cache name
+   * @param serializer  the optional {@link Serializer}; defaults to `json`
+   */
+  constructor (cacheName: string, serializer?: Serializer) {
+    super()
+    util.ensureNonEmptyString(cacheName, 'cache name cannot be null or empty')
+    this.cacheName = cacheName
+    this.serializer = serializer ? serializer : util.SerializerRegistry.instance().serializer('json')
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get name (): string {
+    return this.cacheName
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get active (): boolean {
+    return !this._released && !this._destroyed
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get released (): boolean {
+    return this._released
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get destroyed (): boolean {
+    return this._destroyed
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get size (): Promise<number> {
+    return this.call(() => {
+      this.expireAll()
+      return this.store.size
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get empty (): Promise<boolean> {
+    return this.call(() => {
+      this.expireAll()
+      return this.store.size == 0
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get (key: K): Promise<V | null> {
+    return this.getOrDefault(key, null)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getOrDefault (key: K, defaultValue: V | null): Promise<V | null> {
+    return this.call(() => {
+      const entry = this.lookup(key)
+      return entry ? this.toValue(entry) : defaultValue
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getAll (keys: Iterable<K>): Promise<Map<K, V>> {
+    return this.call(() => {
+      const result = new Map<K, V>()
+      for (const key of keys) {
+        const entry = this.lookup(key)
+        if (entry) {
+          result.set(entry.key, this.toValue(entry))
+        }
+      }
+      return result
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getEntry (key: K): Promise<CacheEntry<K, V> | null> {
+    return this.call(() => {
+      const entry = this.lookup(key)
+      return entry ? this.toCacheEntry(entry) : null
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getAllEntries (keys: Iterable<K>): Promise<Map<K, CacheEntry<K, V>>> {
+    return this.call(() => {
+      const result = new Map<K, CacheEntry<K, V>>()
+      for (const entry of this.lookupAll(keys)) {
+        result.set(entry.key, this.toCacheEntry(entry))
+      }
+      return result
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  has (key: K): Promise<boolean> {
+    return this.call(() => this.lookup(key) !== undefined)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  hasEntry (key: K, value: V): Promise<boolean> {
+    return this.call(() => {
+      const entry = this.lookup(key)
+      return entry !== undefined && entry.value.equals(this.serializer.serialize(value))
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  hasValue (value: V): Promise<boolean> {
+    return this.call(() => {
+      this.expireAll()
+      const bytes = this.serializer.serialize(value)
+      for (const entry of this.store.values()) {
+        if (entry.value.equals(bytes)) {
+          return true
+        }
+      }
+      return false
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  set (key: K, value: V, ttlOrOptions?: number | RequestOptions): Promise<V | null> {
+    const [ttl] = util.ttlAndOptions(ttlOrOptions)
+    return this.call(() => this.put(key, value, ttl))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  setAll (map: Map<K, V>): Promise<void> {
+    return this.call(() => {
+      for (const [key, value] of map) {
+        this.put(key, value)
+      }
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  setIfAbsent (key: K, value: V, ttlOrOptions?: number | RequestOptions): Promise<V | null> {
+    const [ttl] = util.ttlAndOptions(ttlOrOptions)
+    return this.call(() => {
+      const entry = this.lookup(key)
+      if (entry) {
+        return this.toValue(entry)
+      }
+      this.put(key, value, ttl)
+      return null
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  setExpiry (key: K, ttl: number): Promise<boolean> {
+    return this.call(() => {
+      const entry = this.lookup(key)
+      if (entry) {
+        entry.expiry = ttl > 0 ? Date.now() + ttl : Number.POSITIVE_INFINITY
+      }
+      return entry !== undefined
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  touch (key: K): Promise<void> {
+    return this.call(() => {
+      this.lookup(key)
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  delete (key: K): Promise<V | null> {
+    return this.call(() => {
+      const entry = this.lookup(key)
+      if (!entry) {
+        return null
+      }
+      this.remove(entry)
+      return this.toValue(entry)
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  removeMapping (key: K, value: V): Promise<boolean> {
+    return this.call(() => {
+      const entry = this.lookup(key)
+      if (entry && entry.value.equals(this.serializer.serialize(value))) {
+        this.remove(entry)
+        return true
+      }
+      return false
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  replace (key: K, value: V): Promise<V | null> {
+    return this.call(() => this.lookup(key) ? this.put(key, value) : null)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  replaceMapping (key: K, oldValue: V, newValue: V): Promise<boolean> {
+    return this.call(() => {
+      const entry = this.lookup(key)
+      if (entry && entry.value.equals(this.serializer.serialize(oldValue))) {
+        this.put(key, newValue)
+        return true
+      }
+      return false
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  clear (): Promise<void> {
+    return this.call(() => {
+      for (const entry of Array.from(this.store.values())) {
+        this.remove(entry)
+      }
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  truncate (): Promise<void> {
+    return this.call(() => {
+      this.store.clear()
+      this.emit(MapLifecycleEvent.TRUNCATED, this.cacheName)
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  compute (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V | null) => V | null | Promise<V | null>),
+           options?: RequestOptions): Promise<V | null> {
+    return util.compute<K, V>(this, key, remapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  computeIfAbsent (key: K, mapping: EntryProcessor<K, V, V> | ((key: K) => V | null | Promise<V | null>),
+                   options?: RequestOptions): Promise<V | null> {
+    return util.computeIfAbsent<K, V>(this, key, mapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  computeIfPresent (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V) => V | null | Promise<V | null>),
+                    options?: RequestOptions): Promise<V | null> {
+    return util.computeIfPresent<K, V>(this, key, remapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  merge (key: K, value: V, remapping: (value: V, newValue: V) => V | null | Promise<V | null>,
+         options?: RequestOptions): Promise<V | null> {
+    return util.merge<K, V>(this, key, value, remapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  destroy (): Promise<void> {
+    return this.call(() => {
+      this.store.clear()
+      this.keyListeners.clear()
+      this.filterListeners.clear()
+      this._destroyed = true
+      this.emit(MapLifecycleEvent.DESTROYED, this.cacheName)
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  release (): Promise<void> {
+    if (!this.active) {
+      return LocalNamedCache.RESOLVED
+    }
+    this.keyListeners.clear()
+    this.filterListeners.clear()
+    this._released = true
+    this.emit(MapLifecycleEvent.RELEASED, this.cacheName, this.serializer.format)
+    return LocalNamedCache.RESOLVED
+  }
+
+  /**
+   * @inheritDoc
+   */
+  keys (filter?: Filter, comparator?: Comparator): Promise<RemoteSet<K>> {
+    return this.call(() => {
+      const set = new LocalSet<K>()
+      for (const entry of this.select(filter)) {
+        set.add(entry.key)
+      }
+      return set
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  entries (filter?: Filter, comparator?: Comparator): Promise<RemoteSet<MapEntry<K, V>>> {
+    return this.call(() => {
+      const entries = this.select(filter).map(entry => ({ key: entry.key, value: this.toValue(entry) }))
+      return new LocalSet<MapEntry<K, V>>(32, util.sort(entries, comparator))
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  values (filter?: Filter, comparator?: Comparator): Promise<RemoteSet<V>> {
+    return this.call(() => {
+      const entries = this.select(filter).map(entry => ({ key: entry.key, value: this.toValue(entry) }))
+      return new LocalSet<V>(32, util.sort(entries, comparator).map(entry => entry.value))
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  query (query: Query): Promise<QueryResult<K, V>> {
+    return this.call(() => {
+      const paged = new PagedQuery(query)
+      return paged.select(this.select(paged.filter).map(entry => ({ key: entry.key, value: this.toValue(entry) })))
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async * iterateEntries (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<MapEntry<K, V>> {
+    for (const entry of await this.call(() => this.select(filter || undefined))) {
+      yield { key: entry.key, value: this.toValue(entry) }
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async * iterateKeys (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<K> {
+    for (const entry of await this.call(() => this.select(filter || undefined))) {
+      yield entry.key
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async * iterateValues (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<V> {
+    for (const entry of await this.call(() => this.select(filter || undefined))) {
+      yield this.toValue(entry)
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamEntries (filter?: Filter | null, options?: IterationOptions): Readable {
+    return Readable.from(this.iterateEntries(filter, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamKeys (filter?: Filter | null, options?: IterationOptions): Readable {
+    return Readable.from(this.iterateKeys(filter, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamValues (filter?: Filter | null, options?: IterationOptions): Readable {
+    return Readable.from(this.iterateValues(filter, options))
+  }
+
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, thisArg?: any): Promise<void>
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, keys: Iterable<K>, thisArg?: any): Promise<void>
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, filter: Filter, thisArg?: any): Promise<void>
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, keysOrFilter?: Iterable<K> | Filter, thisArg?: any): Promise<void> {
+    return this.call(() => {
+      if (thisArg) {
+        action = action.bind(thisArg)
+      }
+
+      const entries = keysOrFilter && !(keysOrFilter instanceof Filter)
+        ? this.lookupAll(keysOrFilter)
+        : this.select(keysOrFilter as Filter | undefined)
+
+      for (const entry of entries) {
+        action(this.toValue(entry), entry.key, this)
+      }
+    })
+  }
+
+  /**
+   * Aggregate the entries locally using {@link EntryAggregator.aggregate}.
+   */
+  aggregate<R = any> (kfa: Iterable<K> | Filter | EntryAggregator<K, V, R>, aggOrOptions?: EntryAggregator<K, V, R> | RequestOptions): Promise<any> {
+    return this.call(() => {
+      let entries: StoredEntry<K>[]
+      let agg: EntryAggregator<K, V, R>
+      if (aggOrOptions instanceof EntryAggregator) {
+        agg = aggOrOptions
+        entries = kfa instanceof Filter ? this.select(kfa) : this.lookupAll(kfa as Iterable<K>)
+      } else {
+        agg = kfa as EntryAggregator<K, V, R>
+        entries = this.select()
+      }
+      return agg.aggregate(entries.map(entry => ({ key: entry.key, value: this.toValue(entry) })))
+    })
+  }
+
+  /**
+   * Process the entry locally using {@link EntryProcessor.process}.
+   */
+  invoke<R = any> (key: K, processor: EntryProcessor<K, V, R>): Promise<R | null> {
+    return this.call(() => {
+      const entry = this.toInvocable(key)
+      const result = processor.process(entry)
+      this.apply(entry)
+      return result
+    })
+  }
+
+  /**
+   * Process the entries locally using {@link EntryProcessor.processAll}.  As with
+   * a remote cache, keys that are not present are processed when keys are
+   * specified, but only present entries are processed when a filter is specified.
+   */
+  invokeAll<R = any> (keysOrFilterOrProcessor: Iterable<K> | Filter | EntryProcessor<K, V, R>,
+                      processorOrOptions?: EntryProcessor<K, V, R> | RequestOptions): Promise<Map<K, R>> {
+    return this.call(() => {
+      let entries: InvocableMapEntry<K, V>[]
+      let processor: EntryProcessor<K, V, R>
+      if (processorOrOptions instanceof EntryProcessor) {
+        processor = processorOrOptions
+        entries = keysOrFilterOrProcessor instanceof Filter
+          ? this.select(keysOrFilterOrProcessor).map(entry => this.toInvocable(entry.key))
+          : Array.from(keysOrFilterOrProcessor as Iterable<K>, key => this.toInvocable(key))
+      } else {
+        processor = keysOrFilterOrProcessor as EntryProcessor<K, V, R>
+        entries = this.select().map(entry => this.toInvocable(entry.key))
+      }
+
+      const results = processor.processAll(entries)
+      entries.forEach(entry => this.apply(entry))
+      return results as Map<K, R>
+    })
+  }
+
+  /**
+   * Indexes have no effect on a `LocalNamedCache`.
+   */
+  addIndex (extractor: ValueExtractor, ordered?: boolean, comparator?: Comparator): Promise<void> {
+    return this.call(() => undefined)
+  }
+
+  /**
+   * Indexes have no effect on a `LocalNamedCache`.
+   */
+  removeIndex (extractor: ValueExtractor): Promise<void> {
+    return this.call(() => undefined)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  addMapListener (listener: event.MapListener<K, V>, keyOrFilterOrLite?: K | Filter | boolean, isLite?: boolean): Promise<void> {
+    return this.call(() => {
+      let lite = isLite === undefined ? false : isLite
+      let registrations: Map<MapListener<K, V>, Registration<K, V>> | undefined
+      if (keyOrFilterOrLite === undefined || keyOrFilterOrLite === null || typeof keyOrFilterOrLite === 'boolean') {
+        if (typeof keyOrFilterOrLite === 'boolean') {
+          lite = keyOrFilterOrLite
+        }
+        registrations = this.registrations(this.filterListeners, LocalNamedCache.DEFAULT_FILTER)
+      } else if (keyOrFilterOrLite instanceof Filter) {
+        registrations = this.registrations(this.filterListeners, keyOrFilterOrLite)
+      } else {
+        registrations = this.registrations(this.keyListeners, this.localKey(keyOrFilterOrLite))
+      }
+      registrations.set(listener, { listener, isLite: lite })
+    })
+  }
+
+  /**
+   * @inheritDoc
+   */
+  removeMapListener (listener: event.MapListener<K, V>, keyOrFilter?: K | MapEventFilter<K, V> | null): Promise<void> {
+    return this.call(() => {
+      if (keyOrFilter === undefined || keyOrFilter === null) {
+        LocalNamedCache.deregister(this.filterListeners, LocalNamedCache.DEFAULT_FILTER, listener)
+      } else if (keyOrFilter instanceof Filter) {
+        LocalNamedCache.deregister(this.filterListeners, keyOrFilter, listener)
+      } else {
+        LocalNamedCache.deregister(this.keyListeners, this.localKey(keyOrFilter), listener)
+      }
+    })
+  }
+
+  /**
+   * Evaluate the filter against the provided entry using {@link Filter.evaluateEntry}.
+   *
+   * @param filter  the filter to evaluate
+   * @param key     the entry key
+   * @param value   the entry value
+   *
+   * @return the result of the evaluation
+   */
+  protected evaluate (filter: Filter | null | undefined, key: K, value: V): boolean {
+    return filter === null || filter === undefined || filter.evaluateEntry({ key, value })
+  }
+
+  /**
+   * Run the operation, failing if the cache is no longer active.
+   *
+   * @param fn  the operation
+   *
+   * @return a `Promise` resolving to the result of the operation
+   */
+  private call<T> (fn: () => T): Promise<T> {
+    if (!this.active) {
+      return Promise.reject(new Error('Cache ' + this.cacheName + ' has been '
+        + (this._destroyed ? 'destroyed' : 'released')))
+    }
+    try {
+      return Promise.resolve(fn())
+    } catch (err) {
+      return Promise.reject(err)
+    }
+  }
+
+  /**
+   * Store a value, raising an `insert` or `update` event.
+   *
+   * @param key    the key
+   * @param value  the value
+   * @param ttl    the optional time-to-live, in `milliseconds`
+   *
+   * @return the previous value, or `null` if there was none
+   */
+  private put (key: K, value: V, ttl?: number): V | null {
+    const prev = this.lookup(key)
+    const entry: StoredEntry<K> = {
+      key,
+      value: this.serializer.serialize(value),
+      expiry: ttl && ttl > 0 ? Date.now() + ttl : Number.POSITIVE_INFINITY,
+      modified: Date.now()
+    }
+    this.store.set(this.localKey(key), entry)
+
+    const oldValue = prev ? this.toValue(prev) : undefined
+    this.notify(prev ? MapEvent.ENTRY_UPDATED : MapEvent.ENTRY_INSERTED, key, oldValue, this.toValue(entry))
+    return oldValue === undefined ? null : oldValue
+  }
+
+  /**
+   * Remove an entry, raising a `delete` event.
+   *
+   * @param entry  the entry to remove
+   */
+  private remove (entry: StoredEntry<K>): void {
+    this.store.delete(this.localKey(entry.key))
+    this.notify(MapEvent.ENTRY_DELETED, entry.key, this.toValue(entry), undefined)
+  }
+
+  /**
+   * Returns the live entry for the specified key, removing it if it has expired.
+   *
+   * @param key  the key
+   *
+   * @return the entry, or `undefined` if there is no live entry
+   */
+  private lookup (key: K): StoredEntry<K> | undefined {
+    const entry = this.store.get(this.localKey(key))
+    if (entry && entry.expiry <= Date.now()) {
+      this.remove(entry)
+      return undefined
+    }
+    return entry
+  }
+
+  /**
+   * Returns the live entries for the specified keys.
+   *
+   * @param keys  the keys
+   *
+   * @return the entries for the keys that have a live entry
+   */
+  private lookupAll (keys: Iterable<K>): StoredEntry<K>[] {
+    const entries: StoredEntry<K>[] = []
+    for (const key of keys) {
+      const entry = this.lookup(key)
+      if (entry) {
+        entries.push(entry)
+      }
+    }
+    return entries
+  }
+
+  /**
+   * Returns an {@link InvocableMapEntry} for the specified key holding a copy of
+   * the current value, if any.
+   *
+   * @param key  the key
+   *
+   * @return the entry to process
+   */
+  private toInvocable (key: K): InvocableMapEntry<K, V> {
+    const entry = this.lookup(key)
+    return entry ? new InvocableMapEntry<K, V>(entry.key, this.toValue(entry)) : new InvocableMapEntry<K, V>(key)
+  }
+
+  /**
+   * Store the changes made by an {@link EntryProcessor}, raising the corresponding events.
+   *
+   * @param entry  the processed entry
+   */
+  private apply (entry: InvocableMapEntry<K, V>): void {
+    if (!entry.modified) {
+      return
+    }
+    if (entry.present) {
+      this.put(entry.key, entry.value as V)
+    } else {
+      const stored = this.lookup(entry.key)
+      if (stored) {
+        this.remove(stored)
+      }
+    }
+  }
+
+  /**
+   * Remove all expired entries.
+   */
+  private expireAll (): void {
+    const now = Date.now()
+    for (const entry of Array.from(this.store.values())) {
+      if (entry.expiry <= now) {
+        this.remove(entry)
+      }
+    }
+  }
+
+  /**
+   * Returns the live entries matching the filter, or all live entries if no filter is specified.
+   *
+   * @param filter  the optional filter
+   *
+   * @return the matching entries
+   */
+  private select (filter?: Filter): StoredEntry<K>[] {
+    this.expireAll()
+    const result: StoredEntry<K>[] = []
+    for (const entry of this.store.values()) {
+      if (!filter || this.evaluate(filter, entry.key, this.toValue(entry))) {
+        result.push(entry)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Notify the key and filter listeners interested in a change.
+   *
+   * @param id        the event ID
+   * @param key       the key
+   * @param oldValue  the old value, if any
+   * @param newValue  the new value, if any
+   */
+  private notify (id: number, key: K, oldValue: V | undefined, newValue: V | undefined): void {
+    const interested: Registration<K, V>[] = []
+    const keyRegistrations = this.keyListeners.get(this.localKey(key))
+    if (keyRegistrations) {
+      interested.push(...keyRegistrations.values())
+    }
+    for (const [filter, registrations] of this.filterListeners) {
+      if (this.accepts(filter, id, key, oldValue, newValue)) {
+        interested.push(...registrations.values())
+      }
+    }
+    if (interested.length == 0) {
+      return
+    }
+
+    const type = id == MapEvent.ENTRY_INSERTED
+      ? MapEventType.INSERT
+      : id == MapEvent.ENTRY_UPDATED ? MapEventType.UPDATE : MapEventType.DELETE
+    let fullEvent: MapEvent<K, V> | undefined
+    let liteEvent: MapEvent<K, V> | undefined
+    for (const registration of interested) {
+      let mapEvent
+      if (registration.isLite) {
+        mapEvent = liteEvent = liteEvent || MapEvent.create<K, V>(this, id, key, undefined, undefined, this.serializer)
+      } else {
+        mapEvent = fullEvent = fullEvent || MapEvent.create<K, V>(this, id, key, oldValue, newValue, this.serializer)
+      }
+      registration.listener.emit(type, mapEvent)
+    }
+  }
+
+  /**
+   * Returns `true` if a listener registered with the filter should receive the event.
+   * Filters other than {@link MapEventFilter} are treated as a {@link MapEventFilter}
+   * with a mask of {@link MapEventFilter.ALL}.
+   *
+   * @param filter    the registration filter
+   * @param id        the event ID
+   * @param key       the key
+   * @param oldValue  the old value, if any
+   * @param newValue  the new value, if any
+   *
+   * @return `true` if a listener registered with the filter should receive the event
+   */
+  private accepts (filter: Filter, id: number, key: K, oldValue: V | undefined, newValue: V | undefined): boolean {
+    const mask = filter instanceof MapEventFilter ? filter.mask : MapEventFilter.ALL
+    const valueFilter = filter instanceof MapEventFilter ? filter.filter : filter
+
+    switch (id) {
+      case MapEvent.ENTRY_INSERTED:
+        return (mask & MapEventFilter.INSERTED) != 0 && this.evaluate(valueFilter, key, newValue as V)
+
+      case MapEvent.ENTRY_DELETED:
+        return (mask & MapEventFilter.DELETED) != 0 && this.evaluate(valueFilter, key, oldValue as V)
+
+      case MapEvent.ENTRY_UPDATED: {
+        const wasIn = this.evaluate(valueFilter, key, oldValue as V)
+        const isIn = this.evaluate(valueFilter, key, newValue as V)
+        return ((mask & MapEventFilter.UPDATED) != 0 && (wasIn || isIn))
+          || ((mask & MapEventFilter.UPDATED_ENTERED) != 0 && !wasIn && isIn)
+          || ((mask & MapEventFilter.UPDATED_LEFT) != 0 && wasIn && !isIn)
+          || ((mask & MapEventFilter.UPDATED_WITHIN) != 0 && wasIn && isIn)
+      }
+    }
+    return false
+  }
+
+  /**
+   * Deserialize the value of the stored entry.
+   *
+   * @param entry  the stored entry
+   *
+   * @return the deserialized value
+   */
+  private toValue (entry: StoredEntry<K>): V {
+    return this.serializer.deserialize(entry.value)
+  }
+
+  /**
+   * Returns a {@link CacheEntry} holding the deserialized value and the metadata of
+   * the stored entry.
+   *
+   * @param entry  the stored entry
+   *
+   * @return the cache entry
+   */
+  private toCacheEntry (entry: StoredEntry<K>): CacheEntry<K, V> {
+    return util.cacheEntryOf(entry.key, this.toValue(entry), entry.expiry, entry.modified)
+  }
+
+  /**
+   * Returns the local key for the specified key.
+   *
+   * @param key  the key
+   *
+   * @return the local key
+   */
+  private localKey (key: K): string {
+    return this.serializer.serialize(key).toString('base64')
+  }
+
+  /**
+   * Returns the registrations for the specified key or filter, creating them if necessary.
+   *
+   * @param map          the registrations map
+   * @param keyOrFilter  the local key or filter
+   *
+   * @return the registrations for the specified key or filter
+   */
+  private registrations<T> (map: Map<T, Map<MapListener<K, V>, Registration<K, V>>>, keyOrFilter: T): Map<MapListener<K, V>, Registration<K, V>> {
+    let registrations = map.get(keyOrFilter)
+    if (!registrations) {
+      registrations = new Map()
+      map.set(keyOrFilter, registrations)
+    }
+    return registrations
+  }
+
+  /**
+   * Remove the listener registered for the specified key or filter.
+   *
+   * @param map          the registrations map
+   * @param keyOrFilter  the local key or filter
+   * @param listener     the listener
+   */
+  private static deregister<T, K, V> (map: Map<T, Map<MapListener<K, V>, Registration<K, V>>>, keyOrFilter: T, listener: MapListener<K, V>): void {
+    const registrations = map.get(keyOrFilter)
+    if (registrations) {
+      registrations.delete(listener)
+      if (registrations.size == 0) {
+        map.delete(keyOrFilter)
+      }
+    }
+  }
+}
@@ -0,0 +1,614 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import { status } from 'grpc'
+import { util } from './util'
+
+export namespace metrics {
+
+  /**
+   * The upper bounds, in `milliseconds`, of the buckets of request latency histograms.
+   */
+  export const LATENCY_BUCKETS: ReadonlyArray<number> = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+
+  /**
+   * A point-in-time copy of a {@link Histogram}.
+   */
+  export interface HistogramSnapshot {
+    /**
+     * The number of recorded values.
+     */
+    count: number
+
+    /**
+     * The sum of the recorded values.
+     */
+    sum: number
+
+    /**
+     * The cumulative number of recorded values less than or equal to each bucket's upper bound.
+     */
+    buckets: Array<{ le: number, count: number }>
+  }
+
+  /**
+   * A point-in-time copy of the metrics of a single operation of a cache.
+   */
+  export interface OperationSnapshot {
+    /**
+     * The number of requests made, including failed requests.
+     */
+    count: number
+
+    /**
+     * The number of requests that failed.
+     */
+    errors: number
+
+    /**
+     * The latency, in `milliseconds`, of the requests made.
+     */
+    latency: HistogramSnapshot
+  }
+
+  /**
+   * A point-in-time copy of the {@link CacheMetrics} of a cache.
+   */
+  export interface CacheMetricsSnapshot {
+    /**
+     * The name of the cache.
+     */
+    cacheName: string
+
+    /**
+     * The serialization format of the cache.
+     */
+    format: string
+
+    /**
+     * The metrics of each operation requested, keyed by operation name.
+     */
+    requests: { [operation: string]: OperationSnapshot }
+
+    /**
+     * The number of failed requests, keyed by `gRPC` status name.
+     */
+    errors: { [status: string]: number }
+
+    /**
+     * The number of bytes serialized.
+     */
+    bytesSerialized: number
+
+    /**
+     * The number of bytes deserialized.
+     */
+    bytesDeserialized: number
+
+    /**
+     * The number of open event streams.
+     */
+    openEventStreams: number
+
+    /**
+     * The number of keys and filters with registered listeners.
+     */
+    activeListenerGroups: number
+
+    /**
+     * The number of events dispatched to listeners.
+     */
+    eventsDispatched: number
+  }
+
+  /**
+   * A point-in-time copy of the {@link SessionMetrics} of a session.
+   */
+  export interface SessionMetricsSnapshot {
+    /**
+     * The number of requests made by all caches.
+     */
+    requests: number
+
+    /**
+     * The number of failed requests made by all caches.
+     */
+    errors: number
+
+    /**
+     * The number of bytes serialized by all caches.
+     */
+    bytesSerialized: number
+
+    /**
+     * The number of bytes deserialized by all caches.
+     */
+    bytesDeserialized: number
+
+    /**
+     * The number of event streams open across all caches.
+     */
+    openEventStreams: number
+
+    /**
+     * The number of keys and filters with registered listeners across all caches.
+     */
+    activeListenerGroups: number
+
+    /**
+     * The number of events dispatched to listeners by all caches.
+     */
+    eventsDispatched: number
+
+    /**
+     * The metrics of each cache.
+     */
+    caches: Array<CacheMetricsSnapshot>
+  }
+
+  /**
+   * A histogram of values with fixed bucket upper bounds.
+   */
+  export class Histogram {
+    /**
+     * The bucket upper bounds, in ascending order.
+     */
+    protected readonly bounds: ReadonlyArray<number>
+
+    /**
+     * The number of values recorded in each bucket; the last bucket holds values above all bounds.
+     */
+    protected readonly counts: Array<number>
+
+    /**
+     * The number of recorded values.
+     */
+    protected count: number = 0
+
+    /**
+     * The sum of the recorded values.
+     */
+    protected sum: number = 0
+
+    /**
+     * Constructs a new `Histogram`.
+     *
+     * @param bounds  the bucket upper bounds, in ascending order
+     */
+    constructor (bounds: ReadonlyArray<number> = LATENCY_BUCKETS) {
+      this.bounds = bounds
+      this.counts = new Array(bounds.length + 1).fill(0)
+    }
+
+    /**
+     * Record the specified value.
+     *
+     * @param value  the value to record
+     */
+    record (value: number): void {
+      let i = 0
+      while (i < this.bounds.length && value > this.bounds[i]) {
+        i++
+      }
+      this.counts[i]++
+      this.count++
+      this.sum += value
+    }
+
+    /**
+     * Return a point-in-time copy of this histogram.
+     *
+     * @return a point-in-time copy of this histogram
+     */
+    snapshot (): HistogramSnapshot {
+      let cumulative = 0
+      const buckets = this.bounds.map((le, i) => {
+        cumulative += this.counts[i]
+        return { le: le, count: cumulative }
+      })
+      return { count: this.count, sum: this.sum, buckets: buckets }
+    }
+  }
+
+  /**
+   * The metrics of a single operation of a cache.
+   */
+  class OperationMetrics {
+    /**
+     * The number of requests made.
+     */
+    count: number = 0
+
+    /**
+     * The number of requests that failed.
+     */
+    errors: number = 0
+
+    /**
+     * The latency of the requests made.
+     */
+    readonly latency = new Histogram()
+  }
+
+  /**
+   * The metrics of the requests made, and events received, by a cache.
+   */
+  export class CacheMetrics {
+    /**
+     * The name of the cache.
+     */
+    readonly cacheName: string
+
+    /**
+     * The serialization format of the cache.
+     */
+    readonly format: string
+
+    /**
+     * The metrics of each operation requested.
+     */
+    protected readonly operations = new Map<string, OperationMetrics>()
+
+    /**
+     * The number of failed requests, keyed by `gRPC` status name.
+     */
+    protected readonly errors = new Map<string, number>()
+
+    /**
+     * The number of bytes serialized.
+     */
+    protected bytesSerialized: number = 0
+
+    /**
+     * The number of bytes deserialized.
+     */
+    protected bytesDeserialized: number = 0
+
+    /**
+     * The number of events dispatched to listeners.
+     */
+    protected eventsDispatched: number = 0
+
+    /**
+     * Supplies the number of open event streams.
+     */
+    protected openEventStreams: () => number = () => 0
+
+    /**
+     * Supplies the number of keys and filters with registered listeners.
+     */
+    protected activeListenerGroups: () => number = () => 0
+
+    /**
+     * Constructs a new `CacheMetrics`.
+     *
+     * @param cacheName  the name of the cache
+     * @param format     the serialization format of the cache
+     */
+    constructor (cacheName: string, format: string) {
+      this.cacheName = cacheName
+      this.format = format
+    }
+
+    /**
+     * Record a request.
+     *
+     * @param operation        the name of the operation
+     * @param elapsedInMillis  the time, in `milliseconds`, the request took
+     * @param err              the error the request failed with, if any
+     */
+    recordRequest (operation: string, elapsedInMillis: number, err?: any): void {
+      let op = this.operations.get(operation)
+      if (!op) {
+        op = new OperationMetrics()
+        this.operations.set(operation, op)
+      }
+      op.count++
+      op.latency.record(elapsedInMillis)
+      if (err) {
+        op.errors++
+        const name = CacheMetrics.statusName(err)
+        this.errors.set(name, (this.errors.get(name) || 0) + 1)
+      }
+    }
+
+    /**
+     * Record bytes serialized.
+     *
+     * @param bytes  the number of bytes
+     */
+    recordSerialized (bytes: number): void {
+      this.bytesSerialized += bytes
+    }
+
+    /**
+     * Record bytes deserialized.
+     *
+     * @param bytes  the number of bytes
+     */
+    recordDeserialized (bytes: number): void {
+      this.bytesDeserialized += bytes
+    }
+
+    /**
+     * Record an event dispatched to a listener.
+     */
+    recordEventDispatched (): void {
+      this.eventsDispatched++
+    }
+
+    /**
+     * Bind the suppliers of the event stream gauges.
+     *
+     * @param openEventStreams      supplies the number of open event streams
+     * @param activeListenerGroups  supplies the number of keys and filters with registered listeners
+     * @internal
+     */
+    bindEventGauges (openEventStreams: () => number, activeListenerGroups: () => number): void {
+      this.openEventStreams = openEventStreams
+      this.activeListenerGroups = activeListenerGroups
+    }
+
+    /**
+     * Return a point-in-time copy of these metrics.
+     *
+     * @return a point-in-time copy of these metrics
+     */
+    snapshot (): CacheMetricsSnapshot {
+      const requests: { [operation: string]: OperationSnapshot } = {}
+      this.operations.forEach((op, name) => {
+        requests[name] = { count: op.count, errors: op.errors, latency: op.latency.snapshot() }
+      })
+      const errors: { [status: string]: number } = {}
+      this.errors.forEach((count, name) => {
+        errors[name] = count
+      })
+      return {
+        cacheName: this.cacheName,
+        format: this.format,
+        requests: requests,
+        errors: errors,
+        bytesSerialized: this.bytesSerialized,
+        bytesDeserialized: this.bytesDeserialized,
+        openEventStreams: this.openEventStreams(),
+        activeListenerGroups: this.activeListenerGroups(),
+        eventsDispatched: this.eventsDispatched
+      }
+    }
+
+    /**
+     * Return the name of the `gRPC` status of the error, or `UNKNOWN` if the error has no status.
+     *
+     * @param err  the error
+     *
+     * @return the name of the `gRPC` status of the error
+     */
+    private static statusName (err: any): string {
+      const code = err.code
+      for (const name of Object.keys(status)) {
+        // @ts-ignore  -- added for 'status' index access
+        if (status[name] === code) {
+          return name
+        }
+      }
+      return 'UNKNOWN'
+    }
+  }
+
+  /**
+   * The metrics of the caches of a {@link Session}.
+   */
+  export class SessionMetrics {
+    /**
+     * The metrics of each cache, keyed by cache name and serialization format.
+     */
+    protected readonly caches = new Map<string, CacheMetrics>()
+
+    /**
+     * Return the metrics of the cache with the specified name and serialization format,
+     * creating them if necessary.  The metrics of a cache are retained, and continue to
+     * accumulate, if the cache is released and obtained again.
+     *
+     * @param cacheName  the name of the cache
+     * @param format     the serialization format of the cache
+     *
+     * @return the metrics of the cache
+     */
+    forCache (cacheName: string, format: string): CacheMetrics {
+      const key = cacheName + ':' + format
+      let cacheMetrics = this.caches.get(key)
+      if (!cacheMetrics) {
+        cacheMetrics = new CacheMetrics(cacheName, format)
+        this.caches.set(key, cacheMetrics)
+      }
+      return cacheMetrics
+    }
+
+    /**
+     * Return a point-in-time copy of these metrics, including the metrics of each cache.
+     *
+     * @return a point-in-time copy of these metrics
+     */
+    snapshot (): SessionMetricsSnapshot {
+      const result: SessionMetricsSnapshot = {
+        requests: 0,
+        errors: 0,
+        bytesSerialized: 0,
+        bytesDeserialized: 0,
+        openEventStreams: 0,
+        activeListenerGroups: 0,
+        eventsDispatched: 0,
+        caches: []
+      }
+      for (const cacheMetrics of this.caches.values()) {
+        const cache = cacheMetrics.snapshot()
+        for (const name of Object.keys(cache.requests)) {
+          result.requests += cache.requests[name].count
+          result.errors += cache.requests[name].errors
+        }
+        result.bytesSerialized += cache.bytesSerialized
+        result.bytesDeserialized += cache.bytesDeserialized
+        result.openEventStreams += cache.openEventStreams
+        result.activeListenerGroups += cache.activeListenerGroups
+        result.eventsDispatched += cache.eventsDispatched
+        result.caches.push(cache)
+      }
+      return result
+    }
+  }
+
+  /**
+   * A {@link util.Serializer} recording the bytes serialized and deserialized by
+   * the delegate {@link util.Serializer} in the metrics of a cache.
+   *
+   * @internal
+   */
+  export class MeteredSerializer
+    implements util.Serializer {
+    /**
+     * The serializer to delegate to.
+     */
+    protected readonly delegate: util.Serializer
+
+    /**
+     * The metrics to record in.
+     */
+    protected readonly cacheMetrics: CacheMetrics
+
+    /**
+     * Constructs a new `MeteredSerializer`.
+     *
+     * @param delegate      the serializer to delegate to
+     * @param cacheMetrics  the metrics to record in
+     */
+    constructor (delegate: util.Serializer, cacheMetrics: CacheMetrics) {
+      this.delegate = delegate
+      this.cacheMetrics = cacheMetrics
+    }
+
+    /**
+     * @inheritDoc
+     */
+    get format (): string {
+      return this.delegate.format
+    }
+
+    /**
+     * @inheritDoc
+     */
+    serialize (obj: any): Buffer {
+      const bytes = this.delegate.serialize(obj)
+      this.cacheMetrics.recordSerialized(bytes ? bytes.length : 0)
+      return bytes
+    }
+
+    /**
+     * @inheritDoc
+     */
+    deserialize (value: any): any {
+      this.cacheMetrics.recordDeserialized(value && value.length ? value.length : 0)
+      return this.delegate.deserialize(value)
+    }
+  }
+
+  /**
+   * Formats the metrics of a {@link Session} using the Prometheus text exposition format.
+   */
+  export class PrometheusExporter {
+    /**
+     * The metrics to export.
+     */
+    protected readonly metrics: SessionMetrics
+
+    /**
+     * The prefix of the exported metric names.
+     */
+    protected readonly prefix: string
+
+    /**
+     * Constructs a new `PrometheusExporter`.
+     *
+     * @param metrics  the metrics to export, typically {@link Session.metrics}
+     * @param prefix   the prefix of the exported metric names; defaults to `coherence`
+     */
+    constructor (metrics: SessionMetrics, prefix: string = 'coherence') {
+      this.metrics = metrics
+      this.prefix = prefix
+    }
+
+    /**
+     * Return the current metrics in the Prometheus text exposition format.
+     *
+     * @return the current metrics in the Prometheus text exposition format
+     */
+    scrape (): string {
+      const caches = this.metrics.snapshot().caches
+      const lines: Array<string> = []
+      const family = (name: string, type: string, help: string, samples: (cache: CacheMetricsSnapshot, labels: string) => void) => {
+        lines.push('# HELP ' + this.prefix + '_' + name + ' ' + help)
+        lines.push('# TYPE ' + this.prefix + '_' + name + ' ' + type)
+        for (const cache of caches) {
+          const labels = 'cache="' + PrometheusExporter.escape(cache.cacheName) + '",format="' + PrometheusExporter.escape(cache.format) + '"'
+          samples(cache, labels)
+        }
+      }
+      const sample = (name: string, labels: string, value: number) => {
+        lines.push(this.prefix + '_' + name + '{' + labels + '} ' + value)
+      }
+
+      family('requests_total', 'counter', 'Requests made, by operation.', (cache, labels) => {
+        for (const op of Object.keys(cache.requests)) {
+          sample('requests_total', labels + ',operation="' + op + '"', cache.requests[op].count)
+        }
+      })
+      family('request_duration_milliseconds', 'histogram', 'Request latency in milliseconds, by operation.', (cache, labels) => {
+        for (const op of Object.keys(cache.requests)) {
+          const latency = cache.requests[op].latency
+          const opLabels = labels + ',operation="' + op + '"'
+          for (const bucket of latency.buckets) {
+            sample('request_duration_milliseconds_bucket', opLabels + ',le="' + bucket.le + '"', bucket.count)
+          }
+          sample('request_duration_milliseconds_bucket', opLabels + ',le="+Inf"', latency.count)
+          sample('request_duration_milliseconds_sum', opLabels, latency.sum)
+          sample('request_duration_milliseconds_count', opLabels, latency.count)
+        }
+      })
+      family('request_errors_total', 'counter', 'Failed requests, by gRPC status.', (cache, labels) => {
+        for (const code of Object.keys(cache.errors)) {
+          sample('request_errors_total', labels + ',status="' + code + '"', cache.errors[code])
+        }
+      })
+      family('serialized_bytes_total', 'counter', 'Bytes serialized.', (cache, labels) => {
+        sample('serialized_bytes_total', labels, cache.bytesSerialized)
+      })
+      family('deserialized_bytes_total', 'counter', 'Bytes deserialized.', (cache, labels) => {
+        sample('deserialized_bytes_total', labels, cache.bytesDeserialized)
+      })
+      family('event_streams_open', 'gauge', 'Open event streams.', (cache, labels) => {
+        sample('event_streams_open', labels, cache.openEventStreams)
+      })
+      family('listener_groups_active', 'gauge', 'Keys and filters with registered listeners.', (cache, labels) => {
+        sample('listener_groups_active', labels, cache.activeListenerGroups)
+      })
+      family('events_dispatched_total', 'counter', 'Events dispatched to listeners.', (cache, labels) => {
+        sample('events_dispatched_total', labels, cache.eventsDispatched)
+      })
+      return lines.join('\n') + '\n'
+    }
+
+    /**
+     * Escape the specified label value.
+     *
+     * @param value  the label value
+     *
+     * @return the escaped label value
+     */
+    private static escape (value: string): string {
+      return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+    }
+  }
+}
@@ -6,9 +6,12 @@
  */
 
 import { EventEmitter } from 'events'
+import { Message } from 'google-protobuf'
 import { BytesValue } from 'google-protobuf/google/protobuf/wrappers_pb'
-import { ClientReadableStream, ServiceError } from 'grpc'
+import { CallOptions, Channel, ClientReadableStream, ClientUnaryCall, Metadata, ServiceError, status } from 'grpc'
+import { Readable } from 'stream'
 import { aggregator } from './aggregators'
+import { comparator } from './comparators'
 
 import { event } from './events'
 import { extractor } from './extractors'
@@ -23,6 +26,8 @@ import {
   TruncateRequest
 } from './grpc/messages_pb'
 import { NamedCacheServiceClient } from './grpc/services_grpc_pb'
+import { interceptor } from './interceptors'
+import { metrics } from './metrics'
 import { processor } from './processors'
 import { Session } from './session'
 import { util } from './util'
@@ -41,11 +46,129 @@ import isIterableType = util.isIterableType
 import KeySet = util.KeySet
 import LocalSet = util.LocalSet
 import NamedCacheEntry = util.NamedCacheEntry
+import PagedQuery = util.PagedQuery
 import RemoteSet = util.RemoteSet
 import RequestFactory = util.RequestFactory
+import SerializedHashingStrategy = util.SerializedHashingStrategy
 import Serializer = util.Serializer
+import StreamIterator = util.StreamIterator
 import ValueSet = util.ValueSet
 
+/**
+ * The subset of the standard `AbortSignal` used to cancel requests.  An
+ * `AbortController`'s `signal` satisfies this interface.
+ */
+export interface AbortSignalLike {
+  /**
+   * `true` once the signal has been aborted.
+   */
+  readonly aborted: boolean
+
+  /**
+   * Register a listener to be notified when the signal is aborted.
+   *
+   * @param type      the event type
+   * @param listener  the listener
+   */
+  addEventListener (type: 'abort', listener: () => void): void
+
+  /**
+   * Remove a previously registered listener.
+   *
+   * @param type      the event type
+   * @param listener  the listener
+   */
+  removeEventListener (type: 'abort', listener: () => void): void
+}
+
+/**
+ * Options that may be passed to an individual {@link NamedMap} request, overriding
+ * the request timeout configured for the {@link Session}.
+ */
+export interface RequestOptions {
+  /**
+   * The time, in `milliseconds`, each attempt of the request may take before it fails
+   * with a `DEADLINE_EXCEEDED` status.
+   */
+  timeoutInMillis?: number
+
+  /**
+   * The time, as a `Date` or in `milliseconds` since the epoch, by which the request,
+   * including any retries, must complete.
+   */
+  deadline?: Date | number
+
+  /**
+   * A signal that, once aborted, cancels the request.  The request will fail
+   * with a `CANCELLED` status.
+   */
+  signal?: AbortSignalLike
+}
+
+/**
+ * Options that may be passed to {@link NamedMap.iterateEntries}, {@link NamedMap.iterateKeys},
+ * {@link NamedMap.iterateValues} and the corresponding `stream` methods.  The request timeout
+ * applies to each page of an unfiltered iteration, and to the entire result stream of a
+ * filtered one.
+ */
+export interface IterationOptions extends RequestOptions {
+  /**
+   * The maximum number of results buffered while iterating.  Reading from the proxy is
+   * paused once this many results are waiting to be consumed.  Defaults to `100`.
+   */
+  pageSize?: number
+}
+
+/**
+ * A key by which the entries of a {@link Query} are ordered: the name of a property,
+ * an extractor, or either of these with the direction of the order, or a
+ * {@link comparator.Comparator}.  Entries are ordered in ascending order unless
+ * `descending` is `true`.
+ */
+export type SortKey = string | ValueExtractor | { extractor: string | ValueExtractor, descending?: boolean } | comparator.Comparator
+
+/**
+ * A query for a page of the entries of a {@link NamedMap}; see {@link NamedMap.query}.
+ */
+export interface Query {
+  /**
+   * The filter the entries should satisfy; all entries if not specified.
+   */
+  filter?: Filter | null
+
+  /**
+   * The keys by which the entries are ordered, most significant first.  The order of
+   * the entries is unspecified if no key is specified.
+   */
+  orderBy?: SortKey | Array<SortKey>
+
+  /**
+   * The maximum number of entries returned.  Defaults to `100`.
+   */
+  limit?: number
+
+  /**
+   * The cursor returned with the previous page of the query, if any.
+   */
+  cursor?: string | null
+}
+
+/**
+ * A page of the entries of a {@link NamedMap} returned by {@link NamedMap.query}.
+ */
+export interface QueryResult<K, V> {
+  /**
+   * The entries of the page, in the order of the query.
+   */
+  entries: Array<MapEntry<K, V>>
+
+  /**
+   * The opaque cursor that resumes the query after this page, or `null` if this is
+   * the last page.
+   */
+  cursor: string | null
+}
+
 /**
  * A Map-based data-structure that manages entries across one or more processes.
  * Entries are typically managed in memory, and are often comprised of data
@@ -107,69 +230,100 @@ export interface NamedMap<K, V> {
    * could not be loaded.
    *
    * @param keys  an Iterable of keys that may be in this map
+   * @param options  the options of the request, if any
    *
    * @returns a `Promise`resolving to a Map of keys to values for the specified keys
    *          passed in `keys`
    */
-  getAll (keys: Iterable<K>): Promise<Map<K, V>>
+  getAll (keys: Iterable<K>, options?: RequestOptions): Promise<Map<K, V>>
+
+  /**
+   * Returns the entry for the specified key, together with its metadata.
+   *
+   * @param key      the key of the entry
+   * @param options  the options of the request, if any
+   *
+   * @return a `Promise` resolving to the entry, or `null` if this map contains no
+   *         mapping for the key
+   */
+  getEntry (key: K, options?: RequestOptions): Promise<CacheEntry<K, V> | null>
+
+  /**
+   * Returns the entries for the specified keys that are in the map, together with
+   * their metadata.  See {@link getAll}.
+   *
+   * @param keys     an Iterable of keys that may be in this map
+   * @param options  the options of the request, if any
+   *
+   * @return a `Promise` resolving to a Map of keys to entries for the specified keys
+   */
+  getAllEntries (keys: Iterable<K>, options?: RequestOptions): Promise<Map<K, CacheEntry<K, V>>>
 
   /**
    * Clears all the mappings in the 'NamedMap'.
    *
+   * @param options  the options of the request, if any
+   *
    * @return a `Promise` which resolves once the operation is complete
    */
-  clear (): Promise<void>
+  clear (options?: RequestOptions): Promise<void>
 
   /**
    * Returns `true` if the specified key is mapped a value within the cache.
    *
    * @param key  the key whose presence in this cache is to be tested
+   * @param options  the options of the request, if any
    *
    * @return a `Promise` resolving to `true` if the key is mapped
    *         to a value, or `false` if it does not
    */
-  has (key: K): Promise<boolean>
+  has (key: K, options?: RequestOptions): Promise<boolean>
 
   /**
    * Returns `true` if the specified key is mapped to the specified value within the cache.
    *
    * @param key   the key
    * @param value the value
+   * @param options  the options of the request, if any
    *
    * @return a `Promise` resolving to `true` if the key is mapped
    *         to the specified value value, or `false` if it does not
    */
-  hasEntry (key: K, value: V): Promise<boolean>
+  hasEntry (key: K, value: V, options?: RequestOptions): Promise<boolean>
 
   /**
    * Returns `true` if the specified value is mapped to some key.
    *
    * @param value  the value expected to be associated with some key
+   * @param options  the options of the request, if any
    *
    * @return a `Promise` resolving to `true` if a mapping exists,
    *         or `false` if it does not
    *
    */
-  hasValue (value: V): Promise<boolean>
+  hasValue (value: V, options?: RequestOptions): Promise<boolean>
 
   /**
    * Returns the value to which this cache maps the specified key.
    *
    * @param key  the key whose associated value is to be returned
+   * @param options  the options of the request, if any
    *
    * @returns a `Promise` resolving the value to which the specified key is mapped,
    *          or `null` if this map contains no mapping for the key
    */
-  get (key: K): Promise<V | null>
+  get (key: K, options?: RequestOptions): Promise<V | null>
 
   /**
    * Returns the value to which the specified key is mapped, or the specified `defaultValue`
    * if this map contains no mapping for the key.
    *
+   * @param options  the options of the request, if any
+   *
    * @return the value to which the specified key is mapped, or the specified `defaultValue`
    *         if this map contains no mapping for the key
    */
-  getOrDefault (key: K, defaultValue: V): Promise<V | null>
+  getOrDefault (key: K, defaultValue: V, options?: RequestOptions): Promise<V | null>
 
   /**
    * Associates the specified value with the specified key in this map. If the
@@ -177,19 +331,21 @@ export interface NamedMap<K, V> {
    *
    * @param key    the key with which the specified value is to be associated
    * @param value  the value to be associated with the specified key
+   * @param options  the options of the request, if any
    *
    * @return a `Promise` resolving to the previous value associated with specified key,
    *         or `null` if there was no mapping for key. A `null` return can also indicate that the map
    *         previously associated `null` with the specified key, if the implementation supports `null` values
    */
-  set (key: K, value: V): Promise<V | null>
+  set (key: K, value: V, options?: RequestOptions): Promise<V | null>
 
   /**
    * Copies all of the mappings from the specified map to this map
    *
    * @param map the map to copy from
+   * @param options  the options of the request, if any
    */
-  setAll(map: Map<K, V>): Promise<void>
+  setAll(map: Map<K, V>, options?: RequestOptions): Promise<void>
 
   /**
    * If the specified key is not already associated with a value (or is mapped to `null`) associates
@@ -197,44 +353,48 @@ export interface NamedMap<K, V> {
    *
    * @param key    the key with which the specified value is to be associated
    * @param value  the value to be associated with the specified key
+   * @param options  the options of the request, if any
    *
    * @return a `Promise` resolving to the previous value associated with the specified key, or
    *         `null` if there was no mapping for the key. (A `null` return can also indicate that the map previously
    *         associated `null` with the key, if the implementation supports `null` values.)
    */
-  setIfAbsent (key: K, value: V): Promise<V | null>
+  setIfAbsent (key: K, value: V, options?: RequestOptions): Promise<V | null>
 
   /**
    * Removes the mapping for a key from this map if it is present.
    *
    * @param key  key whose mapping is to be removed from the map
+   * @param options  the options of the request, if any
    *
    * @return a `Promise`resolving to the previous value associated with key,
    *         or null if there was no mapping for key
    */
-  delete (key: K): Promise<V | null>
+  delete (key: K, options?: RequestOptions): Promise<V | null>
 
   /**
    * Removes the entry for the specified key only if it is currently mapped to the specified value.
    *
    * @param key    key with which the specified value is associated
    * @param value  expected to be associated with the specified key
+   * @param options  the options of the request, if any
    *
    * @return a `Promise`resolving to `true` if the value was removed
    */
-  removeMapping (key: K, value: V): Promise<boolean>
+  removeMapping (key: K, value: V, options?: RequestOptions): Promise<boolean>
 
   /**
    * Replaces the entry for the specified key only if it is currently mapped to some value.
    *
    * @param key    key with which the specified value is associated
    * @param value  value to be associated with the specified key
+   * @param options  the options of the request, if any
    *
    * @return a `Promise` resolving to the previous value associated with the specified key,
    *         or `null` if there was no mapping for the key. (A `null` return can also indicate that the map
    *         previously associated `null` with the key, if the implementation supports `null` values.)
    */
-  replace (key: K, value: V): Promise<V | null>
+  replace (key: K, value: V, options?: RequestOptions): Promise<V | null>
 
   /**
    * Replaces the entry for the specified key only if currently mapped to the specified value.
@@ -242,10 +402,83 @@ export interface NamedMap<K, V> {
    * @param key       key whose associated value is to be removed
    * @param oldValue  value expected to be associated with the specified key
    * @param newValue  value to be associated with the specified key
+   * @param options   the options of the request, if any
    *
    * @return a `Promise` resolving to `true` if the value was replaced
    */
-  replaceMapping (key: K, oldValue: V, newValue: V): Promise<boolean>
+  replaceMapping (key: K, oldValue: V, newValue: V, options?: RequestOptions): Promise<boolean>
+
+  /**
+   * Atomically computes a new value for the specified key from its current value, or `null`
+   * if the key is absent.  If the new value is `null`, the mapping is removed.
+   *
+   * If an {@link EntryProcessor} is specified, it is invoked against the entry on the server,
+   * and its result, typically the new value, is returned.  If a function is specified, it is called
+   * with the current value and the new value is conditionally written using {@link setIfAbsent},
+   * {@link replaceMapping} or {@link removeMapping}; if the value was changed concurrently, the
+   * function is called again with the latest value.  Functions should therefore be free of side effects.
+   * The function is called at most 100 times, and not again once the request has been aborted or its
+   * deadline has passed; the returned `Promise` is then rejected.
+   *
+   * @param key        the key with which the computed value is to be associated
+   * @param remapping  the processor, or function, computing the new value
+   * @param options    the options of the requests, if any
+   *
+   * @return a `Promise` resolving to the new value associated with the key, or `null` if none
+   */
+  compute (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V | null) => V | null | Promise<V | null>),
+           options?: RequestOptions): Promise<V | null>
+
+  /**
+   * If the specified key is absent, atomically associates it with the value computed by the
+   * specified mapping, unless the computed value is `null`.
+   *
+   * If an {@link EntryProcessor} is specified, it is invoked against the entry on the server,
+   * only if the entry is absent, and must set the value of the entry.  If a function is specified,
+   * it is called only if the key is absent, and the computed value is written using {@link setIfAbsent}.
+   *
+   * @param key      the key with which the computed value is to be associated
+   * @param mapping  the processor, or function, computing the value
+   * @param options  the options of the requests, if any
+   *
+   * @return a `Promise` resolving to the current (existing or computed) value associated
+   *         with the key, or `null` if the computed value is `null`
+   */
+  computeIfAbsent (key: K, mapping: EntryProcessor<K, V, V> | ((key: K) => V | null | Promise<V | null>),
+                   options?: RequestOptions): Promise<V | null>
+
+  /**
+   * If the specified key is present, atomically computes a new value from its current value.
+   * If the new value is `null`, the mapping is removed.
+   *
+   * If an {@link EntryProcessor} is specified, it is invoked against the entry on the server,
+   * only if the entry is present, and its result, typically the new value, is returned.  If a function
+   * is specified, the new value is conditionally written as described by {@link compute}.
+   *
+   * @param key        the key with which the computed value is to be associated
+   * @param remapping  the processor, or function, computing the new value
+   * @param options    the options of the requests, if any
+   *
+   * @return a `Promise` resolving to the new value associated with the key, or `null` if none
+   */
+  computeIfPresent (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V) => V | null | Promise<V | null>),
+                    options?: RequestOptions): Promise<V | null>
+
+  /**
+   * If the specified key is absent, associates it with the specified value; otherwise, atomically
+   * replaces the current value with the result of the remapping function, or removes the mapping
+   * if the result is `null`.  The new value is conditionally written as described by {@link compute}.
+   *
+   * @param key        the key with which the resulting value is to be associated
+   * @param value      the value to associate with the key if it is absent, and to pass to the
+   *                   remapping function otherwise
+   * @param remapping  the function computing the new value from the current value and `value`
+   * @param options    the options of the requests, if any
+   *
+   * @return a `Promise` resolving to the new value associated with the key, or `null` if none
+   */
+  merge (key: K, value: V, remapping: (value: V, newValue: V) => V | null | Promise<V | null>,
+         options?: RequestOptions): Promise<V | null>
 
   /**
    * Truncates the cache.  Unlike {@link clear}, this function does not generate
@@ -326,8 +559,9 @@ export interface NamedMap<K, V> {
    *
    * @param keys        the Iterable of keys that specify the entries within this Map to aggregate across
    * @param aggregator  the {@link EntryAggregator} that is used to aggregate across the specified entries of this Map
+   * @param options     the options of the request, if any
    */
-  aggregate<R> (keys: Iterable<K>, aggregator: EntryAggregator<K, V, R>): Promise<R>
+  aggregate<R> (keys: Iterable<K>, aggregator: EntryAggregator<K, V, R>, options?: RequestOptions): Promise<R>
 
   /**
    * Perform an aggregating operation against the set of entries that are selected by the given {@link Filter}.
@@ -336,8 +570,9 @@ export interface NamedMap<K, V> {
    *
    * @param filter      the {@link Filter} that is used to select entries within this Map to aggregate across
    * @param aggregator  the {@link EntryAggregator} that is used to aggregate across the specified entries of this Map
+   * @param options     the options of the request, if any
    */
-  aggregate<R> (filter: Filter, aggregator: EntryAggregator<K, V, R>): Promise<R>
+  aggregate<R> (filter: Filter, aggregator: EntryAggregator<K, V, R>, options?: RequestOptions): Promise<R>
 
   /**
    * Perform an aggregating operation against all the entries.
@@ -345,8 +580,9 @@ export interface NamedMap<K, V> {
    * @typeParam R  the type of value returned by the {@link EntryProcessor}
    *
    * @param aggregator  the {@link EntryAggregator} that is used to aggregate across the specified entries of this Map
+   * @param options     the options of the request, if any
    */
-  aggregate<R, T, E> (aggregator: EntryAggregator<K, V, R>): Promise<R>
+  aggregate<R, T, E> (aggregator: EntryAggregator<K, V, R>, options?: RequestOptions): Promise<R>
 
   /**
    * Invoke the passed {@link EntryProcessor} against the {@link Entry} specified by the
@@ -356,10 +592,11 @@ export interface NamedMap<K, V> {
    *
    * @param key        the key to process it is not required to exist within the Map
    * @param processor  the {@link EntryProcessor} to use to process the specified key
+   * @param options    the options of the request, if any
    *
    * @return the result of the invocation as returned from the {@link EntryProcessor}
    */
-  invoke<R> (key: K, processor: EntryProcessor<K, V, R>): Promise<R | null>
+  invoke<R> (key: K, processor: EntryProcessor<K, V, R>, options?: RequestOptions): Promise<R | null>
 
   /**
    * Invoke the passed {@link EntryProcessor} against the entries specified by the
@@ -368,11 +605,12 @@ export interface NamedMap<K, V> {
    * @typeParam R  the type of value returned by the {@link EntryProcessor}
    *
    * @param processor  the {@link EntryProcessor} to use to process the specified keys
+   * @param options    the options of the request, if any
    *
    * @return a Map containing the results of invoking the {@link EntryProcessor}
    *         against each of the specified keys
    */
-  invokeAll<R> (processor: EntryProcessor<K, V, R>): Promise<Map<K, R>>
+  invokeAll<R> (processor: EntryProcessor<K, V, R>, options?: RequestOptions): Promise<Map<K, R>>
 
   /**
    * Invoke the passed EntryProcessor against the entries specified by the passed keys,
@@ -382,8 +620,9 @@ export interface NamedMap<K, V> {
    *
    * @param keys       the keys to process these keys are not required to exist within the Map
    * @param processor  the {@link EntryProcessor} to use to process the specified keys
+   * @param options    the options of the request, if any
    */
-  invokeAll<R> (keys: Iterable<K>, processor: EntryProcessor<K, V, R>): Promise<Map<K, R>>
+  invokeAll<R> (keys: Iterable<K>, processor: EntryProcessor<K, V, R>, options?: RequestOptions): Promise<Map<K, R>>
 
   /**
    * Invoke the passed EntryProcessor against the set of entries that are selected by the given Filter,
@@ -402,8 +641,9 @@ export interface NamedMap<K, V> {
    *
    * @param filter     a {@link Filter} that results in the set of keys to be processed
    * @param processor  the {@link EntryProcessor} to use to process the specified keys
+   * @param options    the options of the request, if any
    */
-  invokeAll<R> (filter: Filter, processor: EntryProcessor<K, V, R>): Promise<Map<K, R>>
+  invokeAll<R> (filter: Filter, processor: EntryProcessor<K, V, R>, options?: RequestOptions): Promise<Map<K, R>>
 
   /**
    * Allows registration of a handler to be notified of cache lifecycle events.
@@ -411,7 +651,18 @@ export interface NamedMap<K, V> {
    * @param eventName  the event
    * @param handler    the event handler
    */
-  on (eventName: MapLifecycleEvent.RELEASED | MapLifecycleEvent.TRUNCATED | MapLifecycleEvent.DESTROYED, handler: (cacheName: string) => void): void
+  on (eventName: MapLifecycleEvent.RELEASED | MapLifecycleEvent.TRUNCATED | MapLifecycleEvent.DESTROYED
+    | MapLifecycleEvent.RECONNECTED, handler: (cacheName: string) => void): void
+
+  /**
+   * Allows registration of a handler to be notified when the event stream
+   * of this map has been lost, or could not be re-established.
+   *
+   * @param eventName  the event
+   * @param handler    the event handler
+   */
+  on (eventName: MapLifecycleEvent.DISCONNECTED | MapLifecycleEvent.RECONNECT_FAILED,
+      handler: (cacheName: string, err: Error) => void): void
 
   /**
    * Add a {@link MapListener} that will receive events (inserts,
@@ -454,11 +705,12 @@ export interface NamedMap<K, V> {
    * @param comparator  The Comparator object which imposes an ordering
    *                    on entries in the indexed map or null if the
    *                    entries' values natural ordering should be used.
+   * @param options     the options of the request, if any
    *
    * @returns            A Promise<void> that resolves when the operation
    *                     completes.
    */
-  addIndex (extractor: ValueExtractor, ordered?: boolean, comparator?: Comparator): Promise<void>
+  addIndex (extractor: ValueExtractor, ordered?: boolean, comparator?: Comparator, options?: RequestOptions): Promise<void>
 
   /**
    * Returns a Set view of the keys contained in this map.
@@ -484,10 +736,11 @@ export interface NamedMap<K, V> {
    * @param filter      the Filter object representing the criteria that the
    *                    entries of this map should satisfy
    * @param comparator  the comparator for sorting
+   * @param options     the options of the request, if any
    *
    * @return a set of keys for entries that satisfy the specified criteria
    */
-  keys (filter: Filter, comparator?: Comparator): Promise<RemoteSet<K>>
+  keys (filter: Filter, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<K>>
 
   /**
    * Returns a Set view of the mappings contained in this map.
@@ -516,10 +769,11 @@ export interface NamedMap<K, V> {
    * @param comparator  the {@link Comparator} object which imposes an ordering on
    *                    entries in the resulting set; or `null` if the
    *                    entries' values natural ordering should be used
+   * @param options     the options of the request, if any
    *
    * @return a set of entries that satisfy the specified criteria
    */
-  entries (filter: Filter, comparator?: Comparator): Promise<RemoteSet<MapEntry<K, V>>>
+  entries (filter: Filter, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<MapEntry<K, V>>>
 
   /**
    * Remove an index from this `NamedMap`.
@@ -532,10 +786,11 @@ export interface NamedMap<K, V> {
    * @param extractor  The ValueExtractor object that is used to extract
    *                   an indexable Object from a value stored in the
    *                   indexed Map. Must not be `null`.
+   * @param options    the options of the request, if any
    *
    * @return  A `Promise` that resolves when the operation completes.
    */
-  removeIndex (extractor: ValueExtractor): Promise<void>
+  removeIndex (extractor: ValueExtractor, options?: RequestOptions): Promise<void>
 
   /**
    * Returns a Set view of the values contained in this map.
@@ -562,11 +817,108 @@ export interface NamedMap<K, V> {
    * @param comparator the {@link Comparator} object which imposes an ordering on
    *                   entries in the resulting set; or <tt>null</tt> if the
    *                   entries' values natural ordering should be used
+   * @param options    the options of the request, if any
    *
    * @return a `Promise` that resolves to the values in the set that satisfy
    *         the specified criteria
    */
-  values (filter: Filter, comparator?: Comparator): Promise<RemoteSet<V>>
+  values (filter: Filter, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<V>>
+
+  /**
+   * Return a page of the entries of this map that satisfy the filter of the query,
+   * ordered by its sort keys on the server.  The page holds at most `limit` entries;
+   * pass the cursor of the result to the same query to obtain the next page:
+   * ```javascript
+   * const query = { filter: Filters.less('price', 100), orderBy: { extractor: 'price', descending: true }, limit: 50 }
+   * let result = await map.query(query)
+   * while (result.cursor) {
+   *   result = await map.query({ ...query, cursor: result.cursor })
+   * }
+   * ```
+   *
+   * A cursor may only be used with the query that returned it.  Pages are selected by
+   * their position in the ordered results, so entries inserted or removed between
+   * requests may shift the boundaries of subsequent pages.
+   *
+   * @param query    the query
+   * @param options  the options of the request, if any
+   *
+   * @return a `Promise` resolving to the page of entries and the cursor of the next page
+   */
+  query (query: Query, options?: RequestOptions): Promise<QueryResult<K, V>>
+
+  /**
+   * Returns an async iterator over the entries of this map, or of the entries that satisfy
+   * the specified filter.  Unlike {@link entries}, results are read from the proxy as the
+   * iterator is consumed, so at most {@link IterationOptions.pageSize} results are held
+   * in memory at any time.
+   *
+   * Ending the iteration early, or aborting the {@link RequestOptions.signal}, cancels
+   * the underlying request.
+   *
+   * @param filter   the {@link Filter} the entries should satisfy, if any
+   * @param options  the options of the iteration, if any
+   *
+   * @return an async iterator over the matching entries
+   */
+  iterateEntries (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<MapEntry<K, V>>
+
+  /**
+   * Returns an async iterator over the keys of this map, or of the entries that satisfy
+   * the specified filter.  See {@link iterateEntries}.
+   *
+   * @param filter   the {@link Filter} the entries should satisfy, if any
+   * @param options  the options of the iteration, if any
+   *
+   * @return an async iterator over the matching keys
+   */
+  iterateKeys (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<K>
+
+  /**
+   * Returns an async iterator over the values of this map, or of the entries that satisfy
+   * the specified filter.  See {@link iterateEntries}.
+   *
+   * @param filter   the {@link Filter} the entries should satisfy, if any
+   * @param options  the options of the iteration, if any
+   *
+   * @return an async iterator over the matching values
+   */
+  iterateValues (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<V>
+
+  /**
+   * Returns an object mode `Readable` of the entries of this map, or of the entries that
+   * satisfy the specified filter.  The stream reads from {@link iterateEntries}, so results
+   * are only requested from the proxy as fast as the stream is consumed.  Destroying the
+   * stream cancels the underlying request.
+   *
+   * @param filter   the {@link Filter} the entries should satisfy, if any
+   * @param options  the options of the iteration, if any
+   *
+   * @return a `Readable` of the matching entries
+   */
+  streamEntries (filter?: Filter | null, options?: IterationOptions): Readable
+
+  /**
+   * Returns an object mode `Readable` of the keys of this map, or of the entries that
+   * satisfy the specified filter.  See {@link streamEntries}.
+   *
+   * @param filter   the {@link Filter} the entries should satisfy, if any
+   * @param options  the options of the iteration, if any
+   *
+   * @return a `Readable` of the matching keys
+   */
+  streamKeys (filter?: Filter | null, options?: IterationOptions): Readable
+
+  /**
+   * Returns an object mode `Readable` of the values of this map, or of the entries that
+   * satisfy the specified filter.  See {@link streamEntries}.
+   *
+   * @param filter   the {@link Filter} the entries should satisfy, if any
+   * @param options  the options of the iteration, if any
+   *
+   * @return a `Readable` of the matching values
+   */
+  streamValues (filter?: Filter | null, options?: IterationOptions): Readable
 
   /**
    * Release local resources associated with instance.
@@ -594,6 +946,31 @@ export interface MapEntry<K, V> {
   value: V
 }
 
+/**
+ * A map entry together with its metadata, as returned by {@link NamedMap.getEntry}.
+ * Metadata that the cache does not report is `null`; the gRPC proxy reports neither
+ * the expiry nor the last update time of an entry, so these are only available from
+ * a {@link LocalNamedCache}.
+ */
+export interface CacheEntry<K, V> extends MapEntry<K, V> {
+  /**
+   * The time the entry expires, or `null` if the entry does not expire or its expiry
+   * is not reported.
+   */
+  readonly expiry: Date | null
+
+  /**
+   * The time the value of the entry was last updated, or `null` if not reported.
+   */
+  readonly lastModified: Date | null
+
+  /**
+   * The version of a versioned value, as maintained by {@link processor.VersionedPut},
+   * or `null` if the value is not versioned.
+   */
+  readonly version: number | null
+}
+
 /**
  * A Map-based data-structure that manages entries across one or more processes.
  * Entries are typically managed in memory, and are often comprised of data
@@ -612,13 +989,14 @@ export interface NamedCache<K, V> extends NamedMap<K, V> {
    *
    * @param key    the key with which the specified value is to be associated
    * @param value  the value to be associated with the specified key
-   * @param ttl    the expiry time in millis (optional)
+   * @param ttl    the expiry time in millis (optional), or the request options if no `ttl` is required
+   * @param options  the options of the request, if any
    *
    * @return a `Promise` resolving to the previous value associated with specified key,
    *         or `null` if there was no mapping for key. A `null` return can also indicate that the map
    *         previously associated `null` with the specified key, if the implementation supports `null` values
    */
-  set (key: K, value: V, ttl?: number): Promise<V | null>;
+  set (key: K, value: V, ttl?: number | RequestOptions, options?: RequestOptions): Promise<V | null>;
 
   /**
    * If the specified key is not already associated with a value (or is mapped to null) associates
@@ -626,13 +1004,42 @@ export interface NamedCache<K, V> extends NamedMap<K, V> {
    *
    * @param key    the key with which the specified value is to be associated
    * @param value  the value to be associated with the specified key
-   * @param ttl    the expiry time in millis
+   * @param ttl    the expiry time in millis, or the request options if no `ttl` is required
+   * @param options  the options of the request, if any
    *
    * @return a `Promise` resolving to the the previous value associated with the specified key, or
    *         `null` if there was no mapping for the key. (A `null` return can also indicate that the map previously
    *         associated `null` with the key, if the implementation supports `null` values.)
    */
-  setIfAbsent (key: K, value: V, ttl?: number): Promise<V | null>
+  setIfAbsent (key: K, value: V, ttl?: number | RequestOptions, options?: RequestOptions): Promise<V | null>
+
+  /**
+   * Change the expiry of an existing entry without changing its value.
+   *
+   * Not supported by caches accessed through the gRPC proxy, which does not provide
+   * a means to change the expiry of an entry; to do so, {@link set} the value with a
+   * `ttl`.
+   *
+   * @param key      the key of the entry
+   * @param ttl      the new time-to-live, in `milliseconds`; the entry will not expire if
+   *                 zero or negative
+   * @param options  the options of the request, if any
+   *
+   * @return a `Promise` resolving to `true` if the entry exists and its expiry was changed
+   */
+  setExpiry (key: K, ttl: number, options?: RequestOptions): Promise<boolean>
+
+  /**
+   * Touch an entry, if present, using a {@link processor.TouchProcessor}.  Touching an
+   * entry triggers the re-evaluation of interceptors on the server and extends the
+   * expiry of an entry in a cache configured with sliding expiry.
+   *
+   * @param key      the key of the entry
+   * @param options  the options of the request, if any
+   *
+   * @return a `Promise` that resolves once the entry has been touched
+   */
+  touch (key: K, options?: RequestOptions): Promise<void>
 }
 
 
@@ -670,11 +1077,16 @@ export class NamedCacheClient<K = any, V = any>
    * The {@link Serializer} that will be used to ser/deser message payloads.
    */
   private readonly serializer: Serializer
+
+  /**
+   * The metrics of this cache.
+   */
+  private readonly _metrics: metrics.CacheMetrics
   /**
    * @internal
-   * The `gRPC` service client.
+   * The `gRPC` service clients, keyed by the session channel they use.
    */
-  private readonly client: NamedCacheServiceClient
+  private readonly clients = new Map<Channel, NamedCacheServiceClient>()
   /**
    * @internal
    * The `gRPC` request factory.
@@ -706,14 +1118,12 @@ export class NamedCacheClient<K = any, V = any>
 
     this.cacheName = cacheName
     this.session = session
+    this._metrics = session.metrics.forCache(cacheName, serializer.format)
     this.serializer = serializer
 
-    this.requestFactory = new RequestFactory(this.cacheName, this.session.scope, this.serializer)
-    this.client = new NamedCacheServiceClient(
-      session.address, // Ignored since we are using a shared Channel
-      session.channelCredentials,
-      session.clientOptions) // shared channel defined here
-
+    // only the bytes of requests and responses are metered, not those of keys hashed locally
+    this.requestFactory = new RequestFactory(this.cacheName, this.session.scope,
+      new metrics.MeteredSerializer(serializer, this._metrics))
     // We maintain two separate EventEmitters;
     //
     // 1. The NamedCacheClient itself is an EventEmitter that is used by the client / application.
@@ -727,7 +1137,12 @@ export class NamedCacheClient<K = any, V = any>
     this.setupEventHandlers()
 
     // Now open the events channel.
-    this.mapEventsHandler = new MapEventsManager(this as NamedMap<K, V>, this.session.scope, this.client, this.serializer, this.internalEmitter)
+    this.mapEventsHandler = new MapEventsManager(this as NamedCache<K, V>, this.session.scope, () => this.client, this.serializer,
+      this.internalEmitter, this.session.options.reconnect, (client) => this.session.ejectChannel(client.getChannel()),
+      this.session.tracer, this._metrics,
+      (operation, request, keys, call) => this.intercept(operation, request, keys, 1, call))
+    this._metrics.bindEventGauges(() => this.mapEventsHandler.streamOpen ? 1 : 0,
+      () => this.mapEventsHandler.listenerGroupCount)
   }
 
   /**
@@ -763,30 +1178,30 @@ export class NamedCacheClient<K = any, V = any>
    */
   get empty (): Promise<boolean> {
     const self = this
-    return new Promise((resolve, reject) => {
-      const request = new IsEmptyRequest()
-      request.setCache(this.cacheName)
-      self.client.isEmpty(request, this.session.callOptions(), (err, resp) => {
+    const request = new IsEmptyRequest()
+    request.setCache(this.cacheName)
+    return this.withRetry('empty', request, undefined, false, (client, metadata) => new Promise((resolve, reject) => {
+      client.isEmpty(request, metadata, this.session.callOptions(), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? resp.getValue() : resp)
       })
-    })
+    }))
   }
 
   /**
    * @inheritDoc
    */
   get size () {
-    return new Promise<number>((resolve, reject) => {
-      const request = new SizeRequest()
-      request.setCache(this.cacheName)
-      this.client.size(request, this.session.callOptions(), (err, resp) => {
+    const request = new SizeRequest()
+    request.setCache(this.cacheName)
+    return this.withRetry('size', request, undefined, false, (client, metadata) => new Promise<number>((resolve, reject) => {
+      client.size(request, metadata, this.session.callOptions(), (err, resp) => {
         if (err || !resp) {
           reject(err)
         } else {
           resolve(resp.getValue())
         }
       })
-    })
+    }))
   }
 
   /**
@@ -803,6 +1218,15 @@ export class NamedCacheClient<K = any, V = any>
     return !this.released && !this.destroyed
   }
 
+  /**
+   * Return the {@link metrics.CacheMetrics} recording the requests made, and events received, by this client.
+   *
+   * @return the {@link metrics.CacheMetrics} of this client
+   */
+  get metrics (): metrics.CacheMetrics {
+    return this._metrics
+  }
+
   /**
    * Return the {@link Serializer} used by this client.
    *
@@ -824,24 +1248,31 @@ export class NamedCacheClient<K = any, V = any>
   /**
    * @inheritDoc
    */
-  hasEntry (key: K, value: V): Promise<boolean> {
+  hasEntry (key: K, value: V, options?: RequestOptions): Promise<boolean> {
     const self = this
-    return new Promise((resolve, reject) => {
-      const request = self.requestFactory.containsEntry(key, value)
-      self.client.containsEntry(request, this.session.callOptions(), (err, resp) => {
+    const request = self.requestFactory.containsEntry(key, value)
+    return this.withRetry('hasEntry', request, [key], false, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.containsEntry(request, metadata, this.callOptions(options), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? resp.getValue() : resp)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  aggregate<R = any> (kfa: Iterable<K> | Filter | EntryAggregator<K, V, R>, agg?: EntryAggregator<K, V, R>): Promise<any> {
+  aggregate<R = any> (kfa: Iterable<K> | Filter | EntryAggregator<K, V, R>, aggOrOptions?: EntryAggregator<K, V, R> | RequestOptions,
+                      options?: RequestOptions): Promise<any> {
     const self = this
+    let agg: EntryAggregator<K, V, R> | undefined
+    if (aggOrOptions instanceof EntryAggregator) {
+      agg = aggOrOptions
+    } else {
+      options = aggOrOptions
+    }
     const request = this.requestFactory.aggregate(kfa, agg)
-    return new Promise((resolve, reject) => {
-      self.client.aggregate(request, this.session.callOptions(), (err, resp) => {
+    return this.withRetry('aggregate', request, NamedCacheClient.keysOf(kfa), false, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.aggregate(request, metadata, this.callOptions(options), (err, resp) => {
         if (err) {
           reject(err)
         } else {
@@ -857,32 +1288,40 @@ export class NamedCacheClient<K = any, V = any>
           }
           resolve(result)
         }
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  invoke<R = any> (key: K, processor: EntryProcessor<K, V, R>): Promise<R | null> {
+  invoke<R = any> (key: K, processor: EntryProcessor<K, V, R>, options?: RequestOptions): Promise<R | null> {
     const self = this
-    return new Promise((resolve, reject) => {
-      self.client.invoke(self.requestFactory.invoke(key, processor), (err, resp) => {
+    const request = self.requestFactory.invoke(key, processor)
+    return this.withRetry('invoke', request, [key], true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.invoke(request, metadata, this.callOptions(options), (err, resp) => {
         if (err) {
           reject(err)
         } else {
           self.resolveValue(resolve, reject, err, () => resp ? self.toValue(resp.getValue_asU8()) : resp)
         }
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  invokeAll<R = any> (keysOrFilterOrProcessor: Iterable<K> | Filter | EntryProcessor<K, V, R>, processor?: EntryProcessor<K, V, R>): Promise<Map<K, R>> {
+  invokeAll<R = any> (keysOrFilterOrProcessor: Iterable<K> | Filter | EntryProcessor<K, V, R>,
+                      processorOrOptions?: EntryProcessor<K, V, R> | RequestOptions, options?: RequestOptions): Promise<Map<K, R>> {
     const self = this
     let keysOrFilter: Iterable<K> | Filter
+    let processor: EntryProcessor<K, V, R> | undefined
+    if (processorOrOptions instanceof EntryProcessor) {
+      processor = processorOrOptions
+    } else {
+      options = processorOrOptions
+    }
     if (processor) {
       // Two args invocation
       if (keysOrFilterOrProcessor instanceof Filter) {
@@ -898,8 +1337,9 @@ export class NamedCacheClient<K = any, V = any>
       processor = keysOrFilterOrProcessor as EntryProcessor
     }
 
-    const call = self.client.invokeAll(self.requestFactory.invokeAll(keysOrFilter, processor), this.session.callOptions())
-    return this.doInvokeAll(call)
+    const request = self.requestFactory.invokeAll(keysOrFilter, processor)
+    return this.withRetry('invokeAll', request, NamedCacheClient.keysOf(keysOrFilter), true,
+      (client, metadata) => this.doInvokeAll(this.cancelOnAbort(client.invokeAll(request, metadata, this.callOptions(options)), options)), options)
   }
 
   forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, thisArg?: any): Promise<void>
@@ -1002,30 +1442,30 @@ export class NamedCacheClient<K = any, V = any>
   /**
    * @inheritDoc
    */
-  addIndex (extractor: ValueExtractor, ordered?: boolean, comparator?: Comparator): Promise<void> {
+  addIndex (extractor: ValueExtractor, ordered?: boolean, comparator?: Comparator, options?: RequestOptions): Promise<void> {
     const self = this
     const request = this.requestFactory.addIndex(extractor, ordered, comparator)
-    return new Promise((resolve, reject) => {
-      self.client.addIndex(request, this.session.callOptions(), (err: ServiceError | null) => {
+    return this.withRetry('addIndex', request, undefined, true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.addIndex(request, metadata, this.callOptions(options), (err: ServiceError | null) => {
         self.resolveValue(resolve, reject, err)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  entries (filter?: Filter, comp?: Comparator): Promise<RemoteSet<MapEntry<K, V>>> {
+  entries (filter?: Filter | null, comp?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<MapEntry<K, V>>> {
     const self = this
     if (!filter) {
       return Promise.resolve(new EntrySet(this))
     }
 
-    const set = new LocalSet<MapEntry<K, V>>()
     const request = this.requestFactory.entrySet(filter, comp)
-    const call = self.client.entrySet(request, this.session.callOptions())
 
-    return new Promise((resolve, reject) => {
+    return this.withRetry('entries', request, undefined, false, (client, metadata) => new Promise((resolve, reject) => {
+      const set = new LocalSet<MapEntry<K, V>>()
+      const call = this.cancelOnAbort(client.entrySet(request, metadata, this.callOptions(options)), options)
       call.on(RequestStateEvent.DATA, function (e: GrpcEntry) {
         const entry = new NamedCacheEntry<K, V>(e.getKey_asU8(), e.getValue_asU8(), self.getRequestFactory().serializer)
         set.add(entry)
@@ -1034,23 +1474,23 @@ export class NamedCacheClient<K = any, V = any>
       call.on(RequestStateEvent.ERROR, (e) => {
         reject(e)
       })
-    })
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  keys (filter?: Filter, comparator?: Comparator): Promise<RemoteSet<K>> {
+  keys (filter?: Filter | null, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<K>> {
     const self = this
     if (!filter) {
       return Promise.resolve(new KeySet(this))
     }
 
-    const set = new LocalSet<K>()
     const request = this.requestFactory.keySet(filter)
-    const call = self.client.keySet(request, this.session.callOptions())
 
-    return new Promise((resolve, reject) => {
+    return this.withRetry('keys', request, undefined, false, (client, metadata) => new Promise((resolve, reject) => {
+      const set = new LocalSet<K>()
+      const call = this.cancelOnAbort(client.keySet(request, metadata, this.callOptions(options)), options)
       call.on(RequestStateEvent.DATA, function (r: BytesValue) {
         const k = self.getRequestFactory().serializer.deserialize(r.getValue_asU8())
         if (k) {
@@ -1061,36 +1501,36 @@ export class NamedCacheClient<K = any, V = any>
       call.on(RequestStateEvent.ERROR, (e) => {
         reject(e)
       })
-    })
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  removeIndex (extractor: ValueExtractor): Promise<void> {
+  removeIndex (extractor: ValueExtractor, options?: RequestOptions): Promise<void> {
     const self = this
     const request = this.requestFactory.removeIndex(extractor)
-    return new Promise((resolve, reject) => {
-      self.client.removeIndex(request, (err: ServiceError | null) => {
+    return this.withRetry('removeIndex', request, undefined, true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.removeIndex(request, metadata, this.callOptions(options), (err: ServiceError | null) => {
         self.resolveValue(resolve, reject, err)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  values (filter?: Filter, comparator?: Comparator): Promise<RemoteSet<V>> {
+  values (filter?: Filter | null, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<V>> {
     const self = this
     if (!filter) {
       return Promise.resolve(new ValueSet(this))
     }
 
-    const set = new LocalSet<V>()
     const request = this.requestFactory.values(filter, comparator)
-    const call = self.client.values(request, this.session.callOptions())
 
-    return new Promise((resolve, reject) => {
+    return this.withRetry('values', request, undefined, false, (client, metadata) => new Promise((resolve, reject) => {
+      const set = new LocalSet<V>()
+      const call = this.cancelOnAbort(client.values(request, metadata, this.callOptions(options)), options)
       call.on(RequestStateEvent.DATA, function (b: BytesValue) {
         set.add(self.getRequestFactory().serializer.deserialize(b.getValue_asU8()))
       })
@@ -1098,166 +1538,336 @@ export class NamedCacheClient<K = any, V = any>
       call.on(RequestStateEvent.ERROR, (e) => {
         reject(e)
       })
-    })
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  clear (): Promise<void> {
+  async query (query: Query, options?: RequestOptions): Promise<QueryResult<K, V>> {
+    const paged = new PagedQuery(query)
+    const request = this.requestFactory.entrySet(paged.limitFilter, paged.comparator)
+
+    const entries = await this.withRetry('query', request, undefined, false, (client, metadata) => new Promise<Array<MapEntry<K, V>>>((resolve, reject) => {
+      const result: Array<MapEntry<K, V>> = []
+      const call = this.cancelOnAbort(client.entrySet(request, metadata, this.callOptions(options)), options)
+      call.on(RequestStateEvent.DATA, (e: GrpcEntry) => {
+        result.push(new NamedCacheEntry<K, V>(e.getKey_asU8(), e.getValue_asU8(), this.requestFactory.serializer))
+      })
+      call.on(RequestStateEvent.COMPLETE, () => resolve(result))
+      call.on(RequestStateEvent.ERROR, (e) => {
+        reject(e)
+      })
+    }), options)
+    return paged.resultOf(entries)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  iterateEntries (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<MapEntry<K, V>> {
+    const serializer = this.requestFactory.serializer
+    const handleEntry = (e: GrpcEntry | EntryResult) => new NamedCacheEntry<K, V>(e.getKey_asU8(), e.getValue_asU8(), serializer)
+    if (!filter) {
+      return new StreamIterator((cookie) => this.nextEntrySetPage(cookie, options),
+        handleEntry, (e: EntryResult) => e.getCookie(), NamedCacheClient.pageSizeOf(options))
+    }
+
+    const request = this.requestFactory.entrySet(filter)
+    return new StreamIterator(() => this.openStream('iterateEntries', request,
+      (client, metadata) => client.entrySet(request, metadata, this.callOptions(options)), options),
+      handleEntry, undefined, NamedCacheClient.pageSizeOf(options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  iterateKeys (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<K> {
+    const serializer = this.requestFactory.serializer
+    const handleEntry = (b: BytesValue) => serializer.deserialize(b.getValue_asU8())
+    if (!filter) {
+      return new StreamIterator((cookie) => this.nextKeySetPage(cookie, options),
+        handleEntry, (b: BytesValue) => b.getValue(), NamedCacheClient.pageSizeOf(options))
+    }
+
+    const request = this.requestFactory.keySet(filter)
+    return new StreamIterator(() => this.openStream('iterateKeys', request,
+      (client, metadata) => client.keySet(request, metadata, this.callOptions(options)), options),
+      handleEntry, undefined, NamedCacheClient.pageSizeOf(options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  iterateValues (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<V> {
+    const serializer = this.requestFactory.serializer
+    if (!filter) {
+      return new StreamIterator((cookie) => this.nextEntrySetPage(cookie, options),
+        (e: EntryResult) => serializer.deserialize(e.getValue_asU8()), (e: EntryResult) => e.getCookie(),
+        NamedCacheClient.pageSizeOf(options))
+    }
+
+    const request = this.requestFactory.values(filter)
+    return new StreamIterator(() => this.openStream('iterateValues', request,
+      (client, metadata) => client.values(request, metadata, this.callOptions(options)), options),
+      (b: BytesValue) => serializer.deserialize(b.getValue_asU8()), undefined, NamedCacheClient.pageSizeOf(options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamEntries (filter?: Filter | null, options?: IterationOptions): Readable {
+    return Readable.from(this.iterateEntries(filter, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamKeys (filter?: Filter | null, options?: IterationOptions): Readable {
+    return Readable.from(this.iterateKeys(filter, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamValues (filter?: Filter | null, options?: IterationOptions): Readable {
+    return Readable.from(this.iterateValues(filter, options))
+  }
+
+  /**
+   * @inheritDoc
+   */
+  clear (options?: RequestOptions): Promise<void> {
     const self = this
-    return new Promise((resolve, reject) => {
-      self.client.clear(self.requestFactory.clear(), this.session.callOptions(), (err: ServiceError | null) => {
+    const request = self.requestFactory.clear()
+    return this.withRetry('clear', request, undefined, true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.clear(request, metadata, this.callOptions(options), (err: ServiceError | null) => {
         self.resolveValue(resolve, reject, err)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  has (key: K): Promise<boolean> {
+  has (key: K, options?: RequestOptions): Promise<boolean> {
     const self = this
     const request = self.requestFactory.containsKey(key)
-    return new Promise((resolve, reject) => {
-      self.client.containsKey(request, this.session.callOptions(), (err, resp) => {
+    return this.withRetry('has', request, [key], false, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.containsKey(request, metadata, this.callOptions(options), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? resp.getValue() : resp)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  hasValue (value: V): Promise<boolean> {
+  hasValue (value: V, options?: RequestOptions): Promise<boolean> {
     const self = this
     const request = this.requestFactory.containsValue(value)
-    return new Promise((resolve, reject) => {
-      self.client.containsValue(request, this.session.callOptions(), (err, resp) => {
+    return this.withRetry('hasValue', request, undefined, false, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.containsValue(request, metadata, this.callOptions(options), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? resp.getValue() : resp)
-      })
-    })
+      }), options)
+    }), options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get (key: K, options?: RequestOptions): Promise<V | null> {
+    return this.getOrDefault(key, null, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async getEntry (key: K, options?: RequestOptions): Promise<CacheEntry<K, V> | null> {
+    const value = await this.get(key, options)
+    return value === null ? null : util.cacheEntryOf(key, value)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async getAllEntries (keys: Iterable<K>, options?: RequestOptions): Promise<Map<K, CacheEntry<K, V>>> {
+    const entries = new HashMap<K, CacheEntry<K, V>>(32, undefined, new SerializedHashingStrategy(this.getSerializer()))
+    for (const [key, value] of await this.getAll(keys, options)) {
+      entries.set(key, util.cacheEntryOf(key, value))
+    }
+    return entries
+  }
+
+  /**
+   * @inheritDoc
+   */
+  setExpiry (key: K, ttl: number, options?: RequestOptions): Promise<boolean> {
+    return Promise.reject(new Error('setExpiry is not supported by the gRPC proxy; set the value with a ttl instead'))
   }
 
   /**
    * @inheritDoc
    */
-  get (key: K): Promise<V | null> {
-    return this.getOrDefault(key, null)
+  async touch (key: K, options?: RequestOptions): Promise<void> {
+    await this.invoke(key, new processor.TouchProcessor<K, V>(), options)
   }
 
   /**
    * @inheritDoc
    */
-  getAll (keys: Iterable<K>): Promise<Map<K, V>> {
+  getAll (keys: Iterable<K>, options?: RequestOptions): Promise<Map<K, V>> {
     const self = this
-    const call = self.client.getAll(self.requestFactory.getAll(keys), this.session.callOptions())
-    return this.doInvokeAll(call)
+    const request = self.requestFactory.getAll(keys)
+    return this.withRetry('getAll', request, Array.from(keys), false,
+      (client, metadata) => this.doInvokeAll(this.cancelOnAbort(client.getAll(request, metadata, this.callOptions(options)), options)), options)
   }
 
   /**
    * @inheritDoc
    */
-  getOrDefault (key: K, defaultValue: V | null): Promise<V | null> {
+  getOrDefault (key: K, defaultValue: V | null, options?: RequestOptions): Promise<V | null> {
     const self = this
-    return new Promise((resolve, reject) => {
-      self.client.get(self.requestFactory.get(key), this.session.callOptions(), (err, resp) => {
-        if (resp && resp.getPresent()) {
+    const request = self.requestFactory.get(key)
+    return this.withRetry('get', request, [key], false, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.get(request, metadata, this.callOptions(options), (err, resp) => {
+        if (err) {
+          reject(err)
+        } else if (resp && resp.getPresent()) {
           self.resolveValue(resolve, reject, err, () => resp ? self.toValue(resp.getValue_asU8()) : resp)
         } else {
           resolve(defaultValue)
         }
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  set (key: K, value: V, ttl?: number): Promise<V> {
+  set (key: K, value: V, ttlOrOptions?: number | RequestOptions, options?: RequestOptions): Promise<V> {
     const self = this
-    return new Promise((resolve, reject) => {
-      self.client.put(self.requestFactory.put(key, value, ttl), this.session.callOptions(), (err, resp) => {
+    const [ttl, opts] = util.ttlAndOptions(ttlOrOptions, options)
+    options = opts
+    const request = self.requestFactory.put(key, value, ttl)
+    return this.withRetry('set', request, [key], true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.put(request, metadata, this.callOptions(options), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? self.toValue(resp.getValue_asU8()) : resp)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  setAll (map: Map<K, V>): Promise<void> {
+  setAll (map: Map<K, V>, options?: RequestOptions): Promise<void> {
     const self = this
-    return new Promise((resolve, reject) => {
-      self.client.putAll(self.requestFactory.putAll(map), this.session.callOptions(), (err: ServiceError | null) => {
+    const request = self.requestFactory.putAll(map)
+    return this.withRetry('setAll', request, Array.from(map.keys()), true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.putAll(request, metadata, this.callOptions(options), (err: ServiceError | null) => {
         self.resolveValue(resolve, reject, err)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  setIfAbsent (key: K, value: V, ttl?: number): Promise<V> {
+  setIfAbsent (key: K, value: V, ttlOrOptions?: number | RequestOptions, options?: RequestOptions): Promise<V> {
     const self = this
+    const [ttl, opts] = util.ttlAndOptions(ttlOrOptions, options)
+    options = opts
     const request = self.requestFactory.putIfAbsent(key, value, ttl)
-    return new Promise((resolve, reject) => {
-      self.client.putIfAbsent(request, this.session.callOptions(), (err, resp) => {
+    return this.withRetry('setIfAbsent', request, [key], true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.putIfAbsent(request, metadata, this.callOptions(options), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? self.toValue(resp.getValue_asU8()) : resp)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  delete (key: K): Promise<V> {
+  delete (key: K, options?: RequestOptions): Promise<V> {
     const self = this
-    return new Promise((resolve, reject) => {
-      self.client.remove(this.requestFactory.remove(key), this.session.callOptions(), (err, resp) => {
+    const request = this.requestFactory.remove(key)
+    return this.withRetry('delete', request, [key], true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.remove(request, metadata, this.callOptions(options), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? self.toValue(resp.getValue_asU8()) : resp)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  removeMapping (key: K, value: V): Promise<boolean> {
+  removeMapping (key: K, value: V, options?: RequestOptions): Promise<boolean> {
     const self = this
     const request = this.requestFactory.removeMapping(key, value)
-    return new Promise((resolve, reject) => {
-      self.client.removeMapping(request, this.session.callOptions(), (err, resp) => {
+    return this.withRetry('removeMapping', request, [key], true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.removeMapping(request, metadata, this.callOptions(options), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? resp.getValue() : resp)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  replace (key: K, value: V): Promise<V> {
+  replace (key: K, value: V, options?: RequestOptions): Promise<V> {
     const self = this
     const request = this.requestFactory.replace(key, value)
-    return new Promise((resolve, reject) => {
-      self.client.replace(request, this.session.callOptions(), (err, resp) => {
+    return this.withRetry('replace', request, [key], true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.replace(request, metadata, this.callOptions(options), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? self.toValue(resp.getValue_asU8()) : resp)
-      })
-    })
+      }), options)
+    }), options)
   }
 
   /**
    * @inheritDoc
    */
-  replaceMapping (key: K, value: V, newValue: V): Promise<boolean> {
+  replaceMapping (key: K, value: V, newValue: V, options?: RequestOptions): Promise<boolean> {
     const self = this
     const request = this.requestFactory.replaceMapping(key, value, newValue)
 
-    return new Promise((resolve, reject) => {
-      self.client.replaceMapping(request, this.session.callOptions(), (err, resp) => {
+    return this.withRetry('replaceMapping', request, [key], true, (client, metadata) => new Promise((resolve, reject) => {
+      this.cancelOnAbort(client.replaceMapping(request, metadata, this.callOptions(options), (err, resp) => {
         self.resolveValue(resolve, reject, err, () => resp ? resp.getValue() : resp)
-      })
-    })
+      }), options)
+    }), options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  compute (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V | null) => V | null | Promise<V | null>),
+           options?: RequestOptions): Promise<V | null> {
+    return util.compute<K, V>(this, key, remapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  computeIfAbsent (key: K, mapping: EntryProcessor<K, V, V> | ((key: K) => V | null | Promise<V | null>),
+                   options?: RequestOptions): Promise<V | null> {
+    return util.computeIfAbsent<K, V>(this, key, mapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  computeIfPresent (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V) => V | null | Promise<V | null>),
+                    options?: RequestOptions): Promise<V | null> {
+    return util.computeIfPresent<K, V>(this, key, remapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  merge (key: K, value: V, remapping: (value: V, newValue: V) => V | null | Promise<V | null>,
+         options?: RequestOptions): Promise<V | null> {
+    return util.merge<K, V>(this, key, value, remapping, options)
   }
 
   /**
@@ -1279,11 +1889,17 @@ export class NamedCacheClient<K = any, V = any>
         // method will generate the appropriate event on the internalEmitter
         // for which our 'once & only once' listener is setup.
         const request = self.requestFactory.destroy()
-        self.client.destroy(request, self.session.callOptions(), (err: ServiceError | null) => {
-          if (err) {
-            reject(err)
+        let sent = false
+        self.intercept('destroy', request, undefined, 1, (metadata) => new Promise<void>((done, fail) => {
+          sent = true
+          self.client.destroy(request, metadata, self.session.callOptions(), (err: ServiceError | null) => {
+            self.resolveValue(done, fail, err)
+          })
+        })).then(() => {
+          if (!sent) {
+            resolve() // short-circuited by an interceptor; no event will be raised
           }
-        })
+        }, reject)
       })
     }
 
@@ -1329,11 +1945,21 @@ export class NamedCacheClient<K = any, V = any>
       // for which our 'once & only once' listener is setup.
       const request = new TruncateRequest()
       request.setCache(this.cacheName)
-      this.client.truncate(request, this.session.callOptions(), (err, resp) => {
-        if (err || !resp) {
-          reject(err)
+      let sent = false
+      this.intercept('truncate', request, undefined, 1, (metadata) => new Promise<void>((done, fail) => {
+        sent = true
+        this.client.truncate(request, metadata, this.session.callOptions(), (err, resp) => {
+          if (err || !resp) {
+            fail(err)
+          } else {
+            done()
+          }
+        })
+      })).then(() => {
+        if (!sent) {
+          resolve() // short-circuited by an interceptor; no event will be raised
         }
-      })
+      }, reject)
     })
   }
 
@@ -1342,23 +1968,29 @@ export class NamedCacheClient<K = any, V = any>
   /**
    * Obtain the next page of entries from the cache.
    *
-   * @param cookie  an opaque cookie for page tracking
+   * @param cookie   an opaque cookie for page tracking
+   * @param options  the options of the request, if any
    *
-   * @return a {@link ClientReadableStream} to read entries from
+   * @return a `Promise` resolving to a {@link ClientReadableStream} to read entries from
    */
-  nextEntrySetPage (cookie: Uint8Array | string | undefined): ClientReadableStream<EntryResult> {
-    return this.client.nextEntrySetPage(this.requestFactory.pageRequest(cookie), this.session.callOptions())
+  nextEntrySetPage (cookie: Uint8Array | string | undefined, options?: RequestOptions): Promise<ClientReadableStream<EntryResult>> {
+    const request = this.requestFactory.pageRequest(cookie)
+    return this.openStream('nextEntrySetPage', request,
+      (client, metadata) => client.nextEntrySetPage(request, metadata, this.callOptions(options)), options)
   }
 
   /**
    * Obtain the next page of keys from the cache.
    *
-   * @param cookie  an opaque cookie for page tracking
+   * @param cookie   an opaque cookie for page tracking
+   * @param options  the options of the request, if any
    *
-   * @return a {@link ClientReadableStream} to read keys from
+   * @return a `Promise` resolving to a {@link ClientReadableStream} to read keys from
    */
-  nextKeySetPage (cookie: Uint8Array | string | undefined): ClientReadableStream<BytesValue> {
-    return this.client.nextKeySetPage(this.requestFactory.pageRequest(cookie), this.session.callOptions())
+  nextKeySetPage (cookie: Uint8Array | string | undefined, options?: RequestOptions): Promise<ClientReadableStream<BytesValue>> {
+    const request = this.requestFactory.pageRequest(cookie)
+    return this.openStream('nextKeySetPage', request,
+      (client, metadata) => client.nextKeySetPage(request, metadata, this.callOptions(options)), options)
   }
 
   /**
@@ -1388,6 +2020,279 @@ export class NamedCacheClient<K = any, V = any>
         self.emit(MapLifecycleEvent.RELEASED, cacheName, this.serializer.format) // notify NamedCacheClient level listeners
       }
     })
+
+    self.internalEmitter.on(MapLifecycleEvent.DISCONNECTED, (cacheName: string, err: Error) => {
+      if (cacheName == self.cacheName) {
+        self.emit(MapLifecycleEvent.DISCONNECTED, cacheName, err) // notify NamedCacheClient level listeners
+      }
+    })
+
+    self.internalEmitter.on(MapLifecycleEvent.RECONNECTED, (cacheName: string) => {
+      if (cacheName == self.cacheName) {
+        self.emit(MapLifecycleEvent.RECONNECTED, cacheName) // notify NamedCacheClient level listeners
+      }
+    })
+
+    self.internalEmitter.on(MapLifecycleEvent.RECONNECT_FAILED, (cacheName: string, err: Error) => {
+      if (cacheName == self.cacheName) {
+        self.emit(MapLifecycleEvent.RECONNECT_FAILED, cacheName, err) // notify NamedCacheClient level listeners
+      }
+    })
+  }
+
+  /**
+   * @internal
+   * Return the `gRPC` service client for the session channel the next request will be sent over.
+   *
+   * @return the `gRPC` service client for the next request
+   */
+  protected get client (): NamedCacheServiceClient {
+    return this.clientFor(this.session.channel)
+  }
+
+  /**
+   * @internal
+   * Return the `gRPC` service client using the specified session channel, creating it if necessary.
+   *
+   * @param channel  the session channel
+   *
+   * @return the `gRPC` service client using the specified session channel
+   */
+  protected clientFor (channel: Channel): NamedCacheServiceClient {
+    let client = this.clients.get(channel)
+    if (!client) {
+      // discard the clients of channels the session has replaced
+      const channels = this.session.channels
+      for (const existing of Array.from(this.clients.keys())) {
+        if (channels.indexOf(existing) < 0) {
+          this.clients.delete(existing)
+        }
+      }
+      client = new NamedCacheServiceClient(
+        channel.getTarget(), // Ignored since we are using a shared Channel
+        this.session.channelCredentials,
+        { channelOverride: channel }) // shared channel defined here
+      this.clients.set(channel, client)
+    }
+    return client
+  }
+
+  /**
+   * Perform the operation, retrying it according to the session's {@link RetryOptions}
+   * if it fails with a retryable status.  Mutating operations are only retried
+   * if {@link RetryOptions.retryMutations} is enabled.  Each attempt is made using
+   * the channel selected by the session; a channel whose proxy is unavailable is
+   * ejected so that subsequent attempts fail over to another proxy.
+   *
+   * Requests that have been aborted, or whose {@link RequestOptions.deadline} has passed, are not retried.
+   *
+   * Each attempt is passed through the session's {@link interceptor.InterceptorChain}.
+   *
+   * @param operation  the name of the operation
+   * @param request    the `gRPC` request message
+   * @param keys       the keys the request targets, if any
+   * @param mutating   `true` if the operation mutates the cache
+   * @param call       a function performing a single attempt of the operation using the provided
+   *                   client and metadata
+   * @param options    the options of the request, if any
+   * @param canRetry   a function returning `false` if a failed attempt may no longer be retried
+   *
+   * @return a `Promise` resolving to the result of the first successful attempt
+   */
+  protected async withRetry<T> (operation: string, request: Message, keys: Array<K> | undefined, mutating: boolean,
+                                call: (client: NamedCacheServiceClient, metadata: Metadata) => Promise<T>,
+                                options?: RequestOptions, canRetry?: () => boolean): Promise<T> {
+    const retry = this.session.options.retry
+    for (let attempt = 1; ; attempt++) {
+      const channel = this.session.channel
+      try {
+        return await this.intercept(operation, request, keys, attempt,
+          (metadata) => call(this.clientFor(channel), metadata))
+      } catch (err) {
+        if (err && err.code === status.UNAVAILABLE) {
+          this.session.ejectChannel(channel)
+        }
+        if (!retry.enabled || (mutating && !retry.retryMutations) || attempt >= retry.maxAttempts
+          || !retry.isRetryable(err) || !this.active || NamedCacheClient.isExpired(options)
+          || (canRetry && !canRetry())) {
+          throw err
+        }
+        await new Promise(resolve => setTimeout(resolve, retry.delayFor(attempt)))
+      }
+    }
+  }
+
+  /**
+   * @internal
+   * Open a stream of results, passing the request through {@link withRetry}.  The stream
+   * is returned once the server has responded to the request; an attempt that fails before
+   * then is retried, while a stream that fails once returned is not.  The span and the
+   * metrics of the request cover the stream until it completes, or is cancelled by its reader.
+   *
+   * @param operation  the name of the operation
+   * @param request    the `gRPC` request message
+   * @param open       a function opening the stream using the provided client and metadata
+   * @param options    the options of the request, if any
+   *
+   * @return a `Promise` resolving to the opened stream
+   */
+  protected openStream<R> (operation: string, request: Message,
+                           open: (client: NamedCacheServiceClient, metadata: Metadata) => ClientReadableStream<R>,
+                           options?: RequestOptions): Promise<ClientReadableStream<R>> {
+    return new Promise((resolve, reject) => {
+      let call: ClientReadableStream<R> | undefined
+      let returned = false
+      const returnCall = (opened: ClientReadableStream<R>) => {
+        returned = true
+        resolve(opened)
+      }
+
+      this.withRetry(operation, request, undefined, false, (client, metadata) => new Promise<void>((done, fail) => {
+        const attempt = this.cancelOnAbort(open(client, metadata), options)
+        call = attempt
+        attempt.on('metadata', () => returnCall(attempt))
+        attempt.on('status', (s: { code: number }) => {
+          if (s.code === status.OK) {
+            done()
+          }
+        })
+        // a stream cancelled by its reader, or by an abort signal, has completed
+        attempt.on(RequestStateEvent.ERROR, (err: ServiceError) => err.code === status.CANCELLED ? done() : fail(err))
+      }), options, () => !returned).then(() => {
+        if (call) {
+          returnCall(call)
+        } else {
+          reject(new Error(operation + ' returns a stream and cannot be short-circuited by an interceptor'))
+        }
+      }, reject)
+    })
+  }
+
+  /**
+   * @internal
+   * Pass a single attempt of the operation through the session's {@link interceptor.InterceptorChain},
+   * within a span emitted by the session's {@link tracing.RequestTracer}, and record it in
+   * the metrics of this cache.
+   *
+   * @param operation  the name of the operation
+   * @param request    the `gRPC` request message
+   * @param keys       the keys the request targets, if any
+   * @param attempt    the attempt number
+   * @param call       a function sending the request with the provided metadata
+   *
+   * @return a `Promise` resolving to the result of the attempt
+   */
+  protected intercept<T> (operation: string, request: Message, keys: Array<K> | undefined, attempt: number,
+                          call: (metadata: Metadata) => Promise<T>): Promise<T> {
+    const context = new interceptor.RequestContext(this.cacheName, this.serializer.format, operation, request, keys, attempt)
+    return this.session.tracer.traceRequest(context,
+      () => this.session.interceptors.execute(context, () => call(context.metadata)))
+      .then(result => {
+        this._metrics.recordRequest(operation, context.elapsedInMillis)
+        return result
+      }, err => {
+        this._metrics.recordRequest(operation, context.elapsedInMillis, err)
+        throw err
+      })
+  }
+
+  /**
+   * Return the keys targeted by a request made with the specified keys or filter.
+   *
+   * @param keysOrFilter  the keys or filter
+   *
+   * @return the keys, or `undefined` if a filter was specified
+   */
+  private static keysOf<K> (keysOrFilter: any): Array<K> | undefined {
+    return isIterableType<K>(keysOrFilter) && !(keysOrFilter instanceof Filter) ? Array.from(keysOrFilter) : undefined
+  }
+
+  /**
+   * @internal
+   * Return the `gRPC` CallOptions for a request made with the specified options.  If the
+   * options define neither a deadline nor a timeout, the session's call options are used.
+   *
+   * @param options  the options of the request, if any
+   *
+   * @return the `gRPC` CallOptions for the request
+   */
+  protected callOptions (options?: RequestOptions): CallOptions {
+    const callOptions = this.session.callOptions()
+    const deadline = NamedCacheClient.deadlineOf(options)
+    return deadline === undefined ? callOptions : Object.assign({}, callOptions, { deadline: deadline })
+  }
+
+  /**
+   * @internal
+   * Cancel the `gRPC` call once the {@link RequestOptions.signal} of the request is aborted.
+   * A call made with a signal that has already been aborted is cancelled immediately.
+   *
+   * @param call     the `gRPC` call
+   * @param options  the options of the request, if any
+   *
+   * @return the `gRPC` call
+   */
+  protected cancelOnAbort<C extends ClientUnaryCall | ClientReadableStream<any>> (call: C, options?: RequestOptions): C {
+    const signal = options ? options.signal : undefined
+    if (signal) {
+      if (signal.aborted) {
+        call.cancel()
+      } else {
+        const onAbort = () => call.cancel()
+        signal.addEventListener('abort', onAbort)
+        call.on('status', () => signal.removeEventListener('abort', onAbort))
+      }
+    }
+    return call
+  }
+
+  /**
+   * Return the deadline, in `milliseconds` since the epoch, defined by the request options.
+   * If both a deadline and a timeout are defined, the earlier of the two applies.
+   *
+   * @param options  the options of the request, if any
+   *
+   * @return the deadline defined by the request options, or `undefined` if none is defined
+   */
+  private static deadlineOf (options?: RequestOptions): number | undefined {
+    if (!options) {
+      return undefined
+    }
+    let deadline = options.deadline instanceof Date ? options.deadline.getTime() : options.deadline
+    if (options.timeoutInMillis !== undefined) {
+      const timeout = Date.now() + options.timeoutInMillis
+      deadline = deadline === undefined ? timeout : Math.min(deadline, timeout)
+    }
+    return deadline
+  }
+
+  /**
+   * Return the page size defined by the iteration options.
+   *
+   * @param options  the options of the iteration, if any
+   *
+   * @return the page size, or `undefined` if the default applies
+   */
+  private static pageSizeOf (options?: IterationOptions): number | undefined {
+    return options ? options.pageSize : undefined
+  }
+
+  /**
+   * Returns `true` if the request has been aborted, or its deadline has passed.
+   *
+   * @param options  the options of the request, if any
+   *
+   * @return `true` if the request has been aborted, or its deadline has passed
+   */
+  private static isExpired (options?: RequestOptions): boolean {
+    if (!options) {
+      return false
+    }
+    if (options.signal && options.signal.aborted) {
+      return true
+    }
+    const deadline = options.deadline instanceof Date ? options.deadline.getTime() : options.deadline
+    return deadline !== undefined && deadline <= Date.now()
   }
 
   /**
@@ -1432,8 +2337,8 @@ export class NamedCacheClient<K = any, V = any>
    *         performing the invokeAll operation
    */
   protected doInvokeAll<T = any> (call: EventEmitter): Promise<Map<K, T>> {
-    const serializer = this.getSerializer()
-    const result: Map<K, T> = new HashMap<K, T>()
+    const serializer = this.requestFactory.serializer
+    const result: Map<K, T> = new HashMap<K, T>(32, undefined, new SerializedHashingStrategy(this.getSerializer()))
     return new Promise((resolve, reject) => {
       call.on(RequestStateEvent.DATA, function (e: Entry) {
         const key = serializer.deserialize(e.getKey_asU8())
@@ -0,0 +1,949 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import { EventEmitter } from 'events'
+import { Readable } from 'stream'
+import { aggregator } from './aggregators'
+import { event } from './events'
+import { extractor } from './extractors'
+import { filter, Filters } from './filters'
+import { CacheEntry, IterationOptions, MapEntry, NamedCache, NamedCacheClient, NamedMap, Query, QueryResult, RequestOptions } from './named-cache-client'
+import { processor } from './processors'
+import { util } from './util'
+import EntryAggregator = aggregator.EntryAggregator
+import MapEvent = event.MapEvent
+import MapEventType = event.MapEventType
+import MapLifecycleEvent = event.MapLifecycleEvent
+import MapListener = event.MapListener
+import ValueExtractor = extractor.ValueExtractor
+import Filter = filter.Filter
+import MapEventFilter = filter.MapEventFilter
+import EntryProcessor = processor.EntryProcessor
+import Comparator = util.Comparator
+import RemoteSet = util.RemoteSet
+import Serializer = util.Serializer
+
+/**
+ * The policy used to select the entries to evict once a {@link NearCache}
+ * has reached its maximum number of entries.
+ */
+export enum EvictionPolicy {
+  /**
+   * Evict the least recently used entry.
+   */
+  LRU = 'lru',
+
+  /**
+   * Evict the least frequently used entry.
+   */
+  LFU = 'lfu'
+}
+
+/**
+ * Options controlling the local (front) map of a {@link NearCache}.
+ */
+export class NearCacheOptions {
+  /**
+   * If `true`, prevents further mutations to the options.
+   */
+  private locked: boolean = false
+
+  /**
+   * The maximum number of entries held locally.
+   */
+  private _maxEntries: number = Number.POSITIVE_INFINITY
+
+  /**
+   * The maximum age, in `milliseconds`, of an entry held locally.
+   */
+  private _expireAfterMillis: number = Number.POSITIVE_INFINITY
+
+  /**
+   * The eviction policy.
+   */
+  private _evictionPolicy: EvictionPolicy = EvictionPolicy.LRU
+
+  /**
+   * Returns the maximum number of entries held locally.
+   *
+   * @return the maximum number of entries held locally
+   */
+  get maxEntries (): number {
+    return this._maxEntries
+  }
+
+  /**
+   * Set the maximum number of entries held locally.  If the value is zero or less,
+   * the number of entries will be unbounded.
+   *
+   * @param value  the maximum number of entries held locally
+   */
+  set maxEntries (value: number) {
+    if (this.locked) {
+      return
+    }
+    if (value <= 0) {
+      value = Number.POSITIVE_INFINITY
+    }
+    this._maxEntries = value
+  }
+
+  /**
+   * Returns the maximum age, in `milliseconds`, of an entry held locally.
+   *
+   * @return the maximum age, in `milliseconds`, of an entry held locally
+   */
+  get expireAfterMillis (): number {
+    return this._expireAfterMillis
+  }
+
+  /**
+   * Set the maximum age, in `milliseconds`, of an entry held locally.  If the value
+   * is zero or less, entries will not expire.
+   *
+   * @param value  the maximum age, in `milliseconds`, of an entry held locally
+   */
+  set expireAfterMillis (value: number) {
+    if (this.locked) {
+      return
+    }
+    if (value <= 0) {
+      value = Number.POSITIVE_INFINITY
+    }
+    this._expireAfterMillis = value
+  }
+
+  /**
+   * Returns the {@link EvictionPolicy}.
+   *
+   * @return the {@link EvictionPolicy}
+   */
+  get evictionPolicy (): EvictionPolicy {
+    return this._evictionPolicy
+  }
+
+  /**
+   * Set the {@link EvictionPolicy}.
+   *
+   * @param value  the {@link EvictionPolicy}
+   */
+  set evictionPolicy (value: EvictionPolicy) {
+    if (this.locked) {
+      return
+    }
+    this._evictionPolicy = value
+  }
+
+  /**
+   * Once called, no further mutations can be made.
+   * @hidden
+   */
+  lock (): void {
+    this.locked = true
+  }
+}
+
+/**
+ * An entry held in the front map of a {@link NearCache}.
+ * @internal
+ */
+interface FrontEntry<V> {
+  value: V
+  created: number
+  hits: number
+}
+
+/**
+ * Tracks an outstanding read against the back cache.  If the key is invalidated
+ * while the read is in flight, the result must not be stored locally.
+ * @internal
+ */
+interface ReadToken {
+  valid: boolean
+}
+
+/**
+ * A {@link NamedCache} that fronts a {@link NamedCacheClient} with a bounded, local map
+ * to avoid a remote call for repeated reads of the same keys.
+ *
+ * The local map is kept coherent by a lite {@link MapListener} registered with the back cache;
+ * any change to an entry on the server invalidates the local copy.  The local map is cleared
+ * if the back cache is truncated, destroyed or released, or if its event stream is lost.
+ *
+ * Values are returned by reference from the local map and should be treated as immutable.
+ *
+ * @typeParam K  the type of the map entry keys
+ * @typeParam V  the type of the map entry values
+ */
+export class NearCache<K = any, V = any>
+  extends EventEmitter
+  implements NamedCache<K, V> {
+
+  /**
+   * The cache being fronted.
+   */
+  protected readonly back: NamedCacheClient<K, V>
+
+  /**
+   * The front map options.
+   */
+  protected readonly options: NearCacheOptions
+
+  /**
+   * The local entries, keyed by the serialized form of the key.  The iteration order
+   * of the `Map` is used to track recency for {@link EvictionPolicy.LRU}.
+   */
+  private readonly front: Map<string, FrontEntry<V>> = new Map()
+
+  /**
+   * Outstanding reads against the back cache, keyed by the serialized form of the key.
+   */
+  private readonly reads: Map<string, Set<ReadToken>> = new Map()
+
+  /**
+   * The serializer used to derive front map keys.
+   */
+  private readonly serializer: Serializer
+
+  /**
+   * The listener keeping the front map coherent.
+   */
+  private readonly listener: MapListener<K, V>
+
+  /**
+   * Flag indicating the invalidation listener has been registered.  Until then,
+   * values read from the back cache are not stored locally.
+   */
+  private listenerRegistered: boolean = false
+
+  /**
+   * Flag indicating the event stream of the back cache has been lost and not yet
+   * re-established.  Until then, values read from the back cache are not stored locally.
+   */
+  private disconnected: boolean = false
+
+  /**
+   * The number of reads satisfied by the front map.
+   */
+  private _hits: number = 0
+
+  /**
+   * The number of reads that required a call to the back cache.
+   */
+  private _misses: number = 0
+
+  /**
+   * Constructs a new `NearCache`.
+   *
+   * @param back     the {@link NamedCacheClient} to front
+   * @param options  the {@link NearCacheOptions}
+   */
+  constructor (back: NamedCacheClient<K, V>, options?: NearCacheOptions | object) {
+    super()
+    this.back = back
+    this.options = Object.assign(new NearCacheOptions(), options)
+    this.options.lock()
+    this.serializer = back.getSerializer()
+
+    const self = this
+    const invalidate = (e: MapEvent<K, V>) => self.invalidate(e.key)
+    this.listener = new MapListener<K, V>()
+      .on(MapEventType.INSERT, invalidate)
+      .on(MapEventType.UPDATE, invalidate)
+      .on(MapEventType.DELETE, invalidate)
+
+    this.back.addMapListener(this.listener, true)
+      .then(() => {
+        self.listenerRegistered = true
+      })
+      .catch(() => {
+        // values will not be held locally; reads fall through to the back cache
+      })
+
+    this.setupEventHandlers()
+  }
+
+  /**
+   * Returns the number of reads satisfied by the front map.
+   *
+   * @return the number of reads satisfied by the front map
+   */
+  get hits (): number {
+    return this._hits
+  }
+
+  /**
+   * Returns the number of reads that required a call to the back cache.
+   *
+   * @return the number of reads that required a call to the back cache
+   */
+  get misses (): number {
+    return this._misses
+  }
+
+  /**
+   * Returns the number of entries held in the front map.
+   *
+   * @return the number of entries held in the front map
+   */
+  get frontSize (): number {
+    return this.front.size
+  }
+
+  /**
+   * Returns the {@link NamedCacheClient} fronted by this cache.
+   *
+   * @return the {@link NamedCacheClient} fronted by this cache
+   */
+  get backCache (): NamedCacheClient<K, V> {
+    return this.back
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get size (): Promise<number> {
+    return this.back.size
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get empty (): Promise<boolean> {
+    return this.back.empty
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get name (): string {
+    return this.back.name
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get active (): boolean {
+    return this.back.active
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get released (): boolean {
+    return this.back.released
+  }
+
+  /**
+   * @inheritDoc
+   */
+  get destroyed (): boolean {
+    return this.back.destroyed
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async get (key: K, options?: RequestOptions): Promise<V | null> {
+    return this.getOrDefault(key, null, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async getOrDefault (key: K, defaultValue: V | null, options?: RequestOptions): Promise<V | null> {
+    const frontKey = this.frontKey(key)
+    const entry = this.lookup(frontKey)
+    if (entry) {
+      this._hits++
+      return entry.value
+    }
+
+    this._misses++
+    const token = this.beginRead(frontKey)
+    try {
+      const value = await this.back.get(key, options)
+      if (value === null || value === undefined) {
+        return defaultValue
+      }
+      this.store(frontKey, value, token)
+      return value
+    } finally {
+      this.endRead(frontKey, token)
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async getAll (keys: Iterable<K>, options?: RequestOptions): Promise<Map<K, V>> {
+    const result = new Map<K, V>()
+    const missing: K[] = []
+    for (const key of keys) {
+      const entry = this.lookup(this.frontKey(key))
+      if (entry) {
+        this._hits++
+        result.set(key, entry.value)
+      } else {
+        this._misses++
+        missing.push(key)
+      }
+    }
+
+    if (missing.length > 0) {
+      const tokens = new Map<string, ReadToken>()
+      for (const key of missing) {
+        const frontKey = this.frontKey(key)
+        tokens.set(frontKey, this.beginRead(frontKey))
+      }
+      try {
+        const entries = await this.back.getAll(missing, options)
+        for (const [key, value] of entries) {
+          const frontKey = this.frontKey(key)
+          const token = tokens.get(frontKey)
+          if (token) {
+            this.store(frontKey, value, token)
+          }
+          result.set(key, value)
+        }
+      } finally {
+        for (const [frontKey, token] of tokens) {
+          this.endRead(frontKey, token)
+        }
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getEntry (key: K, options?: RequestOptions): Promise<CacheEntry<K, V> | null> {
+    return this.back.getEntry(key, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getAllEntries (keys: Iterable<K>, options?: RequestOptions): Promise<Map<K, CacheEntry<K, V>>> {
+    return this.back.getAllEntries(keys, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async has (key: K, options?: RequestOptions): Promise<boolean> {
+    if (this.lookup(this.frontKey(key))) {
+      this._hits++
+      return true
+    }
+    return this.back.has(key, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  hasEntry (key: K, value: V, options?: RequestOptions): Promise<boolean> {
+    return this.back.hasEntry(key, value, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  hasValue (value: V, options?: RequestOptions): Promise<boolean> {
+    return this.back.hasValue(value, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async set (key: K, value: V, ttl?: number | RequestOptions, options?: RequestOptions): Promise<V | null> {
+    this.invalidate(key)
+    return this.back.set(key, value, ttl, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async setAll (map: Map<K, V>, options?: RequestOptions): Promise<void> {
+    for (const key of map.keys()) {
+      this.invalidate(key)
+    }
+    return this.back.setAll(map, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async setIfAbsent (key: K, value: V, ttl?: number | RequestOptions, options?: RequestOptions): Promise<V | null> {
+    this.invalidate(key)
+    return this.back.setIfAbsent(key, value, ttl, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async setExpiry (key: K, ttl: number, options?: RequestOptions): Promise<boolean> {
+    this.invalidate(key)
+    return this.back.setExpiry(key, ttl, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  touch (key: K, options?: RequestOptions): Promise<void> {
+    return this.back.touch(key, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async delete (key: K, options?: RequestOptions): Promise<V | null> {
+    this.invalidate(key)
+    return this.back.delete(key, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async removeMapping (key: K, value: V, options?: RequestOptions): Promise<boolean> {
+    this.invalidate(key)
+    return this.back.removeMapping(key, value, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async replace (key: K, value: V, options?: RequestOptions): Promise<V | null> {
+    this.invalidate(key)
+    return this.back.replace(key, value, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async replaceMapping (key: K, oldValue: V, newValue: V, options?: RequestOptions): Promise<boolean> {
+    this.invalidate(key)
+    return this.back.replaceMapping(key, oldValue, newValue, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async compute (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V | null) => V | null | Promise<V | null>),
+                 options?: RequestOptions): Promise<V | null> {
+    this.invalidate(key)
+    return this.back.compute(key, remapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async computeIfAbsent (key: K, mapping: EntryProcessor<K, V, V> | ((key: K) => V | null | Promise<V | null>),
+                         options?: RequestOptions): Promise<V | null> {
+    this.invalidate(key)
+    return this.back.computeIfAbsent(key, mapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async computeIfPresent (key: K, remapping: EntryProcessor<K, V, V> | ((key: K, value: V) => V | null | Promise<V | null>),
+                          options?: RequestOptions): Promise<V | null> {
+    this.invalidate(key)
+    return this.back.computeIfPresent(key, remapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async merge (key: K, value: V, remapping: (value: V, newValue: V) => V | null | Promise<V | null>,
+               options?: RequestOptions): Promise<V | null> {
+    this.invalidate(key)
+    return this.back.merge(key, value, remapping, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async clear (options?: RequestOptions): Promise<void> {
+    this.invalidateAll()
+    return this.back.clear(options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async truncate (): Promise<void> {
+    this.invalidateAll()
+    return this.back.truncate()
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async destroy (): Promise<void> {
+    this.invalidateAll()
+    return this.back.destroy()
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async release (): Promise<void> {
+    this.invalidateAll()
+    return this.back.release()
+  }
+
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, thisArg?: any): Promise<void>
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, keys: Iterable<K>, thisArg?: any): Promise<void>
+  forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, filter: Filter, thisArg?: any): Promise<void>
+  async forEach (action: (value: V, key: K, map: NamedMap<K, V>) => void, keysOrFilter?: Iterable<K> | Filter, thisArg?: any): Promise<void> {
+    if (thisArg) {
+      action = action.bind(thisArg)
+    }
+    if (keysOrFilter && util.isIterableType(keysOrFilter)) {
+      const entries = await this.getAll(keysOrFilter as Iterable<K>)
+      entries.forEach((value: V, key: K) => action(value, key, this))
+      return
+    }
+
+    const entries = await this.back.entries(keysOrFilter ? keysOrFilter as Filter : Filters.always())
+    for (const entry of entries) {
+      action(entry.value, entry.key, this)
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  aggregate<R = any> (kfa: Iterable<K> | Filter | EntryAggregator<K, V, R>, aggOrOptions?: EntryAggregator<K, V, R> | RequestOptions,
+                      options?: RequestOptions): Promise<any> {
+    if (aggOrOptions instanceof EntryAggregator) {
+      return kfa instanceof Filter
+        ? this.back.aggregate(kfa, aggOrOptions, options)
+        : this.back.aggregate(kfa as Iterable<K>, aggOrOptions, options)
+    }
+    return this.back.aggregate(kfa as EntryAggregator<K, V, R>, aggOrOptions)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async invoke<R = any> (key: K, processor: EntryProcessor<K, V, R>, options?: RequestOptions): Promise<R | null> {
+    this.invalidate(key)
+    return this.back.invoke(key, processor, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async invokeAll<R = any> (keysOrFilterOrProcessor: Iterable<K> | Filter | EntryProcessor<K, V, R>,
+                            processorOrOptions?: EntryProcessor<K, V, R> | RequestOptions, options?: RequestOptions): Promise<Map<K, R>> {
+    let result: Map<K, R>
+    if (processorOrOptions instanceof EntryProcessor) {
+      if (keysOrFilterOrProcessor instanceof Filter) {
+        result = await this.back.invokeAll(keysOrFilterOrProcessor, processorOrOptions, options)
+      } else {
+        for (const key of keysOrFilterOrProcessor as Iterable<K>) {
+          this.invalidate(key)
+        }
+        result = await this.back.invokeAll(keysOrFilterOrProcessor as Iterable<K>, processorOrOptions, options)
+      }
+    } else {
+      result = await this.back.invokeAll(keysOrFilterOrProcessor as EntryProcessor<K, V, R>, processorOrOptions)
+    }
+    for (const key of result.keys()) {
+      this.invalidate(key)
+    }
+    return result
+  }
+
+  /**
+   * @inheritDoc
+   */
+  addMapListener (listener: event.MapListener<K, V>, keyOrFilter?: K | Filter, isLite?: boolean): Promise<void> {
+    return this.back.addMapListener(listener, keyOrFilter, isLite)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  removeMapListener (listener: event.MapListener<K, V>, keyOrFilter?: K | MapEventFilter<K, V>): Promise<void> {
+    return this.back.removeMapListener(listener, keyOrFilter)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  addIndex (extractor: ValueExtractor, ordered?: boolean, comparator?: Comparator, options?: RequestOptions): Promise<void> {
+    return this.back.addIndex(extractor, ordered, comparator, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  removeIndex (extractor: ValueExtractor, options?: RequestOptions): Promise<void> {
+    return this.back.removeIndex(extractor, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  keys (filter?: Filter | null, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<K>> {
+    return this.back.keys(filter, comparator, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  entries (filter?: Filter | null, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<MapEntry<K, V>>> {
+    return this.back.entries(filter, comparator, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  values (filter?: Filter | null, comparator?: Comparator | null, options?: RequestOptions): Promise<RemoteSet<V>> {
+    return this.back.values(filter, comparator, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  query (query: Query, options?: RequestOptions): Promise<QueryResult<K, V>> {
+    return this.back.query(query, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  iterateEntries (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<MapEntry<K, V>> {
+    return this.back.iterateEntries(filter, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  iterateKeys (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<K> {
+    return this.back.iterateKeys(filter, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  iterateValues (filter?: Filter | null, options?: IterationOptions): AsyncIterableIterator<V> {
+    return this.back.iterateValues(filter, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamEntries (filter?: Filter | null, options?: IterationOptions): Readable {
+    return this.back.streamEntries(filter, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamKeys (filter?: Filter | null, options?: IterationOptions): Readable {
+    return this.back.streamKeys(filter, options)
+  }
+
+  /**
+   * @inheritDoc
+   */
+  streamValues (filter?: Filter | null, options?: IterationOptions): Readable {
+    return this.back.streamValues(filter, options)
+  }
+
+  /**
+   * Remove the local copy of the entry associated with the specified key, if any.
+   *
+   * @param key  the key to invalidate
+   */
+  invalidate (key: K): void {
+    const frontKey = this.frontKey(key)
+    this.front.delete(frontKey)
+    const tokens = this.reads.get(frontKey)
+    if (tokens) {
+      for (const token of tokens) {
+        token.valid = false
+      }
+    }
+  }
+
+  /**
+   * Remove all entries from the front map.
+   */
+  invalidateAll (): void {
+    this.front.clear()
+    for (const tokens of this.reads.values()) {
+      for (const token of tokens) {
+        token.valid = false
+      }
+    }
+  }
+
+  /**
+   * Returns the front map key for the specified key.  The serialized form is used
+   * so that structurally equal keys resolve to the same local entry.
+   *
+   * @param key  the key
+   *
+   * @return the front map key
+   */
+  protected frontKey (key: K): string {
+    return this.serializer.serialize(key).toString('base64')
+  }
+
+  /**
+   * Returns the live front map entry for the specified key, expiring it if it
+   * has exceeded its maximum age.
+   *
+   * @param frontKey  the front map key
+   *
+   * @return the front map entry, or `undefined` if there is no live entry
+   */
+  protected lookup (frontKey: string): FrontEntry<V> | undefined {
+    const entry = this.front.get(frontKey)
+    if (!entry) {
+      return undefined
+    }
+    if (Date.now() - entry.created > this.options.expireAfterMillis) {
+      this.front.delete(frontKey)
+      return undefined
+    }
+
+    entry.hits++
+    if (this.options.evictionPolicy === EvictionPolicy.LRU) {
+      // re-insert to move the entry to the most recently used position
+      this.front.delete(frontKey)
+      this.front.set(frontKey, entry)
+    }
+    return entry
+  }
+
+  /**
+   * Store a value read from the back cache, unless the key was invalidated while
+   * the read was in flight.
+   *
+   * @param frontKey  the front map key
+   * @param value     the value read from the back cache
+   * @param token     the token for the read
+   */
+  protected store (frontKey: string, value: V, token: ReadToken): void {
+    if (!token.valid || !this.back.active) {
+      return
+    }
+
+    this.front.delete(frontKey)
+    while (this.front.size >= this.options.maxEntries) {
+      this.evict()
+    }
+    this.front.set(frontKey, { value, created: Date.now(), hits: 0 })
+  }
+
+  /**
+   * Evict a single entry based on the configured {@link EvictionPolicy}.
+   */
+  protected evict (): void {
+    let victim: string | undefined
+    if (this.options.evictionPolicy === EvictionPolicy.LFU) {
+      let min = Number.POSITIVE_INFINITY
+      for (const [frontKey, entry] of this.front) {
+        if (entry.hits < min) {
+          min = entry.hits
+          victim = frontKey
+        }
+      }
+    } else {
+      victim = this.front.keys().next().value
+    }
+
+    if (victim !== undefined) {
+      this.front.delete(victim)
+    }
+  }
+
+  /**
+   * Register an outstanding read for the specified key.
+   *
+   * @param frontKey  the front map key
+   *
+   * @return the token tracking the read
+   */
+  private beginRead (frontKey: string): ReadToken {
+    // a read started before the listener is in place, or while the event stream is lost,
+    // may miss an invalidation
+    const token = { valid: this.listenerRegistered && !this.disconnected }
+    let tokens = this.reads.get(frontKey)
+    if (!tokens) {
+      tokens = new Set()
+      this.reads.set(frontKey, tokens)
+    }
+    tokens.add(token)
+    return token
+  }
+
+  /**
+   * Deregister an outstanding read for the specified key.
+   *
+   * @param frontKey  the front map key
+   * @param token     the token tracking the read
+   */
+  private endRead (frontKey: string, token: ReadToken): void {
+    const tokens = this.reads.get(frontKey)
+    if (tokens) {
+      tokens.delete(token)
+      if (tokens.size == 0) {
+        this.reads.delete(frontKey)
+      }
+    }
+  }
+
+  /**
+   * Invalidate the front map in response to lifecycle events of the back cache and
+   * forward those events to listeners of this cache.
+   */
+  protected setupEventHandlers () {
+    const self = this
+    self.back.on(MapLifecycleEvent.TRUNCATED, (cacheName: string) => {
+      self.invalidateAll()
+      self.emit(MapLifecycleEvent.TRUNCATED, cacheName)
+    })
+
+    self.back.on(MapLifecycleEvent.DESTROYED, (cacheName: string) => {
+      self.invalidateAll()
+      self.emit(MapLifecycleEvent.DESTROYED, cacheName)
+    })
+
+    self.back.on(MapLifecycleEvent.RELEASED, (cacheName: string, format: string) => {
+      self.invalidateAll()
+      self.emit(MapLifecycleEvent.RELEASED, cacheName, format)
+    })
+
+    // events may have been missed while disconnected; values are only stored locally
+    // again once the event stream has been re-established
+    self.back.on(MapLifecycleEvent.DISCONNECTED, (cacheName: string, err: Error) => {
+      self.disconnected = true
+      self.invalidateAll()
+      self.emit(MapLifecycleEvent.DISCONNECTED, cacheName, err)
+    })
+
+    self.back.on(MapLifecycleEvent.RECONNECTED, (cacheName: string) => {
+      self.invalidateAll()
+      self.disconnected = false
+      self.emit(MapLifecycleEvent.RECONNECTED, cacheName)
+    })
+
+    self.back.on(MapLifecycleEvent.RECONNECT_FAILED, (cacheName: string, err: Error) => {
+      self.emit(MapLifecycleEvent.RECONNECT_FAILED, cacheName, err)
+    })
+  }
+}
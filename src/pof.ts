@@ -0,0 +1,998 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import { util } from './util'
+
+export namespace pof {
+
+  /**
+   * Interface implemented by classes that know how to read and write their
+   * own state as a POF user type.
+   */
+  export interface PortableObject {
+
+    /**
+     * Restore the state of this object from the specified {@link PofReader}.
+     *
+     * @param reader  the {@link PofReader} to read the object's state from
+     */
+    readExternal (reader: PofReader): void
+
+    /**
+     * Save the state of this object to the specified {@link PofWriter}.
+     *
+     * @param writer  the {@link PofWriter} to write the object's state to
+     */
+    writeExternal (writer: PofWriter): void
+  }
+
+  /**
+   * Hooks used to read and write instances of a class that does not itself
+   * implement {@link PortableObject}.
+   */
+  export interface PortableObjectHooks<T = any> {
+
+    /**
+     * Restore the state of the specified object from the specified {@link PofReader}.
+     *
+     * @param reader  the {@link PofReader} to read the object's state from
+     * @param target  the newly constructed object
+     */
+    readExternal (reader: PofReader, target: T): void
+
+    /**
+     * Save the state of the specified object to the specified {@link PofWriter}.
+     *
+     * @param writer  the {@link PofWriter} to write the object's state to
+     * @param source  the object being serialized
+     */
+    writeExternal (writer: PofWriter, source: T): void
+  }
+
+  /**
+   * Provides access to the properties of a POF user type being deserialized.
+   * Properties that were not written are returned as `null` (or `false`/`0`
+   * for the boolean and numeric accessors).
+   */
+  export interface PofReader {
+
+    /**
+     * The type identifier of the user type being read.
+     */
+    readonly typeId: number
+
+    /**
+     * The version identifier of the user type being read.
+     */
+    readonly versionId: number
+
+    /**
+     * Read the property at the specified index as whatever type it was written as.
+     *
+     * @param index  the property index
+     */
+    readObject<T = any> (index: number): T | null
+
+    /**
+     * Read the property at the specified index as a `boolean`.
+     *
+     * @param index  the property index
+     */
+    readBoolean (index: number): boolean
+
+    /**
+     * Read the property at the specified index as a 32-bit integer.
+     *
+     * @param index  the property index
+     */
+    readInt32 (index: number): number
+
+    /**
+     * Read the property at the specified index as a 64-bit integer.  Values
+     * outside of the safe integer range are returned as a `bigint`.
+     *
+     * @param index  the property index
+     */
+    readInt64 (index: number): number | bigint
+
+    /**
+     * Read the property at the specified index as a 64-bit floating point number.
+     *
+     * @param index  the property index
+     */
+    readFloat64 (index: number): number
+
+    /**
+     * Read the property at the specified index as a `string`.
+     *
+     * @param index  the property index
+     */
+    readString (index: number): string | null
+
+    /**
+     * Read the property at the specified index as a `Date`.
+     *
+     * @param index  the property index
+     */
+    readDateTime (index: number): Date | null
+
+    /**
+     * Read the property at the specified index as binary data.
+     *
+     * @param index  the property index
+     */
+    readBinary (index: number): Buffer | null
+  }
+
+  /**
+   * Writes the properties of a POF user type being serialized.  Properties
+   * must be written in increasing index order; `null` and `undefined`
+   * values are omitted.
+   */
+  export interface PofWriter {
+
+    /**
+     * The type identifier of the user type being written.
+     */
+    readonly typeId: number
+
+    /**
+     * Write the specified value at the specified index, choosing the
+     * POF type based on the JavaScript type of the value.
+     *
+     * @param index  the property index
+     * @param value  the value to write
+     */
+    writeObject (index: number, value: any): void
+
+    /**
+     * Write the specified value at the specified index as a `boolean`.
+     *
+     * @param index  the property index
+     * @param value  the value to write
+     */
+    writeBoolean (index: number, value: boolean): void
+
+    /**
+     * Write the specified value at the specified index as a 32-bit integer.
+     *
+     * @param index  the property index
+     * @param value  the value to write
+     */
+    writeInt32 (index: number, value: number): void
+
+    /**
+     * Write the specified value at the specified index as a 64-bit integer.
+     *
+     * @param index  the property index
+     * @param value  the value to write
+     */
+    writeInt64 (index: number, value: number | bigint): void
+
+    /**
+     * Write the specified value at the specified index as a 64-bit floating point number.
+     *
+     * @param index  the property index
+     * @param value  the value to write
+     */
+    writeFloat64 (index: number, value: number): void
+
+    /**
+     * Write the specified value at the specified index as a `string`.
+     *
+     * @param index  the property index
+     * @param value  the value to write
+     */
+    writeString (index: number, value: string | null): void
+
+    /**
+     * Write the specified value at the specified index as a date-time.
+     *
+     * @param index  the property index
+     * @param value  the value to write
+     */
+    writeDateTime (index: number, value: Date | null): void
+
+    /**
+     * Write the specified value at the specified index as binary data.
+     *
+     * @param index  the property index
+     * @param value  the value to write
+     */
+    writeBinary (index: number, value: Uint8Array | null): void
+  }
+
+  /**
+   * A {@link util.Serializer} for the `pof` format, implementing the Coherence
+   * Portable Object Format.
+   *
+   * JavaScript values are written as follows:
+   * - `null` and `undefined` as a null reference
+   * - `boolean`s as booleans
+   * - integral `number`s as 32-bit or 64-bit integers, other `number`s as 64-bit floating point
+   * - `bigint`s as 64-bit integers
+   * - `string`s as character strings
+   * - `Date`s as UTC date-times
+   * - `Buffer`s and `Uint8Array`s as octet strings
+   * - `Array`s and `Set`s as collections
+   * - `Map`s and plain objects as maps
+   * - instances of registered classes as user types
+   *
+   * When read, collections and arrays become `Array`s, maps become `Map`s and
+   * octet strings become `Buffer`s.
+   */
+  export class PofSerializer
+    implements util.Serializer {
+    /**
+     * The format prefix written by Coherence for non-intrinsic serializers.
+     */
+    protected static POF_SERIALIZER_PREFIX: number = 21
+
+    /**
+     * User types keyed by type identifier.
+     */
+    private readonly types = new Map<number, UserType>()
+
+    /**
+     * User types keyed by class.
+     */
+    private readonly typesByClass = new Map<Function, UserType>()
+
+    /**
+     * @inheritDoc
+     */
+    get format (): string {
+      return 'pof'
+    }
+
+    /**
+     * Register a class as a POF user type.  Unless hooks are provided, the
+     * class must implement {@link PortableObject}.  Instances are created
+     * using the class constructor with no arguments.
+     *
+     * @param typeId  the POF type identifier, matching that configured for the
+     *                corresponding type on the server
+     * @param type    the class
+     * @param hooks   optional hooks used in place of the class's own
+     *                `readExternal`/`writeExternal` methods
+     *
+     * @return this serializer
+     */
+    registerType<T> (typeId: number, type: new () => T, hooks?: PortableObjectHooks<T>): this {
+      if (!Number.isInteger(typeId) || typeId < 0) {
+        throw new Error('POF type id must be a non-negative integer: ' + typeId)
+      }
+      if (typeof type !== 'function') {
+        throw new Error('type must be a class')
+      }
+      if (this.types.has(typeId)) {
+        throw new Error('a POF user type is already registered for type id ' + typeId)
+      }
+      if (this.typesByClass.has(type)) {
+        throw new Error(type.name + ' is already registered as POF type id ' + this.typesByClass.get(type)!.typeId)
+      }
+      if (!hooks && (typeof type.prototype.readExternal !== 'function' || typeof type.prototype.writeExternal !== 'function')) {
+        throw new Error(type.name + ' must implement readExternal() and writeExternal() or be registered with hooks')
+      }
+
+      const userType = { typeId, type, hooks }
+      this.types.set(typeId, userType)
+      this.typesByClass.set(type, userType)
+      return this
+    }
+
+    /**
+     * Returns the POF type identifier registered for the specified class.
+     *
+     * @param type  the class
+     *
+     * @return the POF type identifier, or `undefined` if the class is not registered
+     */
+    typeIdFor (type: Function): number | undefined {
+      const userType = this.typesByClass.get(type)
+      return userType ? userType.typeId : undefined
+    }
+
+    /**
+     * @inheritDoc
+     */
+    serialize (obj: any): Buffer {
+      const out = new PofOutput()
+      out.writeByte(PofSerializer.POF_SERIALIZER_PREFIX)
+      new PofEncoder(out, this.typesByClass).writeTyped(obj)
+      return out.toBuffer()
+    }
+
+    /**
+     * @inheritDoc
+     */
+    deserialize (value: any): any {
+      if (value && value.length > 0) {
+        const input = new PofInput(Buffer.from(value))
+        const prefix = input.readByte()
+        if (prefix != PofSerializer.POF_SERIALIZER_PREFIX) {
+          throw new Error('not a POF value; unexpected format prefix ' + prefix)
+        }
+        return new PofDecoder(input, this.types).readTyped()
+      }
+      return null
+    }
+  }
+
+  /**
+   * A registered user type.
+   */
+  interface UserType {
+    typeId: number
+    type: new () => any
+    hooks?: PortableObjectHooks
+  }
+
+  const T_INT16 = -1
+  const T_INT32 = -2
+  const T_INT64 = -3
+  const T_FLOAT32 = -5
+  const T_FLOAT64 = -6
+  const T_BOOLEAN = -11
+  const T_OCTET = -12
+  const T_OCTET_STRING = -13
+  const T_CHAR = -14
+  const T_CHAR_STRING = -15
+  const T_DATE = -16
+  const T_DATETIME = -20
+  const T_COLLECTION = -22
+  const T_UNIFORM_COLLECTION = -23
+  const T_ARRAY = -24
+  const T_UNIFORM_ARRAY = -25
+  const T_SPARSE_ARRAY = -26
+  const T_UNIFORM_SPARSE_ARRAY = -27
+  const T_MAP = -28
+  const T_UNIFORM_KEYS_MAP = -29
+  const T_UNIFORM_MAP = -30
+  const T_IDENTITY = -31
+  const T_REFERENCE = -32
+  const V_BOOLEAN_FALSE = -33
+  const V_BOOLEAN_TRUE = -34
+  const V_STRING_ZERO_LENGTH = -35
+  const V_COLLECTION_EMPTY = -36
+  const V_REFERENCE_NULL = -37
+  const V_FP_POS_INFINITY = -38
+  const V_FP_NEG_INFINITY = -39
+  const V_FP_NAN = -40
+  const V_INT_NEG_1 = -41
+  const V_INT_0 = -42
+  const V_INT_22 = -64
+
+  const TIME_ZONE_NONE = 0
+  const TIME_ZONE_UTC = 1
+
+  const INT32_MIN = -0x80000000
+  const INT32_MAX = 0x7FFFFFFF
+  const INT64_MIN = BigInt('-9223372036854775808')
+  const INT64_MAX = BigInt('9223372036854775807')
+
+  /**
+   * A growable buffer that POF values are written to.
+   */
+  class PofOutput {
+    private buf = Buffer.alloc(256)
+    private pos = 0
+
+    writeByte (b: number) {
+      this.ensure(1)
+      this.buf[this.pos++] = b
+    }
+
+    writeBytes (bytes: Uint8Array) {
+      this.ensure(bytes.length)
+      this.buf.set(bytes, this.pos)
+      this.pos += bytes.length
+    }
+
+    /**
+     * Write a safe integer using the POF packed integer encoding: a sign bit
+     * and six bits in the first byte, seven bits in each subsequent byte.
+     */
+    writePackedInt (n: number) {
+      let b = 0
+      if (n < 0) {
+        b = 0x40
+        n = -n - 1
+      }
+      b |= n % 64
+      n = Math.floor(n / 64)
+      while (n !== 0) {
+        this.writeByte(b | 0x80)
+        b = n % 128
+        n = Math.floor(n / 128)
+      }
+      this.writeByte(b)
+    }
+
+    writePackedLong (n: bigint) {
+      if (n >= Number.MIN_SAFE_INTEGER && n <= Number.MAX_SAFE_INTEGER) {
+        this.writePackedInt(Number(n))
+        return
+      }
+      let b = 0
+      if (n < 0) {
+        b = 0x40
+        n = -n - BigInt(1)
+      }
+      b |= Number(n & BigInt(0x3F))
+      n >>= BigInt(6)
+      while (n !== BigInt(0)) {
+        this.writeByte(b | 0x80)
+        b = Number(n & BigInt(0x7F))
+        n >>= BigInt(7)
+      }
+      this.writeByte(b)
+    }
+
+    writeFloat32 (n: number) {
+      this.ensure(4)
+      this.pos = this.buf.writeFloatBE(n, this.pos)
+    }
+
+    writeFloat64 (n: number) {
+      this.ensure(8)
+      this.pos = this.buf.writeDoubleBE(n, this.pos)
+    }
+
+    writeString (s: string) {
+      const length = Buffer.byteLength(s)
+      this.writePackedInt(length)
+      this.ensure(length)
+      this.pos += this.buf.write(s, this.pos)
+    }
+
+    toBuffer (): Buffer {
+      return this.buf.slice(0, this.pos)
+    }
+
+    private ensure (length: number) {
+      if (this.pos + length > this.buf.length) {
+        const buf = Buffer.alloc(Math.max(this.buf.length * 2, this.pos + length))
+        this.buf.copy(buf, 0, 0, this.pos)
+        this.buf = buf
+      }
+    }
+  }
+
+  /**
+   * A buffer that POF values are read from.
+   */
+  class PofInput {
+    private pos = 0
+
+    constructor (private readonly buf: Buffer) {
+    }
+
+    readByte (): number {
+      if (this.pos >= this.buf.length) {
+        throw new Error('unexpected end of POF stream')
+      }
+      return this.buf[this.pos++]
+    }
+
+    readBytes (length: number): Buffer {
+      if (this.pos + length > this.buf.length) {
+        throw new Error('unexpected end of POF stream')
+      }
+      const bytes = Buffer.from(this.buf.slice(this.pos, this.pos + length))
+      this.pos += length
+      return bytes
+    }
+
+    readPackedInt (): number {
+      const n = this.readPackedLong()
+      if (typeof n !== 'number') {
+        throw new Error('POF integer value ' + n + ' is out of range')
+      }
+      return n
+    }
+
+    /**
+     * Read a packed integer, returning a `bigint` if the value is outside
+     * of the safe integer range.
+     */
+    readPackedLong (): number | bigint {
+      let b = this.readByte()
+      const negative = (b & 0x40) !== 0
+      let n: number | bigint = b & 0x3F
+      let bits = 6
+
+      while ((b & 0x80) !== 0) {
+        b = this.readByte()
+        // accumulate as a number while the result is guaranteed to be a safe integer
+        n = bits <= 46
+          ? (n as number) + (b & 0x7F) * 2 ** bits
+          : BigInt(n) | (BigInt(b & 0x7F) << BigInt(bits))
+        bits += 7
+      }
+
+      if (typeof n === 'number') {
+        return negative ? -n - 1 : n
+      }
+      n = negative ? -n - BigInt(1) : n
+      return n >= Number.MIN_SAFE_INTEGER && n <= Number.MAX_SAFE_INTEGER ? Number(n) : n
+    }
+
+    readFloat32 (): number {
+      return this.readBytes(4).readFloatBE(0)
+    }
+
+    readFloat64 (): number {
+      return this.readBytes(8).readDoubleBE(0)
+    }
+
+    readString (): string | null {
+      const length = this.readPackedInt()
+      return length < 0 ? null : this.readBytes(length).toString()
+    }
+
+    readChar (): string {
+      const b = this.buf[this.pos]
+      const length = b < 0x80 ? 1 : (b & 0xE0) === 0xC0 ? 2 : 3
+      return this.readBytes(length).toString()
+    }
+  }
+
+  /**
+   * Writes JavaScript values as POF.
+   */
+  class PofEncoder {
+    constructor (readonly out: PofOutput, private readonly types: Map<Function, UserType>) {
+    }
+
+    /**
+     * Write the POF type identifier followed by the value.
+     */
+    writeTyped (value: any) {
+      const out = this.out
+      if (value === null || value === undefined) {
+        out.writePackedInt(V_REFERENCE_NULL)
+        return
+      }
+
+      switch (typeof value) {
+        case 'boolean':
+          this.writeBoolean(value)
+          return
+        case 'number':
+          if (Number.isInteger(value)) {
+            this.writeInt(value >= INT32_MIN && value <= INT32_MAX ? T_INT32 : T_INT64, value)
+          } else {
+            this.writeFloat64(value)
+          }
+          return
+        case 'bigint':
+          this.writeInt(T_INT64, value)
+          return
+        case 'string':
+          this.writeString(value)
+          return
+        case 'object':
+          break
+        default:
+          throw new Error('cannot serialize a value of type ' + typeof value + ' as POF')
+      }
+
+      if (value instanceof Date) {
+        this.writeDateTime(value)
+      } else if (value instanceof Uint8Array) {
+        out.writePackedInt(T_OCTET_STRING)
+        out.writePackedInt(value.length)
+        out.writeBytes(value)
+      } else if (Array.isArray(value) || value instanceof Set) {
+        const values = Array.isArray(value) ? value : Array.from(value)
+        out.writePackedInt(T_COLLECTION)
+        out.writePackedInt(values.length)
+        for (const element of values) {
+          this.writeTyped(element)
+        }
+      } else if (value instanceof Map) {
+        out.writePackedInt(T_MAP)
+        out.writePackedInt(value.size)
+        for (const [k, v] of value) {
+          this.writeTyped(k)
+          this.writeTyped(v)
+        }
+      } else if (this.types.has(value.constructor)) {
+        this.writeUserType(this.types.get(value.constructor)!, value)
+      } else if (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null) {
+        const keys = Object.keys(value)
+        out.writePackedInt(T_MAP)
+        out.writePackedInt(keys.length)
+        for (const key of keys) {
+          this.writeTyped(key)
+          this.writeTyped(value[key])
+        }
+      } else {
+        throw new Error('no POF type id registered for class ' + value.constructor.name)
+      }
+    }
+
+    writeBoolean (value: boolean) {
+      this.out.writePackedInt(value ? V_BOOLEAN_TRUE : V_BOOLEAN_FALSE)
+    }
+
+    writeInt (typeId: number, value: number | bigint) {
+      const out = this.out
+      if (typeof value === 'bigint') {
+        if (value < INT64_MIN || value > INT64_MAX) {
+          throw new Error('value ' + value + ' is out of range for a POF int64')
+        }
+      } else if (!Number.isSafeInteger(value)) {
+        throw new Error('value ' + value + ' is not a safe integer')
+      } else if (typeId === T_INT32 && (value < INT32_MIN || value > INT32_MAX)) {
+        throw new Error('value ' + value + ' is out of range for a POF int32')
+      }
+
+      if (value >= -1 && value <= 22) {
+        out.writePackedInt(V_INT_0 - Number(value))
+      } else {
+        out.writePackedInt(typeId)
+        if (typeof value === 'bigint') {
+          out.writePackedLong(value)
+        } else {
+          out.writePackedInt(value)
+        }
+      }
+    }
+
+    writeFloat64 (value: number) {
+      const out = this.out
+      if (Number.isNaN(value)) {
+        out.writePackedInt(V_FP_NAN)
+      } else if (value === Infinity) {
+        out.writePackedInt(V_FP_POS_INFINITY)
+      } else if (value === -Infinity) {
+        out.writePackedInt(V_FP_NEG_INFINITY)
+      } else {
+        out.writePackedInt(T_FLOAT64)
+        out.writeFloat64(value)
+      }
+    }
+
+    writeString (value: string) {
+      if (value.length === 0) {
+        this.out.writePackedInt(V_STRING_ZERO_LENGTH)
+      } else {
+        this.out.writePackedInt(T_CHAR_STRING)
+        this.out.writeString(value)
+      }
+    }
+
+    writeDateTime (value: Date) {
+      const out = this.out
+      out.writePackedInt(T_DATETIME)
+      out.writePackedInt(value.getUTCFullYear())
+      out.writePackedInt(value.getUTCMonth() + 1)
+      out.writePackedInt(value.getUTCDate())
+      out.writePackedInt(value.getUTCHours())
+      out.writePackedInt(value.getUTCMinutes())
+      out.writePackedInt(value.getUTCSeconds())
+      out.writePackedInt(-value.getUTCMilliseconds()) // negative for millis, positive for nanos
+      out.writePackedInt(TIME_ZONE_UTC)
+    }
+
+    private writeUserType (userType: UserType, value: any) {
+      this.out.writePackedInt(userType.typeId)
+      this.out.writePackedInt(0) // version id
+      const writer = new UserTypeWriter(userType.typeId, this)
+      if (userType.hooks) {
+        userType.hooks.writeExternal(writer, value)
+      } else {
+        value.writeExternal(writer)
+      }
+      this.out.writePackedInt(-1)
+    }
+  }
+
+  /**
+   * Reads POF as JavaScript values.
+   */
+  class PofDecoder {
+    /**
+     * Values previously read with an identity, for resolving references.
+     */
+    private readonly identities = new Map<number, any>()
+
+    constructor (private readonly input: PofInput, private readonly types: Map<number, UserType>) {
+    }
+
+    /**
+     * Read a POF type identifier followed by the value.
+     */
+    readTyped (): any {
+      return this.readValue(this.input.readPackedInt())
+    }
+
+    /**
+     * Read a value of the specified POF type.
+     */
+    readValue (typeId: number): any {
+      const input = this.input
+      switch (typeId) {
+        case T_INT16:
+        case T_INT32:
+        case T_INT64:
+          return input.readPackedLong()
+        case T_FLOAT32:
+          return input.readFloat32()
+        case T_FLOAT64:
+          return input.readFloat64()
+        case T_BOOLEAN:
+          return input.readPackedInt() !== 0
+        case T_OCTET:
+          return input.readByte()
+        case T_OCTET_STRING:
+          return input.readBytes(input.readPackedInt())
+        case T_CHAR:
+          return input.readChar()
+        case T_CHAR_STRING:
+          return input.readString()
+        case T_DATE:
+          return this.readDate(false)
+        case T_DATETIME:
+          return this.readDate(true)
+        case T_COLLECTION:
+        case T_ARRAY:
+          return this.readElements(undefined, input.readPackedInt())
+        case T_UNIFORM_COLLECTION:
+        case T_UNIFORM_ARRAY:
+          return this.readElements(input.readPackedInt(), input.readPackedInt())
+        case T_SPARSE_ARRAY:
+          return this.readSparseElements(undefined, input.readPackedInt())
+        case T_UNIFORM_SPARSE_ARRAY:
+          return this.readSparseElements(input.readPackedInt(), input.readPackedInt())
+        case T_MAP:
+          return this.readEntries(undefined, undefined)
+        case T_UNIFORM_KEYS_MAP:
+          return this.readEntries(input.readPackedInt(), undefined)
+        case T_UNIFORM_MAP:
+          return this.readEntries(input.readPackedInt(), input.readPackedInt())
+        case T_IDENTITY: {
+          const id = input.readPackedInt()
+          const value = this.readTyped()
+          this.identities.set(id, value)
+          return value
+        }
+        case T_REFERENCE: {
+          const id = input.readPackedInt()
+          if (!this.identities.has(id)) {
+            throw new Error('unresolved POF reference ' + id)
+          }
+          return this.identities.get(id)
+        }
+        case V_BOOLEAN_FALSE:
+          return false
+        case V_BOOLEAN_TRUE:
+          return true
+        case V_STRING_ZERO_LENGTH:
+          return ''
+        case V_COLLECTION_EMPTY:
+          return []
+        case V_REFERENCE_NULL:
+          return null
+        case V_FP_POS_INFINITY:
+          return Infinity
+        case V_FP_NEG_INFINITY:
+          return -Infinity
+        case V_FP_NAN:
+          return NaN
+      }
+
+      if (typeId <= V_INT_NEG_1 && typeId >= V_INT_22) {
+        return V_INT_0 - typeId
+      }
+      if (typeId >= 0) {
+        return this.readUserType(typeId)
+      }
+      throw new Error('unsupported POF type ' + typeId)
+    }
+
+    private readElements (elementType: number | undefined, size: number): Array<any> {
+      const array = new Array(size)
+      for (let i = 0; i < size; i++) {
+        array[i] = elementType === undefined ? this.readTyped() : this.readValue(elementType)
+      }
+      return array
+    }
+
+    private readSparseElements (elementType: number | undefined, size: number): Array<any> {
+      const array = new Array(size).fill(null)
+      for (let i = this.input.readPackedInt(); i >= 0; i = this.input.readPackedInt()) {
+        array[i] = elementType === undefined ? this.readTyped() : this.readValue(elementType)
+      }
+      return array
+    }
+
+    private readEntries (keyType: number | undefined, valueType: number | undefined): Map<any, any> {
+      const map = new Map()
+      const size = this.input.readPackedInt()
+      for (let i = 0; i < size; i++) {
+        const key = keyType === undefined ? this.readTyped() : this.readValue(keyType)
+        map.set(key, valueType === undefined ? this.readTyped() : this.readValue(valueType))
+      }
+      return map
+    }
+
+    private readDate (withTime: boolean): Date {
+      const input = this.input
+      const year = input.readPackedInt()
+      const month = input.readPackedInt() - 1
+      const day = input.readPackedInt()
+      if (!withTime) {
+        return new Date(year, month, day)
+      }
+
+      const hour = input.readPackedInt()
+      const minute = input.readPackedInt()
+      const second = input.readPackedInt()
+      const fraction = input.readPackedInt() // negative for millis, positive for nanos
+      const millis = fraction <= 0 ? -fraction : Math.floor(fraction / 1000000)
+      const zoneType = input.readPackedInt()
+      if (zoneType === TIME_ZONE_NONE) {
+        return new Date(year, month, day, hour, minute, second, millis)
+      }
+
+      let time = Date.UTC(year, month, day, hour, minute, second, millis)
+      if (zoneType !== TIME_ZONE_UTC) {
+        const hourOffset = input.readPackedInt()
+        const minuteOffset = input.readPackedInt()
+        time -= (hourOffset * 60 + minuteOffset) * 60000
+      }
+      return new Date(time)
+    }
+
+    private readUserType (typeId: number): any {
+      const userType = this.types.get(typeId)
+      if (!userType) {
+        throw new Error('no POF user type registered for type id ' + typeId)
+      }
+
+      const versionId = this.input.readPackedInt()
+      const properties = new Map<number, any>()
+      for (let index = this.input.readPackedInt(); index >= 0; index = this.input.readPackedInt()) {
+        properties.set(index, this.readTyped())
+      }
+
+      const value = new userType.type()
+      const reader = new UserTypeReader(typeId, versionId, properties)
+      if (userType.hooks) {
+        userType.hooks.readExternal(reader, value)
+      } else {
+        value.readExternal(reader)
+      }
+      return value
+    }
+  }
+
+  /**
+   * The {@link PofWriter} passed to user types being serialized.
+   */
+  class UserTypeWriter
+    implements PofWriter {
+    private lastIndex = -1
+
+    constructor (readonly typeId: number, private readonly encoder: PofEncoder) {
+    }
+
+    writeObject (index: number, value: any) {
+      if (this.writeIndex(index, value)) {
+        this.encoder.writeTyped(value)
+      }
+    }
+
+    writeBoolean (index: number, value: boolean) {
+      if (this.writeIndex(index, value)) {
+        this.encoder.writeBoolean(value)
+      }
+    }
+
+    writeInt32 (index: number, value: number) {
+      if (this.writeIndex(index, value)) {
+        this.encoder.writeInt(T_INT32, value)
+      }
+    }
+
+    writeInt64 (index: number, value: number | bigint) {
+      if (this.writeIndex(index, value)) {
+        this.encoder.writeInt(T_INT64, value)
+      }
+    }
+
+    writeFloat64 (index: number, value: number) {
+      if (this.writeIndex(index, value)) {
+        this.encoder.writeFloat64(value)
+      }
+    }
+
+    writeString (index: number, value: string | null) {
+      if (this.writeIndex(index, value)) {
+        this.encoder.writeString(String(value))
+      }
+    }
+
+    writeDateTime (index: number, value: Date | null) {
+      if (this.writeIndex(index, value)) {
+        this.encoder.writeDateTime(value!)
+      }
+    }
+
+    writeBinary (index: number, value: Uint8Array | null) {
+      if (this.writeIndex(index, value)) {
+        this.encoder.writeTyped(Uint8Array.from(value!))
+      }
+    }
+
+    /**
+     * Write the property index, unless the value is `null` or `undefined`.
+     *
+     * @return `true` if the value should be written
+     */
+    private writeIndex (index: number, value: any): boolean {
+      if (!Number.isInteger(index) || index <= this.lastIndex) {
+        throw new Error('POF property index ' + index + ' must be an integer greater than ' + this.lastIndex)
+      }
+      this.lastIndex = index
+      if (value === null || value === undefined) {
+        return false
+      }
+      this.encoder.out.writePackedInt(index)
+      return true
+    }
+  }
+
+  /**
+   * The {@link PofReader} passed to user types being deserialized.
+   */
+  class UserTypeReader
+    implements PofReader {
+    constructor (readonly typeId: number, readonly versionId: number, private readonly properties: Map<number, any>) {
+    }
+
+    readObject<T = any> (index: number): T | null {
+      const value = this.properties.get(index)
+      return value === undefined ? null : value
+    }
+
+    readBoolean (index: number): boolean {
+      return Boolean(this.readObject(index))
+    }
+
+    readInt32 (index: number): number {
+      return Number(this.readObject(index) || 0)
+    }
+
+    readInt64 (index: number): number | bigint {
+      const value = this.readObject(index)
+      return typeof value === 'bigint' ? value : Number(value || 0)
+    }
+
+    readFloat64 (index: number): number {
+      return Number(this.readObject(index) || 0)
+    }
+
+    readString (index: number): string | null {
+      const value = this.readObject(index)
+      return value === null ? null : String(value)
+    }
+
+    readDateTime (index: number): Date | null {
+      const value = this.readObject(index)
+      return value === null || value instanceof Date ? value : new Date(value)
+    }
+
+    readBinary (index: number): Buffer | null {
+      const value = this.readObject(index)
+      return value === null ? null : Buffer.from(value)
+    }
+  }
+}
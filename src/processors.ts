@@ -7,6 +7,8 @@
 
 import { extractor } from './extractors'
 import { filter } from './filters'
+import { MapEntry } from './named-cache-client'
+import { util } from './util'
 
 export namespace processor {
 
@@ -53,6 +55,118 @@ export namespace processor {
     when (filter: filter.Filter): EntryProcessor<K, V, R> {
       return new ConditionalProcessor(filter, this)
     }
+
+    /**
+     * Process the passed entry locally, without a round trip to the server.
+     * Changes are made through {@link InvocableMapEntry.setValue} and
+     * {@link InvocableMapEntry.remove}.
+     *
+     * @param entry  the entry to process
+     *
+     * @return the result of the processing
+     * @throws Error if this processor does not support local evaluation
+     */
+    process (entry: InvocableMapEntry<K, V>): R | null {
+      return util.unsupportedLocally(this)
+    }
+
+    /**
+     * Process the passed entries locally, without a round trip to the server.
+     *
+     * @param entries  the entries to process
+     *
+     * @return a `Map` of the entry keys to the results of processing each entry
+     * @throws Error if this processor does not support local evaluation
+     */
+    processAll (entries: Iterable<InvocableMapEntry<K, V>>): Map<K, R | null> {
+      const results = new Map<K, R | null>()
+      for (const entry of entries) {
+        results.set(entry.key, this.process(entry))
+      }
+      return results
+    }
+  }
+
+  /**
+   * An entry that an {@link EntryProcessor} is applied to when processing locally.
+   *
+   * @typeParam K  the type of the Map entry key
+   * @typeParam V  the type of the Map entry value
+   */
+  export class InvocableMapEntry<K = any, V = any>
+    implements MapEntry<K, V | null> {
+    /**
+     * The entry key.
+     */
+    readonly key: K
+
+    /**
+     * The entry value.
+     */
+    protected _value: V | null
+
+    /**
+     * Flag indicating whether the entry exists.
+     */
+    protected _present: boolean
+
+    /**
+     * Flag indicating whether the entry has been set or removed.
+     */
+    protected _modified: boolean = false
+
+    /**
+     * Constructs a new `InvocableMapEntry`.
+     *
+     * @param key    the entry key
+     * @param value  the entry value; omit for an entry that is not present
+     */
+    constructor (key: K, value?: V) {
+      this.key = key
+      this._present = value !== undefined
+      this._value = value === undefined ? null : value
+    }
+
+    /**
+     * The entry value, or `null` if the entry is not present.
+     */
+    get value (): V | null {
+      return this._value
+    }
+
+    /**
+     * `true` if the entry exists.
+     */
+    get present (): boolean {
+      return this._present
+    }
+
+    /**
+     * `true` if the entry has been set or removed by a processor.
+     */
+    get modified (): boolean {
+      return this._modified
+    }
+
+    /**
+     * Store the value, creating the entry if it is not present.
+     *
+     * @param value  the new value
+     */
+    setValue (value: V): void {
+      this._value = value
+      this._present = true
+      this._modified = true
+    }
+
+    /**
+     * Remove the entry.
+     */
+    remove (): void {
+      this._value = null
+      this._present = false
+      this._modified = true
+    }
   }
 
   /**
@@ -93,6 +207,20 @@ export namespace processor {
       this.filter = filter
       this.processor = processor
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): R | null {
+      return this.filter.evaluateEntry(entry) ? this.processor.process(entry) : null
+    }
+
+    /**
+     * @inheritDoc
+     */
+    processAll (entries: Iterable<InvocableMapEntry<K, V>>): Map<K, R | null> {
+      return processAllNonNull(this, entries)
+    }
   }
 
   /**
@@ -132,6 +260,13 @@ export namespace processor {
       this.processors.push(processor)
       return this
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): any[] {
+      return this.processors.map(p => p.process(entry))
+    }
   }
 
   /**
@@ -204,14 +339,16 @@ export namespace processor {
      * @inheritDoc
      */
     getExtractor (): extractor.ValueExtractor {
-      throw new Error('Method not implemented.')
+      return this.name.indexOf('.') < 0
+        ? new extractor.UniversalExtractor(this.name)
+        : new extractor.ChainedExtractor(this.name)
     }
 
     /**
      * @inheritDoc
      */
     getUpdater (): extractor.ValueUpdater {
-      throw new Error('Method not implemented.')
+      return new extractor.CompositeUpdater(this.name)
     }
   }
 
@@ -274,6 +411,24 @@ export namespace processor {
       this.return = returnCurrent
       return this
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): V | null {
+      if (this.filter.evaluateEntry(entry)) {
+        entry.setValue(this.value)
+        return null
+      }
+      return this.return ? entry.value : null
+    }
+
+    /**
+     * @inheritDoc
+     */
+    processAll (entries: Iterable<InvocableMapEntry<K, V>>): Map<K, V | null> {
+      return processAllNonNull(this, entries)
+    }
   }
 
   /**
@@ -325,6 +480,24 @@ export namespace processor {
       this.filter = filter
       this.entries = new MapHolder(map)
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): V | null {
+      const match = this.entries.entries.find(e => util.equals(e.key, entry.key))
+      if (match && this.filter.evaluateEntry(entry)) {
+        entry.setValue(match.value)
+      }
+      return null
+    }
+
+    /**
+     * @inheritDoc
+     */
+    processAll (entries: Iterable<InvocableMapEntry<K, V>>): Map<K, V | null> {
+      return processAllNonNull(this, entries)
+    }
   }
 
   /**
@@ -374,6 +547,24 @@ export namespace processor {
       this.return = returnCurrent
       return this
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): V | null {
+      if (this.filter.evaluateEntry(entry)) {
+        entry.remove()
+        return null
+      }
+      return this.return ? entry.value : null
+    }
+
+    /**
+     * @inheritDoc
+     */
+    processAll (entries: Iterable<InvocableMapEntry<K, V>>): Map<K, V | null> {
+      return processAllNonNull(this, entries)
+    }
   }
 
   /**
@@ -413,6 +604,13 @@ export namespace processor {
         }
       }
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry): any {
+      return entry.present ? this.extractor.extract(entry.value) : null
+    }
   }
 
   /**
@@ -452,6 +650,21 @@ export namespace processor {
       this.mutator = mutator
       this.args = args
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry): any {
+      if (!entry.present) {
+        return null
+      }
+      const value = entry.value
+      const result = new extractor.UniversalExtractor(this.methodName + '()', this.args).extract(value)
+      if (this.mutator) {
+        entry.setValue(value)
+      }
+      return result
+    }
   }
 
   /**
@@ -473,6 +686,13 @@ export namespace processor {
     protected constructor () {
       super(processorName('NullEntryProcessor'))
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry): boolean {
+      return true
+    }
   }
 
   /**
@@ -542,6 +762,13 @@ export namespace processor {
       this.postIncrement = false
       return this
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): number | null {
+      return manipulateNumber(this.manipulator, entry, n => n + this.increment, this.postIncrement)
+    }
   }
 
   /**
@@ -605,6 +832,13 @@ export namespace processor {
       this.postMultiplication = false
       return this
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): number | null {
+      return manipulateNumber(this.manipulator, entry, n => n * this.multiplier, this.postMultiplication)
+    }
   }
 
   /**
@@ -626,6 +860,13 @@ export namespace processor {
     constructor () {
       super(processorName('PreloadRequest'))
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): null {
+      return null
+    }
   }
 
   /**
@@ -684,6 +925,13 @@ export namespace processor {
     constructor () {
       super(processorName('TouchProcessor'))
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): null {
+      return null
+    }
   }
 
   /**
@@ -730,6 +978,20 @@ export namespace processor {
       }
       this.value = value
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): boolean {
+      if (this.updater) {
+        const value = entry.value
+        this.updater.update(value, this.value)
+        entry.setValue(value as V)
+      } else {
+        entry.setValue(this.value as unknown as V)
+      }
+      return true
+    }
   }
 
   /**
@@ -782,6 +1044,20 @@ export namespace processor {
       this.return = returnCurrent
       return this
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): V | null {
+      return putVersioned(entry, this.value, !!this.insert, !!this.return)
+    }
+
+    /**
+     * @inheritDoc
+     */
+    processAll (entries: Iterable<InvocableMapEntry<K, V>>): Map<K, V | null> {
+      return processAllNonNull(this, entries)
+    }
   }
 
   /**
@@ -831,6 +1107,21 @@ export namespace processor {
       this.insert = allowInsert
       this.return = returnCurrent
     }
+
+    /**
+     * @inheritDoc
+     */
+    process (entry: InvocableMapEntry<K, V>): any {
+      const match = this.entries.entries.find(e => util.equals(e.key, entry.key))
+      return match ? putVersioned(entry, match.value, !!this.insert, !!this.return) : null
+    }
+
+    /**
+     * @inheritDoc
+     */
+    processAll (entries: Iterable<InvocableMapEntry<K, V>>): Map<K, any> {
+      return processAllNonNull(this, entries)
+    }
   }
 
 
@@ -838,6 +1129,63 @@ export namespace processor {
     return 'processor.' + name
   }
 
+  /**
+   * Process the entries, omitting `null` results, as the server does for
+   * processors that return a value only when an entry is left unchanged.
+   */
+  function processAllNonNull<K, V, R> (processor: EntryProcessor<K, V, R>, entries: Iterable<InvocableMapEntry<K, V>>): Map<K, R | null> {
+    const results = new Map<K, R | null>()
+    for (const entry of entries) {
+      const result = processor.process(entry)
+      if (result != null) {
+        results.set(entry.key, result)
+      }
+    }
+    return results
+  }
+
+  /**
+   * Apply the operation to the numeric property accessed by the manipulator,
+   * treating a missing value as zero, and return either the old or the new value.
+   */
+  function manipulateNumber (manipulator: extractor.ValueManipulator, entry: InvocableMapEntry,
+                             op: (n: number) => number, returnOld: boolean): number | null {
+    if (!entry.present) {
+      return null
+    }
+    const value = entry.value
+    const oldNumber = Number(manipulator.getExtractor().extract(value) || 0)
+    const newNumber = op(oldNumber)
+    manipulator.getUpdater().update(value, newNumber)
+    entry.setValue(value)
+    return returnOld ? oldNumber : newNumber
+  }
+
+  /**
+   * Store the new value if its `@version` matches that of the current value,
+   * or if there is no current value and inserts are allowed, incrementing the
+   * version of the stored value.  Returns the current value if it was not
+   * replaced and `returnCurrent` is `true`.
+   */
+  function putVersioned (entry: InvocableMapEntry, value: any, insert: boolean, returnCurrent: boolean): any {
+    const current = entry.value
+    const match = current == null
+      ? insert
+      : util.equals(current[VERSION], value[VERSION])
+    if (match) {
+      const versioned = Object.assign({}, value)
+      versioned[VERSION] = (Number(value[VERSION]) || 0) + 1
+      entry.setValue(versioned)
+      return null
+    }
+    return returnCurrent ? current : null
+  }
+
+  /**
+   * The property holding the version of a versioned JSON value.
+   */
+  const VERSION = '@version'
+
   class MapHolder<K, V> {
     entries: Array<{ key: any, value: any }>
 
@@ -5,12 +5,27 @@
  * http://oss.oracle.com/licenses/upl.
  */
 
-import { CallOptions, Channel, ChannelCredentials, credentials } from 'grpc'
+import { TracerProvider } from '@opentelemetry/api'
+import {
+  CallCredentials,
+  CallOptions,
+  Channel,
+  ChannelCredentials,
+  connectivityState,
+  credentials,
+  Metadata,
+  status
+} from 'grpc'
+import { createPrivateKey, createPublicKey, KeyExportOptions } from 'crypto'
 import { EventEmitter } from 'events'
-import { PathLike, readFileSync } from 'fs'
+import { PathLike, readFileSync, Stats, unwatchFile, watchFile } from 'fs'
 import { event } from './events'
+import { interceptor } from './interceptors'
+import { metrics } from './metrics'
+import { tracing } from './tracing'
 
 import { NamedCache, NamedCacheClient, NamedMap } from './named-cache-client'
+import { NearCache, NearCacheOptions } from './near-cache'
 import { util } from './util'
 
 /**
@@ -43,9 +58,9 @@ export class Options {
   private _requestTimeoutInMillis: number
 
   /**
-   * The serialization format.  Currently, this is always `json`.
+   * The default serialization format of the caches obtained from the session.
    */
-  private readonly _format: string
+  private _format: string
 
   /**
    * A function taking no arguments returning a gRPC CallOptions instance.
@@ -66,7 +81,33 @@ export class Options {
   private _tls: TlsOptions
 
   /**
-   * Return the IPv4 host address and port in the format of `[host]:[port]`.
+   * Event stream reconnection configuration.
+   */
+  private _reconnect: ReconnectOptions
+
+  /**
+   * Request retry configuration.
+   */
+  private _retry: RetryOptions
+
+  /**
+   * Load balancing and failover configuration.
+   */
+  private _loadBalancing: LoadBalancingOptions
+
+  /**
+   * OpenTelemetry tracing configuration.
+   */
+  private _tracing: TracingOptions
+
+  /**
+   * Request authentication configuration.
+   */
+  private _auth: AuthOptions
+
+  /**
+   * Return the IPv4 host address and port in the format of `[host]:[port]`.  If multiple
+   * addresses have been configured, they are returned as a comma-separated list.
    *
    * @return the IPv4 host address and port in the format of `[host]:[port]`
    */
@@ -75,7 +116,9 @@ export class Options {
   }
 
   /**
-   * Set the IPv4 host address and port in the format of `[host]:[port]`
+   * Set the IPv4 host address and port in the format of `[host]:[port]`.  Multiple proxy
+   * addresses may be specified as a comma-separated list (i.e., `host1:1408,host2:1408`);
+   * requests will be balanced across them based on the configured {@link loadBalancing} options.
    *
    * @param address  the IPv4 host address and port in the format of `[host]:[port]`
    */
@@ -83,12 +126,39 @@ export class Options {
     if (this.locked) {
       return;
     }
-    // ensure address is sane
-    if (!Options.ADDRESS_REGEXP.test(address)) {
-      throw new Error('Expected address format is \'<hostname>:<port>\'.  Configured: ' + address)
+    this.addresses = address.split(',').map(a => a.trim())
+  }
+
+  /**
+   * Return the configured proxy addresses, each in the format of `[host]:[port]`.
+   *
+   * @return the configured proxy addresses
+   */
+  get addresses (): string[] {
+    return this._address.split(',')
+  }
+
+  /**
+   * Set the proxy addresses, each in the format of `[host]:[port]`.  A host name resolving to
+   * multiple addresses will be balanced across all of them.
+   *
+   * @param addresses  the proxy addresses, each in the format of `[host]:[port]`
+   */
+  set addresses (addresses: string[]) {
+    if (this.locked) {
+      return;
+    }
+    if (addresses.length == 0) {
+      throw new Error('At least one address must be configured')
+    }
+    // ensure addresses are sane
+    for (const address of addresses) {
+      if (!Options.ADDRESS_REGEXP.test(address) || address.indexOf(',') != -1) {
+        throw new Error('Expected address format is \'<hostname>:<port>\'.  Configured: ' + address)
+      }
     }
 
-    this._address = address
+    this._address = addresses.join(',')
   }
 
   /**
@@ -138,22 +208,25 @@ export class Options {
   }
 
   /**
-   * The serialization format used by this session.  This library currently supports JSON serialization only, thus
-   * this always returns 'json'.
+   * Returns the default serialization format of the caches obtained from the session.
    *
-   * @return 'json'
+   * @return the default serialization format; `json` unless configured otherwise
    */
   get format (): string {
     return this._format
   }
 
   /**
-   * Set the format.  This is a no-op
+   * Set the default serialization format of the caches obtained from the session, used when
+   * no format is passed to {@link Session.getCache} or {@link Session.getMap}.
    *
    * @param format  the serialization format
    */
-  set format(format: string) {
-    // no-op
+  set format (format: string) {
+    if (this.locked) {
+      return
+    }
+    this._format = format
   }
 
   /**
@@ -174,6 +247,96 @@ export class Options {
     this._tls = tls
   }
 
+  /**
+   * Returns the event stream reconnection configuration options.
+   *
+   * @return the event stream reconnection configuration options
+   */
+  get reconnect (): ReconnectOptions {
+    return this._reconnect
+  }
+
+  /**
+   * Set the event stream reconnection configuration options.
+   *
+   * @param reconnect the event stream reconnection configuration options
+   */
+  set reconnect (reconnect: ReconnectOptions) {
+    this._reconnect = reconnect
+  }
+
+  /**
+   * Returns the request retry configuration options.
+   *
+   * @return the request retry configuration options
+   */
+  get retry (): RetryOptions {
+    return this._retry
+  }
+
+  /**
+   * Set the request retry configuration options.
+   *
+   * @param retry the request retry configuration options
+   */
+  set retry (retry: RetryOptions) {
+    this._retry = retry
+  }
+
+  /**
+   * Returns the load balancing and failover configuration options.
+   *
+   * @return the load balancing and failover configuration options
+   */
+  get loadBalancing (): LoadBalancingOptions {
+    return this._loadBalancing
+  }
+
+  /**
+   * Set the load balancing and failover configuration options.
+   *
+   * @param loadBalancing the load balancing and failover configuration options
+   */
+  set loadBalancing (loadBalancing: LoadBalancingOptions) {
+    this._loadBalancing = loadBalancing
+  }
+
+  /**
+   * Returns the OpenTelemetry tracing options.
+   *
+   * @return the OpenTelemetry tracing options
+   */
+  get tracing (): TracingOptions {
+    return this._tracing
+  }
+
+  /**
+   * Sets the OpenTelemetry tracing options.
+   *
+   * @param tracing  the OpenTelemetry tracing options
+   */
+  set tracing (tracing: TracingOptions) {
+    this._tracing = tracing
+  }
+
+  /**
+   * Returns the request authentication options.
+   *
+   * @return the request authentication options
+   */
+  get auth (): AuthOptions {
+    return this._auth
+  }
+
+  /**
+   * Sets the request authentication options.
+   *
+   * @param auth  the request authentication options
+   */
+  set auth (auth: AuthOptions) {
+    this._auth = auth
+  }
+
   /**
    * Sets the gRPC CallOptions that will be applied to each request made using this session.
    *
@@ -202,6 +365,11 @@ export class Options {
   lock(): void {
     this.locked = true;
     this.tls.lock()
+    this.reconnect.lock()
+    this.retry.lock()
+    this.loadBalancing.lock()
+    this.tracing.lock()
+    this.auth.lock()
   }
 
   /**
@@ -213,6 +381,11 @@ export class Options {
     this._format = Session.DEFAULT_FORMAT
     this._scope = Session.DEFAULT_SCOPE
     this._tls = new TlsOptions()
+    this._reconnect = new ReconnectOptions()
+    this._retry = new RetryOptions()
+    this._loadBalancing = new LoadBalancingOptions()
+    this._tracing = new TracingOptions()
+    this._auth = new AuthOptions()
 
     const self = this
     this._callOptions = function () {
@@ -252,6 +425,36 @@ export class TlsOptions {
    */
   private _clientKeyPath?: PathLike
 
+  /**
+   * The PEM encoded CA certificates.
+   */
+  private _caCert?: string | Buffer
+
+  /**
+   * The PEM encoded client certificate.
+   */
+  private _clientCert?: string | Buffer
+
+  /**
+   * The PEM encoded client certificate key.
+   */
+  private _clientKey?: string | Buffer
+
+  /**
+   * The name the proxy certificate is verified against, if not the host name of the address.
+   */
+  private _serverNameOverride?: string
+
+  /**
+   * The colon-delimited cipher suites.
+   */
+  private _ciphers?: string
+
+  /**
+   * The interval, in `milliseconds`, at which certificate files are checked for changes.
+   */
+  private _refreshIntervalInMillis: number = 0
+
   /**
    * The gRPC channel options.  See [documentation](https://grpc.github.io/grpc/core/group__grpc__arg__keys.html)
    * to obtain a list of possible options
@@ -342,6 +545,143 @@ export class TlsOptions {
     this._clientKeyPath = value
   }
 
+  /**
+   * Return the PEM encoded CA certificates.
+   *
+   * @return the PEM encoded CA certificates, if any
+   */
+  get caCert (): string | Buffer | undefined {
+    return this._caCert
+  }
+
+  /**
+   * Sets the PEM encoded CA certificates, for example as obtained from a secrets manager.
+   * Takes precedence over {@link caCertPath}.
+   *
+   * @param value  the PEM encoded CA certificates
+   */
+  set caCert (value: string | Buffer | undefined) {
+    if (this.locked) {
+      return
+    }
+    this._caCert = value
+  }
+
+  /**
+   * Return the PEM encoded client certificate.
+   *
+   * @return the PEM encoded client certificate, if any
+   */
+  get clientCert (): string | Buffer | undefined {
+    return this._clientCert
+  }
+
+  /**
+   * Sets the PEM encoded client certificate.  Takes precedence over {@link clientCertPath}.
+   *
+   * @param value  the PEM encoded client certificate
+   */
+  set clientCert (value: string | Buffer | undefined) {
+    if (this.locked) {
+      return
+    }
+    this._clientCert = value
+  }
+
+  /**
+   * Return the PEM encoded client certificate key.
+   *
+   * @return the PEM encoded client certificate key, if any
+   */
+  get clientKey (): string | Buffer | undefined {
+    return this._clientKey
+  }
+
+  /**
+   * Sets the PEM encoded client certificate key.  Takes precedence over {@link clientKeyPath}.
+   *
+   * @param value  the PEM encoded client certificate key
+   */
+  set clientKey (value: string | Buffer | undefined) {
+    if (this.locked) {
+      return
+    }
+    this._clientKey = value
+  }
+
+  /**
+   * Return the name the proxy certificate is verified against.
+   *
+   * @return the name the proxy certificate is verified against, if not the host name of the address
+   */
+  get serverNameOverride (): string | undefined {
+    return this._serverNameOverride
+  }
+
+  /**
+   * Sets the name the proxy certificate is verified against, and sent as the TLS server name,
+   * instead of the host name of the address.  Useful when connecting through a load balancer
+   * or by IP address.
+   *
+   * @param value  the name the proxy certificate is verified against
+   */
+  set serverNameOverride (value: string | undefined) {
+    if (this.locked) {
+      return
+    }
+    this._serverNameOverride = value
+  }
+
+  /**
+   * Return the colon-delimited cipher suites.
+   *
+   * @return the colon-delimited cipher suites, if any
+   */
+  get ciphers (): string | undefined {
+    return this._ciphers
+  }
+
+  /**
+   * Sets the colon-delimited cipher suites, in OpenSSL format, that may be negotiated.
+   * `gRPC` reads the cipher suites from the `GRPC_SSL_CIPHER_SUITES` environment variable
+   * when the first secure channel is created, so they apply to the whole process, and a
+   * {@link Session} configured with different cipher suites once a secure channel has been
+   * created cannot be constructed.  The environment variable is restored once the sessions
+   * that configured it are closed.
+   *
+   * @param value  the colon-delimited cipher suites
+   */
+  set ciphers (value: string | undefined) {
+    if (this.locked) {
+      return
+    }
+    this._ciphers = value
+  }
+
+  /**
+   * Return the interval, in `milliseconds`, at which certificate files are checked for changes.
+   *
+   * @return the interval, in `milliseconds`, at which certificate files are checked for changes
+   */
+  get refreshIntervalInMillis (): number {
+    return this._refreshIntervalInMillis
+  }
+
+  /**
+   * Sets the interval, in `milliseconds`, at which the configured certificate files are checked
+   * for changes.  When a file changes, the session's channels are replaced with channels using the
+   * new certificates, without closing the session; requests in progress complete on the old channels.
+   *
+   * @param value  the interval, in `milliseconds`, at which certificate files are checked for
+   *               changes; defaults to `0`, which disables checking
+   */
+  set refreshIntervalInMillis (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._refreshIntervalInMillis = Math.max(value, 0)
+  }
+
   /**
    * Return the defined gRPC channel options.
    */
@@ -372,117 +712,1331 @@ export class TlsOptions {
 }
 
 /**
- * Session represents a logical connection to an endpoint. It also
- * acts as a factory for creating caches.
- *
- * This class also extends EventEmitter and emits the following
- * events:
- * 1. {@link MapLifecycleEvent.DESTROYED}: when the underlying cache is destroyed
- * 2. {@link MapLifecycleEvent.TRUNCATED}: When the underlying cache is truncated
- * 3. {@link MapLifecycleEvent.RELEASED}: When the underlying cache is released
+ * A token supplied by an {@link AuthOptions.tokenProvider}, and optionally the time it expires.
  */
-export class Session
-  extends EventEmitter {
+export interface AuthToken {
   /**
-   * The default target address to connect to Coherence gRPC server.
+   * The bearer token.
    */
-  public static readonly DEFAULT_ADDRESS = 'localhost:1408'
+  token: string
 
   /**
-   * The default request timeout.
+   * The time the token expires, as a `Date` or in `milliseconds` since the epoch.  If not
+   * specified, the token is cached for {@link AuthOptions.tokenTtlInMillis}.
    */
-  public static readonly DEFAULT_REQUEST_TIMEOUT = 60000
+  expiresAt?: Date | number
+}
 
+/**
+ * Options specific to the authentication of requests.  The credentials are sent, as the
+ * `authorization` header, with each request using `gRPC` call credentials, which require
+ * TLS to be enabled.
+ *
+ * Exactly one of a static `token`, a `tokenProvider`, or a `username` (with `password`) may be configured.
+ */
+export class AuthOptions {
   /**
-   * The default scope.
+   * If `true`, prevents further mutations to the options.
    */
-  public static readonly DEFAULT_SCOPE = ''
+  private locked: boolean = false
 
   /**
-   * The default serialization format: 'json'
+   * A static bearer token.
    */
-  public static readonly DEFAULT_FORMAT = 'json'
+  private _token?: string
 
   /**
-   * Flag indicating if {@link close} has been invoked.
+   * A function supplying bearer tokens.
    */
-  private markedForClose: boolean = false
+  private _tokenProvider?: () => string | AuthToken | Promise<string | AuthToken>
 
   /**
-   * Flag indicating the session has been closed.
+   * The basic authentication user name.
    */
-  private _closed: boolean = false
+  private _username?: string
 
   /**
-   * An internal cache using a composite key based on the cache name and serialization
-   * format allowing the same cache instance to be used with different serialization formats.
-   * that the keys are of the form <cache_name>:<serialization_format>.
+   * The basic authentication password.
    */
-  private caches = new Map<string, NamedCacheClient>()
+  private _password?: string
 
   /**
-   * The {@link Options} used to create this {@link Session}.
+   * The time, in `milliseconds`, a supplied token that does not declare its expiry is cached for.
    */
-  private readonly _sessionOptions: Options
+  private _tokenTtlInMillis: number = 300000
 
   /**
-   * The gRPC ChannelCredentials to use.
+   * The time, in `milliseconds`, before a supplied token expires that a new token is requested.
    */
-  private readonly _channelCredentials: ChannelCredentials
+  private _refreshAheadInMillis: number = 30000
 
   /**
-   * The gRPC Channel to use for all the {@link NamedCacheClient} that are created by this {@link Session}.
+   * Returns `true` if any credentials are configured.
+   *
+   * @return `true` if any credentials are configured
    */
-  private readonly _channel: Channel
+  get enabled (): boolean {
+    return this._token !== undefined || this._tokenProvider !== undefined || this._username !== undefined
+  }
 
   /**
-   * The set of options to use while creating a gRPC Channel.
+   * Returns the static bearer token.
+   *
+   * @return the static bearer token
    */
-  private readonly _channelOptions: { [key: string]: string | number } = {}
+  get token (): string | undefined {
+    return this._token
+  }
 
   /**
-   * The set of options to use while creating a {@link NamedCacheClient}.
+   * Set a static bearer token sent with every request.
+   *
+   * @param value  the static bearer token
    */
-  private readonly _clientOptions: object = {}
+  set token (value: string | undefined) {
+    if (this.locked) {
+      return
+    }
+    this._token = value
+  }
 
   /**
-   * Promise that will resolve once the session has been closed.
+   * Returns the function supplying bearer tokens.
+   *
+   * @return the function supplying bearer tokens
    */
-  private readonly sessionClosedPromise: Promise<boolean>
+  get tokenProvider (): (() => string | AuthToken | Promise<string | AuthToken>) | undefined {
+    return this._tokenProvider
+  }
 
   /**
-   * Construct a new `Session` based on the provided {@link Options}.
+   * Set the function supplying bearer tokens.  Supplied tokens are cached until they expire,
+   * and a new token is requested in the background once a token is within
+   * {@link refreshAheadInMillis} of expiring.
    *
-   * @param sessionOptions  the {@link Options}
+   * @param value  the function supplying bearer tokens, either as a `string` or
+   *               an {@link AuthToken}, or a `Promise` of either
    */
-  constructor (sessionOptions?: Options | object) {
-    super()
-    if (sessionOptions) {
-      this._sessionOptions = Object.assign(new Options(), sessionOptions)
-      // @ts-ignore  -- added for 'tls' index access
-      this._sessionOptions.tls = Object.assign(new TlsOptions(), sessionOptions['tls'])
-    } else {
-      this._sessionOptions = new Options()
+  set tokenProvider (value: (() => string | AuthToken | Promise<string | AuthToken>) | undefined) {
+    if (this.locked) {
+      return
     }
+    this._tokenProvider = value
+  }
 
-    // If TLS is enabled then create a SSL channel credentials object.
-    this._channelCredentials = this.options.tls.enabled
-      ? credentials.createSsl(Session.readFile('caCert', this.options.tls.caCertPath),
-        Session.readFile('clientKey', this.options.tls.clientKeyPath),
-        Session.readFile('clientCert', this.options.tls.clientCertPath))
-      : credentials.createInsecure()
-
-    this._channel = new Channel(this.options.address, this.channelCredentials, this._channelOptions)
+  /**
+   * Returns the basic authentication user name.
+   *
+   * @return the basic authentication user name
+   */
+  get username (): string | undefined {
+    return this._username
+  }
 
-    // channel will now be shared by all caches created by this session
-    this._clientOptions = {
-      channelOverride: this._channel
+  /**
+   * Set the basic authentication user name.
+   *
+   * @param value  the basic authentication user name
+   */
+  set username (value: string | undefined) {
+    if (this.locked) {
+      return
     }
+    this._username = value
+  }
 
-    this.sessionClosedPromise = new Promise((resolve) => {
-      const self = this
-      const handler = function () {
-        if (self.markedForClose && self.caches.size == 0) {
+  /**
+   * Returns the basic authentication password.
+   *
+   * @return the basic authentication password
+   */
+  get password (): string | undefined {
+    return this._password
+  }
+
+  /**
+   * Set the basic authentication password.
+   *
+   * @param value  the basic authentication password
+   */
+  set password (value: string | undefined) {
+    if (this.locked) {
+      return
+    }
+    this._password = value
+  }
+
+  /**
+   * Returns the time, in `milliseconds`, a supplied token that does not declare its expiry is cached for.
+   *
+   * @return the time, in `milliseconds`, a supplied token that does not declare its expiry is cached for
+   */
+  get tokenTtlInMillis (): number {
+    return this._tokenTtlInMillis
+  }
+
+  /**
+   * Set the time, in `milliseconds`, a supplied token that does not declare its expiry is cached for.
+   *
+   * @param value  the time, in `milliseconds`, a supplied token that does not declare its
+   *               expiry is cached for; defaults to `300000`
+   */
+  set tokenTtlInMillis (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._tokenTtlInMillis = Math.max(value, 0)
+  }
+
+  /**
+   * Returns the time, in `milliseconds`, before a supplied token expires that a new token is requested.
+   *
+   * @return the time, in `milliseconds`, before a supplied token expires that a new token is requested
+   */
+  get refreshAheadInMillis (): number {
+    return this._refreshAheadInMillis
+  }
+
+  /**
+   * Set the time, in `milliseconds`, before a supplied token expires that a new token is requested.
+   *
+   * @param value  the time, in `milliseconds`, before a supplied token expires that a new
+   *               token is requested; defaults to `30000`
+   */
+  set refreshAheadInMillis (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._refreshAheadInMillis = Math.max(value, 0)
+  }
+
+  /**
+   * Once called, no further mutations can be made.
+   * @hidden
+   */
+  lock (): void {
+    this.locked = true
+  }
+}
+
+/**
+ * Produces the `authorization` header value for requests based on the configured {@link AuthOptions}.
+ *
+ * @internal
+ */
+export class Authenticator {
+  /**
+   * The authentication options.
+   */
+  protected readonly options: AuthOptions
+
+  /**
+   * The header value for the last token supplied by the token provider, and when it should be refreshed.
+   */
+  private cached?: { value: string, refreshAt: number, expiresAt: number }
+
+  /**
+   * The outstanding request to the token provider, if any.
+   */
+  private pending?: Promise<string>
+
+  /**
+   * Constructs a new `Authenticator`.
+   *
+   * @param options  the authentication options
+   */
+  constructor (options: AuthOptions) {
+    const configured = [options.token, options.tokenProvider, options.username].filter(v => v !== undefined)
+    if (configured.length > 1) {
+      throw new Error('Only one of token, tokenProvider or username may be configured')
+    }
+    this.options = options
+  }
+
+  /**
+   * Return the `authorization` header value for the next request.
+   *
+   * @return a `Promise` resolving to the `authorization` header value
+   */
+  authorization (): Promise<string> {
+    const options = this.options
+    if (options.token !== undefined) {
+      return Promise.resolve('Bearer ' + options.token)
+    }
+    if (options.username !== undefined) {
+      return Promise.resolve('Basic ' + Buffer.from(options.username + ':' + (options.password || '')).toString('base64'))
+    }
+
+    const now = Date.now()
+    const cached = this.cached
+    if (cached && now < cached.expiresAt) {
+      if (now >= cached.refreshAt) {
+        this.refresh().catch(() => {}) // continue to use the cached token until it expires
+      }
+      return Promise.resolve(cached.value)
+    }
+    return this.refresh()
+  }
+
+  /**
+   * Return the `gRPC` call credentials attaching the `authorization` header to each request.
+   *
+   * @return the `gRPC` call credentials
+   */
+  callCredentials (): CallCredentials {
+    return credentials.createFromMetadataGenerator((params, callback) => {
+      this.authorization().then(value => {
+        const metadata = new Metadata()
+        metadata.set('authorization', value)
+        callback(null, metadata)
+      }, err => callback(err))
+    })
+  }
+
+  /**
+   * Request a new token from the token provider, unless a request is already outstanding.
+   *
+   * @return a `Promise` resolving to the `authorization` header value for the new token
+   */
+  private refresh (): Promise<string> {
+    const self = this
+    if (!self.pending) {
+      const provider = self.options.tokenProvider as () => string | AuthToken | Promise<string | AuthToken>
+      self.pending = Promise.resolve().then(provider).then(result => {
+        self.pending = undefined
+        const token = typeof result === 'string' ? { token: result } as AuthToken : result
+        if (!token || !token.token) {
+          throw new Error('tokenProvider did not supply a token')
+        }
+        const expiresAt = token.expiresAt === undefined
+          ? Date.now() + self.options.tokenTtlInMillis
+          : token.expiresAt instanceof Date ? token.expiresAt.getTime() : token.expiresAt
+        self.cached = {
+          value: 'Bearer ' + token.token,
+          refreshAt: expiresAt - self.options.refreshAheadInMillis,
+          expiresAt: expiresAt
+        }
+        return self.cached.value
+      }, err => {
+        self.pending = undefined
+        throw err
+      })
+    }
+    return self.pending
+  }
+}
+
+/**
+ * Options controlling how a cache's event stream is re-established after the
+ * connection to the proxy has been lost.
+ */
+export class ReconnectOptions {
+  /**
+   * If `true`, prevents further mutations to the options.
+   */
+  private locked: boolean = false
+
+  /**
+   * Enable/disable automatic reconnection.
+   */
+  private _enabled: boolean = true
+
+  /**
+   * The delay, in `milliseconds`, before the first reconnection attempt.
+   */
+  private _initialDelayInMillis: number = 250
+
+  /**
+   * The upper bound, in `milliseconds`, of the delay between reconnection attempts.
+   */
+  private _maxDelayInMillis: number = 30000
+
+  /**
+   * The factor by which the delay grows after each failed attempt.
+   */
+  private _multiplier: number = 2
+
+  /**
+   * The maximum number of consecutive reconnection attempts.
+   */
+  private _maxAttempts: number = Number.POSITIVE_INFINITY
+
+  /**
+   * Returns `true` if lost event streams will be automatically re-established.
+   *
+   * @return `true` if lost event streams will be automatically re-established
+   */
+  get enabled (): boolean {
+    return this._enabled
+  }
+
+  /**
+   * Enables/disables automatic reconnection.
+   *
+   * @param value  `true` to enable reconnection (default), otherwise `false`
+   */
+  set enabled (value: boolean) {
+    if (this.locked) {
+      return
+    }
+    this._enabled = value
+  }
+
+  /**
+   * Returns the delay, in `milliseconds`, before the first reconnection attempt.
+   *
+   * @return the delay, in `milliseconds`, before the first reconnection attempt
+   */
+  get initialDelayInMillis (): number {
+    return this._initialDelayInMillis
+  }
+
+  /**
+   * Set the delay, in `milliseconds`, before the first reconnection attempt.
+   *
+   * @param value  the delay, in `milliseconds`, before the first reconnection attempt
+   */
+  set initialDelayInMillis (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._initialDelayInMillis = Math.max(value, 0)
+  }
+
+  /**
+   * Returns the upper bound, in `milliseconds`, of the delay between reconnection attempts.
+   *
+   * @return the upper bound, in `milliseconds`, of the delay between reconnection attempts
+   */
+  get maxDelayInMillis (): number {
+    return this._maxDelayInMillis
+  }
+
+  /**
+   * Set the upper bound, in `milliseconds`, of the delay between reconnection attempts.
+   *
+   * @param value  the upper bound, in `milliseconds`, of the delay between reconnection attempts
+   */
+  set maxDelayInMillis (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._maxDelayInMillis = Math.max(value, 0)
+  }
+
+  /**
+   * Returns the factor by which the delay grows after each failed attempt.
+   *
+   * @return the factor by which the delay grows after each failed attempt
+   */
+  get multiplier (): number {
+    return this._multiplier
+  }
+
+  /**
+   * Set the factor by which the delay grows after each failed attempt.  Values less than `1` are
+   * treated as `1` (i.e., a constant delay).
+   *
+   * @param value  the factor by which the delay grows after each failed attempt
+   */
+  set multiplier (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._multiplier = Math.max(value, 1)
+  }
+
+  /**
+   * Returns the maximum number of consecutive reconnection attempts.
+   *
+   * @return the maximum number of consecutive reconnection attempts
+   */
+  get maxAttempts (): number {
+    return this._maxAttempts
+  }
+
+  /**
+   * Set the maximum number of consecutive reconnection attempts.  If the value is zero or less,
+   * reconnection will be attempted indefinitely.
+   *
+   * @param value  the maximum number of consecutive reconnection attempts
+   */
+  set maxAttempts (value: number) {
+    if (this.locked) {
+      return
+    }
+    if (value <= 0) {
+      value = Number.POSITIVE_INFINITY
+    }
+    this._maxAttempts = value
+  }
+
+  /**
+   * Return the delay, in `milliseconds`, to wait before making the specified reconnection attempt.
+   *
+   * @param attempt  the attempt number, starting at `1`
+   *
+   * @return the delay, in `milliseconds`, to wait before making the specified reconnection attempt
+   */
+  delayFor (attempt: number): number {
+    const delay = this._initialDelayInMillis * Math.pow(this._multiplier, Math.max(attempt - 1, 0))
+    return Math.min(delay, this._maxDelayInMillis)
+  }
+
+  /**
+   * Once called, no further mutations can be made.
+   * @hidden
+   */
+  lock (): void {
+    this.locked = true
+  }
+}
+
+/**
+ * Options controlling how requests that fail with a transient error are retried.
+ * Retries are applied to read operations by default; mutating operations are only
+ * retried if {@link retryMutations} is enabled, as a request that failed may
+ * nonetheless have been applied by the server.
+ */
+export class RetryOptions {
+  /**
+   * If `true`, prevents further mutations to the options.
+   */
+  private locked: boolean = false
+
+  /**
+   * Enable/disable retries.
+   */
+  private _enabled: boolean = true
+
+  /**
+   * The maximum number of attempts, including the first, made for a request.
+   */
+  private _maxAttempts: number = 3
+
+  /**
+   * The delay, in `milliseconds`, before the first retry.
+   */
+  private _initialDelayInMillis: number = 100
+
+  /**
+   * The upper bound, in `milliseconds`, of the delay between attempts.
+   */
+  private _maxDelayInMillis: number = 5000
+
+  /**
+   * The factor by which the delay grows after each failed attempt.
+   */
+  private _multiplier: number = 2
+
+  /**
+   * The fraction of each delay that is randomized.
+   */
+  private _jitter: number = 0.2
+
+  /**
+   * The gRPC status codes for which a request will be retried.
+   */
+  private _retryableStatusCodes: Array<number> = [status.UNAVAILABLE, status.DEADLINE_EXCEEDED]
+
+  /**
+   * Enable/disable retrying of mutating operations.
+   */
+  private _retryMutations: boolean = false
+
+  /**
+   * Returns `true` if failed requests will be retried.
+   *
+   * @return `true` if failed requests will be retried
+   */
+  get enabled (): boolean {
+    return this._enabled
+  }
+
+  /**
+   * Enables/disables retries.
+   *
+   * @param value  `true` to enable retries (default), otherwise `false`
+   */
+  set enabled (value: boolean) {
+    if (this.locked) {
+      return
+    }
+    this._enabled = value
+  }
+
+  /**
+   * Returns the maximum number of attempts, including the first, made for a request.
+   *
+   * @return the maximum number of attempts made for a request
+   */
+  get maxAttempts (): number {
+    return this._maxAttempts
+  }
+
+  /**
+   * Set the maximum number of attempts, including the first, made for a request.  Values
+   * less than `1` are treated as `1` (i.e., no retries).
+   *
+   * @param value  the maximum number of attempts made for a request
+   */
+  set maxAttempts (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._maxAttempts = Math.max(value, 1)
+  }
+
+  /**
+   * Returns the delay, in `milliseconds`, before the first retry.
+   *
+   * @return the delay, in `milliseconds`, before the first retry
+   */
+  get initialDelayInMillis (): number {
+    return this._initialDelayInMillis
+  }
+
+  /**
+   * Set the delay, in `milliseconds`, before the first retry.
+   *
+   * @param value  the delay, in `milliseconds`, before the first retry
+   */
+  set initialDelayInMillis (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._initialDelayInMillis = Math.max(value, 0)
+  }
+
+  /**
+   * Returns the upper bound, in `milliseconds`, of the delay between attempts.
+   *
+   * @return the upper bound, in `milliseconds`, of the delay between attempts
+   */
+  get maxDelayInMillis (): number {
+    return this._maxDelayInMillis
+  }
+
+  /**
+   * Set the upper bound, in `milliseconds`, of the delay between attempts.
+   *
+   * @param value  the upper bound, in `milliseconds`, of the delay between attempts
+   */
+  set maxDelayInMillis (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._maxDelayInMillis = Math.max(value, 0)
+  }
+
+  /**
+   * Returns the factor by which the delay grows after each failed attempt.
+   *
+   * @return the factor by which the delay grows after each failed attempt
+   */
+  get multiplier (): number {
+    return this._multiplier
+  }
+
+  /**
+   * Set the factor by which the delay grows after each failed attempt.  Values less than `1` are
+   * treated as `1` (i.e., a constant delay).
+   *
+   * @param value  the factor by which the delay grows after each failed attempt
+   */
+  set multiplier (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._multiplier = Math.max(value, 1)
+  }
+
+  /**
+   * Returns the fraction of each delay that is randomized.
+   *
+   * @return the fraction of each delay that is randomized
+   */
+  get jitter (): number {
+    return this._jitter
+  }
+
+  /**
+   * Set the fraction of each delay that is randomized, between `0` (no jitter) and `1`.  A
+   * jitter of `0.2` results in delays between 80% and 100% of the computed backoff, spreading
+   * the retries of clients that failed at the same time.
+   *
+   * @param value  the fraction of each delay that is randomized
+   */
+  set jitter (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._jitter = Math.min(Math.max(value, 0), 1)
+  }
+
+  /**
+   * Returns the gRPC status codes for which a request will be retried.
+   *
+   * @return the gRPC status codes for which a request will be retried
+   */
+  get retryableStatusCodes (): Array<number> {
+    return this._retryableStatusCodes
+  }
+
+  /**
+   * Set the gRPC status codes for which a request will be retried.
+   *
+   * @param value  the gRPC status codes for which a request will be retried
+   */
+  set retryableStatusCodes (value: Array<number>) {
+    if (this.locked) {
+      return
+    }
+    this._retryableStatusCodes = Array.from(value)
+  }
+
+  /**
+   * Returns `true` if mutating operations will be retried.
+   *
+   * @return `true` if mutating operations will be retried
+   */
+  get retryMutations (): boolean {
+    return this._retryMutations
+  }
+
+  /**
+   * Enables/disables retrying of mutating operations, such as `set`, `delete` and `invoke`.
+   *
+   * @param value  `true` to retry mutating operations, otherwise `false` (default)
+   */
+  set retryMutations (value: boolean) {
+    if (this.locked) {
+      return
+    }
+    this._retryMutations = value
+  }
+
+  /**
+   * Returns `true` if a request that failed with the specified error should be retried.
+   *
+   * @param err  the error the request failed with
+   *
+   * @return `true` if a request that failed with the specified error should be retried
+   */
+  isRetryable (err: any): boolean {
+    return err != null && this._retryableStatusCodes.indexOf(err.code) >= 0
+  }
+
+  /**
+   * Return the delay, in `milliseconds`, to wait after the specified failed attempt.
+   *
+   * @param attempt  the attempt number, starting at `1`
+   *
+   * @return the delay, in `milliseconds`, to wait after the specified failed attempt
+   */
+  delayFor (attempt: number): number {
+    const delay = Math.min(this._initialDelayInMillis * Math.pow(this._multiplier, Math.max(attempt - 1, 0)),
+      this._maxDelayInMillis)
+    return delay * (1 - this._jitter * Math.random())
+  }
+
+  /**
+   * Once called, no further mutations can be made.
+   * @hidden
+   */
+  lock (): void {
+    this.locked = true
+  }
+}
+
+/**
+ * The policies available for balancing requests across the proxies of a {@link Session}.
+ */
+export enum LoadBalancingPolicy {
+  /**
+   * Send all requests to the first healthy proxy, in the order the addresses were configured.
+   */
+  PICK_FIRST = 'pick_first',
+
+  /**
+   * Rotate requests across all healthy proxies.
+   */
+  ROUND_ROBIN = 'round_robin'
+}
+
+/**
+ * Options controlling how requests are balanced across multiple proxy addresses and
+ * how long a proxy that has failed is excluded from selection.
+ */
+export class LoadBalancingOptions {
+  /**
+   * If `true`, prevents further mutations to the options.
+   */
+  private locked: boolean = false
+
+  /**
+   * The load balancing policy.
+   */
+  private _policy: LoadBalancingPolicy = LoadBalancingPolicy.PICK_FIRST
+
+  /**
+   * The time, in `milliseconds`, a proxy that has failed is excluded from selection.
+   */
+  private _ejectionTimeInMillis: number = 10000
+
+  /**
+   * Returns the load balancing policy.
+   *
+   * @return the load balancing policy
+   */
+  get policy (): LoadBalancingPolicy {
+    return this._policy
+  }
+
+  /**
+   * Set the load balancing policy.  This policy is applied both across the configured
+   * addresses and across the addresses a single host name resolves to.
+   *
+   * @param value  the load balancing policy; defaults to {@link LoadBalancingPolicy.PICK_FIRST}
+   */
+  set policy (value: LoadBalancingPolicy) {
+    if (this.locked) {
+      return
+    }
+    if (value !== LoadBalancingPolicy.PICK_FIRST && value !== LoadBalancingPolicy.ROUND_ROBIN) {
+      throw new Error('Unsupported load balancing policy: ' + value)
+    }
+    this._policy = value
+  }
+
+  /**
+   * Returns the time, in `milliseconds`, a proxy that has failed is excluded from selection.
+   *
+   * @return the time, in `milliseconds`, a proxy that has failed is excluded from selection
+   */
+  get ejectionTimeInMillis (): number {
+    return this._ejectionTimeInMillis
+  }
+
+  /**
+   * Set the time, in `milliseconds`, a proxy that has failed is excluded from selection.
+   *
+   * @param value  the time, in `milliseconds`, a proxy that has failed is excluded from selection
+   */
+  set ejectionTimeInMillis (value: number) {
+    if (this.locked) {
+      return
+    }
+    this._ejectionTimeInMillis = Math.max(value, 0)
+  }
+
+  /**
+   * Once called, no further mutations can be made.
+   * @hidden
+   */
+  lock (): void {
+    this.locked = true
+  }
+}
+
+/**
+ * Options controlling the OpenTelemetry spans emitted for the requests made, and the
+ * events received, by the caches of a {@link Session}.
+ */
+export class TracingOptions {
+  /**
+   * If `true`, prevents further mutations to the options.
+   */
+  private locked: boolean = false
+
+  /**
+   * Flag indicating whether spans are emitted.
+   */
+  private _enabled: boolean = true
+
+  /**
+   * The provider of the tracer used to emit spans, if not the globally registered provider.
+   */
+  private _tracerProvider?: TracerProvider
+
+  /**
+   * Returns `true` if spans are emitted.
+   *
+   * @return `true` if spans are emitted
+   */
+  get enabled (): boolean {
+    return this._enabled
+  }
+
+  /**
+   * Enable or disable the emission of spans.  When no OpenTelemetry SDK has been
+   * registered, spans are not recorded regardless of this setting.
+   *
+   * @param value  `true` to emit spans; defaults to `true`
+   */
+  set enabled (value: boolean) {
+    if (this.locked) {
+      return
+    }
+    this._enabled = value
+  }
+
+  /**
+   * Returns the provider of the tracer used to emit spans, if not the globally registered provider.
+   *
+   * @return the provider of the tracer used to emit spans, or `undefined` if the
+   *         globally registered provider is used
+   */
+  get tracerProvider (): TracerProvider | undefined {
+    return this._tracerProvider
+  }
+
+  /**
+   * Set the provider of the tracer used to emit spans.
+   *
+   * @param value  the provider of the tracer used to emit spans; defaults to the
+   *               globally registered provider
+   */
+  set tracerProvider (value: TracerProvider | undefined) {
+    if (this.locked) {
+      return
+    }
+    this._tracerProvider = value
+  }
+
+  /**
+   * Once called, no further mutations can be made.
+   * @hidden
+   */
+  lock (): void {
+    this.locked = true
+  }
+}
+
+/**
+ * A proxy channel managed by a {@link ChannelPool}.
+ */
+interface PooledChannel {
+  /**
+   * The address of the proxy.
+   */
+  readonly address: string
+
+  /**
+   * The `gRPC` Channel to the proxy.
+   */
+  channel: Channel
+
+  /**
+   * The time, in `milliseconds` since the epoch, until which the channel is excluded from selection.
+   */
+  ejectedUntil: number
+}
+
+/**
+ * The `gRPC` Channels to each of the proxy addresses of a {@link Session}.
+ *
+ * A channel is considered unhealthy while it has been ejected following a failed
+ * request, or while `gRPC` reports it as failing to connect.  If no channel is healthy,
+ * the channels that have not been ejected, or failing that all channels, are candidates
+ * for selection so requests continue to be attempted.
+ */
+class ChannelPool {
+  /**
+   * The pooled channels, in the order the addresses were configured.
+   */
+  private readonly members: PooledChannel[]
+
+  /**
+   * The index of the next round-robin selection.
+   */
+  private next: number = 0
+
+  /**
+   * The options each channel is created with.
+   */
+  private readonly channelOptions: { [key: string]: string | number }
+
+  /**
+   * The listener passed to {@link watch}, if any.
+   */
+  private listener?: (address: string, previous: connectivityState, current: connectivityState) => void
+
+  /**
+   * Create a new pool with a channel for each of the addresses.
+   *
+   * @param addresses       the proxy addresses
+   * @param credentials     the credentials to use for each channel
+   * @param options         the load balancing options
+   * @param channelOptions  additional `gRPC` channel options, if any
+   */
+  constructor (addresses: string[], credentials: ChannelCredentials, protected readonly options: LoadBalancingOptions,
+               channelOptions?: { [key: string]: string | number }) {
+    // gRPC applies the same policy across the addresses a host name resolves to
+    this.channelOptions = Object.assign({}, channelOptions, { 'grpc.lb_policy_name': options.policy })
+    this.members = addresses.map(address => ({
+      address: address,
+      channel: new Channel(address, credentials, this.channelOptions),
+      ejectedUntil: 0
+    }))
+  }
+
+  /**
+   * Return all pooled channels.
+   *
+   * @return all pooled channels
+   */
+  get channels (): Channel[] {
+    return this.members.map(m => m.channel)
+  }
+
+  /**
+   * Select the channel for the next request based on the configured policy.
+   *
+   * @return the channel for the next request
+   */
+  select (): Channel {
+    if (this.members.length == 1) {
+      return this.members[0].channel
+    }
+
+    const now = Date.now()
+    const available = this.members.filter(m => m.ejectedUntil <= now)
+    const healthy = available.filter(m => ChannelPool.isConnectable(m.channel))
+    const candidates = healthy.length > 0 ? healthy : available.length > 0 ? available : this.members
+
+    if (this.options.policy === LoadBalancingPolicy.ROUND_ROBIN) {
+      this.next = (this.next + 1) % Number.MAX_SAFE_INTEGER
+      return candidates[this.next % candidates.length].channel
+    }
+    return candidates[0].channel
+  }
+
+  /**
+   * Exclude the channel from selection for the configured ejection time.
+   *
+   * @param channel  the channel to eject
+   */
+  eject (channel: Channel): void {
+    if (this.members.length == 1) {
+      return
+    }
+    for (const member of this.members) {
+      if (member.channel === channel) {
+        member.ejectedUntil = Date.now() + this.options.ejectionTimeInMillis
+      }
+    }
+  }
+
+  /**
+   * Returns `true` if any pooled channel is connected.
+   *
+   * @return `true` if any pooled channel is connected
+   */
+  get connected (): boolean {
+    return this.members.some(m => ChannelPool.stateOf(m.channel) === connectivityState.READY)
+  }
+
+  /**
+   * Ask each idle pooled channel to connect.
+   */
+  connect (): void {
+    for (const member of this.members) {
+      member.channel.getConnectivityState(true)
+    }
+  }
+
+  /**
+   * Watch the connectivity state of each pooled channel until the channel is shut down.
+   *
+   * @param listener  called with the address of the channel, and its previous and current
+   *                  connectivity states, each time the state of a channel changes
+   */
+  watch (listener: (address: string, previous: connectivityState, current: connectivityState) => void): void {
+    this.listener = listener
+    for (const member of this.members) {
+      ChannelPool.watchChannel(member, member.channel, ChannelPool.stateOf(member.channel), listener)
+    }
+  }
+
+  /**
+   * Replace each pooled channel with a new channel, to the same address, using the specified
+   * credentials.  The new channels are asked to connect, and the replaced channels are closed;
+   * calls in progress on the replaced channels are allowed to complete.
+   *
+   * @param credentials  the credentials to use for the new channels
+   */
+  replace (credentials: ChannelCredentials): void {
+    for (const member of this.members) {
+      const replaced = member.channel
+      member.channel = new Channel(member.address, credentials, this.channelOptions)
+      if (this.listener) {
+        ChannelPool.watchChannel(member, member.channel, ChannelPool.stateOf(member.channel), this.listener)
+      }
+      member.channel.getConnectivityState(true)
+      replaced.close()
+    }
+  }
+
+  /**
+   * Close all pooled channels.
+   */
+  close (): void {
+    for (const member of this.members) {
+      member.channel.close()
+    }
+  }
+
+  /**
+   * Returns `true` if `gRPC` does not report the channel as failing.  Idle channels
+   * will be asked to connect.
+   *
+   * @param channel  the channel to check
+   *
+   * @return `true` if `gRPC` does not report the channel as failing
+   */
+  private static isConnectable (channel: Channel): boolean {
+    const state = channel.getConnectivityState(true)
+    return state !== connectivityState.TRANSIENT_FAILURE && state !== connectivityState.SHUTDOWN
+  }
+
+  /**
+   * Return the connectivity state of the channel, without asking it to connect.
+   *
+   * @param channel  the channel
+   *
+   * @return the connectivity state of the channel
+   */
+  private static stateOf (channel: Channel): connectivityState {
+    try {
+      return channel.getConnectivityState(false)
+    } catch (err) {
+      return connectivityState.SHUTDOWN // the channel has been closed
+    }
+  }
+
+  /**
+   * Watch the connectivity state of the channel of the pooled channel, from the specified state,
+   * until the channel is shut down or replaced.
+   *
+   * @param member    the pooled channel
+   * @param channel   the channel to watch
+   * @param state     the last known state of the channel
+   * @param listener  called with the address of the channel, and its previous and current connectivity states
+   */
+  private static watchChannel (member: PooledChannel, channel: Channel, state: connectivityState,
+                               listener: (address: string, previous: connectivityState, current: connectivityState) => void): void {
+    if (state === connectivityState.SHUTDOWN) {
+      return
+    }
+    try {
+      channel.watchConnectivityState(state, Infinity, () => {
+        if (member.channel !== channel) {
+          return // the channel has been replaced
+        }
+        const current = ChannelPool.stateOf(channel)
+        if (current !== state) {
+          listener(member.address, state, current)
+        }
+        ChannelPool.watchChannel(member, channel, current, listener)
+      })
+    } catch (err) {
+      // the channel has been closed
+    }
+  }
+}
+
+/**
+ * Session represents a logical connection to an endpoint. It also
+ * acts as a factory for creating caches.
+ *
+ * This class also extends EventEmitter and emits the following
+ * events:
+ * 1. {@link MapLifecycleEvent.DESTROYED}: when the underlying cache is destroyed
+ * 2. {@link MapLifecycleEvent.TRUNCATED}: When the underlying cache is truncated
+ * 3. {@link MapLifecycleEvent.RELEASED}: When the underlying cache is released
+ */
+export class Session
+  extends EventEmitter {
+  /**
+   * The default target address to connect to Coherence gRPC server.
+   */
+  public static readonly DEFAULT_ADDRESS = 'localhost:1408'
+
+  /**
+   * The default request timeout.
+   */
+  public static readonly DEFAULT_REQUEST_TIMEOUT = 60000
+
+  /**
+   * The default scope.
+   */
+  public static readonly DEFAULT_SCOPE = ''
+
+  /**
+   * The default serialization format: 'json'
+   */
+  public static readonly DEFAULT_FORMAT = 'json'
+
+  /**
+   * The cipher suites `gRPC` read when the first secure channel of the process was created,
+   * `null` if none were configured then, or `undefined` if no secure channel has been created.
+   */
+  private static channelCiphers?: string | null
+
+  /**
+   * The number of open sessions that configured the `GRPC_SSL_CIPHER_SUITES` environment variable.
+   */
+  private static cipherSessions = 0
+
+  /**
+   * The value of the `GRPC_SSL_CIPHER_SUITES` environment variable before it was configured
+   * by the first of the open sessions.
+   */
+  private static previousCiphers?: string
+
+  /**
+   * Flag indicating if {@link close} has been invoked.
+   */
+  private markedForClose: boolean = false
+
+  /**
+   * Flag indicating this session configured the `GRPC_SSL_CIPHER_SUITES` environment variable.
+   */
+  private configuredCiphers: boolean = false
+
+  /**
+   * Flag indicating the session has been closed.
+   */
+  private _closed: boolean = false
+
+  /**
+   * An internal cache using a composite key based on the cache name and serialization
+   * format allowing the same cache instance to be used with different serialization formats.
+   * that the keys are of the form <cache_name>:<serialization_format>.
+   */
+  private caches = new Map<string, NamedCacheClient>()
+
+  /**
+   * The near caches fronting the caches created by this session, keyed the same as `caches`.
+   */
+  private nearCaches = new Map<string, NearCache>()
+
+  /**
+   * The {@link Options} used to create this {@link Session}.
+   */
+  private readonly _sessionOptions: Options
+
+  /**
+   * The gRPC ChannelCredentials to use.
+   */
+  private _channelCredentials: ChannelCredentials
+
+  /**
+   * Produces the `authorization` header sent with each request, if authentication is configured.
+   */
+  private readonly authenticator: Authenticator
+
+  /**
+   * The certificate files checked for changes.
+   */
+  private readonly certificateFiles: PathLike[] = []
+
+  /**
+   * The pending rotation of the certificates, following a change to a certificate file.
+   */
+  private rotation?: NodeJS.Timeout
+
+  /**
+   * The gRPC Channels, one per configured address, shared by all the {@link NamedCacheClient}
+   * that are created by this {@link Session}.
+   */
+  private readonly _channels: ChannelPool
+
+  /**
+   * Promise that will resolve once the session has been closed.
+   */
+  private readonly sessionClosedPromise: Promise<boolean>
+
+  /**
+   * The {@link util.SerializerRegistry} for this session.
+   */
+  private readonly _serializers = new util.SerializerRegistry(util.SerializerRegistry.instance())
+
+  /**
+   * The {@link interceptor.InterceptorChain} applied to requests made by the caches of this session.
+   */
+  private readonly _interceptors = new interceptor.InterceptorChain()
+
+  /**
+   * The {@link tracing.RequestTracer} emitting spans for the requests made, and events
+   * received, by the caches of this session.
+   */
+  private readonly _tracer: tracing.RequestTracer
+
+  /**
+   * The {@link metrics.SessionMetrics} of the caches of this session.
+   */
+  private readonly _metrics = new metrics.SessionMetrics()
+
+  /**
+   * The addresses of the proxies a channel of this session has connected to.
+   */
+  private readonly connectedAddresses = new Set<string>()
+
+  /**
+   * Construct a new `Session` based on the provided {@link Options}.
+   *
+   * @param sessionOptions  the {@link Options}
+   */
+  constructor (sessionOptions?: Options | object) {
+    super()
+    if (sessionOptions) {
+      this._sessionOptions = Object.assign(new Options(), sessionOptions)
+      // @ts-ignore  -- added for 'tls' index access
+      this._sessionOptions.tls = Object.assign(new TlsOptions(), sessionOptions['tls'])
+      // @ts-ignore  -- added for 'reconnect' index access
+      this._sessionOptions.reconnect = Object.assign(new ReconnectOptions(), sessionOptions['reconnect'])
+      // @ts-ignore  -- added for 'retry' index access
+      this._sessionOptions.retry = Object.assign(new RetryOptions(), sessionOptions['retry'])
+      // @ts-ignore  -- added for 'loadBalancing' index access
+      this._sessionOptions.loadBalancing = Object.assign(new LoadBalancingOptions(), sessionOptions['loadBalancing'])
+      // @ts-ignore  -- added for 'tracing' index access
+      this._sessionOptions.tracing = Object.assign(new TracingOptions(), sessionOptions['tracing'])
+      // @ts-ignore  -- added for 'auth' index access
+      this._sessionOptions.auth = Object.assign(new AuthOptions(), sessionOptions['auth'])
+    } else {
+      this._sessionOptions = new Options()
+    }
+
+    // gRPC will only send call credentials over a secure channel
+    this.authenticator = new Authenticator(this.options.auth)
+    if (this.options.auth.enabled && !this.options.tls.enabled) {
+      throw new Error('Authentication requires TLS to be enabled')
+    }
+
+    this._channelCredentials = this.createCredentials()
+    this._tracer = new tracing.RequestTracer(this.options.tracing)
+
+    // channels will now be shared by all caches created by this session
+    this.configureCiphers()
+    try {
+      this._channels = new ChannelPool(this.options.addresses, this.channelCredentials, this.options.loadBalancing,
+        Session.channelOptionsOf(this.options.tls))
+    } catch (e) {
+      this.restoreCiphers()
+      throw e
+    }
+    if (this.options.tls.enabled && Session.channelCiphers === undefined) {
+      Session.channelCiphers = process.env.GRPC_SSL_CIPHER_SUITES || null
+    }
+    this._channels.watch((address, previous, current) => this.onConnectivityChange(address, previous, current))
+    this.watchCertificates()
+
+    this.sessionClosedPromise = new Promise((resolve) => {
+      const self = this
+      const handler = function () {
+        if (self.markedForClose && self.caches.size == 0) {
           self._closed = true
           resolve(true)
         }
@@ -495,16 +2049,228 @@ export class Session
   }
 
   /**
-   * An internal method to read a cert file given its path.
+   * Configure the `GRPC_SSL_CIPHER_SUITES` environment variable with the TLS cipher suites, if any.
+   * `gRPC` reads the cipher suites from the environment only when the first secure channel of the
+   * process is created, so cipher suites differing from those it read are rejected.
+   */
+  private configureCiphers (): void {
+    const ciphers = this.options.tls.enabled ? this.options.tls.ciphers : undefined
+    if (!ciphers) {
+      return
+    }
+    if (Session.channelCiphers !== undefined && Session.channelCiphers !== ciphers) {
+      throw new Error('TLS ciphers cannot take effect as a secure channel has already been created with '
+        + (Session.channelCiphers ? 'the cipher suites ' + Session.channelCiphers : 'the default cipher suites'))
+    }
+    const configured = process.env.GRPC_SSL_CIPHER_SUITES
+    if (configured && configured !== ciphers) {
+      throw new Error('TLS ciphers conflict with the GRPC_SSL_CIPHER_SUITES environment variable')
+    }
+    if (Session.cipherSessions++ === 0) {
+      Session.previousCiphers = configured
+    }
+    process.env.GRPC_SSL_CIPHER_SUITES = ciphers
+    this.configuredCiphers = true
+  }
+
+  /**
+   * Restore the `GRPC_SSL_CIPHER_SUITES` environment variable once the last of the open sessions
+   * that configured it no longer needs it.
+   */
+  private restoreCiphers (): void {
+    if (!this.configuredCiphers) {
+      return
+    }
+    this.configuredCiphers = false
+    if (--Session.cipherSessions === 0) {
+      if (Session.previousCiphers === undefined) {
+        delete process.env.GRPC_SSL_CIPHER_SUITES
+      } else {
+        process.env.GRPC_SSL_CIPHER_SUITES = Session.previousCiphers
+      }
+    }
+  }
+
+  /**
+   * Emit the {@link event.SessionLifecycleEvent} corresponding to a change in the connectivity
+   * state of a channel.  No events are emitted once the session has been closed.
+   *
+   * @param address   the address of the proxy of the channel
+   * @param previous  the previous connectivity state of the channel
+   * @param current   the current connectivity state of the channel
+   */
+  private onConnectivityChange (address: string, previous: connectivityState, current: connectivityState): void {
+    if (this.markedForClose) {
+      return
+    }
+    if (previous === connectivityState.READY) {
+      this.emit(event.SessionLifecycleEvent.DISCONNECTED, address)
+    }
+    switch (current) {
+      case connectivityState.CONNECTING:
+        this.emit(event.SessionLifecycleEvent.CONNECTING, address)
+        break
+      case connectivityState.READY:
+        this.emit(this.connectedAddresses.has(address)
+          ? event.SessionLifecycleEvent.RECONNECTED
+          : event.SessionLifecycleEvent.CONNECTED, address)
+        this.connectedAddresses.add(address)
+        break
+      case connectivityState.TRANSIENT_FAILURE:
+        this.emit(event.SessionLifecycleEvent.TRANSIENT_FAILURE, address)
+        break
+    }
+  }
+
+  /**
+   * Create the channel credentials, using the current contents of the certificate files, if TLS
+   * is enabled, and composed with the call credentials, if authentication is configured.
+   *
+   * @return the channel credentials
+   */
+  private createCredentials (): ChannelCredentials {
+    const tls = this.options.tls
+    if (!tls.enabled) {
+      return credentials.createInsecure()
+    }
+
+    const clientKey = Session.readPem('clientKey', tls.clientKey, tls.clientKeyPath)
+    const clientCert = Session.readPem('clientCert', tls.clientCert, tls.clientCertPath)
+    if (!clientKey !== !clientCert) {
+      throw new Error('When TLS is enabled, clientKey and clientCert must be configured together')
+    }
+    if (clientKey && clientCert && !Session.isKeyOf(clientKey, clientCert)) {
+      throw new Error('When TLS is enabled, clientKey must be the private key of clientCert')
+    }
+    const channelCredentials = credentials.createSsl(Session.readPem('caCert', tls.caCert, tls.caCertPath, true),
+      clientKey, clientCert)
+
+    return this.options.auth.enabled
+      ? credentials.combineChannelCredentials(channelCredentials, this.authenticator.callCredentials())
+      : channelCredentials
+  }
+
+  /**
+   * Returns `true` if the private key is the key of the certificate, by comparing the public key
+   * derived from the private key with the public key of the certificate.
+   *
+   * @param key   the PEM encoded private key
+   * @param cert  the PEM encoded certificate
+   *
+   * @return `true` if the private key is the key of the certificate
+   */
+  private static isKeyOf (key: Buffer, cert: Buffer): boolean {
+    const options: KeyExportOptions<'der'> = { type: 'spki', format: 'der' }
+    return createPublicKey(createPrivateKey(key)).export(options).equals(createPublicKey(cert).export(options))
+  }
+
+  /**
+   * Check the certificate files for changes, if configured, rotating the certificates once a file changes.
+   * Changes are coalesced for the refresh interval, as a certificate and its key are rarely updated together.
+   */
+  private watchCertificates (): void {
+    const tls = this.options.tls
+    const interval = tls.refreshIntervalInMillis
+    if (!tls.enabled || interval <= 0) {
+      return
+    }
+
+    const files = [tls.caCert ? undefined : tls.caCertPath, tls.clientKey ? undefined : tls.clientKeyPath,
+      tls.clientCert ? undefined : tls.clientCertPath]
+    for (const file of files) {
+      if (file) {
+        watchFile(file, { persistent: false, interval: interval }, this.onCertificateChange)
+        this.certificateFiles.push(file)
+      }
+    }
+  }
+
+  /**
+   * Schedule the rotation of the certificates following a change to a certificate file.
+   *
+   * @param current   the current stats of the file
+   * @param previous  the previous stats of the file
+   */
+  private readonly onCertificateChange = (current: Stats, previous: Stats): void => {
+    if (current.mtimeMs === previous.mtimeMs || this.rotation || this.markedForClose) {
+      return
+    }
+    this.rotation = setTimeout(() => {
+      this.rotation = undefined
+      this.rotateCertificates()
+    }, this.options.tls.refreshIntervalInMillis)
+    this.rotation.unref()
+  }
+
+  /**
+   * Replace the channels of this session with channels using the current contents of the
+   * certificate files.  If the files cannot be loaded, the existing channels continue to be used.
+   */
+  private rotateCertificates (): void {
+    if (this.markedForClose) {
+      return
+    }
+    let channelCredentials: ChannelCredentials
+    try {
+      channelCredentials = this.createCredentials()
+    } catch (err) {
+      this.emit(event.SessionLifecycleEvent.CERTIFICATE_ROTATION_FAILED, err)
+      return
+    }
+    this._channelCredentials = channelCredentials
+    this._channels.replace(channelCredentials)
+    this.emit(event.SessionLifecycleEvent.CERTIFICATES_ROTATED)
+  }
+
+  /**
+   * Stop checking the certificate files for changes.
+   */
+  private unwatchCertificates (): void {
+    for (const file of this.certificateFiles) {
+      unwatchFile(file, this.onCertificateChange)
+    }
+    if (this.rotation) {
+      clearTimeout(this.rotation)
+      this.rotation = undefined
+    }
+  }
+
+  /**
+   * Return the `gRPC` channel options derived from the TLS options.
+   *
+   * @param tls  the TLS options
+   *
+   * @return the `gRPC` channel options
+   */
+  private static channelOptionsOf (tls: TlsOptions): { [key: string]: string | number } {
+    const channelOptions = Object.assign({}, tls.channelOptions)
+    if (tls.enabled && tls.serverNameOverride) {
+      channelOptions['grpc.ssl_target_name_override'] = tls.serverNameOverride
+      channelOptions['grpc.default_authority'] = tls.serverNameOverride
+    }
+    return channelOptions
+  }
+
+  /**
+   * An internal method to obtain PEM encoded material, either as configured or by reading
+   * the file at the configured path.
    *
    * @param certType   the type of the certificate. Used only while creating an error message
+   * @param pem        the configured PEM encoded material, if any
    * @param nameOrURL  the path or URL to the cert
+   * @param required   `true` if the material must be configured
    *
-   * @returns The {@link Buffer} containing the certificate.
+   * @returns The {@link Buffer} containing the certificate, if configured.
    */
-  private static readFile (certType: string, nameOrURL?: PathLike): Buffer {
+  private static readPem (certType: string, pem?: string | Buffer, nameOrURL?: PathLike, required?: boolean): Buffer | undefined {
+    if (pem) {
+      return typeof pem === 'string' ? Buffer.from(pem) : pem
+    }
     if (!nameOrURL) {
-      throw new Error('When TLS is enabled, ' + certType + ' cannot be undefined or null')
+      if (required) {
+        throw new Error('When TLS is enabled, ' + certType + ' cannot be undefined or null')
+      }
+      return undefined
     }
     return readFileSync(nameOrURL)
   }
@@ -539,12 +2305,100 @@ export class Session
   }
 
   /**
-   * Return the underlying `gRPC` Channel used by this session.
+   * Return the underlying `gRPC` Channel the next request made using this session will be sent over.
    *
-   * @return the underlying `gRPC` Channel used by this session
+   * @return the underlying `gRPC` Channel the next request made using this session will be sent over
    */
   get channel (): Channel {
-    return this._channel
+    return this._channels.select()
+  }
+
+  /**
+   * Return the underlying `gRPC` Channels, one per configured address, used by this session.
+   *
+   * @return the underlying `gRPC` Channels used by this session
+   */
+  get channels (): Channel[] {
+    return this._channels.channels
+  }
+
+  /**
+   * Exclude the channel from selection, following a failure to reach its proxy, for the
+   * configured {@link LoadBalancingOptions.ejectionTimeInMillis}.
+   *
+   * @param channel  the channel to eject
+   * @internal
+   */
+  ejectChannel (channel: Channel): void {
+    this._channels.eject(channel)
+  }
+
+  /**
+   * Return the {@link util.SerializerRegistry} used by this session to resolve the
+   * serialization format passed to {@link getCache}.  Serializers registered here
+   * are visible only to this session; formats not registered with this session
+   * are resolved using the global registry.
+   *
+   * @return the {@link util.SerializerRegistry} used by this session
+   */
+  get serializers (): util.SerializerRegistry {
+    return this._serializers
+  }
+
+  /**
+   * Return the {@link interceptor.InterceptorChain} applied to requests made by the
+   * caches of this session.
+   *
+   * @return the {@link interceptor.InterceptorChain} of this session
+   */
+  get interceptors (): interceptor.InterceptorChain {
+    return this._interceptors
+  }
+
+  /**
+   * Return the {@link metrics.SessionMetrics} recording the requests made, and events
+   * received, by the caches of this session.
+   *
+   * @return the {@link metrics.SessionMetrics} of this session
+   */
+  get metrics (): metrics.SessionMetrics {
+    return this._metrics
+  }
+
+  /**
+   * Return the {@link tracing.RequestTracer} emitting spans for the requests made, and
+   * events received, by the caches of this session.
+   *
+   * @return the {@link tracing.RequestTracer} of this session
+   * @internal
+   */
+  get tracer (): tracing.RequestTracer {
+    return this._tracer
+  }
+
+  /**
+   * Adds the specified {@link interceptor.Interceptor} to the end of the chain applied
+   * to every request made by the caches of this session, including those already obtained.
+   *
+   * @param i  the interceptor to add
+   *
+   * @return this session
+   */
+  addInterceptor (i: interceptor.Interceptor): Session {
+    this._interceptors.add(i)
+    return this
+  }
+
+  /**
+   * Removes the specified {@link interceptor.Interceptor} from the chain applied to the
+   * requests made by the caches of this session.
+   *
+   * @param i  the interceptor to remove
+   *
+   * @return `true` if the interceptor was removed
+   */
+  removeInterceptor (i: interceptor.Interceptor): boolean {
+    return this._interceptors.remove(i)
   }
 
   /**
@@ -582,16 +2436,6 @@ export class Session
     return set
   }
 
-  /**
-   * Return the client options used to configure this session.
-   *
-   * @return the client options used to configure this session
-   * @internal
-   */
-  get clientOptions (): object {
-    return this._clientOptions
-  }
-
   /**
    * This is an alias for `Session.options.address`.
    *
@@ -611,15 +2455,20 @@ export class Session
   }
 
   /**
-   * Returns a {@link NamedCacheClient} for the specified cache name. This class
-   * maintains an internal cache (a Map) and if a {@link NamedCacheClient} exists
-   * in the cache it is returned. Else a new {@link NamedCacheClient} is created
-   * (then cached) and returned.
+   * Returns a {@link NamedCache} for the specified cache name.  If {@link NearCacheOptions}
+   * are provided, a {@link NearCache} fronting the cache will be returned.
    *
-   * @param name    the cache name
-   * @param format  the serialization format for keys and values stored within the cache
+   * Caches are created once per name and format, and returned by later calls.  This
+   * includes the {@link NearCache}: once created, it is returned whenever near cache
+   * options are provided, and the options of later calls are ignored.
+   *
+   * @param name              the cache name
+   * @param format            the serialization format
+   * @param nearCacheOptions  the optional {@link NearCacheOptions}
+   *
+   * @return a {@link NamedCache} for the specified cache name
    */
-  getCache<K, V> (name: string, format: string = Session.DEFAULT_FORMAT): NamedCache<K, V> {
+  getCache<K, V> (name: string, format: string = this.options.format, nearCacheOptions?: NearCacheOptions | object): NamedCache<K, V> {
     if (this.markedForClose) {
       throw new Error('Session is closing')
     }
@@ -628,7 +2477,7 @@ export class Session
     }
 
     const cacheKey = Session.makeCacheKey(name, format)
-    const serializer = util.SerializerRegistry.instance().serializer(format)
+    const serializer = this._serializers.serializer(format)
 
     let namedCache = this.caches.get(cacheKey)
     if (!namedCache) {
@@ -637,11 +2486,65 @@ export class Session
       this.caches.set(cacheKey, namedCache)
     }
 
+    if (nearCacheOptions) {
+      let nearCache = this.nearCaches.get(cacheKey)
+      if (!nearCache) {
+        nearCache = new NearCache(namedCache, nearCacheOptions)
+        this.nearCaches.set(cacheKey, nearCache)
+      }
+      return nearCache
+    }
+
     return namedCache
   }
 
-  getMap<K, V> (name: string, format: string = Session.DEFAULT_FORMAT): NamedMap<K, V> {
-    return this.getCache(name, format) as NamedMap<K, V>
+  /**
+   * Returns a {@link NamedMap} for the specified map name.  If {@link NearCacheOptions}
+   * are provided, a {@link NearCache} fronting the map will be returned.  As with
+   * {@link getCache}, the options of a {@link NearCache} are those it was created with.
+   *
+   * @param name              the map name
+   * @param format            the serialization format
+   * @param nearCacheOptions  the optional {@link NearCacheOptions}
+   *
+   * @return a {@link NamedMap} for the specified map name
+   */
+  getMap<K, V> (name: string, format: string = this.options.format, nearCacheOptions?: NearCacheOptions | object): NamedMap<K, V> {
+    return this.getCache(name, format, nearCacheOptions) as NamedMap<K, V>
+  }
+
+  /**
+   * Validates that the server is able to handle the specified serialization format
+   * for the named cache by issuing a lightweight request using that format.
+   *
+   * @param name    the cache name
+   * @param format  the serialization format
+   *
+   * @return a `Promise` that resolves once the server has accepted the format, or
+   *         is rejected if no serializer is registered for the format or the server
+   *         does not support it; a cache obtained only for the validation is released
+   *         if it fails
+   */
+  async validateFormat (name: string, format: string): Promise<void> {
+    const cacheKey = Session.makeCacheKey(name, format)
+    const existing = this.caches.has(cacheKey)
+    this.getCache(name, format)
+    const cache = this.caches.get(cacheKey) as NamedCacheClient
+    try {
+      // size() carries no format, so the server would not validate it, and the keyless requests
+      // that do carry one scan or change entries; containsKey only probes a single key, arbitrarily
+      // the cache name, and neither loads nor locks it
+      await cache.has(name)
+    } catch (err) {
+      // don't leave a cache created only for the validation registered
+      if (!existing) {
+        await cache.release()
+      }
+      if (err && err.code === status.INVALID_ARGUMENT) {
+        throw new Error('serialization format \'' + format + '\' is not supported by the server: ' + err.details)
+      }
+      throw err
+    }
   }
 
   /**
@@ -653,15 +2556,67 @@ export class Session
     }
 
     this.markedForClose = true
+    this.unwatchCertificates()
     for (const entry of this.caches.entries()) {
       await entry[1].release()
     }
-    this._channel.close()
+    this._channels.close()
+    this.restoreCiphers()
 
     this.emit(event.SessionLifecycleEvent.CLOSED)
     return Promise.resolve()
   }
 
+  /**
+   * Returns `true` if a channel of this session is connected to its proxy.
+   *
+   * @return `true` if a channel of this session is connected to its proxy
+   */
+  get connected (): boolean {
+    return this._channels.connected
+  }
+
+  /**
+   * Returns a promise that will resolve once a channel of this session is connected to its
+   * proxy, asking idle channels to connect.  The promise will be rejected if no channel has
+   * connected within the timeout, or if the session is closed.
+   *
+   * @param timeoutInMillis  the time, in `milliseconds`, to wait for a channel to connect;
+   *                         defaults to {@link Options.requestTimeoutInMillis}
+   *
+   * @return a promise that will resolve once a channel of this session is connected
+   */
+  ready (timeoutInMillis: number = this.options.requestTimeoutInMillis): Promise<void> {
+    if (this.markedForClose) {
+      return Promise.reject(new Error('Session has been closed'))
+    }
+    if (this.connected) {
+      return Promise.resolve()
+    }
+
+    const self = this
+    return new Promise((resolve, reject) => {
+      const onConnected = () => finish()
+      const onClosed = () => finish(new Error('Session has been closed'))
+      const timer = setTimeout(() => finish(new Error('Session not connected within ' + timeoutInMillis + 'ms')), timeoutInMillis)
+      const finish = (err?: Error) => {
+        clearTimeout(timer)
+        self.removeListener(event.SessionLifecycleEvent.CONNECTED, onConnected)
+          .removeListener(event.SessionLifecycleEvent.RECONNECTED, onConnected)
+          .removeListener(event.SessionLifecycleEvent.CLOSED, onClosed)
+        if (err) {
+          reject(err)
+        } else {
+          resolve()
+        }
+      }
+      self.on(event.SessionLifecycleEvent.CONNECTED, onConnected)
+        .on(event.SessionLifecycleEvent.RECONNECTED, onConnected)
+        .on(event.SessionLifecycleEvent.CLOSED, onClosed)
+      self._channels.connect()
+    })
+  }
+
   /**
    * Returns `true` if the session is closed.
    *
@@ -719,6 +2674,7 @@ export class Session
       for (const key of self.caches.keys()) {
         if (Session.isKeyForCacheName(key, cacheName)) {
           self.caches.delete(key)
+          self.nearCaches.delete(key)
           self.emit(event.MapLifecycleEvent.DESTROYED, cacheName)
         }
       }
@@ -726,6 +2682,7 @@ export class Session
 
     cache.on(event.MapLifecycleEvent.RELEASED, (cacheName: string, format: string) => {
       self.caches.delete(Session.makeCacheKey(cacheName, format))
+      self.nearCaches.delete(Session.makeCacheKey(cacheName, format))
       self.emit(event.MapLifecycleEvent.RELEASED, cacheName, format)
     })
   }
@@ -0,0 +1,207 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+import {
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  Span,
+  SpanContext,
+  SpanKind,
+  SpanStatusCode,
+  TextMapSetter,
+  trace,
+  Tracer
+} from '@opentelemetry/api'
+import { Metadata, status } from 'grpc'
+import { event } from './events'
+import { interceptor } from './interceptors'
+import { TracingOptions } from './session'
+
+export namespace tracing {
+
+  /**
+   * The name of the OpenTelemetry tracer used to emit spans.
+   */
+  export const INSTRUMENTATION_NAME = '@oracle/coherence'
+
+  /**
+   * The attributes set on the spans emitted by this client.
+   */
+  export enum SpanAttribute {
+    /**
+     * The name of the cache.
+     */
+    CACHE_NAME = 'coherence.cache.name',
+
+    /**
+     * The name of the operation, matching the name of the {@link NamedMap} method.
+     */
+    OPERATION = 'coherence.operation',
+
+    /**
+     * The number of keys targeted by the request, if the request is key based.
+     */
+    KEY_COUNT = 'coherence.key.count',
+
+    /**
+     * The serialization format of the cache.
+     */
+    FORMAT = 'coherence.serializer.format',
+
+    /**
+     * The attempt number of the request.
+     */
+    ATTEMPT = 'coherence.attempt',
+
+    /**
+     * The description of the map event, for example `insert`.
+     */
+    EVENT_TYPE = 'coherence.event.type',
+
+    /**
+     * The remote procedure call system; always `grpc`.
+     */
+    RPC_SYSTEM = 'rpc.system',
+
+    /**
+     * The numeric `gRPC` status code the request completed with.
+     */
+    GRPC_STATUS_CODE = 'rpc.grpc.status_code'
+  }
+
+  /**
+   * Sets the propagated trace context as `gRPC` metadata.
+   */
+  const METADATA_SETTER: TextMapSetter<Metadata> = {
+    set: (carrier: Metadata, key: string, value: string) => carrier.set(key, value)
+  }
+
+  /**
+   * Emits the OpenTelemetry spans for the requests made, and the events received, by the caches
+   * of a {@link Session}.  The trace context of each request is propagated to the proxy as
+   * `gRPC` metadata using the globally registered propagator (W3C trace context by default
+   * when an OpenTelemetry SDK is registered).
+   *
+   * @internal
+   */
+  export class RequestTracer {
+    /**
+     * The tracer used to emit spans, or `undefined` if tracing is disabled.
+     */
+    protected readonly tracer?: Tracer
+
+    /**
+     * Constructs a new `RequestTracer`.
+     *
+     * @param options  the {@link TracingOptions}
+     */
+    constructor (options: TracingOptions) {
+      if (options.enabled) {
+        this.tracer = (options.tracerProvider || trace.getTracerProvider()).getTracer(INSTRUMENTATION_NAME)
+      }
+    }
+
+    /**
+     * Send the request described by the context within a new client span, ending the span
+     * once the request completes.
+     *
+     * @param ctx   the context of the request
+     * @param send  a function sending the request
+     *
+     * @return a `Promise` resolving to the result of the request
+     */
+    traceRequest<T> (ctx: interceptor.RequestContext, send: () => Promise<T>): Promise<T> {
+      if (!this.tracer) {
+        return send()
+      }
+      const span = this.tracer.startSpan('coherence.' + ctx.operation, {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [SpanAttribute.CACHE_NAME]: ctx.cacheName,
+          [SpanAttribute.OPERATION]: ctx.operation,
+          [SpanAttribute.FORMAT]: ctx.format,
+          [SpanAttribute.ATTEMPT]: ctx.attempt,
+          [SpanAttribute.RPC_SYSTEM]: 'grpc'
+        }
+      })
+      if (ctx.keys) {
+        span.setAttribute(SpanAttribute.KEY_COUNT, ctx.keys.length)
+      }
+      const active = trace.setSpan(context.active(), span)
+      propagation.inject(active, ctx.metadata, METADATA_SETTER)
+
+      return context.with(active, send).then(result => {
+        span.setAttribute(SpanAttribute.GRPC_STATUS_CODE, status.OK)
+        span.end()
+        return result
+      }, err => {
+        if (err && typeof err.code === 'number') {
+          span.setAttribute(SpanAttribute.GRPC_STATUS_CODE, err.code)
+        }
+        RequestTracer.fail(span, err)
+        span.end()
+        throw err
+      })
+    }
+
+    /**
+     * Return the context of the active span, used to link the spans of events
+     * received by a listener to the span the listener was registered in.
+     *
+     * @return the context of the active span, or `undefined` if there is none
+     */
+    activeSpanContext (): SpanContext | undefined {
+      return this.tracer ? trace.getSpanContext(context.active()) : undefined
+    }
+
+    /**
+     * Notify a listener of an event within a new consumer span, linked to the span the
+     * listener was registered in, if any.
+     *
+     * @param mapEvent  the {@link event.MapEvent}
+     * @param format    the serialization format of the cache
+     * @param link      the context of the span the listener was registered in, if any
+     * @param notify    a function notifying the listener
+     */
+    traceEvent (mapEvent: event.MapEvent, format: string, link: SpanContext | undefined, notify: () => void): void {
+      if (!this.tracer) {
+        return notify()
+      }
+      const span = this.tracer.startSpan('coherence.event', {
+        kind: SpanKind.CONSUMER,
+        links: link ? [{ context: link }] : [],
+        attributes: {
+          [SpanAttribute.CACHE_NAME]: mapEvent.name,
+          [SpanAttribute.EVENT_TYPE]: mapEvent.description,
+          [SpanAttribute.FORMAT]: format
+        }
+      }, ROOT_CONTEXT)
+      try {
+        context.with(trace.setSpan(ROOT_CONTEXT, span), notify)
+      } catch (err) {
+        RequestTracer.fail(span, err)
+        throw err
+      } finally {
+        span.end()
+      }
+    }
+
+    /**
+     * Record the error on the span and mark the span as failed.
+     *
+     * @param span  the span
+     * @param err   the error
+     */
+    private static fail (span: Span, err: any): void {
+      if (err instanceof Error) {
+        span.recordException(err)
+      }
+      span.setStatus({ code: SpanStatusCode.ERROR, message: err ? err.message : undefined })
+    }
+  }
+}
@@ -5,9 +5,11 @@
  * http://oss.oracle.com/licenses/upl.
  */
 
+import { createHash } from 'crypto'
 import { ClientReadableStream } from 'grpc'
 import { BytesValue } from 'google-protobuf/google/protobuf/wrappers_pb'
 import { aggregator } from './aggregators'
+import { comparator } from './comparators'
 import { event } from './events'
 import { extractor } from './extractors'
 import { filter } from './filters'
@@ -37,14 +39,16 @@ import {
   ReplaceRequest,
   ValuesRequest
 } from './grpc/messages_pb'
-import { MapEntry, NamedCacheClient } from './named-cache-client'
+import { CacheEntry, MapEntry, NamedCacheClient, NamedMap, Query, QueryResult, RequestOptions, SortKey } from './named-cache-client'
+import { pof } from './pof'
 import { processor } from './processors'
 
 export namespace util {
 
   /**
-   * A drop-in replacement for the default ECMA Map implementation that uses
-   * hashes keys based on the string view of an Object.
+   * A drop-in replacement for the default ECMA Map implementation that hashes
+   * and compares keys using a {@link HashingStrategy}.  By default, keys are
+   * hashed and compared based on their `JSON` serialized form.
    *
    * Unlike the default ECMA Map implementation, this version does not maintain
    * insertion order and does not make any guarantees on iteration order nor does
@@ -52,8 +56,6 @@ export namespace util {
    * this implementation to store and compare objects that are equal, but not necessarily
    * the same instance.
    *
-   * The hashing algorithm is based on that of Java's HashMap.
-   *
    * @typeParam K  the type of the key
    * @typeParam V  the type of the value
    */
@@ -71,13 +73,21 @@ export namespace util {
      */
     protected readonly buckets: [K, V][][]
 
+    /**
+     * The strategy used to hash and compare keys.
+     */
+    protected readonly strategy: HashingStrategy<K>
+
     /**
      * Constructs a new Map.
      *
      * @param size      the number of buckets to spread entries across
      * @param iterable  initial entries to add to the map.
+     * @param strategy  the strategy used to hash and compare keys; defaults to
+     *                  comparing the `JSON` serialized form of the keys
      */
-    constructor (size: number = 32, iterable?: Iterable<[K, V]>) {
+    constructor (size: number = 32, iterable?: Iterable<[K, V]>, strategy?: HashingStrategy<K>) {
+      this.strategy = strategy || new SerializedHashingStrategy<K>(SerializerRegistry.instance().serializer('json'))
       this.buckets = []
       for (let i = 0; i < size; i++) {
         this.buckets.push([])
@@ -101,29 +111,12 @@ export namespace util {
       return this._size
     }
 
-    /**
-     * Hashing function.
-     *
-     * @param str the string to hash
-     * @hidden
-     */
-    private static hash (str: string): number {
-      let hash = 0
-      if (str.length == 0) return hash
-      for (let i = 0; i < str.length; i++) {
-        let char = str.charCodeAt(i)
-        hash = ((hash << 5) - hash) + char
-        hash = hash & hash // Convert to 32bit integer
-      }
-      return hash
-    }
-
     /**
      * @inheritDoc
      */
     set (key: K, value: V): this {
       const bucket = this.buckets[this.getBucket(key)]
-      const existing = bucket.find(entry => entry[0] === key)
+      const existing = bucket.find(entry => this.strategy.equals(entry[0], key))
       if (existing) {
         existing[1] = value
       } else {
@@ -155,7 +148,7 @@ export namespace util {
      */
     has (key: K): boolean {
       const bucket = this.buckets[this.getBucket(key)]
-      return bucket.find(entry => entry[0] === key) !== undefined
+      return bucket.find(entry => this.strategy.equals(entry[0], key)) !== undefined
     }
 
     /**
@@ -183,7 +176,7 @@ export namespace util {
      */
     get (key: K): V | undefined {
       const bucket = this.buckets[this.getBucket(key)]
-      const existing = bucket.find(entry => entry[0] === key)
+      const existing = bucket.find(entry => this.strategy.equals(entry[0], key))
       return existing ? existing[1] : undefined
     }
 
@@ -202,7 +195,7 @@ export namespace util {
      */
     delete (key: K): boolean {
       const bucket = this.buckets[this.getBucket(key)]
-      const existing = bucket.find(entry => entry[0] === key)
+      const existing = bucket.find(entry => this.strategy.equals(entry[0], key))
       if (existing) {
         bucket.splice(bucket.indexOf(existing), 1)
         this._size--
@@ -224,14 +217,82 @@ export namespace util {
      * @param key  the key to obtain the bucket for
      * @hidden
      */
-    private getBucket (key: any) {
-      return Math.abs(HashMap.hash(key.toString()) % this.buckets.length)
+    private getBucket (key: K) {
+      return Math.abs(this.strategy.hashCode(key) % this.buckets.length)
+    }
+  }
+
+  /**
+   * Defines how a {@link HashMap} hashes and compares its keys.  Keys that are
+   * equal must have the same hash code.
+   *
+   * @typeParam K  the type of the key
+   */
+  export interface HashingStrategy<K> {
+
+    /**
+     * Returns the hash code for the specified key.
+     *
+     * @param key  the key
+     *
+     * @return the hash code for the key
+     */
+    hashCode (key: K): number
+
+    /**
+     * Returns `true` if the specified keys are equal.
+     *
+     * @param a  the first key
+     * @param b  the second key
+     *
+     * @return `true` if the keys are equal
+     */
+    equals (a: K, b: K): boolean
+  }
+
+  /**
+   * A {@link HashingStrategy} that hashes and compares keys based on their
+   * serialized form, which is how keys are compared by the cluster.
+   *
+   * @typeParam K  the type of the key
+   */
+  export class SerializedHashingStrategy<K>
+    implements HashingStrategy<K> {
+
+    /**
+     * Constructs a new `SerializedHashingStrategy`.
+     *
+     * @param serializer  the {@link Serializer} used to serialize keys
+     */
+    constructor (readonly serializer: Serializer) {
+    }
+
+    /**
+     * @inheritDoc
+     */
+    hashCode (key: K): number {
+      const bytes = this.serializer.serialize(key)
+      let hash = 0
+      for (let i = 0; i < bytes.length; i++) {
+        hash = ((hash << 5) - hash) + bytes[i]
+        hash = hash & hash // Convert to 32bit integer
+      }
+      return hash
+    }
+
+    /**
+     * @inheritDoc
+     */
+    equals (a: K, b: K): boolean {
+      return a === b || this.serializer.serialize(a).equals(this.serializer.serialize(b))
     }
   }
 
   /**
    * This is a local implementation of {@link RemoteSet} for cases when entries are cannot
    * be scrolled through on the server and must instead be cached on the client.
+   * Elements are iterated in the order they were added, so that results sorted
+   * by the server retain their order.
    */
   export class LocalSet<T> implements RemoteSet<T> {
 
@@ -240,6 +301,11 @@ export namespace util {
      */
     private map: HashMap<T, boolean>
 
+    /**
+     * The elements, in the order they were added.
+     */
+    private readonly elements: T[] = []
+
     /**
      * Constructs a new `LocalSet`.
      *
@@ -250,7 +316,7 @@ export namespace util {
       this.map = new HashMap<T, boolean>(size)
       if (iterable) {
         for (const element of iterable) {
-          this.map.set(element, true)
+          this.add(element)
         }
       }
     }
@@ -278,7 +344,10 @@ export namespace util {
      * @hidden
      */
     add (val: T): LocalSet<T> {
-      this.map.set(val, true)
+      if (!this.map.has(val)) {
+        this.map.set(val, true)
+        this.elements.push(val)
+      }
       return this
     }
 
@@ -300,16 +369,14 @@ export namespace util {
      * @inheritDoc
      */
     [Symbol.iterator] (): IterableIterator<T> {
-      // @ts-ignore
-      return new KeyIterator(this.map.buckets)
+      return this.elements.values()
     }
 
     /**
      * @inheritDoc
      */
     [Symbol.asyncIterator] (): IterableIterator<T> {
-      // @ts-ignore  --  bypass protection to access map buckets
-      return new KeyIterator(this.map.buckets)
+      return this.elements.values()
     }
   }
 
@@ -741,7 +808,7 @@ export namespace util {
     /**
      * @inheritDoc
      */
-    loadNextPage (cookie: Cookie): ClientReadableStream<EntryResult> {
+    loadNextPage (cookie: Cookie): Promise<ClientReadableStream<EntryResult>> {
       return this.namedCache.nextEntrySetPage(cookie)
     }
   }
@@ -779,7 +846,7 @@ export namespace util {
     /**
      * @inheritDoc
      */
-    loadNextPage (cookie: Cookie): ClientReadableStream<EntryResult> {
+    loadNextPage (cookie: Cookie): Promise<ClientReadableStream<EntryResult>> {
       return this.namedCache.nextEntrySetPage(cookie)
     }
   }
@@ -817,7 +884,7 @@ export namespace util {
     /**
      * @inheritDoc
      */
-    loadNextPage (cookie: Cookie): ClientReadableStream<EntryResult> {
+    loadNextPage (cookie: Cookie): Promise<ClientReadableStream<BytesValue>> {
       return this.namedCache.nextKeySetPage(cookie)
     }
   }
@@ -894,9 +961,7 @@ export namespace util {
       let firstEntry = true
       const data: R[] = []
 
-      return new Promise((resolve, reject) => {
-        const call = self.helper.loadNextPage(self.cookie)
-
+      return self.helper.loadNextPage(self.cookie).then(call => new Promise((resolve, reject) => {
         call.on(event.RequestStateEvent.DATA, function (r: R) {
           if (firstEntry) {
             firstEntry = false
@@ -916,7 +981,7 @@ export namespace util {
           console.log('Error: ' + err)
           reject(err)
         })
-      })
+      }))
     }
   }
 
@@ -948,9 +1013,391 @@ export namespace util {
      *
      * @param req
      *
-     * @return a {@link ClientReadableStream} to stream the next page of cache entries
+     * @return a `Promise` resolving to a {@link ClientReadableStream} to stream the next page of cache entries
      */
-    loadNextPage (req: Cookie): ClientReadableStream<R>;
+    loadNextPage (req: Cookie): Promise<ClientReadableStream<R>>;
+  }
+
+  /**
+   * An async iterator over results streamed by the proxy.  Unlike a {@link PageAdvancer},
+   * which buffers an entire page before returning its first entry, results are returned as
+   * they arrive, and reading from the stream is paused while `pageSize` results are waiting
+   * to be consumed.
+   *
+   * If a cookie extractor is provided, the first result of each stream is the cookie of the
+   * next page, which is requested once the stream has been consumed.  Otherwise, the
+   * iteration completes with the first stream.
+   *
+   * @typeParam R  the raw result type
+   * @typeParam T  the type after R has been deserialized
+   * @internal
+   */
+  export class StreamIterator<R, T>
+    implements AsyncIterableIterator<T> {
+    /**
+     * The number of results buffered by default.
+     */
+    static readonly DEFAULT_PAGE_SIZE: number = 100
+
+    /**
+     * Opens the stream of the page with the provided cookie.
+     */
+    private readonly open: (cookie: Cookie) => Promise<ClientReadableStream<R>>
+
+    /**
+     * Deserializes a raw result.
+     */
+    private readonly handleEntry: (raw: R) => T
+
+    /**
+     * Extracts the cookie of the next page from the first result of a stream, if paged.
+     */
+    private readonly extractCookie?: (raw: R) => Cookie
+
+    /**
+     * The maximum number of buffered results.
+     */
+    private readonly pageSize: number
+
+    /**
+     * Raw results received, but not yet consumed.
+     */
+    private readonly buffer: R[] = []
+
+    /**
+     * The stream being read, if any.
+     */
+    private call?: ClientReadableStream<R>
+
+    /**
+     * Opaque cookie for page boundaries.
+     */
+    private cookie: Cookie
+
+    /**
+     * `true` while the first result of a paged stream is awaited.
+     */
+    private firstEntry: boolean = false
+
+    /**
+     * `true` while reading from the stream is paused.
+     */
+    private paused: boolean = false
+
+    /**
+     * `true` once the stream being read has completed.
+     */
+    private ended: boolean = false
+
+    /**
+     * `true` once the iteration has completed.
+     */
+    private done: boolean = false
+
+    /**
+     * The error the stream failed with, if any.
+     */
+    private error?: Error
+
+    /**
+     * Resolves the `Promise` a call to {@link next} is waiting on, if any.
+     */
+    private notify?: () => void
+
+    /**
+     * Constructs a new `StreamIterator`.
+     *
+     * @param open           opens the stream of the page with the provided cookie
+     * @param handleEntry    deserializes a raw result
+     * @param extractCookie  extracts the cookie of the next page, if the results are paged
+     * @param pageSize       the maximum number of buffered results
+     */
+    constructor (open: (cookie: Cookie) => Promise<ClientReadableStream<R>>, handleEntry: (raw: R) => T,
+                 extractCookie?: (raw: R) => Cookie, pageSize?: number) {
+      if (pageSize !== undefined && !(pageSize >= 1)) {
+        throw new Error('pageSize must be greater than zero')
+      }
+      this.open = open
+      this.handleEntry = handleEntry
+      this.extractCookie = extractCookie
+      this.pageSize = pageSize || StreamIterator.DEFAULT_PAGE_SIZE
+    }
+
+    /**
+     * Return the next result, waiting for it to be received if necessary.
+     *
+     * @return a `Promise` resolving to the next result, or to a result with the `done` flag
+     *         set once all results have been returned
+     */
+    async next (): Promise<IteratorResult<T>> {
+      while (!this.done) {
+        const raw = this.buffer.shift()
+        if (raw !== undefined) {
+          if (this.paused && this.buffer.length <= this.pageSize / 2) {
+            this.paused = false
+            this.call!.resume()
+          }
+          return { done: false, value: this.handleEntry(raw) }
+        }
+
+        if (this.error) {
+          this.done = true
+          throw this.error
+        }
+
+        if (!this.call || (this.ended && this.hasNextPage())) {
+          await this.start()
+        } else if (this.ended) {
+          this.done = true
+        } else {
+          await new Promise<void>(resolve => this.notify = resolve)
+        }
+      }
+      return { done: true, value: undefined }
+    }
+
+    /**
+     * End the iteration, cancelling the stream being read, if any.
+     *
+     * @return a `Promise` resolving to a result with the `done` flag set
+     */
+    async return (): Promise<IteratorResult<T>> {
+      if (!this.done) {
+        this.done = true
+        this.buffer.length = 0
+        if (this.call && !this.ended && !this.error) {
+          this.call.cancel()
+        }
+      }
+      return { done: true, value: undefined }
+    }
+
+    /**
+     * Returns this iterator.
+     *
+     * @return this iterator
+     */
+    [Symbol.asyncIterator] (): AsyncIterableIterator<T> {
+      return this
+    }
+
+    /**
+     * Open the stream of the next page, or the stream of all results if not paged.
+     *
+     * @return a `Promise` that resolves once the stream has been opened, or has failed to open
+     */
+    private async start (): Promise<void> {
+      const cookie = this.cookie
+      this.cookie = undefined
+      this.firstEntry = this.extractCookie !== undefined
+      this.ended = false
+
+      let call: ClientReadableStream<R>
+      try {
+        call = await this.open(cookie)
+      } catch (err) {
+        this.error = err
+        return
+      }
+      this.call = call
+
+      call.on(event.RequestStateEvent.DATA, (r: R) => {
+        if (this.firstEntry) {
+          this.firstEntry = false
+          this.cookie = this.extractCookie!(r)
+          return
+        }
+        this.buffer.push(r)
+        if (!this.paused && this.buffer.length >= this.pageSize) {
+          this.paused = true
+          call.pause()
+        }
+        this.wake()
+      })
+      call.on(event.RequestStateEvent.COMPLETE, () => {
+        this.ended = true
+        this.wake()
+      })
+      call.on(event.RequestStateEvent.ERROR, (err: Error) => {
+        this.error = err
+        this.wake()
+      })
+
+      // the iteration was ended while the stream was being opened
+      if (this.done) {
+        call.cancel()
+      }
+    }
+
+    /**
+     * Returns `true` if the stream that has been read was followed by another page.
+     *
+     * @return `true` if there is another page to read
+     */
+    private hasNextPage (): boolean {
+      return this.extractCookie !== undefined && this.cookie != null && this.cookie.length > 0
+    }
+
+    /**
+     * Resolve the `Promise` a call to {@link next} is waiting on, if any.
+     */
+    private wake (): void {
+      const notify = this.notify
+      this.notify = undefined
+      if (notify) {
+        notify()
+      }
+    }
+  }
+
+  /**
+   * A {@link Query} resolved into the filter selecting the requested page of its results on
+   * the server, and the cursors of the pages that follow.  A cursor records the index of the
+   * page it resumes at, and a fingerprint of the query so that it is not applied to another.
+   * @internal
+   */
+  export class PagedQuery {
+    /**
+     * The number of entries per page by default.
+     */
+    static readonly DEFAULT_LIMIT: number = 100
+
+    /**
+     * The filter the entries should satisfy.
+     */
+    readonly filter: filter.Filter
+
+    /**
+     * The comparator ordering the entries, if any.
+     */
+    readonly comparator?: comparator.Comparator
+
+    /**
+     * The number of entries per page.
+     */
+    readonly limit: number
+
+    /**
+     * The zero-based index of the requested page.
+     */
+    readonly page: number
+
+    /**
+     * Identifies the query the cursors were created for.
+     */
+    private readonly fingerprint: string
+
+    /**
+     * Constructs a new `PagedQuery`.
+     *
+     * @param query  the query
+     */
+    constructor (query: Query) {
+      const limit = query.limit === undefined ? PagedQuery.DEFAULT_LIMIT : query.limit
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error('limit must be a positive integer')
+      }
+      const orderBy = query.orderBy === undefined ? [] : Array.isArray(query.orderBy) ? query.orderBy : [query.orderBy]
+
+      this.filter = query.filter || filter.AlwaysFilter.INSTANCE
+      this.limit = limit
+      const comparators = orderBy.map(PagedQuery.comparatorOf)
+      this.comparator = comparators.length < 2 ? comparators[0] : new comparator.ChainedComparator(comparators)
+      this.fingerprint = createHash('sha256')
+        .update(JSON.stringify([this.filter, this.comparator || null, limit]))
+        .digest('base64')
+        .substring(0, 16)
+      this.page = query.cursor ? this.pageOf(query.cursor) : 0
+    }
+
+    /**
+     * Returns the filter selecting the requested page on the server.
+     *
+     * @return the filter selecting the requested page
+     */
+    get limitFilter (): filter.LimitFilter {
+      return new filter.LimitFilter(this.filter, this.limit, this.page, this.comparator)
+    }
+
+    /**
+     * Return the result of the query given the requested page of entries, as selected
+     * on the server.  A full page is assumed to be followed by another.
+     *
+     * @param entries  the entries of the page
+     *
+     * @return the result of the query
+     */
+    resultOf<K, V> (entries: Array<MapEntry<K, V>>): QueryResult<K, V> {
+      return { entries: entries, cursor: entries.length < this.limit ? null : this.cursorOf(this.page + 1) }
+    }
+
+    /**
+     * Return the result of the query given all the entries satisfying its filter,
+     * ordering the entries locally.
+     *
+     * @param entries  the entries satisfying the filter of the query
+     *
+     * @return the result of the query
+     */
+    select<K, V> (entries: Array<MapEntry<K, V>>): QueryResult<K, V> {
+      const sorted = sort(entries.slice(), this.comparator)
+      const start = this.page * this.limit
+      const end = start + this.limit
+      return { entries: sorted.slice(start, end), cursor: sorted.length > end ? this.cursorOf(this.page + 1) : null }
+    }
+
+    /**
+     * Return the cursor resuming the query at the specified page.
+     *
+     * @param page  the zero-based index of the page
+     *
+     * @return the cursor
+     */
+    private cursorOf (page: number): string {
+      return Buffer.from(JSON.stringify({ page: page, query: this.fingerprint })).toString('base64')
+    }
+
+    /**
+     * Return the page the specified cursor resumes the query at.
+     *
+     * @param cursor  the cursor
+     *
+     * @return the zero-based index of the page
+     */
+    private pageOf (cursor: string): number {
+      let parsed: any
+      try {
+        parsed = JSON.parse(Buffer.from(cursor, 'base64').toString())
+      } catch (err) {
+        parsed = null
+      }
+      if (!parsed || !Number.isInteger(parsed.page) || parsed.page < 0 || typeof parsed.query !== 'string') {
+        throw new Error('Invalid query cursor')
+      }
+      if (parsed.query !== this.fingerprint) {
+        throw new Error('The query cursor was returned by a different query')
+      }
+      return parsed.page
+    }
+
+    /**
+     * Return the comparator ordering entries by the specified sort key.
+     *
+     * @param key  the sort key
+     *
+     * @return the comparator
+     */
+    private static comparatorOf (key: SortKey): comparator.Comparator {
+      if (key instanceof comparator.Comparator) {
+        return key
+      }
+      const ordering = (typeof key === 'string' || key instanceof extractor.ValueExtractor)
+        ? new comparator.ExtractorComparator(key)
+        : new comparator.ExtractorComparator(key.extractor)
+      return (typeof key === 'object' && !(key instanceof extractor.ValueExtractor) && key.descending === true)
+        ? new comparator.InverseComparator(ordering)
+        : ordering
+    }
   }
 
   /**
@@ -1533,14 +1980,86 @@ export namespace util {
 
   }
 
+  /**
+   * An arbitrary-precision decimal number, serialized as a Java `BigDecimal`.
+   * The value is held as its string representation so that no precision is
+   * lost in transit; no arithmetic is provided.
+   */
+  export class BigDecimal {
+    /**
+     * The string representation of the value.
+     */
+    private readonly _value: string
+
+    /**
+     * Constructs a new `BigDecimal`.
+     *
+     * @param value  the decimal value
+     */
+    constructor (value: string | number | bigint) {
+      const str = String(value).trim()
+      if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(str)) {
+        throw new Error('invalid decimal value: ' + value)
+      }
+      this._value = str
+    }
+
+    /**
+     * Returns the value as a `number`, which may lose precision.
+     *
+     * @return the value as a `number`
+     */
+    toNumber (): number {
+      return Number(this._value)
+    }
+
+    /**
+     * Returns the string representation of the value.
+     *
+     * @return the string representation of the value
+     */
+    toString (): string {
+      return this._value
+    }
+  }
+
   /**
    * A Serializer implementation supporting `JSON` as payload format.
+   *
+   * `bigint` and {@link BigDecimal} values are always written with the `@class`
+   * aliases Coherence uses for their Java equivalents, `java.math.BigInteger` and
+   * `java.math.BigDecimal`, as are instances of classes registered using {@link registerClass}.
+   * When constructed to preserve types, `Date`, `Map`, `Set` and `Buffer` values are also
+   * written, as plain JSON objects carrying a client-only `@jsType` property that the server
+   * ignores.  As Java has no equivalent of these, they are held by the server as plain objects
+   * and cannot be compared, or extracted from, as dates, maps, sets or binaries in server-side
+   * queries, filters or aggregations.  Values carrying any of these `@class` or `@jsType` names
+   * are revived as instances of the corresponding type when deserialized.
    */
-  class JSONSerializer
+  export class JSONSerializer
     implements Serializer {
     protected static JSON_SERIALIZER_PREFIX: number = 21
     private readonly _format: string = 'json'
 
+    /**
+     * Classes keyed by their `@class` name.
+     */
+    private readonly classes = new Map<string, Function>()
+
+    /**
+     * `@class` names keyed by class.
+     */
+    private readonly classNames = new Map<Function, string>()
+
+    /**
+     * Constructs a new `JSONSerializer`.
+     *
+     * @param preserveTypes  if `true`, `Date`, `Map`, `Set` and `Buffer` values will
+     *                       be written with `@jsType` metadata so that they may be revived
+     */
+    constructor (readonly preserveTypes: boolean = false) {
+    }
+
     /**
      * @inheritDoc
      */
@@ -1548,12 +2067,43 @@ export namespace util {
       return this._format
     }
 
+    /**
+     * Registers a class whose instances will be written with the specified
+     * `@class` name and revived as instances of the class.  Instances are
+     * revived by assigning the deserialized properties to an object having
+     * the class's prototype; the constructor is not called.
+     *
+     * @param name  the `@class` name, typically the alias or name of the
+     *              corresponding Java class
+     * @param type  the class
+     *
+     * @return this serializer
+     */
+    registerClass (name: string, type: Function): this {
+      ensureNonEmptyString(name, 'class name cannot be null or empty')
+      if (typeof type !== 'function') {
+        throw new Error('type must be a class')
+      }
+      if (this.classes.has(name) || RESERVED_CLASS_NAMES.has(name)) {
+        throw new Error('a class is already registered for @class name: ' + name)
+      }
+      if (this.classNames.has(type)) {
+        throw new Error(type.name + ' is already registered as @class ' + this.classNames.get(type))
+      }
+      this.classes.set(name, type)
+      this.classNames.set(type, name)
+      return this
+    }
+
     /**
      * @inheritDoc
      */
     public serialize (obj: any): Buffer {
-      const str = JSON.stringify(obj)
-      const buf = Buffer.alloc(str.length + 1)
+      const self = this
+      const str = JSON.stringify(obj, function (this: any, key: string, value: any) {
+        return self.replace(this[key], value)
+      })
+      const buf = Buffer.alloc(Buffer.byteLength(str) + 1)
 
       buf.writeInt8(JSONSerializer.JSON_SERIALIZER_PREFIX, 0) // Write at index 0
       buf.write(str, 1) // Write at index 1
@@ -1571,40 +2121,203 @@ export namespace util {
           if (buf.readInt8(0) == JSONSerializer.JSON_SERIALIZER_PREFIX) {
             buf = buf.slice(1)
           }
-          return JSON.parse(buf.toString())
+          return JSON.parse(buf.toString(), (key, value) => this.revive(value))
         }
       }
       return null
     }
+
+    /**
+     * Replace values of types that JSON cannot represent with their `@class` or `@jsType` form.
+     *
+     * @param raw    the value before any `toJSON()` conversion
+     * @param value  the value after any `toJSON()` conversion
+     */
+    protected replace (raw: any, value: any): any {
+      if (typeof raw === 'bigint') {
+        return { '@class': BIG_INTEGER_CLASS, value: raw.toString() }
+      }
+      if (raw === null || typeof raw !== 'object') {
+        return value
+      }
+      if (raw instanceof BigDecimal) {
+        return { '@class': BIG_DECIMAL_CLASS, value: raw.toString() }
+      }
+      if (this.preserveTypes) {
+        if (raw instanceof Date) {
+          return { [JS_TYPE]: DATE_TYPE, value: raw.toISOString() }
+        }
+        if (raw instanceof Buffer) {
+          return { [JS_TYPE]: BUFFER_TYPE, value: raw.toString('base64') }
+        }
+        if (raw instanceof Map) {
+          return { [JS_TYPE]: MAP_TYPE, entries: Array.from(raw.entries()) }
+        }
+        if (raw instanceof Set) {
+          return { [JS_TYPE]: SET_TYPE, values: Array.from(raw.values()) }
+        }
+      }
+      const name = raw === value ? this.classNames.get(raw.constructor) : undefined
+      return name ? Object.assign({ '@class': name }, value) : value
+    }
+
+    /**
+     * Revive values written with a known `@class` or `@jsType`.
+     *
+     * @param value  the parsed value
+     */
+    protected revive (value: any): any {
+      if (value === null || typeof value !== 'object') {
+        return value
+      }
+      switch (value[JS_TYPE]) {
+        case DATE_TYPE:
+          return new Date(value.value)
+        case BUFFER_TYPE:
+          return Buffer.from(value.value, 'base64')
+        case MAP_TYPE:
+          return new Map(value.entries)
+        case SET_TYPE:
+          return new Set(value.values)
+      }
+
+      const name = value['@class']
+      switch (name) {
+        case undefined:
+          return value
+        case BIG_INTEGER_CLASS:
+          return BigInt(value.value)
+        case BIG_DECIMAL_CLASS:
+          return new BigDecimal(value.value)
+      }
+
+      const type = this.classes.get(name)
+      if (!type) {
+        return value
+      }
+      const obj = Object.create(type.prototype)
+      for (const key of Object.keys(value)) {
+        if (key !== '@class') {
+          obj[key] = value[key]
+        }
+      }
+      return obj
+    }
   }
 
+  const BIG_INTEGER_CLASS = 'math.BigInt'
+  const BIG_DECIMAL_CLASS = 'math.BigDec'
+  const RESERVED_CLASS_NAMES = new Set([BIG_INTEGER_CLASS, BIG_DECIMAL_CLASS])
+
+  // JavaScript types without a Java equivalent are marked with a property the server ignores
+  const JS_TYPE = '@jsType'
+  const DATE_TYPE = 'Date'
+  const BUFFER_TYPE = 'Buffer'
+  const MAP_TYPE = 'Map'
+  const SET_TYPE = 'Set'
+
   /**
-   * A singleton object that holds the collection of
-   * available {@link Serializer}s.
-   * @hidden
+   * A registry of available {@link Serializer}s, keyed by format.  A registry
+   * may have a parent registry that will be consulted when a format has not
+   * been registered locally; each {@link Session} has its own registry
+   * whose parent is the global registry returned by {@link instance}.
    */
   export class SerializerRegistry {
-    static readonly singleton = new SerializerRegistry()
+    static readonly singleton = SerializerRegistry.createGlobal()
 
     /**
      * Mapping between ID and Serializer implementation.
      */
     protected serializers = new Map<string, Serializer>()
 
-    private constructor () {
-      const jsonSerializer = new JSONSerializer()
-      this.serializers.set(jsonSerializer.format, jsonSerializer)
+    /**
+     * The parent registry, if any.
+     */
+    protected readonly parent?: SerializerRegistry
+
+    /**
+     * Constructs a new `SerializerRegistry`.
+     *
+     * @param parent  the optional registry to consult for formats not registered
+     *                with this registry
+     */
+    constructor (parent?: SerializerRegistry) {
+      this.parent = parent
     }
 
     /**
-     * A factory method for obtaining the singleton instance.
+     * A factory method for obtaining the global instance.
      *
-     * @returns The singleton SerializerRegistry instance.
+     * @returns The global SerializerRegistry instance.
      */
     public static instance (): SerializerRegistry {
       return SerializerRegistry.singleton
     }
 
+    /**
+     * Registers the specified {@link Serializer} for its format.
+     *
+     * @param serializer  the serializer to register
+     *
+     * @returns this registry
+     *
+     * @throws Error if the serializer does not declare a format or if a
+     *         serializer has already been registered for the format with
+     *         this registry
+     */
+    public register (serializer: Serializer): SerializerRegistry {
+      ensureNotNull(serializer, 'serializer cannot be null or undefined')
+      const format = serializer.format
+      if (!format || typeof format !== 'string') {
+        throw new Error('serializer must declare a format')
+      }
+      if (typeof serializer.serialize !== 'function' || typeof serializer.deserialize !== 'function') {
+        throw new Error('serializer for format \'' + format + '\' must implement serialize() and deserialize()')
+      }
+      if (this.serializers.has(format)) {
+        throw new Error('a serializer is already registered for format: ' + format)
+      }
+      this.serializers.set(format, serializer)
+      return this
+    }
+
+    /**
+     * Unregisters the {@link Serializer} for the specified format from this
+     * registry.  Parent registries are not affected.
+     *
+     * @param format  the serialization format
+     *
+     * @returns `true` if a serializer was registered for the format
+     */
+    public unregister (format: string): boolean {
+      return this.serializers.delete(format)
+    }
+
+    /**
+     * Returns `true` if a {@link Serializer} is available for the specified
+     * format from this registry or its parent.
+     *
+     * @param format  the serialization format
+     *
+     * @returns `true` if a {@link Serializer} is available for the format
+     */
+    public has (format: string): boolean {
+      return this.serializers.has(format) || (this.parent !== undefined && this.parent.has(format))
+    }
+
+    /**
+     * Returns the formats available from this registry and its parent.
+     *
+     * @returns the formats available from this registry and its parent
+     */
+    get formats (): Set<string> {
+      const formats = this.parent ? this.parent.formats : new Set<string>()
+      for (const format of this.serializers.keys()) {
+        formats.add(format)
+      }
+      return formats
+    }
+
     /**
      * Returns the Serializer for the specified format.
      *
@@ -1614,13 +2327,20 @@ export namespace util {
      *          objects in the specified format.
      */
     public serializer (format: string): Serializer {
-      const serializer = SerializerRegistry.instance().serializers.get(format)
+      const serializer = this.serializers.get(format) || (this.parent && this.parent.has(format) ? this.parent.serializer(format) : undefined)
       if (!serializer) {
         throw new Error('No serializer registered for format: ' + format)
       }
 
       return serializer
     }
+
+    /**
+     * Create the global registry with the built-in serializers registered.
+     */
+    private static createGlobal (): SerializerRegistry {
+      return new SerializerRegistry().register(new JSONSerializer()).register(new pof.PofSerializer())
+    }
   }
 
 
@@ -1666,6 +2386,314 @@ export namespace util {
     }
   }
 
+  /**
+   * Throw an {@link Error} stating that the provided filter, extractor, aggregator
+   * or processor cannot be evaluated locally.
+   *
+   * @param type  the object that cannot be evaluated locally
+   * @ignore
+   */
+  export function unsupportedLocally (type: { '@class'?: string } | any): never {
+    throw new Error((type && type['@class'] ? type['@class'] : String(type)) + ' does not support local evaluation')
+  }
+
+  /**
+   * Compare two values using the natural ordering of JavaScript primitives,
+   * `Date`s and arrays.  `null` and `undefined` are ordered before any other value.
+   *
+   * @param a  the first value
+   * @param b  the second value
+   *
+   * @return a negative number, zero, or a positive number as the first value is
+   *         less than, equal to, or greater than the second
+   * @ignore
+   */
+  export function compare (a: any, b: any): number {
+    if (a == null || b == null) {
+      return a == null ? (b == null ? 0 : -1) : 1
+    }
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() - b.getTime()
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const result = compare(a[i], b[i])
+        if (result != 0) {
+          return result
+        }
+      }
+      return a.length - b.length
+    }
+    if (typeof a === 'object' || typeof b === 'object') {
+      throw new Error('values ' + JSON.stringify(a) + ' and ' + JSON.stringify(b) + ' are not comparable')
+    }
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+
+  /**
+   * Sort map entries locally using the specified comparator.  Unless the comparator is a
+   * {@link comparator.EntryComparator}, the entries are ordered by their values.
+   *
+   * @param entries              the entries to sort in place
+   * @param comparatorOfEntries  the comparator, if any; the entries are not reordered if not specified
+   *
+   * @return the sorted entries
+   * @ignore
+   */
+  export function sort<K, V> (entries: Array<MapEntry<K, V>>, comparatorOfEntries?: Comparator | null): Array<MapEntry<K, V>> {
+    if (!comparatorOfEntries) {
+      return entries
+    }
+    if (!(comparatorOfEntries instanceof comparator.Comparator)) {
+      return unsupportedLocally(comparatorOfEntries)
+    }
+    const ordering = comparatorOfEntries
+    return entries.sort((a, b) => ordering.compareEntries(a, b))
+  }
+
+  /**
+   * Create a {@link CacheEntry} for the specified key and value.  The version is read
+   * from the `@version` property of a versioned value.
+   *
+   * @param key           the key of the entry
+   * @param value         the value of the entry
+   * @param expiry        the time the entry expires, in milliseconds since the epoch; the
+   *                      entry does not expire if `Infinity`, and the expiry is not reported
+   *                      if not specified
+   * @param lastModified  the time the entry was last updated, in milliseconds since the
+   *                      epoch, if reported
+   *
+   * @return the entry
+   * @ignore
+   */
+  export function cacheEntryOf<K, V> (key: K, value: V, expiry?: number, lastModified?: number): CacheEntry<K, V> {
+    const version = (value !== null && typeof value === 'object') ? (value as any)['@version'] : undefined
+    return {
+      key,
+      value,
+      expiry: expiry === undefined || expiry === Infinity ? null : new Date(expiry),
+      lastModified: lastModified === undefined ? null : new Date(lastModified),
+      version: version === undefined || version === null ? null : Number(version)
+    }
+  }
+
+  /**
+   * Determine whether two values are structurally equal; objects and arrays
+   * are compared member by member, `Date`s by their time value.  `null` and
+   * `undefined` are considered equal.
+   *
+   * @param a  the first value
+   * @param b  the second value
+   *
+   * @return `true` if the values are equal
+   * @ignore
+   */
+  export function equals (a: any, b: any): boolean {
+    if (a === b || (a == null && b == null)) {
+      return true
+    }
+    if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') {
+      return false
+    }
+    if (a instanceof Date || b instanceof Date) {
+      return a instanceof Date && b instanceof Date && a.getTime() == b.getTime()
+    }
+    if (Array.isArray(a) != Array.isArray(b)) {
+      return false
+    }
+    const keysA = Object.keys(a)
+    const keysB = Object.keys(b)
+    if (keysA.length != keysB.length) {
+      return false
+    }
+    for (const key of keysA) {
+      if (!equals(a[key], b[key])) {
+        return false
+      }
+    }
+    return true
+  }
+
+  /**
+   * Utility function for separating the optional `ttl` and {@link RequestOptions} arguments
+   * of `set()` and `setIfAbsent()`, where the options may be passed in place of the `ttl`.
+   *
+   * @param ttlOrOptions  the `ttl` or the request options
+   * @param options       the request options, if a `ttl` was passed
+   * @ignore
+   */
+  export function ttlAndOptions (ttlOrOptions?: number | RequestOptions,
+                                 options?: RequestOptions): [number | undefined, RequestOptions | undefined] {
+    return typeof ttlOrOptions === 'object' ? [undefined, ttlOrOptions] : [ttlOrOptions, options]
+  }
+
+  /**
+   * Utility function implementing {@link NamedMap.compute} using the operations of the map.
+   *
+   * @param map        the map
+   * @param key        the key
+   * @param remapping  the processor or function computing the new value
+   * @param options    the request options
+   * @ignore
+   */
+  export async function compute<K, V> (map: NamedMap<K, V>, key: K,
+                                       remapping: processor.EntryProcessor<K, V, V> | ((key: K, value: V | null) => V | null | Promise<V | null>),
+                                       options?: RequestOptions): Promise<V | null> {
+    if (remapping instanceof processor.EntryProcessor) {
+      return map.invoke(key, remapping, options)
+    }
+    for (let attempt = 1; ; attempt++) {
+      const value = await map.get(key, options)
+      const newValue = await remapping(key, value)
+      if (await compareAndSet(map, key, value, newValue, options)) {
+        return isAbsent(newValue) ? null : newValue
+      }
+      checkRecompute('compute', attempt, options)
+    }
+  }
+
+  /**
+   * Utility function implementing {@link NamedMap.computeIfAbsent} using the operations of the map.
+   *
+   * @param map      the map
+   * @param key      the key
+   * @param mapping  the processor or function computing the value
+   * @param options  the request options
+   * @ignore
+   */
+  export async function computeIfAbsent<K, V> (map: NamedMap<K, V>, key: K,
+                                               mapping: processor.EntryProcessor<K, V, V> | ((key: K) => V | null | Promise<V | null>),
+                                               options?: RequestOptions): Promise<V | null> {
+    if (mapping instanceof processor.EntryProcessor) {
+      const result = await map.invoke(key, mapping.when(new filter.NotFilter(filter.PresentFilter.INSTANCE)), options)
+      return isAbsent(result) ? map.get(key, options) : result
+    }
+    const value = await map.get(key, options)
+    if (!isAbsent(value)) {
+      return value
+    }
+    const newValue = await mapping(key)
+    if (isAbsent(newValue)) {
+      return null
+    }
+    // setIfAbsent() returns the value of a racing writer, if any
+    const current = await map.setIfAbsent(key, newValue as V, options)
+    return isAbsent(current) ? newValue : current
+  }
+
+  /**
+   * Utility function implementing {@link NamedMap.computeIfPresent} using the operations of the map.
+   *
+   * @param map        the map
+   * @param key        the key
+   * @param remapping  the processor or function computing the new value
+   * @param options    the request options
+   * @ignore
+   */
+  export async function computeIfPresent<K, V> (map: NamedMap<K, V>, key: K,
+                                                remapping: processor.EntryProcessor<K, V, V> | ((key: K, value: V) => V | null | Promise<V | null>),
+                                                options?: RequestOptions): Promise<V | null> {
+    if (remapping instanceof processor.EntryProcessor) {
+      return map.invoke(key, remapping.when(filter.PresentFilter.INSTANCE), options)
+    }
+    for (let attempt = 1; ; attempt++) {
+      const value = await map.get(key, options)
+      if (isAbsent(value)) {
+        return null
+      }
+      const newValue = await remapping(key, value as V)
+      if (await compareAndSet(map, key, value, newValue, options)) {
+        return isAbsent(newValue) ? null : newValue
+      }
+      checkRecompute('computeIfPresent', attempt, options)
+    }
+  }
+
+  /**
+   * Utility function implementing {@link NamedMap.merge} using the operations of the map.
+   *
+   * @param map        the map
+   * @param key        the key
+   * @param value      the value to associate with the key if it is absent
+   * @param remapping  the function computing the new value if the key is present
+   * @param options    the request options
+   * @ignore
+   */
+  export async function merge<K, V> (map: NamedMap<K, V>, key: K, value: V,
+                                     remapping: (value: V, newValue: V) => V | null | Promise<V | null>,
+                                     options?: RequestOptions): Promise<V | null> {
+    for (let attempt = 1; ; attempt++) {
+      const current = await map.get(key, options)
+      const newValue = isAbsent(current) ? value : await remapping(current as V, value)
+      if (await compareAndSet(map, key, current, newValue, options)) {
+        return isAbsent(newValue) ? null : newValue
+      }
+      checkRecompute('merge', attempt, options)
+    }
+  }
+
+  /**
+   * The maximum number of times {@link compute}, {@link computeIfPresent} and {@link merge}
+   * compute a new value for a key whose value keeps changing concurrently.
+   * @ignore
+   */
+  export const MAX_RECOMPUTE_ATTEMPTS = 100
+
+  /**
+   * Throws if a new value may not be computed again after the value changed concurrently:
+   * because the request has been aborted, its deadline has passed, or the maximum number
+   * of attempts has been made.
+   *
+   * @param operation  the name of the operation
+   * @param attempt    the number of attempts made
+   * @param options    the request options
+   */
+  function checkRecompute (operation: string, attempt: number, options?: RequestOptions): void {
+    if (options && options.signal && options.signal.aborted) {
+      throw new Error(operation + '() was aborted after ' + attempt + ' attempts to change a concurrently changing value')
+    }
+    const deadline = options && options.deadline instanceof Date ? options.deadline.getTime() : options && options.deadline
+    if (deadline !== undefined && deadline <= Date.now()) {
+      throw new Error(operation + '() reached its deadline after ' + attempt + ' attempts to change a concurrently changing value')
+    }
+    if (attempt >= MAX_RECOMPUTE_ATTEMPTS) {
+      throw new Error(operation + '() gave up after ' + attempt + ' attempts to change a concurrently changing value')
+    }
+  }
+
+  /**
+   * Atomically change the value associated with the key from the expected value, which is
+   * `null` if the key is expected to be absent, to the new value, removing the mapping if the
+   * new value is `null`.
+   *
+   * @param map       the map
+   * @param key       the key
+   * @param expected  the expected value
+   * @param newValue  the new value
+   * @param options   the request options
+   *
+   * @return `true` if the value was changed, or `false` if the key is no longer associated
+   *         with the expected value
+   */
+  async function compareAndSet<K, V> (map: NamedMap<K, V>, key: K, expected: V | null, newValue: V | null,
+                                      options?: RequestOptions): Promise<boolean> {
+    if (isAbsent(expected)) {
+      return isAbsent(newValue) || isAbsent(await map.setIfAbsent(key, newValue as V, options))
+    }
+    return isAbsent(newValue)
+      ? map.removeMapping(key, expected as V, options)
+      : map.replaceMapping(key, expected as V, newValue as V, options)
+  }
+
+  /**
+   * Returns `true` if the value represents an absent mapping.
+   *
+   * @param value  the value
+   */
+  function isAbsent (value: any): boolean {
+    return value === null || value === undefined
+  }
+
   /**
    * Utility function for checking if an object is an Iterable.
    *
@@ -5,7 +5,7 @@
  * http://oss.oracle.com/licenses/upl.
  */
 
-const { event, Filters, Extractors, Session, Aggregators } = require('../lib')
+const { event, Comparators, Filters, Extractors, Processors, Session, Aggregators } = require('../lib')
 const test = require('./util')
 const assert = require('assert').strict
 const { describe, it, after, beforeEach } = require('mocha')
@@ -231,6 +231,71 @@ describe('NamedCacheClient IT Test Suite', function () {
       })
     })
 
+    describe('query()', () => {
+      it('should return sorted pages of the filtered entries', async () => {
+        const query = { filter: Filters.greater('ival', 123), orderBy: { extractor: 'ival', descending: true }, limit: 2 }
+        const first = await cache.query(query)
+        assert.deepEqual(first.entries.map(e => e.value.ival), [456, 345])
+
+        const second = await cache.query(Object.assign({}, query, { cursor: first.cursor }))
+        assert.deepEqual(second.entries.map(e => e.value.ival), [234])
+        assert.equal(second.cursor, null)
+      })
+    })
+
+    describe('iterateEntries() and streamKeys()', () => {
+      it('should iterate over all or the filtered entries', async () => {
+        const ivals = []
+        for await (const entry of cache.iterateEntries(null, { pageSize: 1 })) {
+          ivals.push(entry.value.ival)
+        }
+        assert.deepEqual(ivals.sort(), [123, 234, 345, 456])
+
+        const values = []
+        for await (const value of cache.iterateValues(Filters.greater(Extractors.extract('ival'), 123), { pageSize: 1 })) {
+          values.push(value)
+        }
+        await test.compareElements([val234, val345, val456], values)
+      })
+
+      it('should stream keys until the stream is destroyed', async () => {
+        const keys = []
+        for await (const key of cache.streamKeys(Filters.greater(Extractors.extract('ival'), 123))) {
+          keys.push(key)
+          break
+        }
+        assert.equal(keys.length, 1)
+      })
+    })
+
+    describe('entries() and values() with a Comparator', () => {
+      it('should return results in the order of the comparator', async () => {
+        const entries = await cache.entries(Filters.greater('ival', 123), Comparators.comparing('ival').reversed())
+        assert.deepEqual(Array.from(entries).map(e => e.value.ival), [456, 345, 234])
+
+        const values = await cache.values(Filters.always(), Comparators.chain(Comparators.comparing('group'), Comparators.comparing('str')))
+        assert.deepEqual(Array.from(values).map(v => v.ival), [123, 234, 345, 456])
+      })
+    })
+
+    describe('getEntry() and setExpiry()', () => {
+      it('should return entries with the metadata reported by the proxy', async () => {
+        const entry = await cache.getEntry(val123)
+        assert.deepEqual(entry.value, val123)
+        assert.equal(entry.expiry, null)
+        assert.equal(entry.lastModified, null)
+
+        const entries = await cache.getAllEntries([val123, { id: 'missing' }])
+        assert.equal(entries.size, 1)
+      })
+
+      it('should reject setExpiry() and touch entries', async () => {
+        await assert.rejects(cache.setExpiry(val123, 1000), /setExpiry is not supported by the gRPC proxy/)
+        await cache.touch(val123)
+        assert.equal(await cache.has(val123), true)
+      })
+    })
+
     describe('keySet()', () => {
       it('should return a set of all keys within the cache', async () => {
         const keySet = await cache.keys()
@@ -301,6 +366,21 @@ describe('NamedCacheClient IT Test Suite', function () {
       })
     })
 
+    describe('compute() and merge()', () => {
+      it('should atomically update concurrently incremented counters', async () => {
+        await Promise.all(Array.from({ length: 10 }, () => cache.merge('counter', 1, (a, b) => a + b)))
+        assert.equal(await cache.get('counter'), 10)
+        assert.equal(await cache.compute('counter', (key, value) => value * 2), 20)
+        assert.equal(await cache.computeIfPresent('counter', () => null), null)
+        assert.equal(await cache.has('counter'), false)
+      })
+
+      it('should apply processors on the server', async () => {
+        assert.equal(await cache.compute(val123, Processors.increment('ival', 1)), 124)
+        assert.deepEqual(await cache.computeIfAbsent(val123, Processors.update('ival', 0)), Object.assign({}, val123, { ival: 124 }))
+      })
+    })
+
     describe('set() with TTL', () => {
       it('should be possible to associate a ttl with a cache entry', async () => {
         await cache.set('val123', val123, 1000)
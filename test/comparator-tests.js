@@ -0,0 +1,74 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { comparator, Comparators, Extractors, Filters, LocalNamedCache } = require('../lib')
+const assert = require('assert').strict
+const { describe, it } = require('mocha')
+
+describe('Comparator Unit Test Suite', () => {
+  const people = [
+    { name: 'Fred', age: 56, city: 'Boston' },
+    { name: 'Bill', age: 38, city: null },
+    { name: 'Jane', age: 48, city: 'Austin' },
+    { name: 'Anne', age: 38, city: 'Boston' }
+  ]
+  const sorted = (c) => people.slice().sort((a, b) => c.compare(a, b)).map(p => p.name)
+
+  describe('A Comparator', () => {
+    it('should order values locally', () => {
+      assert.deepEqual(sorted(Comparators.comparing('age')), ['Bill', 'Anne', 'Jane', 'Fred'])
+      assert.deepEqual(sorted(Comparators.comparing('age').reversed()), ['Fred', 'Jane', 'Bill', 'Anne'])
+      assert.deepEqual(sorted(Comparators.chain(Comparators.comparing('age'), Comparators.comparing(Extractors.extract('name')))),
+        ['Anne', 'Bill', 'Jane', 'Fred'])
+      assert.deepEqual(sorted(Comparators.comparing('city').thenComparing(Comparators.reverse(Comparators.comparing('age')))),
+        ['Bill', 'Jane', 'Fred', 'Anne'])
+      assert.deepEqual([3, null, 1].sort((a, b) => Comparators.natural().compare(a, b)), [null, 1, 3])
+      assert.deepEqual([3, null, 1].sort((a, b) => Comparators.reverse().compare(a, b)), [3, 1, null])
+    })
+
+    it('should order entries by key or value', () => {
+      const entries = [{ key: 'b', value: 1 }, { key: 'a', value: 2 }]
+      assert.deepEqual(entries.slice().sort((a, b) => Comparators.entry(null, comparator.ComparisonStyle.KEY).compare(a, b))
+        .map(e => e.key), ['a', 'b'])
+      assert.deepEqual(entries.slice().sort((a, b) => Comparators.entry(Comparators.reverse()).compare(a, b))
+        .map(e => e.key), ['a', 'b'])
+      assert.throws(() => Comparators.entry(undefined, comparator.ComparisonStyle.ENTRY).compare(entries[0], entries[1]),
+        /comparator.EntryComparator does not support local evaluation/)
+    })
+
+    it('should serialize to the server-side representation', () => {
+      assert.deepEqual(JSON.parse(JSON.stringify(Comparators.chain(Comparators.comparing('age').reversed(), Comparators.safe(Comparators.natural())))), {
+        '@class': 'comparator.ChainedComparator',
+        comparators: [
+          { '@class': 'comparator.InverseComparator',
+            comparator: { '@class': 'comparator.ExtractorComparator', extractor: { '@class': 'extractor.UniversalExtractor', name: 'age' } } },
+          { '@class': 'comparator.SafeComparator', comparator: { '@class': 'comparator.SafeComparator' } }]
+      })
+      assert.deepEqual(JSON.parse(JSON.stringify(Comparators.entry(Comparators.natural(), comparator.ComparisonStyle.KEY))),
+        { '@class': 'comparator.EntryComparator', comparator: { '@class': 'comparator.SafeComparator' }, style: 2 })
+    })
+  })
+
+  describe('A LocalNamedCache', () => {
+    it('should return entries and values in the order of the comparator', async () => {
+      const cache = new LocalNamedCache('people')
+      await cache.setAll(new Map(people.map(p => [p.name, p])))
+
+      const entries = await cache.entries(Filters.greater('age', 40), Comparators.comparing('age'))
+      assert.deepEqual(Array.from(entries).map(e => e.key), ['Jane', 'Fred'])
+      const values = await cache.values(Filters.always(), Comparators.comparing('name').reversed())
+      assert.deepEqual(Array.from(values).map(p => p.name), ['Jane', 'Fred', 'Bill', 'Anne'])
+      const keys = await cache.entries(Filters.always(), Comparators.entry(Comparators.natural(), comparator.ComparisonStyle.KEY))
+      assert.deepEqual(Array.from(keys).map(e => e.key), ['Anne', 'Bill', 'Fred', 'Jane'])
+
+      await assert.rejects(cache.values(Filters.always(), { '@class': 'comparator.CustomComparator' }),
+        /comparator.CustomComparator does not support local evaluation/)
+      const page = await cache.query({ orderBy: [Comparators.comparing('age').reversed()], limit: 1 })
+      assert.equal(page.entries[0].key, 'Fred')
+    })
+  })
+})
@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { config, LoadBalancingPolicy, Session } = require('../lib')
+const assert = require('assert').strict
+const { describe, it, before, after } = require('mocha')
+const fs = require('fs')
+const os = require('os')
+const path = require('path')
+
+describe('Configuration Unit Test Suite', () => {
+  describe('Options from the environment', () => {
+    it('should map the COHERENCE_ variables', () => {
+      const options = config.fromEnvironment({
+        COHERENCE_SERVER_ADDRESS: 'member1:1408,member2:1408',
+        COHERENCE_CLIENT_REQUEST_TIMEOUT: '5000',
+        COHERENCE_SCOPE: 'orders',
+        COHERENCE_FORMAT: 'pof',
+        COHERENCE_TLS_CERTS_PATH: '/etc/tls/ca.pem',
+        COHERENCE_TLS_SERVER_NAME_OVERRIDE: 'coherence.example.com'
+      })
+
+      assert.deepEqual(options.addresses, ['member1:1408', 'member2:1408'])
+      assert.equal(options.requestTimeoutInMillis, 5000)
+      assert.equal(options.scope, 'orders')
+      assert.equal(options.format, 'pof')
+      assert.equal(options.tls.enabled, true)
+      assert.equal(options.tls.caCertPath, '/etc/tls/ca.pem')
+      assert.equal(options.tls.serverNameOverride, 'coherence.example.com')
+
+      const tls = config.tlsFromEnvironment({ COHERENCE_TLS_ENABLED: 'false', COHERENCE_TLS_CERTS_PATH: '/etc/tls/ca.pem' })
+      assert.equal(tls.enabled, false)
+      assert.equal(tls.caCertPath, '/etc/tls/ca.pem')
+    })
+
+    it('should name the variable with an invalid value', () => {
+      assert.throws(() => config.fromEnvironment({ COHERENCE_CLIENT_REQUEST_TIMEOUT: 'soon' }),
+        { message: 'Invalid value for COHERENCE_CLIENT_REQUEST_TIMEOUT: expected a number' })
+      assert.throws(() => config.fromEnvironment({ COHERENCE_TLS_ENABLED: 'yes' }),
+        { message: 'Invalid value for COHERENCE_TLS_ENABLED: expected true or false' })
+      assert.throws(() => config.fromEnvironment({ COHERENCE_SERVER_ADDRESS: 'localhost' }),
+        /^Error: Invalid value for COHERENCE_SERVER_ADDRESS: Expected address format/)
+    })
+  })
+
+  describe('Options from a configuration file', () => {
+    let dir
+
+    before(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coherence-'))
+    })
+    after(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+    const write = (name, text) => {
+      const file = path.join(dir, name)
+      fs.writeFileSync(file, text)
+      return file
+    }
+
+    it('should select a profile from a YAML file', async () => {
+      const file = write('coherence.yaml', [
+        'defaultProfile: dev',
+        'profiles:',
+        '  dev:',
+        '    address: localhost:1408',
+        '  prod:',
+        '    address: coherence.example.com:1408',
+        '    requestTimeoutInMillis: 5000',
+        '    loadBalancing:',
+        '      policy: round_robin',
+        '    retry:',
+        '      retryableStatusCodes: [14]'
+      ].join('\n'))
+
+      assert.equal(config.fromFile(file).address, 'localhost:1408')
+
+      const options = config.fromFile(file, 'prod')
+      assert.equal(options.address, 'coherence.example.com:1408')
+      assert.equal(options.requestTimeoutInMillis, 5000)
+      assert.equal(options.loadBalancing.policy, LoadBalancingPolicy.ROUND_ROBIN)
+      assert.deepEqual(options.retry.retryableStatusCodes, [14])
+
+      const session = new Session(options)
+      assert.equal(session.options.requestTimeoutInMillis, 5000)
+      await session.close()
+    })
+
+    it('should read a JSON file', () => {
+      const file = write('coherence.json', JSON.stringify({ profiles: { test: { scope: 'test', tracing: { enabled: false } } } }))
+      const options = config.fromFile(file)
+
+      assert.equal(options.scope, 'test')
+      assert.equal(options.tracing.enabled, false)
+    })
+
+    it('should name the offending key', () => {
+      const file = write('invalid.yaml', 'profiles:\n  prod:\n    tls:\n      enabled: yes please\n    tsl: {}\n')
+
+      assert.throws(() => config.fromFile(file, 'prod'),
+        { message: 'Invalid value for \'profiles.prod.tls.enabled\' in ' + file + ': expected a boolean' })
+      assert.throws(() => config.fromObject({ tsl: {} }), { message: 'Unknown key \'tsl\'' })
+      assert.throws(() => config.fromObject({ loadBalancing: { policy: 'random' } }),
+        { message: 'Invalid value for \'loadBalancing.policy\': expected one of pick_first, round_robin' })
+      assert.throws(() => config.fromFile(file, 'dev'),
+        { message: 'Profile \'dev\' not found in ' + file + '; available profiles: prod' })
+    })
+  })
+})
@@ -0,0 +1,82 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { event, ContinuousQueryCache, Extractors, Filters, Processors, Session } = require('../lib')
+const assert = require('assert').strict
+const { describe, it, after, beforeEach } = require('mocha')
+const MapListener = event.MapListener
+
+describe('ContinuousQueryCache IT Test Suite', function () {
+  const session = new Session()
+  const cache = session.getCache('cqc-cache')
+  this.timeout(30000)
+
+  const settle = () => new Promise(resolve => setTimeout(resolve, 500))
+
+  beforeEach(async () => {
+    await cache.clear()
+    await cache.set('a', { name: 'a', group: 1, ival: 1 })
+    await cache.set('b', { name: 'b', group: 1, ival: 2 })
+    await cache.set('c', { name: 'c', group: 2, ival: 3 })
+  })
+
+  after(async () => {
+    await cache.release().finally(() => session.close().catch())
+  })
+
+  it('should load the entries matching the filter', async () => {
+    const cqc = new ContinuousQueryCache(cache, Filters.equal('group', 1))
+    await cqc.ready
+
+    assert.equal(cqc.localSize, 2)
+    assert.deepEqual(cqc.peek('a'), { name: 'a', group: 1, ival: 1 })
+    assert.equal(cqc.peek('c'), null)
+    assert.equal(await cqc.has('b'), true)
+
+    await cqc.release()
+  })
+
+  it('should track entries entering, changing within and leaving the view', async () => {
+    const cqc = new ContinuousQueryCache(cache, Filters.equal('group', 1))
+    await cqc.ready
+
+    const events = []
+    const listener = new MapListener()
+      .on(event.MapEventType.INSERT, e => events.push('insert:' + e.key))
+      .on(event.MapEventType.UPDATE, e => events.push('update:' + e.key))
+      .on(event.MapEventType.DELETE, e => events.push('delete:' + e.key))
+    await cqc.addMapListener(listener)
+
+    await cache.invoke('c', Processors.update('group', 1))
+    await settle()
+    await cache.invoke('a', Processors.update('ival', 10))
+    await settle()
+    await cache.invoke('b', Processors.update('group', 3))
+    await settle()
+
+    assert.deepEqual(events, ['insert:c', 'update:a', 'delete:b'])
+    assert.deepEqual(new Set(await cqc.keys()), new Set(['a', 'c']))
+    assert.equal(cqc.peek('a').ival, 10)
+
+    await cqc.release()
+  })
+
+  it('should hold transformed values when a transformer is provided', async () => {
+    const cqc = new ContinuousQueryCache(cache, Filters.equal('group', 1), Extractors.extract('name'))
+    await cqc.ready
+
+    assert.equal(cqc.peek('a'), 'a')
+    assert.equal(cqc.peek('b'), 'b')
+    await assert.rejects(cqc.set('d', 'd'))
+
+    await cache.set('d', { name: 'd', group: 1, ival: 4 })
+    await settle()
+    assert.equal(cqc.peek('d'), 'd')
+
+    await cqc.release()
+  })
+})
@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { Extractors, FilterParser, FilterParseError, Filters } = require('../lib')
+const assert = require('assert').strict
+const { describe, it } = require('mocha')
+
+describe('FilterParser Unit Test Suite', () => {
+  const parse = FilterParser.parse
+
+  describe('A FilterParser', () => {
+    it('should parse comparisons', () => {
+      assert.deepEqual(parse('age = 20'), Filters.equal('age', 20))
+      assert.deepEqual(parse('age == 20'), Filters.equal('age', 20))
+      assert.deepEqual(parse('name != "Bob"'), Filters.notEqual('name', 'Bob'))
+      assert.deepEqual(parse('name <> \'Bob\''), Filters.notEqual('name', 'Bob'))
+      assert.deepEqual(parse('age < -1.5'), Filters.less('age', -1.5))
+      assert.deepEqual(parse('age <= 2e3'), Filters.lessEqual('age', 2000))
+      assert.deepEqual(parse('age > 20'), Filters.greater('age', 20))
+      assert.deepEqual(parse('age >= 20'), Filters.greaterEqual('age', 20))
+      assert.deepEqual(parse('active = true'), Filters.equal('active', true))
+    })
+
+    it('should parse the remaining conditions', () => {
+      assert.deepEqual(parse('age between 20 and 30'), Filters.between('age', 20, 30, true, true))
+      assert.deepEqual(parse('age not between 20 and 30'), Filters.not(Filters.between('age', 20, 30, true, true)))
+      assert.deepEqual(parse('city in (\'Boston\', \'NYC\')'), Filters.in('city', new Set(['Boston', 'NYC'])))
+      assert.deepEqual(parse('name like \'A%\''), Filters.like('name', 'A%'))
+      assert.deepEqual(parse('name ilike \'a\\%%\' escape \'\\\''), Filters.like('name', 'a\\%%', '\\', true))
+      assert.deepEqual(parse('name is null'), Filters.isNull('name'))
+      assert.deepEqual(parse('name is not null'), Filters.isNotNull('name'))
+      assert.deepEqual(parse('tags contains \'a\''), Filters.arrayContains('tags', 'a'))
+      assert.deepEqual(parse('tags contains all (1, 2)'), Filters.arrayContainsAll('tags', new Set([1, 2])))
+      assert.deepEqual(parse('tags contains any (1, 2)'), Filters.arrayContainsAny('tags', new Set([1, 2])))
+      assert.deepEqual(parse('value() = 1'), Filters.equal(Extractors.identity(), 1))
+      assert.deepEqual(parse('name.length() > 1'), Filters.greater(Extractors.chained('name.length()'), 1))
+    })
+
+    it('should parse chained properties, logical operators and precedence', () => {
+      const expected = Filters.between('age', 20, 30, true, true)
+        .and(Filters.in('address.city', new Set(['Boston', 'NYC'])))
+        .and(Filters.not(Filters.like('name', 'A%')))
+      assert.deepEqual(parse('age between 20 and 30 and address.city in (\'Boston\',\'NYC\') and not name like \'A%\''),
+        expected)
+      assert.deepEqual(parse('a = 1 OR b = 2 AND c = 3'),
+        Filters.equal('a', 1).or(Filters.equal('b', 2).and(Filters.equal('c', 3))))
+      assert.deepEqual(parse('(a = 1 || b = 2) && !c = 3'),
+        Filters.equal('a', 1).or(Filters.equal('b', 2)).and(Filters.not(Filters.equal('c', 3))))
+    })
+
+    it('should substitute bind parameters', () => {
+      assert.deepEqual(parse('a = ? and b = ?', [1, 2]), Filters.equal('a', 1).and(Filters.equal('b', 2)))
+      assert.deepEqual(parse('a = ?2 and b = ?1', [1, 2]), Filters.equal('a', 2).and(Filters.equal('b', 1)))
+      assert.deepEqual(parse('a = :x and b in :ys', { x: 'it\'s', ys: new Set([1, 2]) }),
+        Filters.equal('a', 'it\'s').and(Filters.in('b', new Set([1, 2]))))
+      assert.deepEqual(parse('name = \'it\'\'s\''), Filters.equal('name', 'it\'s'))
+    })
+
+    it('should produce filters that can be evaluated', () => {
+      const filter = parse('age between 20 and 30 and address.city in (\'Boston\',\'NYC\') and not name like \'A%\'')
+      assert.equal(filter.evaluate({ name: 'Bob', age: 25, address: { city: 'NYC' } }), true)
+      assert.equal(filter.evaluate({ name: 'Alice', age: 25, address: { city: 'NYC' } }), false)
+    })
+
+    it('should report the position of errors', () => {
+      const fails = (query, message, line, column, params) => {
+        assert.throws(() => parse(query, params), err => {
+          assert.equal(err instanceof FilterParseError, true)
+          assert.equal(err.line, line)
+          assert.equal(err.column, column)
+          assert.equal(err.message, message + ' at line ' + line + ', column ' + column)
+          return true
+        })
+      }
+      fails('age = ', 'expected a value but found end of query', 1, 7)
+      fails('age\n  and b = 1', 'expected a comparison operator', 2, 3)
+      fails('a = 1 b = 2', 'unexpected \'b\'', 1, 7)
+      fails('(a = 1', 'expected \')\' but found end of query', 1, 7)
+      fails('a = \'x', 'unterminated string literal', 1, 5)
+      fails('a # 1', 'unexpected character \'#\'', 1, 3)
+      fails('a not = 1', 'expected between, in, like or ilike', 1, 7)
+      fails('a = :x', 'no value bound for parameter :x', 1, 5, {})
+      fails('a = ? or b = ?', 'no value bound for parameter ?', 1, 14, [1])
+      fails('a in ?', 'parameter ? must be bound to an array or a Set', 1, 6, [1])
+      fails('key() = 1', 'key() is not supported', 1, 1)
+    })
+  })
+})
@@ -0,0 +1,48 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { util } = require('../lib')
+const assert = require('assert').strict
+const { describe, it } = require('mocha')
+
+describe('HashMap Unit Test Suite', () => {
+  describe('A HashMap', () => {
+    it('should treat keys with the same serialized form as equal', () => {
+      const map = new util.HashMap()
+      map.set({ id: 1, type: 'a' }, 'one')
+      map.set({ id: 1, type: 'a' }, 'uno')
+      map.set({ id: 1, type: 'b' }, 'two')
+
+      assert.equal(map.size, 2)
+      assert.equal(map.get({ id: 1, type: 'a' }), 'uno')
+      assert.equal(map.has({ id: 1, type: 'b' }), true)
+      assert.equal(map.delete({ id: 1, type: 'b' }), true)
+      assert.equal(map.has({ id: 1, type: 'b' }), false)
+    })
+
+    it('should distinguish keys with different serialized forms', () => {
+      const map = new util.HashMap(4, [['1', 'string'], [1, 'number'], [[1], 'array']])
+
+      assert.equal(map.size, 3)
+      assert.equal(map.get('1'), 'string')
+      assert.equal(map.get(1), 'number')
+      assert.equal(map.get([1]), 'array')
+    })
+
+    it('should support a pluggable hashing strategy', () => {
+      const ignoreCase = {
+        hashCode: (key) => key.toLowerCase().length,
+        equals: (a, b) => a.toLowerCase() === b.toLowerCase()
+      }
+      const map = new util.HashMap(32, [['A', 1]], ignoreCase)
+
+      assert.equal(map.get('a'), 1)
+      map.set('a', 2)
+      assert.deepEqual(Array.from(map.entries()), [['A', 2]])
+    })
+  })
+})
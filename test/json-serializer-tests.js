@@ -0,0 +1,91 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { Filters, util } = require('../lib')
+const assert = require('assert').strict
+const { describe, it } = require('mocha')
+
+describe('JSON Serializer Unit Test Suite', () => {
+  class Person {
+    constructor (name) {
+      this.name = name
+    }
+
+    greet () {
+      return 'hi ' + this.name
+    }
+  }
+
+  const roundTrip = (value, serializer) => serializer.deserialize(serializer.serialize(value))
+  const toJson = (value, serializer) => JSON.parse(serializer.serialize(value).slice(1).toString())
+
+  describe('A JSONSerializer', () => {
+    it('should write BigInteger and BigDecimal values with Java @class metadata', () => {
+      const serializer = new util.JSONSerializer()
+      const big = BigInt('123456789012345678901234567890')
+      const dec = new util.BigDecimal('1234567890.123456789012345')
+
+      assert.deepEqual(toJson({ big, dec }, serializer),
+        { big: { '@class': 'math.BigInt', value: '123456789012345678901234567890' },
+          dec: { '@class': 'math.BigDec', value: '1234567890.123456789012345' } })
+
+      const result = roundTrip({ big, dec }, serializer)
+      assert.equal(result.big, big)
+      assert.ok(result.dec instanceof util.BigDecimal)
+      assert.equal(result.dec.toString(), '1234567890.123456789012345')
+      assert.throws(() => new util.BigDecimal('1.2.3'), /invalid decimal value: 1.2.3/)
+    })
+
+    it('should only preserve JavaScript types when configured to', () => {
+      const date = new Date(Date.UTC(2020, 6, 4, 12, 30))
+      const value = { date, map: new Map([[1, { a: 'b' }]]), set: new Set(['a']), buf: Buffer.from('abc') }
+
+      const plain = roundTrip(value, new util.JSONSerializer())
+      assert.equal(plain.date, '2020-07-04T12:30:00.000Z')
+      assert.deepEqual(plain.map, {})
+
+      assert.deepEqual(roundTrip(value, new util.JSONSerializer(true)), value)
+    })
+
+    it('should write JavaScript types as plain JSON the server does not interpret', () => {
+      const value = { date: new Date(Date.UTC(2020, 6, 4, 12, 30)), map: new Map([[1, 'a']]), set: new Set(['a']), buf: Buffer.from('abc') }
+
+      assert.deepEqual(toJson(value, new util.JSONSerializer(true)), {
+        date: { '@jsType': 'Date', value: '2020-07-04T12:30:00.000Z' },
+        map: { '@jsType': 'Map', entries: [[1, 'a']] },
+        set: { '@jsType': 'Set', values: ['a'] },
+        buf: { '@jsType': 'Buffer', value: 'YWJj' }
+      })
+    })
+
+    it('should revive instances of registered classes', () => {
+      const serializer = new util.JSONSerializer().registerClass('Person', Person)
+
+      assert.deepEqual(toJson([new Person('a')], serializer), [{ '@class': 'Person', name: 'a' }])
+      const person = roundTrip({ owner: new Person('a') }, serializer).owner
+      assert.ok(person instanceof Person)
+      assert.equal(person.greet(), 'hi a')
+      assert.equal(Object.prototype.hasOwnProperty.call(person, '@class'), false)
+
+      assert.throws(() => serializer.registerClass('Person', class Other {}), /already registered for @class name: Person/)
+      assert.throws(() => serializer.registerClass('math.BigInt', class Other {}), /already registered for @class name: math.BigInt/)
+      assert.throws(() => serializer.registerClass('Other', Person), /Person is already registered as @class Person/)
+    })
+
+    it('should leave filters and unregistered @class values unchanged', () => {
+      const serializer = new util.JSONSerializer(true)
+      const filter = Filters.equal('name', 'a')
+
+      assert.deepEqual(toJson(filter, serializer), JSON.parse(JSON.stringify(filter)))
+      assert.deepEqual(roundTrip({ '@class': 'Unknown', a: 1 }, serializer), { '@class': 'Unknown', a: 1 })
+    })
+
+    it('should round trip multi-byte characters', () => {
+      assert.equal(roundTrip('héllo 世界', new util.JSONSerializer()), 'héllo 世界')
+    })
+  })
+})
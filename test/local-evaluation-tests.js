@@ -0,0 +1,203 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { Aggregators, Extractors, Filters, Processors, filter, processor } = require('../lib')
+const assert = require('assert').strict
+const { describe, it } = require('mocha')
+const InvocableMapEntry = processor.InvocableMapEntry
+
+describe('Local Evaluation Unit Test Suite', () => {
+  const val123 = { id: 123, str: '123', ival: 123, fval: 12.3, iarr: [1, 2, 3], group: 1 }
+  const val234 = { id: 234, str: '234', ival: 234, fval: 23.4, iarr: [2, 3, 4], group: 2, nullIfOdd: 'non-null' }
+  const val345 = { id: 345, str: '345', ival: 345, fval: 34.5, iarr: [3, 4, 5], group: 2 }
+  const val456 = { id: 456, str: '456', ival: 456, fval: 45.6, iarr: [4, 5, 6], group: 3, nullIfOdd: 'non-null' }
+  const entries = [val123, val234, val345, val456].map(v => ({ key: v.str, value: v }))
+
+  describe('A Filter', () => {
+    it('should evaluate comparisons', () => {
+      assert.equal(Filters.equal('ival', 123).evaluate(val123), true)
+      assert.equal(Filters.notEqual('ival', 123).evaluate(val123), false)
+      assert.equal(Filters.greater('ival', 123).evaluate(val123), false)
+      assert.equal(Filters.greaterEqual('ival', 123).evaluate(val123), true)
+      assert.equal(Filters.less('fval', 20).evaluate(val123), true)
+      assert.equal(Filters.lessEqual('fval', 12.3).evaluate(val234), false)
+      assert.equal(Filters.isNull('nullIfOdd').evaluate(val123), true)
+      assert.equal(Filters.isNotNull('nullIfOdd').evaluate(val123), false)
+      assert.equal(Filters.in('group', new Set([1, 3])).evaluate(val456), true)
+    })
+
+    it('should evaluate ranges with SQL null semantics', () => {
+      const between = Filters.between('ival', 123, 345, true, false)
+      assert.deepEqual(entries.filter(e => between.evaluate(e.value)).map(e => e.key), ['123', '234'])
+      assert.equal(Filters.greater('nullIfOdd', 'a').evaluate(val123), false)
+      assert.equal(Filters.less('nullIfOdd', 'z').evaluate(val123), false)
+    })
+
+    it('should evaluate pattern matches', () => {
+      assert.equal(Filters.like('str', '1_3').evaluate(val123), true)
+      assert.equal(Filters.like('str', '%4').evaluate(val123), false)
+      assert.equal(Filters.like('nullIfOdd', 'NON-%', '0', true).evaluate(val234), true)
+      assert.equal(Filters.like('str', '1\\%', '\\').evaluate({ str: '1%' }), true)
+      assert.equal(Filters.like('str', '1\\%', '\\').evaluate({ str: '12' }), false)
+      assert.equal(Filters.regex('str', '\\d+').evaluate(val123), true)
+      assert.equal(Filters.regex('str', '\\d').evaluate(val123), false)
+    })
+
+    it('should not serialize compiled patterns', () => {
+      const filter = Filters.like('str', '1%')
+      const json = JSON.stringify(filter)
+      filter.evaluate(val123)
+      assert.equal(JSON.stringify(filter), json)
+    })
+
+    it('should evaluate array containment', () => {
+      assert.equal(Filters.arrayContains('iarr', 2).evaluate(val123), true)
+      assert.equal(Filters.arrayContainsAll('iarr', new Set([2, 3])).evaluate(val234), true)
+      assert.equal(Filters.arrayContainsAll('iarr', new Set([1, 4])).evaluate(val234), false)
+      assert.equal(Filters.arrayContainsAny('iarr', new Set([1, 9])).evaluate(val123), true)
+      assert.equal(Filters.arrayContainsAny('iarr', new Set([1, 9])).evaluate(val456), false)
+    })
+
+    it('should evaluate logical composites', () => {
+      const group2 = Filters.equal('group', 2)
+      const big = Filters.greater('ival', 300)
+      assert.equal(group2.and(big).evaluate(val345), true)
+      assert.equal(group2.and(big).evaluate(val234), false)
+      assert.equal(group2.or(big).evaluate(val456), true)
+      assert.equal(group2.xor(big).evaluate(val345), false)
+      assert.equal(Filters.not(group2).evaluate(val123), true)
+      assert.equal(Filters.always().evaluate(val123), true)
+      assert.equal(Filters.never().evaluate(val123), false)
+    })
+
+    it('should evaluate entry based filters', () => {
+      const filter = Filters.always().forKeys(new Set(['123', '345']))
+      assert.deepEqual(entries.filter(e => filter.evaluateEntry(e)).map(e => e.key), ['123', '345'])
+      assert.equal(Filters.present().evaluateEntry(new InvocableMapEntry('a')), false)
+      assert.equal(Filters.present().evaluateEntry(new InvocableMapEntry('a', 1)), true)
+    })
+
+    it('should throw a clear error for filters that cannot be evaluated locally', () => {
+      assert.throws(() => new filter.PredicateFilter({ '@class': 'SomePredicate' }).evaluate(val123),
+        /filter.PredicateFilter does not support local evaluation/)
+      assert.throws(() => Filters.event(Filters.always()).evaluate(val123),
+        /filter.MapEventFilter does not support local evaluation/)
+    })
+  })
+
+  describe('A ValueExtractor', () => {
+    it('should extract properties and chains of properties', () => {
+      const value = { name: 'a', address: { city: 'b' } }
+      assert.equal(Extractors.extract('name').extract(value), 'a')
+      assert.equal(Extractors.chained('address.city').extract(value), 'b')
+      assert.equal(Extractors.chained('missing.city').extract(value), null)
+      assert.deepEqual(Extractors.multi('name,address.city').extract(value), ['a', 'b'])
+      assert.equal(Extractors.identity().extract(value), value)
+    })
+
+    it('should invoke methods and accessors', () => {
+      class Person {
+        constructor (name) { this._name = name }
+        getName () { return this._name }
+        greet (greeting) { return greeting + ' ' + this._name }
+      }
+      const person = new Person('a')
+      assert.equal(Extractors.extract('name').extract(person), 'a')
+      assert.equal(Extractors.extract('getName()').extract(person), 'a')
+      assert.equal(Extractors.extract('greet', ['hi']).extract(person), 'hi a')
+      assert.equal(Extractors.extract('get', ['ival']).extract(val123), 123)
+    })
+  })
+
+  describe('An EntryAggregator', () => {
+    it('should aggregate numeric values', () => {
+      assert.equal(Aggregators.sum('ival').aggregate(entries), 1158)
+      assert.equal(Aggregators.average('ival').aggregate(entries), 289.5)
+      assert.equal(Aggregators.min('fval').aggregate(entries), 12.3)
+      assert.equal(Aggregators.max('str').aggregate(entries), '456')
+      assert.equal(Aggregators.count().aggregate(entries), 4)
+      assert.equal(Aggregators.sum('ival').aggregate([]), null)
+    })
+
+    it('should aggregate distinct values and groups', () => {
+      assert.deepEqual(Aggregators.distinct('group').aggregate(entries), [1, 2, 3])
+      assert.deepEqual(Aggregators.groupBy('group', Aggregators.min('id')).aggregate(entries),
+        [{ key: 1, value: 123 }, { key: 2, value: 234 }, { key: 3, value: 456 }])
+      assert.deepEqual(Aggregators.groupBy('group', Aggregators.count(), Filters.greater(Extractors.identity(), 1)).aggregate(entries),
+        [{ key: 2, value: 2 }])
+    })
+
+    it('should aggregate top, reduced and composite results', () => {
+      assert.deepEqual(Aggregators.top(2).orderBy('ival').ascending().aggregate(entries), [val123, val234])
+      assert.deepEqual(Aggregators.top(2).orderBy('ival').descending().aggregate(entries), [val456, val345])
+      assert.deepEqual(Aggregators.reduce('ival').aggregate(entries.slice(0, 2)),
+        [{ key: '123', value: 123 }, { key: '234', value: 234 }])
+      assert.deepEqual(Aggregators.count().andThen(Aggregators.sum('id')).aggregate(entries), [4, 1158])
+    })
+
+    it('should throw a clear error for aggregators that cannot be evaluated locally', () => {
+      assert.throws(() => Aggregators.script('js', 'agg', []).aggregate(entries),
+        /aggregator.ScriptAggregator does not support local evaluation/)
+    })
+  })
+
+  describe('An EntryProcessor', () => {
+    it('should update properties', () => {
+      const entry = new InvocableMapEntry('123', Object.assign({}, val123))
+      assert.equal(Processors.increment('ival', 2).process(entry), 125)
+      assert.equal(Processors.multiply('ival', 2, true).process(entry), 125)
+      assert.deepEqual(Processors.update('str', 'x').andThen(Processors.extract('str')).process(entry), [true, 'x'])
+      assert.equal(entry.value.ival, 250)
+      assert.equal(entry.modified, true)
+      assert.deepEqual(val123.ival, 123)
+    })
+
+    it('should update nested properties', () => {
+      const entry = new InvocableMapEntry('a', { a: { b: { ival: 1 } } })
+      Processors.update('a.b.ival', 2).process(entry)
+      assert.deepEqual(entry.value, { a: { b: { ival: 2 } } })
+    })
+
+    it('should conditionally put and remove entries', () => {
+      const absent = new InvocableMapEntry('a')
+      assert.equal(Processors.conditionalPut(Filters.not(Filters.present()), 1).process(absent), null)
+      assert.equal(absent.value, 1)
+      assert.equal(Processors.conditionalPut(Filters.not(Filters.present()), 2).process(absent), 1)
+      assert.equal(Processors.conditionalRemove(Filters.equal(Extractors.identity(), 1)).process(absent), null)
+      assert.equal(absent.present, false)
+    })
+
+    it('should omit results for entries that were changed when processing all', () => {
+      const ep = Processors.conditionalPut(Filters.greater('ival', 200), val123)
+      const all = entries.map(e => new InvocableMapEntry(e.key, e.value))
+      const results = ep.processAll(all)
+      assert.deepEqual(Array.from(results.keys()), ['123'])
+      assert.deepEqual(all.map(e => e.modified), [false, true, true, true])
+    })
+
+    it('should put versioned values', () => {
+      const entry = new InvocableMapEntry('a', { '@version': 1, v: 'a' })
+      assert.deepEqual(Processors.versionedPut({ '@version': 2, v: 'b' }, false, true).process(entry), { '@version': 1, v: 'a' })
+      assert.equal(Processors.versionedPut({ '@version': 1, v: 'b' }).process(entry), null)
+      assert.deepEqual(entry.value, { '@version': 2, v: 'b' })
+    })
+
+    it('should invoke methods', () => {
+      const entry = new InvocableMapEntry('a', Object.assign({}, val123))
+      assert.equal(Processors.invokeAccessor('get', 'ival').process(entry), 123)
+      assert.equal(entry.modified, false)
+      assert.equal(Processors.invokeMutator('remove', 'ival').process(entry), 123)
+      assert.equal(entry.modified, true)
+      assert.equal(entry.value.ival, undefined)
+    })
+
+    it('should throw a clear error for processors that cannot be evaluated locally', () => {
+      assert.throws(() => Processors.script('js', 'ep').process(new InvocableMapEntry('a', 1)),
+        /processor.ScriptProcessor does not support local evaluation/)
+    })
+  })
+})
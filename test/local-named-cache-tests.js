@@ -0,0 +1,369 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { event, filter, Aggregators, Filters, LocalNamedCache, Processors } = require('../lib')
+const assert = require('assert').strict
+const { describe, it, beforeEach } = require('mocha')
+const MapListener = event.MapListener
+
+describe('LocalNamedCache Unit Test Suite', () => {
+  let cache
+
+  beforeEach(() => {
+    cache = new LocalNamedCache('local-cache')
+  })
+
+  const collect = (events) => new MapListener()
+    .on(event.MapEventType.INSERT, e => events.push(['insert', e.key, e.oldValue, e.newValue]))
+    .on(event.MapEventType.UPDATE, e => events.push(['update', e.key, e.oldValue, e.newValue]))
+    .on(event.MapEventType.DELETE, e => events.push(['delete', e.key, e.oldValue, e.newValue]))
+
+  describe('Basic operations', () => {
+    it('should set, get and delete entries', async () => {
+      assert.equal(await cache.set('a', { id: 1 }), null)
+      assert.deepEqual(await cache.set('a', { id: 2 }), { id: 1 })
+      assert.deepEqual(await cache.get('a'), { id: 2 })
+      assert.equal(await cache.size, 1)
+      assert.deepEqual(await cache.delete('a'), { id: 2 })
+      assert.equal(await cache.get('a'), null)
+      assert.equal(await cache.empty, true)
+    })
+
+    it('should treat structurally equal keys as the same key', async () => {
+      await cache.set({ id: 1, type: 'x' }, 'one')
+      assert.equal(await cache.get({ id: 1, type: 'x' }), 'one')
+      assert.equal(await cache.has({ id: 1, type: 'x' }), true)
+    })
+
+    it('should not share value instances with the caller', async () => {
+      const value = { id: 1 }
+      await cache.set('a', value)
+      value.id = 2
+      const stored = await cache.get('a')
+      assert.deepEqual(stored, { id: 1 })
+      stored.id = 3
+      assert.deepEqual(await cache.get('a'), { id: 1 })
+    })
+
+    it('should support conditional operations', async () => {
+      assert.equal(await cache.setIfAbsent('a', 1), null)
+      assert.equal(await cache.setIfAbsent('a', 2), 1)
+      assert.equal(await cache.replace('b', 1), null)
+      assert.equal(await cache.has('b'), false)
+      assert.equal(await cache.replaceMapping('a', 2, 3), false)
+      assert.equal(await cache.replaceMapping('a', 1, 3), true)
+      assert.equal(await cache.hasEntry('a', 3), true)
+      assert.equal(await cache.hasValue(3), true)
+      assert.equal(await cache.removeMapping('a', 1), false)
+      assert.equal(await cache.removeMapping('a', 3), true)
+    })
+
+    it('should support bulk operations', async () => {
+      await cache.setAll(new Map([['a', 1], ['b', 2], ['c', 3]]))
+      assert.deepEqual(await cache.getAll(['a', 'c', 'd']), new Map([['a', 1], ['c', 3]]))
+      assert.deepEqual(new Set(await cache.keys()), new Set(['a', 'b', 'c']))
+      assert.deepEqual(new Set(await cache.values()), new Set([1, 2, 3]))
+
+      let sum = 0
+      await cache.forEach((value) => { sum += value })
+      assert.equal(sum, 6)
+    })
+  })
+
+  describe('Queries and processing', () => {
+    beforeEach(async () => {
+      await cache.setAll(new Map([['a', { group: 1, ival: 1 }], ['b', { group: 1, ival: 2 }], ['c', { group: 2, ival: 3 }]]))
+    })
+
+    it('should evaluate filters locally', async () => {
+      assert.deepEqual(new Set(await cache.keys(Filters.equal('group', 1))), new Set(['a', 'b']))
+      assert.deepEqual(Array.from(await cache.values(Filters.greater('ival', 2))), [{ group: 2, ival: 3 }])
+    })
+
+    it('should iterate and stream entries', async () => {
+      const keys = []
+      for await (const entry of cache.iterateEntries(Filters.equal('group', 1))) {
+        keys.push(entry.key)
+      }
+      assert.deepEqual(keys.sort(), ['a', 'b'])
+
+      const values = []
+      for await (const value of cache.streamValues()) {
+        values.push(value.ival)
+      }
+      assert.deepEqual(values.sort(), [1, 2, 3])
+    })
+
+    it('should return sorted pages of a query', async () => {
+      await cache.set('d', { group: 2, ival: 0 })
+      const query = { filter: Filters.greater('ival', 0), orderBy: ['group', { extractor: 'ival', descending: true }], limit: 2 }
+
+      const first = await cache.query(query)
+      assert.deepEqual(first.entries.map(e => e.key), ['b', 'a'])
+      const second = await cache.query(Object.assign({}, query, { cursor: first.cursor }))
+      assert.deepEqual(second.entries.map(e => e.key), ['c'])
+      assert.equal(second.cursor, null)
+
+      assert.deepEqual((await cache.query({ limit: 10 })).entries.length, 4)
+      await assert.rejects(cache.query({ limit: 0 }), /limit must be a positive integer/)
+      await assert.rejects(cache.query({ cursor: 'bogus' }), /Invalid query cursor/)
+    })
+
+    it('should aggregate locally', async () => {
+      assert.equal(await cache.aggregate(Aggregators.sum('ival')), 6)
+      assert.equal(await cache.aggregate(Filters.equal('group', 1), Aggregators.count()), 2)
+      assert.equal(await cache.aggregate(['b', 'c', 'd'], Aggregators.max('ival')), 3)
+    })
+
+    it('should process entries locally, raising events for changes', async () => {
+      const events = []
+      await cache.addMapListener(collect(events))
+
+      assert.equal(await cache.invoke('a', Processors.increment('ival', 10)), 11)
+      assert.equal(await cache.invoke('d', Processors.extract('ival')), null)
+      assert.deepEqual(await cache.invokeAll(Filters.equal('group', 1), Processors.extract('ival')),
+        new Map([['a', 11], ['b', 2]]))
+      await cache.invokeAll(['c', 'd'], Processors.conditionalPut(Filters.not(Filters.present()), { group: 3, ival: 4 }))
+      await cache.invoke('b', Processors.conditionalRemove(Filters.always()))
+
+      assert.deepEqual(events, [
+        ['update', 'a', { group: 1, ival: 1 }, { group: 1, ival: 11 }],
+        ['insert', 'd', null, { group: 3, ival: 4 }],
+        ['delete', 'b', { group: 1, ival: 2 }, null]])
+    })
+
+    it('should reject processors that cannot be evaluated locally', async () => {
+      await assert.rejects(cache.invoke('a', Processors.script('js', 'ep')),
+        /processor.ScriptProcessor does not support local evaluation/)
+    })
+  })
+
+  describe('Atomic compute operations', () => {
+    it('should compute, merge and remove values', async () => {
+      assert.equal(await cache.computeIfPresent('a', (key, value) => value + 1), null)
+      assert.equal(await cache.computeIfAbsent('a', () => 1), 1)
+      assert.equal(await cache.computeIfAbsent('a', () => 2), 1)
+      assert.equal(await cache.compute('a', (key, value) => value + 1), 2)
+      assert.equal(await cache.merge('a', 5, (value, increment) => value + increment), 7)
+      assert.equal(await cache.merge('b', 5, (value, increment) => value + increment), 5)
+      assert.equal(await cache.compute('b', async () => null), null)
+      assert.equal(await cache.has('b'), false)
+    })
+
+    it('should recompute when the value changes concurrently', async () => {
+      await cache.set('counter', 1)
+      const seen = []
+      const result = await cache.compute('counter', async (key, value) => {
+        seen.push(value)
+        if (seen.length == 1) {
+          await cache.set('counter', 10) // a racing writer
+        }
+        return value + 1
+      })
+
+      assert.deepEqual(seen, [1, 10])
+      assert.equal(result, 11)
+      assert.equal(await cache.get('counter'), 11)
+    })
+
+    it('should stop recomputing once aborted, past the deadline or after the maximum number of attempts', async () => {
+      await cache.set('counter', 1)
+      const racing = async (key, value) => {
+        await cache.set('counter', value + 1)
+        return value * 2
+      }
+
+      await assert.rejects(cache.compute('counter', racing),
+        /compute\(\) gave up after 100 attempts to change a concurrently changing value/)
+      assert.equal(await cache.get('counter'), 101)
+
+      const controller = new AbortController()
+      await assert.rejects(cache.merge('counter', 1, async (value) => {
+        controller.abort()
+        return racing('counter', value)
+      }, { signal: controller.signal }), /merge\(\) was aborted after 1 attempts/)
+
+      const slow = async (key, value) => {
+        await new Promise(resolve => setTimeout(resolve, 10))
+        return racing(key, value)
+      }
+      await assert.rejects(cache.computeIfPresent('counter', slow, { deadline: Date.now() + 30 }),
+        /computeIfPresent\(\) reached its deadline/)
+    })
+
+    it('should apply processors to present or absent entries', async () => {
+      await cache.set('a', { ival: 1 })
+
+      assert.equal(await cache.compute('a', Processors.increment('ival', 1)), 2)
+      assert.equal(await cache.computeIfPresent('b', Processors.increment('ival', 1)), null)
+      assert.deepEqual(await cache.computeIfAbsent('a', Processors.conditionalPut(Filters.always(), { ival: 0 })), { ival: 2 })
+      assert.deepEqual(await cache.computeIfAbsent('b', Processors.conditionalPut(Filters.always(), { ival: 0 })), { ival: 0 })
+    })
+  })
+
+  describe('Expiry', () => {
+    it('should expire entries set with a ttl', async () => {
+      await cache.set('a', 1, 50)
+      await cache.setIfAbsent('b', 2, 50)
+      await cache.set('c', 3)
+      assert.equal(await cache.size, 3)
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+      assert.equal(await cache.get('a'), null)
+      assert.equal(await cache.has('b'), false)
+      assert.equal(await cache.size, 1)
+    })
+
+    it('should accept request options in place of a ttl', async () => {
+      await cache.set('a', 1, { timeoutInMillis: 10 })
+      await cache.setIfAbsent('b', 2, { timeoutInMillis: 10 })
+
+      await new Promise(resolve => setTimeout(resolve, 50))
+      assert.equal(await cache.get('a'), 1)
+      assert.equal(await cache.get('b'), 2)
+      assert.equal(await cache.aggregate(Aggregators.count(), {}), 2)
+      assert.deepEqual(await cache.invokeAll(Processors.extract(), {}), new Map([['a', 1], ['b', 2]]))
+    })
+
+    it('should report the metadata of entries', async () => {
+      const before = Date.now()
+      await cache.set('a', { n: 1, '@version': 3 }, 1000)
+      await cache.set('b', 2)
+
+      const entry = await cache.getEntry('a')
+      assert.deepEqual(entry.value, { n: 1, '@version': 3 })
+      assert.equal(entry.version, 3)
+      assert.ok(entry.expiry.getTime() >= before + 1000)
+      assert.ok(entry.lastModified.getTime() >= before)
+      assert.equal(await cache.getEntry('c'), null)
+
+      const entries = await cache.getAllEntries(['a', 'b', 'c'])
+      assert.deepEqual(Array.from(entries.keys()), ['a', 'b'])
+      assert.equal(entries.get('b').value, 2)
+      assert.equal(entries.get('b').expiry, null)
+      assert.equal(entries.get('b').version, null)
+    })
+
+    it('should change the expiry of existing entries', async () => {
+      await cache.set('a', 1)
+      await cache.set('b', 2, 50)
+
+      assert.equal(await cache.setExpiry('a', 50), true)
+      assert.equal(await cache.setExpiry('b', 0), true)
+      assert.equal(await cache.setExpiry('c', 50), false)
+      await cache.touch('c')
+      assert.equal(await cache.has('c'), false)
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+      assert.equal(await cache.get('a'), null)
+      assert.equal(await cache.get('b'), 2)
+      assert.equal((await cache.getEntry('b')).expiry, null)
+    })
+  })
+
+  describe('Events', () => {
+    it('should raise events to listeners for all entries', async () => {
+      const events = []
+      await cache.addMapListener(collect(events))
+
+      await cache.set('a', 1)
+      await cache.set('a', 2)
+      await cache.delete('a')
+
+      assert.deepEqual(events, [['insert', 'a', null, 1], ['update', 'a', 1, 2], ['delete', 'a', 2, null]])
+    })
+
+    it('should raise events to key listeners', async () => {
+      const events = []
+      await cache.addMapListener(collect(events), 'a')
+
+      await cache.set('a', 1)
+      await cache.set('b', 1)
+
+      assert.deepEqual(events, [['insert', 'a', null, 1]])
+    })
+
+    it('should honour the MapEventFilter mask', async () => {
+      const events = []
+      await cache.addMapListener(collect(events), Filters.event(Filters.always(), filter.MapEventFilter.DELETED))
+
+      await cache.set('a', 1)
+      await cache.set('a', 2)
+      await cache.delete('a')
+
+      assert.deepEqual(events, [['delete', 'a', 2, null]])
+    })
+
+    it('should raise lite events without values', async () => {
+      const events = []
+      await cache.addMapListener(collect(events), true)
+
+      await cache.set('a', 1)
+
+      assert.deepEqual(events, [['insert', 'a', null, null]])
+    })
+
+    it('should stop raising events once a listener is removed', async () => {
+      const events = []
+      const listener = collect(events)
+      await cache.addMapListener(listener, 'a')
+      await cache.removeMapListener(listener, 'a')
+
+      await cache.set('a', 1)
+
+      assert.deepEqual(events, [])
+    })
+  })
+
+  describe('Lifecycle', () => {
+    it('should raise delete events when cleared', async () => {
+      const events = []
+      await cache.set('a', 1)
+      await cache.addMapListener(collect(events))
+
+      await cache.clear()
+
+      assert.deepEqual(events, [['delete', 'a', 1, null]])
+      assert.equal(await cache.size, 0)
+    })
+
+    it('should raise a truncated event, and no entry events, when truncated', async () => {
+      const events = []
+      await cache.set('a', 1)
+      await cache.addMapListener(collect(events))
+      const prom = new Promise(resolve => cache.on(event.MapLifecycleEvent.TRUNCATED, resolve))
+
+      await cache.truncate()
+
+      assert.equal(await prom, 'local-cache')
+      assert.deepEqual(events, [])
+      assert.equal(await cache.size, 0)
+    })
+
+    it('should raise a destroyed event and become inactive when destroyed', async () => {
+      const prom = new Promise(resolve => cache.on(event.MapLifecycleEvent.DESTROYED, resolve))
+
+      await cache.destroy()
+
+      assert.equal(await prom, 'local-cache')
+      assert.equal(cache.destroyed, true)
+      assert.equal(cache.active, false)
+      await assert.rejects(cache.get('a'))
+    })
+
+    it('should raise a released event and become inactive when released', async () => {
+      const prom = new Promise(resolve => cache.on(event.MapLifecycleEvent.RELEASED, resolve))
+
+      await cache.release()
+
+      assert.equal(await prom, 'local-cache')
+      assert.equal(cache.released, true)
+      assert.equal(cache.active, false)
+      await assert.rejects(cache.set('a', 1))
+    })
+  })
+})
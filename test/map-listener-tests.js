@@ -5,8 +5,12 @@
  * http://oss.oracle.com/licenses/upl.
  */
 
-const { MapEventResponse } = require('../lib/grpc/messages_pb')
-const { event, Filters, Session, filter } = require('../lib')
+const {
+  MapEventResponse, MapListenerResponse, MapListenerSubscribedResponse, MapListenerUnsubscribedResponse
+} = require('../lib/grpc/messages_pb')
+const { event, Filters, metrics, ReconnectOptions, Session, filter, tracing, TracingOptions, util } = require('../lib')
+const { EventEmitter } = require('events')
+const { Metadata } = require('grpc')
 const assert = require('assert').strict
 const { describe, it } = require('mocha')
 
@@ -269,6 +273,35 @@ describe('Map Events IT Test Suite', function () {
       }).then(() => done()).catch(error => done(error))
     })
 
+    it('should be registrable with a composite key equal to the event key', (done) => {
+      const cache = session.getCache('event-map' + Date.now())
+      const prom = new Promise((resolve) => {
+        cache.on(MapLifecycleEvent.DESTROYED, () => {
+          resolve()
+        })
+      })
+
+      const listener = new CountingMapListener('listener-default')
+      setImmediate(async () => {
+        await cache.addMapListener(listener, { id: 123, type: 'a' })
+
+        await cache.set({ id: 123, type: 'a' }, { xyz: '123-xyz' })
+        await cache.set({ id: 123, type: 'b' }, { abc: '123-abc' })
+        await cache.delete({ id: 123, type: 'a' })
+
+        await listener.waitFor(2).catch(error => done(error)).finally(() => cache.destroy())
+      })
+
+      prom.then(() => {
+        validateEventsForListener(listener, {
+          'inserts': [{ key: { id: 123, type: 'a' }, new: { xyz: '123-xyz' } }],
+          'updates': [],
+          'deletes': [{ key: { id: 123, type: 'a' }, old: { xyz: '123-xyz' } }],
+          'order': [{ key: { id: 123, type: 'a' }, new: { xyz: '123-xyz' } }, { key: { id: 123, type: 'a' }, old: { xyz: '123-xyz' } }]
+        })
+      }).then(() => done()).catch(error => done(error))
+    })
+
     it('should be registrable with a filter', (done) => {
       const cache = session.getCache('event-map' + Date.now())
       const prom = new Promise((resolve) => {
@@ -479,3 +512,90 @@ describe('Map Events IT Test Suite', function () {
     }
   }
 })
+
+describe('Map Events Unit Test Suite', () => {
+  /**
+   * An event stream answering each request, while the proxy is available.
+   */
+  class FakeStream extends EventEmitter {
+    constructor (proxy) {
+      super()
+      this.proxy = proxy
+      this.requests = []
+    }
+
+    write (request) {
+      this.requests.push(request)
+      setImmediate(() => {
+        if (!this.proxy.available) {
+          this.emit('error', Object.assign(new Error('unavailable'), { code: 14 }))
+          return
+        }
+        const response = new MapListenerResponse()
+        if (request.getSubscribe()) {
+          response.setSubscribed(new MapListenerSubscribedResponse().setUid(request.getUid()))
+        } else {
+          response.setUnsubscribed(new MapListenerUnsubscribedResponse().setUid(request.getUid()))
+        }
+        this.emit('data', response)
+      })
+    }
+
+    end () {
+      setImmediate(() => this.emit('error', Object.assign(new Error('1 CANCELLED: Cancelled'), { code: 1 })))
+    }
+  }
+
+  const newManager = (proxy, emitter) => {
+    const reconnect = Object.assign(new ReconnectOptions(), { initialDelayInMillis: 5, maxAttempts: 2 })
+    const client = {
+      events: () => {
+        const stream = new FakeStream(proxy)
+        proxy.streams.push(stream)
+        return stream
+      }
+    }
+    return new event.MapEventsManager({ name: 'fake-cache' }, '', () => client,
+      util.SerializerRegistry.instance().serializer('json'), emitter, reconnect, () => {},
+      new tracing.RequestTracer(new TracingOptions()), new metrics.CacheMetrics('fake-cache', 'json'),
+      (operation, request, keys, call) => call(new Metadata()))
+  }
+
+  const subscriptions = (stream) => stream.requests
+    .filter(request => request.getType() !== 0)
+    .map(request => [request.getSubscribe(), request.getType()])
+
+  it('should raise a terminal event once reconnection gives up and replay listeners once the stream is re-created', async () => {
+    const proxy = { available: true, streams: [] }
+    const emitter = new EventEmitter()
+    const lifecycle = []
+    for (const name of [MapLifecycleEvent.DISCONNECTED, MapLifecycleEvent.RECONNECT_FAILED, MapLifecycleEvent.RECONNECTED]) {
+      emitter.on(name, (cacheName) => lifecycle.push([name, cacheName]))
+    }
+    const manager = newManager(proxy, emitter)
+
+    await manager.registerKeyListener(new MapListener(), 'a')
+    await manager.registerFilterListener(new MapListener(), Filters.event(Filters.always()))
+    assert.equal(proxy.streams.length, 1)
+
+    // lose the stream, and fail every reconnection attempt
+    const failed = new Promise(resolve => emitter.once(MapLifecycleEvent.RECONNECT_FAILED, (cacheName, err) => resolve(err)))
+    proxy.available = false
+    proxy.streams[0].emit('error', Object.assign(new Error('unavailable'), { code: 14 }))
+    assert.equal((await failed).code, 14)
+    assert.deepEqual(lifecycle, [[MapLifecycleEvent.DISCONNECTED, 'fake-cache'], [MapLifecycleEvent.RECONNECT_FAILED, 'fake-cache']])
+    assert.equal(manager.streamOpen, false)
+
+    // the next registration re-creates the stream and replays the lost registrations
+    proxy.available = true
+    const reconnected = new Promise(resolve => emitter.once(MapLifecycleEvent.RECONNECTED, resolve))
+    await manager.registerKeyListener(new MapListener(), 'b')
+    await reconnected
+
+    const stream = proxy.streams[proxy.streams.length - 1]
+    assert.deepEqual(subscriptions(stream).sort(), [[true, 1], [true, 1], [true, 2]])
+    assert.equal(lifecycle[lifecycle.length - 1][0], MapLifecycleEvent.RECONNECTED)
+
+    await manager.closeEventStream()
+  })
+})
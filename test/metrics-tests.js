@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { metrics, Session, util } = require('../lib')
+const assert = require('assert').strict
+const { describe, it } = require('mocha')
+
+describe('Metrics Unit Test Suite', () => {
+  describe('A Histogram', () => {
+    it('should count values in cumulative buckets', () => {
+      const histogram = new metrics.Histogram([1, 10])
+      histogram.record(0.5)
+      histogram.record(1)
+      histogram.record(5)
+      histogram.record(50)
+
+      assert.deepEqual(histogram.snapshot(), {
+        count: 4,
+        sum: 56.5,
+        buckets: [{ le: 1, count: 2 }, { le: 10, count: 3 }]
+      })
+    })
+  })
+
+  describe('A SessionMetrics', () => {
+    it('should record requests, errors and serialized bytes by cache', async () => {
+      const session = new Session({ address: 'localhost:1', retry: { enabled: false } })
+      const unavailable = () => Promise.reject(Object.assign(new Error('unavailable'), { code: 14 }))
+      session.addInterceptor((context, next) =>
+        context.operation === 'get' ? Promise.resolve(null) : context.operation === 'events' ? unavailable() : next())
+      const cache = session.getCache('metrics-cache')
+
+      await cache.get('a')
+      await cache.get('b')
+      await assert.rejects(cache.set('a', 1))
+
+      const snapshot = cache.metrics.snapshot()
+      assert.equal(snapshot.cacheName, 'metrics-cache')
+      assert.equal(snapshot.format, 'json')
+      assert.equal(snapshot.requests.get.count, 2)
+      assert.equal(snapshot.requests.get.errors, 0)
+      assert.equal(snapshot.requests.get.latency.count, 2)
+      assert.equal(snapshot.requests.set.errors, 1)
+      assert.equal(snapshot.requests.events.errors, 1)
+      assert.deepEqual(snapshot.errors, { UNAVAILABLE: 2 })
+      assert.ok(snapshot.bytesSerialized > 0)
+      assert.equal(snapshot.openEventStreams, 0)
+      assert.equal(snapshot.activeListenerGroups, 0)
+
+      const totals = session.metrics.snapshot()
+      assert.equal(totals.requests, 4)
+      assert.equal(totals.errors, 2)
+      assert.equal(totals.bytesSerialized, snapshot.bytesSerialized)
+      assert.deepEqual(totals.caches.map(c => c.cacheName), ['metrics-cache'])
+
+      await session.close()
+    })
+
+    it('should not count the bytes of keys hashed locally', async () => {
+      const session = new Session({ address: 'localhost:1', retry: { enabled: false } })
+      session.addInterceptor((context, next) => context.operation === 'events' ? Promise.resolve() : next())
+      const cache = session.getCache('metrics-cache')
+      const near = session.getCache('metrics-cache', Session.DEFAULT_FORMAT, { maxEntries: 3 })
+      await new Promise(resolve => setImmediate(resolve))
+      const bytesSerialized = cache.metrics.snapshot().bytesSerialized
+
+      cache.getSerializer().serialize('a')
+      near.invalidate('a')
+
+      assert.equal(cache.metrics.snapshot().bytesSerialized, bytesSerialized)
+
+      await session.close()
+    })
+
+    it('should count deserialized bytes', () => {
+      const cacheMetrics = new metrics.CacheMetrics('c', 'json')
+      const serializer = new metrics.MeteredSerializer(util.SerializerRegistry.instance().serializer('json'), cacheMetrics)
+
+      assert.deepEqual(serializer.deserialize(serializer.serialize({ a: 1 })), { a: 1 })
+      assert.ok(cacheMetrics.snapshot().bytesSerialized > 0)
+      assert.equal(cacheMetrics.snapshot().bytesDeserialized, cacheMetrics.snapshot().bytesSerialized)
+    })
+  })
+
+  describe('A PrometheusExporter', () => {
+    it('should format metrics in the text exposition format', () => {
+      const sessionMetrics = new metrics.SessionMetrics()
+      const cacheMetrics = sessionMetrics.forCache('a"b', 'json')
+      cacheMetrics.recordRequest('get', 3)
+      cacheMetrics.recordRequest('get', 30, { code: 4 })
+      cacheMetrics.recordEventDispatched()
+
+      const text = new metrics.PrometheusExporter(sessionMetrics).scrape()
+      const labels = 'cache="a\\"b",format="json"'
+      assert.ok(text.includes('# TYPE coherence_requests_total counter\n'))
+      assert.ok(text.includes('coherence_requests_total{' + labels + ',operation="get"} 2\n'))
+      assert.ok(text.includes('coherence_request_duration_milliseconds_bucket{' + labels + ',operation="get",le="5"} 1\n'))
+      assert.ok(text.includes('coherence_request_duration_milliseconds_bucket{' + labels + ',operation="get",le="+Inf"} 2\n'))
+      assert.ok(text.includes('coherence_request_duration_milliseconds_sum{' + labels + ',operation="get"} 33\n'))
+      assert.ok(text.includes('coherence_request_errors_total{' + labels + ',status="DEADLINE_EXCEEDED"} 1\n'))
+      assert.ok(text.includes('coherence_events_dispatched_total{' + labels + '} 1\n'))
+    })
+  })
+})
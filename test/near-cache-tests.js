@@ -0,0 +1,124 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { event, EvictionPolicy, NearCache, Processors, Session, util } = require('../lib')
+const { EventEmitter } = require('events')
+const assert = require('assert').strict
+const { describe, it, after, beforeEach } = require('mocha')
+
+describe('NearCache IT Test Suite', function () {
+  const session = new Session()
+  const cache = session.getCache('near-cache-back')
+  const near = session.getCache('near-cache-back', Session.DEFAULT_FORMAT, { maxEntries: 3 })
+  this.timeout(30000)
+
+  beforeEach(async () => {
+    await near.clear()
+    await cache.set('a', { id: 1 })
+    await cache.set('b', { id: 2 })
+    await cache.set('c', { id: 3 })
+    await cache.set('d', { id: 4 })
+  })
+
+  after(async () => {
+    await cache.release().finally(() => session.close().catch())
+  })
+
+  it('should be returned by the session when near cache options are provided', () => {
+    assert.equal(near instanceof NearCache, true)
+    assert.equal(near.backCache, cache)
+    assert.equal(session.getCache('near-cache-back', Session.DEFAULT_FORMAT, {}), near)
+  })
+
+  it('should serve repeated reads locally', async () => {
+    const misses = near.misses
+    assert.deepEqual(await near.get('a'), { id: 1 })
+    assert.deepEqual(await near.get('a'), { id: 1 })
+    assert.equal(near.misses, misses + 1)
+    assert.equal(near.frontSize, 1)
+  })
+
+  it('should be bounded by the configured maximum entries', async () => {
+    await near.getAll(['a', 'b', 'c', 'd'])
+    assert.equal(near.frontSize, 3)
+  })
+
+  it('should invalidate entries changed through the back cache', async () => {
+    await near.get('a')
+    await cache.invoke('a', Processors.update('id', 10))
+    await new Promise(resolve => setTimeout(resolve, 250))
+    assert.equal(near.frontSize, 0)
+    assert.deepEqual(await near.get('a'), { id: 10 })
+  })
+
+  it('should clear the front map when the back cache is truncated', async () => {
+    await near.getAll(['a', 'b'])
+    const prom = new Promise((resolve) => {
+      near.on(event.MapLifecycleEvent.TRUNCATED, () => resolve())
+    })
+    await cache.truncate()
+    await prom
+    assert.equal(near.frontSize, 0)
+  })
+
+  it('should support LFU eviction', async () => {
+    const lfu = new NearCache(cache, { maxEntries: 2, evictionPolicy: EvictionPolicy.LFU })
+    await new Promise(resolve => setTimeout(resolve, 250))
+    await lfu.get('a')
+    await lfu.get('a')
+    await lfu.get('b')
+    await lfu.get('c')
+    const misses = lfu.misses
+    await lfu.get('a')
+    assert.equal(lfu.misses, misses)
+  })
+})
+
+describe('NearCache Unit Test Suite', () => {
+  /**
+   * A back cache answering each read with the number of reads made so far.
+   */
+  class FakeCache extends EventEmitter {
+    constructor () {
+      super()
+      this.active = true
+      this.reads = 0
+    }
+
+    getSerializer () {
+      return util.SerializerRegistry.instance().serializer('json')
+    }
+
+    addMapListener () {
+      return Promise.resolve()
+    }
+
+    get () {
+      return Promise.resolve(++this.reads)
+    }
+  }
+
+  it('should not store values locally while the event stream of the back cache is lost', async () => {
+    const back = new FakeCache()
+    const near = new NearCache(back, { maxEntries: 3 })
+    await new Promise(resolve => setImmediate(resolve))
+
+    back.emit(event.MapLifecycleEvent.DISCONNECTED, 'fake-cache', new Error('unavailable'))
+    assert.equal(await near.get('a'), 1)
+    assert.equal(await near.get('a'), 2)
+    assert.equal(near.frontSize, 0)
+
+    back.emit(event.MapLifecycleEvent.RECONNECT_FAILED, 'fake-cache', new Error('unavailable'))
+    assert.equal(await near.get('a'), 3)
+    assert.equal(near.frontSize, 0)
+
+    back.emit(event.MapLifecycleEvent.RECONNECTED, 'fake-cache')
+    assert.equal(await near.get('a'), 4)
+    assert.equal(await near.get('a'), 4)
+    assert.equal(near.frontSize, 1)
+  })
+})
@@ -0,0 +1,136 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { pof, util } = require('../lib')
+const assert = require('assert').strict
+const { describe, it } = require('mocha')
+
+describe('POF Serializer Unit Test Suite', () => {
+  class Person {
+    constructor (name, age) {
+      this.name = name
+      this.age = age
+    }
+
+    readExternal (reader) {
+      this.name = reader.readString(0)
+      this.age = reader.readInt32(1)
+      this.address = reader.readObject(2)
+    }
+
+    writeExternal (writer) {
+      writer.writeString(0, this.name)
+      writer.writeInt32(1, this.age)
+      writer.writeObject(2, this.address)
+    }
+  }
+
+  class Address {
+  }
+
+  const newSerializer = () => new pof.PofSerializer()
+    .registerType(1001, Person)
+    .registerType(1002, Address, {
+      readExternal: (reader, address) => { address.city = reader.readString(0) },
+      writeExternal: (writer, address) => writer.writeString(0, address.city)
+    })
+
+  const roundTrip = (value, serializer = newSerializer()) => serializer.deserialize(serializer.serialize(value))
+
+  describe('A PofSerializer', () => {
+    it('should be registered for the pof format', () => {
+      assert.equal(util.SerializerRegistry.instance().serializer('pof').format, 'pof')
+    })
+
+    it('should encode values using the POF wire format', () => {
+      const serializer = newSerializer()
+      assert.deepEqual(Array.from(serializer.serialize(1)), [0x15, 0x6A])
+      assert.deepEqual(Array.from(serializer.serialize(100)), [0x15, 0x41, 0xA4, 0x01])
+      assert.deepEqual(Array.from(serializer.serialize('abc')), [0x15, 0x4E, 0x03, 0x61, 0x62, 0x63])
+      assert.deepEqual(Array.from(serializer.serialize(null)), [0x15, 0x64])
+      assert.deepEqual(Array.from(serializer.serialize(true)), [0x15, 0x61])
+    })
+
+    it('should round trip primitive values', () => {
+      for (const value of [null, true, false, 0, -1, 22, 23, -100, 2147483647, -2147483648, 2 ** 40, -(2 ** 52),
+        Number.MAX_SAFE_INTEGER, 1.5, -0.25, Infinity, -Infinity, '', 'abc', 'héllo 世界']) {
+        assert.equal(roundTrip(value), value)
+      }
+      assert.ok(Number.isNaN(roundTrip(NaN)))
+    })
+
+    it('should round trip 64-bit integers outside of the safe integer range', () => {
+      assert.equal(roundTrip(BigInt('9223372036854775807')), BigInt('9223372036854775807'))
+      assert.equal(roundTrip(BigInt('-9223372036854775808')), BigInt('-9223372036854775808'))
+      assert.equal(roundTrip(BigInt(42)), 42)
+      assert.throws(() => newSerializer().serialize(BigInt('9223372036854775808')), /out of range for a POF int64/)
+    })
+
+    it('should encode the fraction of a second of dates as Coherence does', () => {
+      const serializer = newSerializer()
+      const header = [0x15, 0x53, 0xA4, 0x1F, 0x07, 0x04, 0x0C, 0x1E, 0x0F] // 2020-07-04T12:30:15
+
+      // a whole number of milliseconds is written as negative milliseconds, other fractions as nanoseconds
+      assert.deepEqual(Array.from(serializer.serialize(new Date(Date.UTC(2020, 6, 4, 12, 30, 15, 250)))),
+        header.concat([0xF9, 0x03, 0x01]))
+      assert.deepEqual(serializer.deserialize(Buffer.from(header.concat([0xF9, 0x03, 0x01]))),
+        new Date(Date.UTC(2020, 6, 4, 12, 30, 15, 250)))
+      assert.deepEqual(serializer.deserialize(Buffer.from(header.concat([0x95, 0xB4, 0xDE, 0x75, 0x01]))),
+        new Date(Date.UTC(2020, 6, 4, 12, 30, 15, 123)))
+    })
+
+    it('should round trip dates, binary data, arrays and maps', () => {
+      const date = new Date(Date.UTC(2020, 6, 4, 12, 30, 15, 250))
+      assert.deepEqual(roundTrip(date), date)
+      assert.deepEqual(roundTrip(Buffer.from([1, 2, 3])), Buffer.from([1, 2, 3]))
+      assert.deepEqual(roundTrip([1, 'a', [true, null]]), [1, 'a', [true, null]])
+      assert.deepEqual(roundTrip(new Set([1, 2])), [1, 2])
+      assert.deepEqual(roundTrip(new Map([[1, 'a'], ['b', [2]]])), new Map([[1, 'a'], ['b', [2]]]))
+      assert.deepEqual(roundTrip({ a: 1, b: 'c' }), new Map([['a', 1], ['b', 'c']]))
+    })
+
+    it('should round trip registered user types', () => {
+      const person = new Person('a', 42)
+      person.address = Object.assign(new Address(), { city: 'b' })
+
+      const result = roundTrip(person)
+      assert.ok(result instanceof Person)
+      assert.ok(result.address instanceof Address)
+      assert.deepEqual(result, person)
+      assert.deepEqual(roundTrip(new Person(null, 0)), Object.assign(new Person(null, 0), { address: null }))
+    })
+
+    it('should reject unregistered and invalid user types', () => {
+      const serializer = newSerializer()
+      assert.throws(() => serializer.serialize(new (class Unknown {})()), /no POF type id registered for class Unknown/)
+      assert.throws(() => new pof.PofSerializer().deserialize(serializer.serialize(new Person('a', 1))),
+        /no POF user type registered for type id 1001/)
+      assert.throws(() => serializer.registerType(1001, class Other {}, { readExternal () {}, writeExternal () {} }),
+        /already registered for type id 1001/)
+      assert.throws(() => serializer.registerType(2000, class NotPortable {}),
+        /NotPortable must implement readExternal\(\) and writeExternal\(\)/)
+      class Unordered {}
+      assert.throws(() => newSerializer().registerType(2000, Unordered, {
+        readExternal () {},
+        writeExternal (writer) { writer.writeObject(1, 'a'); writer.writeObject(0, 'b') }
+      }).serialize(new Unordered()), /must be an integer greater than 1/)
+    })
+
+    it('should read uniform collections, sparse arrays and references written by other clients', () => {
+      const serializer = newSerializer()
+      // T_UNIFORM_ARRAY of T_INT32 [1, 300]
+      assert.deepEqual(serializer.deserialize(Buffer.from([0x15, 0x58, 0x41, 0x02, 0x01, 0xAC, 0x04])), [1, 300])
+      // T_SPARSE_ARRAY of size 3 with index 1 = 'a'
+      assert.deepEqual(serializer.deserialize(Buffer.from([0x15, 0x59, 0x03, 0x01, 0x4E, 0x01, 0x61, 0x40])), [null, 'a', null])
+      // T_UNIFORM_MAP of T_CHAR_STRING to T_BOOLEAN {'a': true}
+      assert.deepEqual(serializer.deserialize(Buffer.from([0x15, 0x5D, 0x4E, 0x4A, 0x01, 0x01, 0x61, 0x01])), new Map([['a', true]]))
+      // T_COLLECTION containing T_IDENTITY 1 'a' and T_REFERENCE 1
+      assert.deepEqual(serializer.deserialize(Buffer.from([0x15, 0x55, 0x02, 0x5E, 0x01, 0x4E, 0x01, 0x61, 0x5F, 0x01])), ['a', 'a'])
+      assert.throws(() => serializer.deserialize(Buffer.from([0x16, 0x6A])), /unexpected format prefix 22/)
+    })
+  })
+})
@@ -137,6 +137,28 @@ describe('The RequestFactory', function () {
     assert.deepEqual(serializer.deserialize(ce.getComparator()), {'@class': 'SimpleComparator'})
   })
 
+  it('should be able to create an EntrySetRequest for a page of a sorted query', () => {
+    const query = new util.PagedQuery({ filter: Filters.always(), orderBy: ['tz', { extractor: 'population', descending: true }], limit: 2 })
+    const next = new util.PagedQuery({ filter: Filters.always(), orderBy: ['tz', { extractor: 'population', descending: true }], limit: 2,
+      cursor: query.resultOf([{}, {}]).cursor })
+    const ce = reqFactory.entrySet(next.limitFilter, next.comparator)
+
+    const comparator = {
+      '@class': 'comparator.ChainedComparator',
+      comparators: [
+        { '@class': 'comparator.ExtractorComparator', extractor: { '@class': 'extractor.UniversalExtractor', name: 'tz' } },
+        { '@class': 'comparator.InverseComparator',
+          comparator: { '@class': 'comparator.ExtractorComparator', extractor: { '@class': 'extractor.UniversalExtractor', name: 'population' } } }]
+    }
+    assert.deepEqual(serializer.deserialize(ce.getFilter()), {
+      '@class': 'filter.LimitFilter', filter: { '@class': 'filter.AlwaysFilter' }, pageSize: 2, page: 1, comparator: comparator
+    })
+    assert.deepEqual(serializer.deserialize(ce.getComparator()), comparator)
+    assert.equal(query.resultOf([{}]).cursor, null)
+    assert.throws(() => new util.PagedQuery({ limit: 3, cursor: query.resultOf([{}, {}]).cursor }),
+      /The query cursor was returned by a different query/)
+  })
+
   it('should be able to creat a KeySetRequest with Filter', () => {
     const filterSer = serializer.deserialize(serializer.serialize(Filters.always()))
     const ce = reqFactory.keySet(Filters.always())
@@ -5,10 +5,17 @@
  * http://oss.oracle.com/licenses/upl.
  */
 
-const { event, Session } = require('../lib')
+const { AuthOptions, Authenticator, event, Filters, LoadBalancingPolicy, Processors, Session, util } = require('../lib')
 const assert = require('assert').strict
 const { describe, it } = require('mocha');
+const childProcess = require('child_process')
+const crypto = require('crypto')
+const fs = require('fs')
+const os = require('os')
 const path = require('path')
+const { promisify } = require('util')
+const grpc = require('grpc')
+const net = require('net')
 
 describe('Session Tests Suite (unit/IT)', () => {
   describe('Session Unit Test Suite', () => {
@@ -67,6 +74,537 @@ describe('Session Tests Suite (unit/IT)', () => {
         assert.equal(session.options.tls.clientCertPath, process.cwd() + '/etc/cert/clientCert.pem')
         assert.equal(session.options.tls.clientKeyPath, process.cwd() + '/etc/cert/clientKey.pem')
       })
+
+      it('should have the expected reconnect defaults', () => {
+        const session = new Session()
+
+        assert.equal(session.options.reconnect.enabled, true)
+        assert.equal(session.options.reconnect.initialDelayInMillis, 250)
+        assert.equal(session.options.reconnect.maxDelayInMillis, 30000)
+        assert.equal(session.options.reconnect.multiplier, 2)
+        assert.equal(session.options.reconnect.maxAttempts, Number.POSITIVE_INFINITY)
+      })
+
+      it('should be able to specify custom reconnect options', () => {
+        const session = new Session({ reconnect: { enabled: false, initialDelayInMillis: 100, maxDelayInMillis: 1000, maxAttempts: 5 } })
+
+        assert.equal(session.options.reconnect.enabled, false)
+        assert.equal(session.options.reconnect.initialDelayInMillis, 100)
+        assert.equal(session.options.reconnect.maxDelayInMillis, 1000)
+        assert.equal(session.options.reconnect.multiplier, 2)
+        assert.equal(session.options.reconnect.maxAttempts, 5)
+      })
+
+      it('should bound the reconnect delay by the configured maximum', () => {
+        const session = new Session({ reconnect: { initialDelayInMillis: 100, maxDelayInMillis: 1000 } })
+
+        assert.equal(session.options.reconnect.delayFor(1), 100)
+        assert.equal(session.options.reconnect.delayFor(2), 200)
+        assert.equal(session.options.reconnect.delayFor(4), 800)
+        assert.equal(session.options.reconnect.delayFor(5), 1000)
+      })
+    })
+
+    describe('A RetryOptions', () => {
+      it('should have the expected retry defaults', () => {
+        const session = new Session()
+
+        assert.equal(session.options.retry.enabled, true)
+        assert.equal(session.options.retry.maxAttempts, 3)
+        assert.equal(session.options.retry.retryMutations, false)
+        assert.deepEqual(session.options.retry.retryableStatusCodes, [grpc.status.UNAVAILABLE, grpc.status.DEADLINE_EXCEEDED])
+        assert.equal(session.options.retry.isRetryable({ code: grpc.status.UNAVAILABLE }), true)
+        assert.equal(session.options.retry.isRetryable({ code: grpc.status.INVALID_ARGUMENT }), false)
+      })
+
+      it('should apply jitter within the bounded backoff', () => {
+        const session = new Session({ retry: { initialDelayInMillis: 100, maxDelayInMillis: 1000, jitter: 0.5 } })
+
+        for (let i = 0; i < 20; i++) {
+          const delay = session.options.retry.delayFor(2)
+          assert.ok(delay > 100 && delay <= 200, 'unexpected delay ' + delay)
+          assert.ok(session.options.retry.delayFor(10) <= 1000)
+        }
+      })
+
+      it('should retry read operations but not mutating operations by default', async () => {
+        let calls = 0
+        const session = new Session({
+          address: 'localhost:1',
+          callOptions: () => { calls++; return { deadline: Date.now() + 2000 } },
+          retry: { initialDelayInMillis: 10 }
+        })
+        const cache = session.getCache('retry-cache')
+
+        await assert.rejects(cache.get('a'), err => err.code === grpc.status.UNAVAILABLE)
+        assert.equal(calls, 3)
+
+        calls = 0
+        await assert.rejects(cache.set('a', 1), err => err.code === grpc.status.UNAVAILABLE)
+        assert.equal(calls, 1)
+        await session.close()
+      })
+
+      it('should retry mutating operations once enabled', async () => {
+        let calls = 0
+        const session = new Session({
+          address: 'localhost:1',
+          callOptions: () => { calls++; return { deadline: Date.now() + 2000 } },
+          retry: { initialDelayInMillis: 10, maxAttempts: 2, retryMutations: true }
+        })
+
+        await assert.rejects(session.getCache('retry-cache').set('a', 1), err => err.code === grpc.status.UNAVAILABLE)
+        assert.equal(calls, 2)
+        await session.close()
+      })
+    })
+
+    describe('A LoadBalancingOptions', () => {
+      it('should accept a list of addresses', () => {
+        const session = new Session({ address: 'localhost:1, localhost:2' })
+
+        assert.deepEqual(session.options.addresses, ['localhost:1', 'localhost:2'])
+        assert.equal(session.address, 'localhost:1,localhost:2')
+        assert.equal(session.channels.length, 2)
+        assert.equal(session.options.loadBalancing.policy, LoadBalancingPolicy.PICK_FIRST)
+        assert.throws(() => new Session({ address: 'localhost:1,localhost' }), /Configured: localhost$/)
+        assert.throws(() => new Session({ loadBalancing: { policy: 'random' } }), /Unsupported load balancing policy: random/)
+      })
+
+      it('should select channels based on the policy', async () => {
+        const pickFirst = new Session({ address: 'localhost:1,localhost:2' })
+        const roundRobin = new Session({
+          address: 'localhost:1,localhost:2',
+          loadBalancing: { policy: LoadBalancingPolicy.ROUND_ROBIN }
+        })
+
+        const select = (session) => [0, 1, 2, 3].map(() => session.channels.indexOf(session.channel))
+        assert.deepEqual(select(pickFirst), [0, 0, 0, 0])
+        assert.deepEqual(select(roundRobin), [1, 0, 1, 0])
+        await pickFirst.close()
+        await roundRobin.close()
+      })
+
+      it('should eject a channel whose proxy is unavailable', async () => {
+        const session = new Session({
+          address: 'localhost:1,localhost:2',
+          retry: { enabled: false },
+          loadBalancing: { ejectionTimeInMillis: 60000 }
+        })
+        const cache = session.getCache('lb-cache')
+        const first = session.channels[0]
+
+        assert.equal(session.channel, first)
+        await assert.rejects(cache.get('a'), err => err.code === grpc.status.UNAVAILABLE)
+        assert.equal(session.channel, session.channels[1])
+        await session.close()
+      })
+    })
+
+    describe('A Session connection', () => {
+      const SessionLifecycleEvent = event.SessionLifecycleEvent
+
+      const startServer = async (port = 0) => {
+        const server = new grpc.Server()
+        const bound = await new Promise((resolve, reject) => server.bindAsync('localhost:' + port,
+          grpc.ServerCredentials.createInsecure(), (err, p) => err ? reject(err) : resolve(p)))
+        server.start()
+        server.port = bound
+        return server
+      }
+
+      const record = (session, events) => {
+        for (const type of Object.values(SessionLifecycleEvent)) {
+          session.on(type, address => events.push([type, address]))
+        }
+      }
+
+      it('should emit connection state events and become ready once connected', async () => {
+        let server = await startServer()
+        const address = 'localhost:' + server.port
+        const session = new Session({ address })
+        const events = []
+        record(session, events)
+
+        assert.equal(session.connected, false)
+        await session.ready(5000)
+        assert.equal(session.connected, true)
+        assert.deepEqual(events, [[SessionLifecycleEvent.CONNECTING, address], [SessionLifecycleEvent.CONNECTED, address]])
+
+        const disconnected = new Promise(resolve => session.once(SessionLifecycleEvent.DISCONNECTED, resolve))
+        server.forceShutdown()
+        assert.equal(await disconnected, address)
+
+        server = await startServer(server.port)
+        await session.ready(5000)
+        assert.deepEqual(events[events.length - 1], [SessionLifecycleEvent.RECONNECTED, address])
+
+        await session.close()
+        server.forceShutdown()
+      })
+
+      it('should reject ready() if not connected within the timeout', async () => {
+        const session = new Session({ address: 'localhost:1' })
+
+        await assert.rejects(session.ready(100), /Session not connected within 100ms/)
+        assert.equal(session.connected, false)
+
+        await session.close()
+        await assert.rejects(session.ready(100), /Session has been closed/)
+      })
+    })
+
+    describe('A RequestOptions', () => {
+      // accepts connections but never responds, leaving requests in-flight
+      const silentServer = async () => {
+        const sockets = []
+        const server = net.createServer(socket => sockets.push(socket))
+        await new Promise(resolve => server.listen(0, 'localhost', resolve))
+        server.stop = () => {
+          sockets.forEach(socket => socket.destroy())
+          server.close()
+        }
+        return server
+      }
+
+      it('should cancel a request once its signal is aborted', async () => {
+        const server = await silentServer()
+        const session = new Session({ address: 'localhost:' + server.address().port })
+        const cache = session.getCache('abort-cache')
+
+        const controller = new AbortController()
+        const start = Date.now()
+        setTimeout(() => controller.abort(), 100)
+        await assert.rejects(cache.get('a', { signal: controller.signal }), err => err.code === grpc.status.CANCELLED)
+        await assert.rejects(cache.keys(Filters.always(), null, { signal: controller.signal }),
+          err => err.code === grpc.status.CANCELLED)
+        assert.ok(Date.now() - start < 5000)
+
+        await session.close()
+        server.stop()
+      })
+
+      it('should fail a request, without retrying it, once its deadline has passed', async () => {
+        const server = await silentServer()
+        let calls = 0
+        const session = new Session({
+          address: 'localhost:' + server.address().port,
+          callOptions: () => { calls++; return { deadline: Date.now() + 60000 } },
+          retry: { initialDelayInMillis: 10 }
+        })
+        const cache = session.getCache('deadline-cache')
+
+        await assert.rejects(cache.get('a', { deadline: Date.now() + 100 }), err => err.code === grpc.status.DEADLINE_EXCEEDED)
+        assert.equal(calls, 1)
+        await assert.rejects(cache.invokeAll(Processors.extract('a'), { timeoutInMillis: 100 }),
+          err => err.code === grpc.status.DEADLINE_EXCEEDED)
+
+        await session.close()
+        server.stop()
+      })
+    })
+
+    describe('An Interceptor', () => {
+      it('should see the request context and be able to short-circuit requests', async () => {
+        const session = new Session({ address: 'localhost:1' })
+        const contexts = []
+        session.addInterceptor((context, next) => {
+          if (context.operation === 'events') {
+            return next()
+          }
+          contexts.push(context)
+          context.metadata.set('x-tenant', 'a')
+          return context.operation === 'get' ? Promise.resolve('intercepted') : next()
+        })
+        const cache = session.getCache('interceptor-cache')
+
+        assert.equal(await cache.get('a'), 'intercepted')
+        assert.equal(contexts.length, 1)
+        assert.equal(contexts[0].cacheName, 'interceptor-cache')
+        assert.deepEqual(contexts[0].keys, ['a'])
+        assert.equal(contexts[0].attempt, 1)
+        assert.deepEqual(contexts[0].metadata.get('x-tenant'), ['a'])
+        assert.ok(contexts[0].request)
+
+        await session.close()
+      })
+
+      it('should observe the result of each attempt, in the order interceptors were added', async () => {
+        const session = new Session({ address: 'localhost:1', retry: { maxAttempts: 2, initialDelayInMillis: 10 } })
+        const observed = []
+        const outer = (context, next) => {
+          if (context.operation !== 'events') {
+            observed.push('outer:' + context.attempt)
+          }
+          return next()
+        }
+        const inner = (context, next) => context.operation === 'events' ? next() : next().catch(err => {
+          observed.push(context.operation + ':' + context.attempt + ':' + err.code)
+          assert.ok(context.elapsedInMillis >= 0)
+          throw err
+        })
+        session.addInterceptor(outer).addInterceptor(inner)
+        const cache = session.getCache('interceptor-cache')
+
+        await assert.rejects(cache.getAll(['a', 'b']), err => err.code === grpc.status.UNAVAILABLE)
+        assert.deepEqual(observed, ['outer:1', 'getAll:1:' + grpc.status.UNAVAILABLE, 'outer:2', 'getAll:2:' + grpc.status.UNAVAILABLE])
+
+        assert.equal(session.removeInterceptor(inner), true)
+        assert.equal(session.removeInterceptor(inner), false)
+        assert.equal(session.interceptors.size, 1)
+
+        await session.close()
+      })
+
+      it('should see the requests opening streams of pages and events', async () => {
+        const session = new Session({ address: 'localhost:1', retry: { enabled: false } })
+        const operations = []
+        session.addInterceptor((context, next) => {
+          operations.push(context.operation)
+          return next()
+        })
+        const cache = session.getCache('interceptor-cache')
+
+        const keys = (await cache.keys())[Symbol.asyncIterator]()
+        await assert.rejects(keys.next(), err => err.code === grpc.status.UNAVAILABLE)
+        assert.deepEqual(operations, ['events', 'nextKeySetPage'])
+        assert.equal(cache.metrics.snapshot().requests.nextKeySetPage.errors, 1)
+
+        await session.close()
+      })
+
+      it('should see and retry each attempt to iterate over filtered results', async () => {
+        const session = new Session({ address: 'localhost:1', retry: { maxAttempts: 2, initialDelayInMillis: 10 } })
+        const attempts = []
+        session.addInterceptor((context, next) => {
+          if (context.operation !== 'events') {
+            attempts.push(context.operation + ':' + context.attempt)
+          }
+          return next()
+        })
+        const cache = session.getCache('interceptor-cache')
+
+        await assert.rejects(cache.iterateKeys(Filters.always()).next(), err => err.code === grpc.status.UNAVAILABLE)
+        assert.deepEqual(attempts, ['iterateKeys:1', 'iterateKeys:2'])
+        assert.equal(cache.metrics.snapshot().requests.iterateKeys.errors, 2)
+
+        await session.close()
+      })
+    })
+
+    describe('A CacheEntry', () => {
+      it('should be read with get() and getAll(), and setExpiry() rejected, by caches accessed through the proxy', async () => {
+        const session = new Session({ address: 'localhost:1' })
+        const operations = []
+        const value = { '@version': 2, name: 'a' }
+        session.addInterceptor((context, next) => {
+          if (context.operation === 'events') {
+            return next()
+          }
+          operations.push(context.operation)
+          return Promise.resolve(context.operation === 'getAll' ? new Map([['a', value]]) : value)
+        })
+        const cache = session.getCache('entry-cache')
+
+        assert.deepEqual(await cache.getEntry('a'), { key: 'a', value, expiry: null, lastModified: null, version: 2 })
+        const entries = await cache.getAllEntries(['a', 'b'])
+        assert.deepEqual(Array.from(entries.keys()), ['a'])
+        assert.equal(entries.get('a').version, 2)
+        await assert.rejects(cache.setExpiry('a', 1000), /setExpiry is not supported by the gRPC proxy/)
+        assert.deepEqual(operations, ['get', 'getAll'])
+
+        await session.close()
+      })
+    })
+
+    describe('An AuthOptions', () => {
+      it('should produce bearer and basic authorization headers', async () => {
+        const bearer = new Authenticator(Object.assign(new AuthOptions(), { token: 'abc' }))
+        const basic = new Authenticator(Object.assign(new AuthOptions(), { username: 'user', password: 'secret' }))
+
+        assert.equal(await bearer.authorization(), 'Bearer abc')
+        assert.equal(await basic.authorization(), 'Basic ' + Buffer.from('user:secret').toString('base64'))
+        assert.ok(bearer.callCredentials())
+      })
+
+      it('should cache supplied tokens and refresh them before they expire', async () => {
+        let calls = 0
+        const options = new AuthOptions()
+        options.refreshAheadInMillis = 150
+        options.tokenProvider = () => {
+          calls++
+          return Promise.resolve({ token: 't' + calls, expiresAt: Date.now() + 200 })
+        }
+        const authenticator = new Authenticator(options)
+
+        const first = await Promise.all([authenticator.authorization(), authenticator.authorization()])
+        assert.deepEqual(first, ['Bearer t1', 'Bearer t1'])
+        assert.equal(calls, 1)
+
+        await new Promise(resolve => setTimeout(resolve, 60))
+        assert.equal(await authenticator.authorization(), 'Bearer t1') // refreshed in the background
+        await new Promise(resolve => setImmediate(resolve))
+        assert.equal(calls, 2)
+        assert.equal(await authenticator.authorization(), 'Bearer t2')
+
+        await new Promise(resolve => setTimeout(resolve, 210))
+        assert.equal(await authenticator.authorization(), 'Bearer t3')
+      })
+
+      it('should reject invalid configurations', () => {
+        assert.throws(() => new Session({ auth: { token: 'abc' } }), /Authentication requires TLS to be enabled/)
+        assert.throws(() => new Authenticator(Object.assign(new AuthOptions(), { token: 'abc', username: 'user' })),
+          /Only one of token, tokenProvider or username may be configured/)
+
+        const options = new AuthOptions()
+        options.lock()
+        options.token = 'abc'
+        assert.equal(options.enabled, false)
+      })
+    })
+
+    describe('A TlsOptions', () => {
+      const caCertPath = path.join(process.cwd(), 'etc', 'cert', 'ca.pem')
+
+      it('should accept PEM encoded material and a server name override', async () => {
+        const session = new Session({
+          address: 'localhost:1',
+          tls: {
+            enabled: true,
+            caCert: fs.readFileSync(caCertPath, 'utf8'),
+            serverNameOverride: 'coherence.example.com'
+          }
+        })
+        try {
+          assert.equal(session.options.tls.caCertPath, undefined)
+          assert.equal(session.options.tls.serverNameOverride, 'coherence.example.com')
+          assert.throws(() => new Session({ tls: { enabled: true, caCertPath: caCertPath, clientKey: 'key' } }),
+            /When TLS is enabled, clientKey and clientCert must be configured together/)
+
+          const { privateKey } = crypto.generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+          })
+          const clientCertPath = path.join(process.cwd(), 'etc', 'cert', 'clientCert.pem')
+          assert.throws(() => new Session({ tls: { enabled: true, caCertPath, clientCertPath, clientKey: privateKey } }),
+            /When TLS is enabled, clientKey must be the private key of clientCert/)
+        } finally {
+          await session.close()
+        }
+      })
+
+      it('should only accept ciphers that can take effect, and restore the environment once closed', async () => {
+        // gRPC reads the cipher suites once per process, so this runs in a process of its own
+        const script = `
+          const { Session } = require(${JSON.stringify(require.resolve('../lib'))})
+          const assert = require('assert').strict
+          const tls = { enabled: true, caCertPath: ${JSON.stringify(caCertPath)}, ciphers: 'ECDHE-RSA-AES128-GCM-SHA256' }
+          const main = async () => {
+            process.env.GRPC_SSL_CIPHER_SUITES = 'AES256-SHA'
+            assert.throws(() => new Session({ address: 'localhost:1', tls }),
+              /TLS ciphers conflict with the GRPC_SSL_CIPHER_SUITES environment variable/)
+            delete process.env.GRPC_SSL_CIPHER_SUITES
+
+            const session = new Session({ address: 'localhost:1', tls })
+            const other = new Session({ address: 'localhost:1', tls })
+            assert.equal(process.env.GRPC_SSL_CIPHER_SUITES, 'ECDHE-RSA-AES128-GCM-SHA256')
+            await session.close()
+            assert.equal(process.env.GRPC_SSL_CIPHER_SUITES, 'ECDHE-RSA-AES128-GCM-SHA256')
+            await other.close()
+            assert.equal(process.env.GRPC_SSL_CIPHER_SUITES, undefined)
+
+            assert.throws(() => new Session({ address: 'localhost:1', tls: Object.assign({}, tls, { ciphers: 'AES256-SHA' }) }),
+              /TLS ciphers cannot take effect as a secure channel has already been created with the cipher suites ECDHE-RSA-AES128-GCM-SHA256/)
+            assert.equal(process.env.GRPC_SSL_CIPHER_SUITES, undefined)
+          }
+          main().then(() => process.exit(0), (e) => { console.error(e); process.exit(1) })
+        `
+        await promisify(childProcess.execFile)(process.execPath, ['-e', script], { timeout: 30000 })
+      })
+
+      it('should rotate certificates when the certificate files change', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coherence-'))
+        const file = path.join(dir, 'ca.pem')
+        fs.copyFileSync(caCertPath, file)
+        const session = new Session({
+          address: 'localhost:1',
+          tls: { enabled: true, caCertPath: file, refreshIntervalInMillis: 20 }
+        })
+        const changed = (eventName) => new Promise(resolve => session.once(eventName, resolve))
+
+        try {
+          const channel = session.channels[0]
+          const rotated = changed(event.SessionLifecycleEvent.CERTIFICATES_ROTATED)
+          const later = new Date(Date.now() + 10000)
+          fs.utimesSync(file, later, later)
+          await rotated
+          assert.notEqual(session.channels[0], channel)
+
+          const failed = changed(event.SessionLifecycleEvent.CERTIFICATE_ROTATION_FAILED)
+          fs.unlinkSync(file)
+          assert.equal((await failed).code, 'ENOENT')
+        } finally {
+          await session.close()
+          fs.rmSync(dir, { recursive: true, force: true })
+        }
+      })
+    })
+
+    describe('A SerializerRegistry', () => {
+      const codec = (format) => ({
+        format,
+        serialize: (obj) => Buffer.from(JSON.stringify(obj)),
+        deserialize: (buf) => JSON.parse(Buffer.from(buf).toString())
+      })
+
+      it('should register and unregister serializers', () => {
+        const registry = new util.SerializerRegistry()
+        const serializer = codec('test')
+
+        registry.register(serializer)
+        assert.equal(registry.serializer('test'), serializer)
+        assert.throws(() => registry.register(codec('test')), /already registered for format: test/)
+        assert.throws(() => registry.register(codec('')), /must declare a format/)
+        assert.equal(registry.unregister('test'), true)
+        assert.equal(registry.unregister('test'), false)
+        assert.throws(() => registry.serializer('test'), /No serializer registered for format: test/)
+      })
+
+      it('should resolve formats from its parent', () => {
+        const registry = new util.SerializerRegistry(util.SerializerRegistry.instance())
+
+        assert.equal(registry.serializer('json'), util.SerializerRegistry.instance().serializer('json'))
+        assert.deepEqual(registry.register(codec('test')).formats, new Set(['json', 'pof', 'test']))
+        assert.equal(registry.unregister('json'), false)
+        assert.equal(registry.has('json'), true)
+        assert.equal(util.SerializerRegistry.instance().has('test'), false)
+      })
+
+      it('should release the cache used to validate a rejected format', async () => {
+        const session = new Session({ address: 'localhost:1', retry: { enabled: false } })
+        session.serializers.register(codec('test'))
+        session.addInterceptor(() => Promise.reject(Object.assign(new Error('rejected'), { code: grpc.status.INVALID_ARGUMENT, details: 'unknown format' })))
+
+        await assert.rejects(session.validateFormat('sess-codec', 'test'), /serialization format 'test' is not supported by the server: unknown format/)
+        assert.equal(session.activeCacheCount, 0)
+
+        const cache = session.getCache('sess-codec', 'test')
+        await assert.rejects(session.validateFormat('sess-codec', 'test'))
+        assert.equal(session.activeCacheCount, 1)
+        assert.equal(session.getCache('sess-codec', 'test'), cache)
+        await session.close()
+      })
+
+      it('should be scoped to a session', () => {
+        const session1 = new Session()
+        const session2 = new Session()
+        session1.serializers.register(codec('test'))
+
+        assert.equal(session1.getCache('sess-codec', 'test').name, 'sess-codec')
+        assert.throws(() => session2.getCache('sess-codec', 'test'), /No serializer registered for format: test/)
+        return Promise.all([session1.close(), session2.close()])
+      })
     })
   })
 
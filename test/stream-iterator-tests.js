@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { util } = require('../lib')
+const assert = require('assert').strict
+const { describe, it } = require('mocha')
+const { Readable } = require('stream')
+
+describe('StreamIterator Unit Test Suite', () => {
+  // a stand-in for a gRPC ClientReadableStream producing the provided results on demand
+  const streamOf = (results, calls) => {
+    const stream = new Readable({
+      objectMode: true,
+      highWaterMark: 1,
+      read () {
+        calls.read++
+        this.push(results.length > 0 ? results.shift() : null)
+      }
+    })
+    stream.cancel = () => {
+      calls.cancelled++
+      stream.destroy(Object.assign(new Error('Cancelled on client'), { code: 1 }))
+    }
+    return stream
+  }
+
+  it('should read no further than the page size ahead of the consumer', async () => {
+    const calls = { read: 0, cancelled: 0 }
+    const results = Array.from({ length: 1000 }, (_, i) => i)
+    const iterator = new util.StreamIterator(async () => streamOf(results, calls), r => r * 2, undefined, 10)
+
+    assert.deepEqual(await iterator.next(), { done: false, value: 0 })
+    await new Promise(resolve => setTimeout(resolve, 50))
+    assert.ok(calls.read < 20, 'read ' + calls.read + ' results ahead')
+
+    const values = []
+    for await (const value of iterator) {
+      values.push(value)
+      if (values.length === 99) {
+        break
+      }
+    }
+    assert.equal(values[98], 198)
+    assert.equal(calls.cancelled, 1)
+    assert.deepEqual(await iterator.next(), { done: true, value: undefined })
+  })
+
+  it('should request the next page using the cookie of the previous one', async () => {
+    const calls = { read: 0, cancelled: 0 }
+    const pages = { '': ['p2', 'a', 'b'], p2: ['', 'c'] }
+    const cookies = []
+    const iterator = new util.StreamIterator(async cookie => {
+      cookies.push(cookie)
+      return streamOf(pages[cookie || ''].slice(), calls)
+    }, r => r.toUpperCase(), r => r)
+
+    const values = []
+    for await (const value of iterator) {
+      values.push(value)
+    }
+    assert.deepEqual(values, ['A', 'B', 'C'])
+    assert.deepEqual(cookies, [undefined, 'p2'])
+    assert.equal(calls.cancelled, 0)
+  })
+
+  it('should fail with the error of the stream', async () => {
+    const stream = new Readable({ objectMode: true, read () { this.destroy(new Error('UNAVAILABLE')) } })
+    const iterator = new util.StreamIterator(async () => stream, r => r)
+
+    await assert.rejects(iterator.next(), /UNAVAILABLE/)
+    assert.deepEqual(await iterator.next(), { done: true, value: undefined })
+    assert.throws(() => new util.StreamIterator(() => stream, r => r, undefined, 0), /pageSize must be greater than zero/)
+  })
+})
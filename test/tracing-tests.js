@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) 2020 Oracle and/or its affiliates.
+ *
+ * Licensed under the Universal Permissive License v 1.0 as shown at
+ * http://oss.oracle.com/licenses/upl.
+ */
+
+const { propagation, trace, SpanKind, SpanStatusCode } = require('@opentelemetry/api')
+const { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } = require('@opentelemetry/sdk-trace-base')
+const { Session, tracing } = require('../lib')
+const assert = require('assert').strict
+const { describe, it, before, after, beforeEach } = require('mocha')
+const grpc = require('grpc')
+
+describe('Tracing Unit Test Suite', () => {
+  const exporter = new InMemorySpanExporter()
+  const provider = new BasicTracerProvider()
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter))
+
+  before(() => provider.register())
+  after(() => {
+    trace.disable()
+    propagation.disable()
+  })
+  beforeEach(() => exporter.reset())
+
+  it('should emit a span for each request and propagate its trace context', async () => {
+    const session = new Session({ address: 'localhost:1' })
+    let traceparent
+    session.addInterceptor(context => {
+      traceparent = context.metadata.get('traceparent')[0]
+      return Promise.resolve('intercepted')
+    })
+    const cache = session.getCache('tracing-cache')
+
+    assert.equal(await cache.get('a'), 'intercepted')
+
+    const spans = exporter.getFinishedSpans().filter(span => span.name !== 'coherence.events')
+    assert.equal(spans.length, 1)
+    assert.equal(spans[0].name, 'coherence.get')
+    assert.equal(spans[0].kind, SpanKind.CLIENT)
+    assert.deepEqual(spans[0].attributes, {
+      [tracing.SpanAttribute.CACHE_NAME]: 'tracing-cache',
+      [tracing.SpanAttribute.OPERATION]: 'get',
+      [tracing.SpanAttribute.FORMAT]: 'json',
+      [tracing.SpanAttribute.ATTEMPT]: 1,
+      [tracing.SpanAttribute.RPC_SYSTEM]: 'grpc',
+      [tracing.SpanAttribute.KEY_COUNT]: 1,
+      [tracing.SpanAttribute.GRPC_STATUS_CODE]: grpc.status.OK
+    })
+    const spanContext = spans[0].spanContext()
+    assert.equal(traceparent, '00-' + spanContext.traceId + '-' + spanContext.spanId + '-01')
+
+    await session.close()
+  })
+
+  it('should record the status of failed requests', async () => {
+    const session = new Session({ address: 'localhost:1', retry: { enabled: false } })
+    const cache = session.getCache('tracing-cache')
+
+    await assert.rejects(cache.getAll(['a', 'b']), err => err.code === grpc.status.UNAVAILABLE)
+
+    const spans = exporter.getFinishedSpans().filter(span => span.name !== 'coherence.events')
+    assert.equal(spans.length, 1)
+    assert.equal(spans[0].name, 'coherence.getAll')
+    assert.equal(spans[0].attributes[tracing.SpanAttribute.KEY_COUNT], 2)
+    assert.equal(spans[0].attributes[tracing.SpanAttribute.GRPC_STATUS_CODE], grpc.status.UNAVAILABLE)
+    assert.equal(spans[0].status.code, SpanStatusCode.ERROR)
+
+    await session.close()
+  })
+
+  it('should emit spans for events linked to the span the listener was registered in', () => {
+    const session = new Session({ address: 'localhost:1' })
+    const parent = provider.getTracer('test').startSpan('register')
+    let notified = false
+
+    session.tracer.traceEvent({ name: 'tracing-cache', description: 'insert' }, 'json', parent.spanContext(), () => {
+      notified = true
+    })
+
+    const spans = exporter.getFinishedSpans()
+    assert.equal(notified, true)
+    assert.equal(spans.length, 1)
+    assert.equal(spans[0].name, 'coherence.event')
+    assert.equal(spans[0].kind, SpanKind.CONSUMER)
+    assert.equal(spans[0].parentSpanId, undefined)
+    assert.deepEqual(spans[0].links.map(l => l.context.spanId), [parent.spanContext().spanId])
+    assert.equal(spans[0].attributes[tracing.SpanAttribute.EVENT_TYPE], 'insert')
+  })
+
+  it('should not emit spans when disabled', async () => {
+    const session = new Session({ address: 'localhost:1', tracing: { enabled: false } })
+    session.addInterceptor(context => Promise.resolve(context.metadata.get('traceparent')))
+    const cache = session.getCache('tracing-cache')
+
+    assert.deepEqual(await cache.get('a'), [])
+    assert.equal(exporter.getFinishedSpans().length, 0)
+
+    await session.close()
+  })
+})